@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, JSONRPCMessageSchema, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { decode } from '@toon-format/toon';
+import { SpecWorkflowHttpServer } from '../server.js';
+import { ProjectRegistry } from '../core/project-registry.js';
+import { DashboardSessionManager } from '../core/dashboard-session.js';
+import { SPEC_WORKFLOW_HOME_ENV } from '../core/global-dir.js';
+
+const DASHBOARD_TOKEN = 'dashboard-token';
+
+/**
+ * Minimal client side of the Streamable HTTP transport, enough to drive the SDK client
+ */
+class TestHttpClientTransport implements Transport {
+  sessionId?: string;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+  private controllers: Set<AbortController> = new Set();
+
+  constructor(private url: string, private token: string = DASHBOARD_TOKEN) {}
+
+  async start(): Promise<void> {}
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const res = await this.fetch('POST', JSON.stringify(message));
+    if (!res.ok) {
+      throw new Error(`HTTP ${res.status}: ${await res.text()}`);
+    }
+    this.sessionId ??= res.headers.get('mcp-session-id') ?? undefined;
+    if (res.headers.get('content-type')?.includes('text/event-stream')) {
+      void this.readEvents(res);
+    }
+  }
+
+  // Open the stream for server-initiated notifications
+  async openEventStream(): Promise<void> {
+    const res = await this.fetch('GET');
+    expect(res.status).toBe(200);
+    void this.readEvents(res);
+  }
+
+  async close(): Promise<void> {
+    for (const controller of this.controllers) {
+      controller.abort();
+    }
+    if (this.sessionId) {
+      await this.fetch('DELETE');
+    }
+    this.onclose?.();
+  }
+
+  private async fetch(method: string, body?: string): Promise<Response> {
+    const controller = new AbortController();
+    this.controllers.add(controller);
+    return fetch(this.url, {
+      method,
+      body,
+      signal: controller.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: `Bearer ${this.token}`,
+        ...(this.sessionId && { 'Mcp-Session-Id': this.sessionId })
+      }
+    });
+  }
+
+  private async readEvents(res: Response): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+      for await (const chunk of res.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(chunk, { stream: true });
+        let end: number;
+        while ((end = buffer.indexOf('\n\n')) !== -1) {
+          const data = buffer.slice(0, end).split('\n').find(line => line.startsWith('data: '));
+          buffer = buffer.slice(end + 2);
+          if (data) {
+            this.onmessage?.(JSONRPCMessageSchema.parse(JSON.parse(data.slice('data: '.length))));
+          }
+        }
+      }
+    } catch {
+      // Aborted on close
+    }
+  }
+}
+
+async function connectClient(url: string): Promise<{ client: Client; transport: TestHttpClientTransport }> {
+  const transport = new TestHttpClientTransport(url);
+  const client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: {} });
+  await client.connect(transport);
+  return { client, transport };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+describe('SpecWorkflowHttpServer', () => {
+  let testDir: string;
+  let projectA: string;
+  let projectB: string;
+  let previousHome: string | undefined;
+  let server: SpecWorkflowHttpServer;
+  let url: string;
+  const transports: TestHttpClientTransport[] = [];
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-http-test-${Date.now()}`);
+    projectA = join(testDir, 'project-a');
+    projectB = join(testDir, 'project-b');
+    previousHome = process.env[SPEC_WORKFLOW_HOME_ENV];
+    process.env[SPEC_WORKFLOW_HOME_ENV] = join(testDir, 'home');
+
+    await fs.mkdir(join(projectA, '.spec-workflow', 'specs', 'login'), { recursive: true });
+    await fs.writeFile(join(projectA, '.spec-workflow', 'specs', 'login', 'tasks.md'), '- [ ] 1. Build form\n');
+    await fs.mkdir(join(projectB, '.spec-workflow', 'specs', 'billing'), { recursive: true });
+    await fs.writeFile(join(projectB, '.spec-workflow', 'specs', 'billing', 'requirements.md'), '# Billing\n');
+
+    await new DashboardSessionManager().registerDashboard('http://localhost:5000', 5000, process.pid, DASHBOARD_TOKEN);
+    server = new SpecWorkflowHttpServer({ port: 0, host: '127.0.0.1', defaultProjectPath: projectA });
+    url = await server.start();
+  });
+
+  afterEach(async () => {
+    for (const transport of transports.splice(0)) {
+      await transport.close();
+    }
+    await server.stop();
+    if (previousHome === undefined) {
+      delete process.env[SPEC_WORKFLOW_HOME_ENV];
+    } else {
+      process.env[SPEC_WORKFLOW_HOME_ENV] = previousHome;
+    }
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should serve the same tools to sessions on different projects', async () => {
+    const a = await connectClient(url);
+    transports.push(a.transport);
+    const projectBId = await new ProjectRegistry().registerProject(projectB, process.pid);
+    const b = await connectClient(`${url}?project=${encodeURIComponent(projectBId)}`);
+    transports.push(b.transport);
+
+    expect(a.transport.sessionId).toBeDefined();
+    expect(a.transport.sessionId).not.toBe(b.transport.sessionId);
+    expect(server.getSessionCount()).toBe(2);
+
+    const { tools } = await a.client.listTools();
+    expect(tools.map(tool => tool.name)).toContain('spec-status');
+
+    const uris = async (client: Client) => (await client.listResources()).resources.map(resource => resource.uri);
+    expect(await uris(a.client)).toContain('spec-workflow://specs/login/tasks');
+    expect(await uris(a.client)).not.toContain('spec-workflow://specs/billing/requirements');
+    expect(await uris(b.client)).toContain('spec-workflow://specs/billing/requirements');
+
+    const status = await b.client.callTool({ name: 'spec-status', arguments: { specName: 'billing' } });
+    expect(status.isError).toBeFalsy();
+  });
+
+  it('should switch projects and run single calls on another project', async () => {
+    const { client, transport } = await connectClient(url);
+    transports.push(transport);
+    const text = (result: any) => decode(result.content[0].text) as any;
+
+    const registered = text(await client.callTool({ name: 'projects', arguments: { action: 'register', projectPath: projectB } }));
+    expect(registered.data.projectName).toBe('project-b');
+
+    const listed = text(await client.callTool({ name: 'projects', arguments: { action: 'list' } }));
+    expect(listed.data.projects.filter((project: any) => project.active).map((project: any) => project.projectPath)).toEqual([projectA]);
+
+    // One call on project-b by name, while project-a stays active
+    const billing = await client.callTool({ name: 'spec-status', arguments: { specName: 'billing', project: 'project-b' } });
+    expect(billing.isError).toBeFalsy();
+    expect((await client.callTool({ name: 'spec-status', arguments: { specName: 'billing' } })).isError).toBe(true);
+
+    await client.callTool({ name: 'projects', arguments: { action: 'switch', project: registered.data.projectId } });
+    expect((await client.callTool({ name: 'spec-status', arguments: { specName: 'billing' } })).isError).toBeFalsy();
+    const uris = (await client.listResources()).resources.map(resource => resource.uri);
+    expect(uris).toContain('spec-workflow://specs/billing/requirements');
+
+    const unknown = await client.callTool({ name: 'spec-status', arguments: { specName: 'billing', project: 'nope' } });
+    expect(unknown.isError).toBe(true);
+    expect(text(unknown).message).toContain("Unknown project: 'nope'");
+  });
+
+  it('should deliver resource notifications on the session event stream', async () => {
+    const { client, transport } = await connectClient(url);
+    transports.push(transport);
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      updated.push(notification.params.uri);
+    });
+
+    await transport.openEventStream();
+    await client.subscribeResource({ uri: 'spec-workflow://specs/login/tasks' });
+    await fs.writeFile(join(projectA, '.spec-workflow', 'specs', 'login', 'tasks.md'), '- [x] 1. Build form\n');
+
+    await waitFor(() => updated.length > 0);
+    expect(updated[0]).toBe('spec-workflow://specs/login/tasks');
+  });
+
+  it('should reject requests outside a session and end sessions on DELETE', async () => {
+    const post = (headers: Record<string, string> = {}) => fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: `Bearer ${DASHBOARD_TOKEN}`,
+        ...headers
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect((await post()).status).toBe(400);
+    expect((await post({ 'Mcp-Session-Id': 'unknown' })).status).toBe(404);
+
+    const { transport } = await connectClient(url);
+    const sessionId = transport.sessionId!;
+    await transport.close();
+    expect(server.getSessionCount()).toBe(0);
+    expect((await post({ 'Mcp-Session-Id': sessionId })).status).toBe(404);
+
+    await expect(connectClient(`${url}?project=relative/path`)).rejects.toThrow("Unknown project: 'relative/path'");
+  });
+
+  it('should reject foreign origins, missing tokens and unregistered project paths', async () => {
+    const initialize = (headers: Record<string, string>, query = '') => fetch(`${url}${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+      })
+    });
+    const authorization = { Authorization: `Bearer ${DASHBOARD_TOKEN}` };
+
+    expect((await initialize({})).status).toBe(401);
+    expect((await initialize({ Authorization: 'Bearer wrong' })).status).toBe(401);
+    expect((await initialize({ ...authorization, Origin: 'http://evil.example:3000' })).status).toBe(403);
+    expect((await initialize({ ...authorization, Origin: 'http://localhost:5000' })).status).toBe(200);
+
+    // A path that is not registered is refused instead of being initialized
+    const unregistered = join(testDir, 'elsewhere');
+    await fs.mkdir(unregistered);
+    const refused = await initialize(authorization, `?project=${encodeURIComponent(unregistered)}`);
+    expect(refused.status).toBe(400);
+    await expect(fs.access(join(unregistered, '.spec-workflow'))).rejects.toThrow();
+
+    await new DashboardSessionManager().unregisterDashboard();
+    expect((await initialize(authorization)).status).toBe(401);
+  });
+});
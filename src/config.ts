@@ -3,11 +3,53 @@ import * as path from 'path';
 import * as toml from 'toml';
 import { homedir } from 'os';
 
+export type ValidationDocumentType = 'requirements' | 'design' | 'tasks' | 'product' | 'tech' | 'structure';
+
+export type ValidationRuleScope = 'document' | 'task' | 'requirement';
+
+/**
+ * Declarative house rule from the [[validation.rules]] tables in config.toml.
+ * Each rule is checked against every unit in its scope: the whole document,
+ * each task in tasks.md, or each requirement in requirements.md.
+ */
+export interface ValidationRule {
+  id?: string;                         // Shown with reported issues (defaults to "validation.rules[N]")
+  documentType: ValidationDocumentType;
+  scope?: ValidationRuleScope;         // Defaults to "document"
+  required?: string;                   // Regex that must match each unit
+  forbidden?: string;                  // Regex that must not match any line of a unit
+  pattern?: string;                    // Regex counted for minCount/maxCount
+  minCount?: number;                   // Without pattern: tasks/requirements per document, acceptance criteria per requirement
+  maxCount?: number;
+  flags?: string;                      // Regex flags (e.g. "i")
+  message?: string;
+  severity?: 'error' | 'warning';      // Defaults to "error"
+}
+
+export interface ValidationConfig {
+  rules: ValidationRule[];
+}
+
+export interface ApprovalsConfig {
+  requiredApprovals?: number;          // Approvals needed per request (defaults to 1)
+  reviewers?: string[];                // Expected reviewers, reported as outstanding until they vote
+}
+
+export interface GitConfig {
+  commitPattern?: string;              // Regex with named groups "spec" and "task", matched against commit messages
+  mainBranch?: string;                 // Branch whose commits count as landed (defaults to main, then master)
+  autoCompleteTasks?: boolean;         // Mark referenced tasks completed once their commit is on the main branch
+}
+
 export interface SpecWorkflowConfig {
   projectDir?: string;
   port?: number;
+  host?: string;                       // Dashboard bind address
   dashboardOnly?: boolean;
   lang?: string;
+  validation?: ValidationConfig;
+  approvals?: ApprovalsConfig;
+  git?: GitConfig;
 }
 
 export interface ConfigLoadResult {
@@ -27,6 +69,121 @@ function validatePort(port: number): boolean {
   return Number.isInteger(port) && port >= 1024 && port <= 65535;
 }
 
+const VALIDATION_DOCUMENT_TYPES: ValidationDocumentType[] = ['requirements', 'design', 'tasks', 'product', 'tech', 'structure'];
+const VALIDATION_RULE_SCOPES: ValidationRuleScope[] = ['document', 'task', 'requirement'];
+
+function validateRegex(value: any, flags: string | undefined): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    new RegExp(value, flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function validateValidationRule(rule: any, index: number): string | undefined {
+  const name = `validation.rules[${index}]`;
+
+  if (typeof rule !== 'object' || rule === null || Array.isArray(rule)) {
+    return `Invalid ${name}: must be a table.`;
+  }
+  if (!VALIDATION_DOCUMENT_TYPES.includes(rule.documentType)) {
+    return `Invalid ${name}.documentType: must be one of ${VALIDATION_DOCUMENT_TYPES.join(', ')}.`;
+  }
+  if (rule.scope !== undefined && !VALIDATION_RULE_SCOPES.includes(rule.scope)) {
+    return `Invalid ${name}.scope: must be one of ${VALIDATION_RULE_SCOPES.join(', ')}.`;
+  }
+  if (rule.scope === 'task' && rule.documentType !== 'tasks') {
+    return `Invalid ${name}.scope: "task" can only be used with documentType "tasks".`;
+  }
+  if (rule.scope === 'requirement' && rule.documentType !== 'requirements') {
+    return `Invalid ${name}.scope: "requirement" can only be used with documentType "requirements".`;
+  }
+  if (rule.flags !== undefined && (typeof rule.flags !== 'string' || !/^[imsu]*$/.test(rule.flags))) {
+    return `Invalid ${name}.flags: only i, m, s and u are supported.`;
+  }
+  for (const key of ['required', 'forbidden', 'pattern']) {
+    if (rule[key] !== undefined && !validateRegex(rule[key], rule.flags)) {
+      return `Invalid ${name}.${key}: must be a valid regular expression.`;
+    }
+  }
+  for (const key of ['minCount', 'maxCount']) {
+    if (rule[key] !== undefined && (!Number.isInteger(rule[key]) || rule[key] < 0)) {
+      return `Invalid ${name}.${key}: must be a non-negative integer.`;
+    }
+  }
+  if ((rule.minCount !== undefined || rule.maxCount !== undefined) && rule.pattern === undefined) {
+    const scope = rule.scope || 'document';
+    const countable = scope === 'requirement' ||
+      (scope === 'document' && (rule.documentType === 'tasks' || rule.documentType === 'requirements'));
+    if (!countable) {
+      return `Invalid ${name}: minCount/maxCount need a pattern for ${rule.documentType} ${scope} rules.`;
+    }
+  }
+  if (rule.required === undefined && rule.forbidden === undefined && rule.minCount === undefined && rule.maxCount === undefined) {
+    return `Invalid ${name}: must define at least one of required, forbidden, minCount or maxCount.`;
+  }
+  if (rule.severity !== undefined && rule.severity !== 'error' && rule.severity !== 'warning') {
+    return `Invalid ${name}.severity: must be "error" or "warning".`;
+  }
+  if (rule.id !== undefined && typeof rule.id !== 'string') {
+    return `Invalid ${name}.id: must be a string.`;
+  }
+  if (rule.message !== undefined && typeof rule.message !== 'string') {
+    return `Invalid ${name}.message: must be a string.`;
+  }
+  return undefined;
+}
+
+function validateApprovalsConfig(approvals: any): string | undefined {
+  if (typeof approvals !== 'object' || approvals === null || Array.isArray(approvals)) {
+    return `Invalid approvals: must be a table.`;
+  }
+  const { requiredApprovals, reviewers } = approvals;
+  if (requiredApprovals !== undefined && (!Number.isInteger(requiredApprovals) || requiredApprovals < 1)) {
+    return `Invalid approvals.requiredApprovals: must be a positive integer.`;
+  }
+  if (reviewers !== undefined) {
+    if (!Array.isArray(reviewers) || reviewers.some((reviewer: any) => typeof reviewer !== 'string' || reviewer.trim() === '')) {
+      return `Invalid approvals.reviewers: must be an array of non-empty strings.`;
+    }
+    if (requiredApprovals !== undefined && requiredApprovals > reviewers.length) {
+      return `Invalid approvals.requiredApprovals: ${requiredApprovals} approvals required but only ${reviewers.length} reviewers listed.`;
+    }
+  }
+  return undefined;
+}
+
+function validateGitConfig(git: any): string | undefined {
+  if (typeof git !== 'object' || git === null || Array.isArray(git)) {
+    return `Invalid git: must be a table.`;
+  }
+  const { commitPattern, mainBranch, autoCompleteTasks } = git;
+  if (commitPattern !== undefined) {
+    if (typeof commitPattern !== 'string') {
+      return `Invalid git.commitPattern: must be a string.`;
+    }
+    try {
+      new RegExp(commitPattern);
+    } catch (error: any) {
+      return `Invalid git.commitPattern: ${error.message}`;
+    }
+    if (!commitPattern.includes('(?<spec>') || !commitPattern.includes('(?<task>')) {
+      return `Invalid git.commitPattern: must capture the named groups (?<spec>...) and (?<task>...).`;
+    }
+  }
+  if (mainBranch !== undefined && (typeof mainBranch !== 'string' || mainBranch.trim() === '')) {
+    return `Invalid git.mainBranch: must be a non-empty string.`;
+  }
+  if (autoCompleteTasks !== undefined && typeof autoCompleteTasks !== 'boolean') {
+    return `Invalid git.autoCompleteTasks: must be a boolean.`;
+  }
+  return undefined;
+}
+
 function validateConfig(config: any): { valid: boolean; error?: string } {
   if (config.port !== undefined) {
     if (!validatePort(config.port)) {
@@ -37,6 +194,13 @@ function validateConfig(config: any): { valid: boolean; error?: string } {
     }
   }
 
+  if (config.host !== undefined && (typeof config.host !== 'string' || config.host.trim() === '')) {
+    return {
+      valid: false,
+      error: `Invalid host: must be a non-empty string such as "127.0.0.1" or "0.0.0.0".`
+    };
+  }
+
   if (config.projectDir !== undefined && typeof config.projectDir !== 'string') {
     return {
       valid: false,
@@ -58,6 +222,44 @@ function validateConfig(config: any): { valid: boolean; error?: string } {
     };
   }
 
+  if (config.validation !== undefined) {
+    if (typeof config.validation !== 'object' || Array.isArray(config.validation)) {
+      return {
+        valid: false,
+        error: `Invalid validation: must be a table.`
+      };
+    }
+
+    const rules = config.validation.rules;
+    if (rules !== undefined && !Array.isArray(rules)) {
+      return {
+        valid: false,
+        error: `Invalid validation.rules: must be an array of tables ([[validation.rules]]).`
+      };
+    }
+
+    for (let i = 0; i < (rules || []).length; i++) {
+      const error = validateValidationRule(rules[i], i);
+      if (error) {
+        return { valid: false, error };
+      }
+    }
+  }
+
+  if (config.approvals !== undefined) {
+    const error = validateApprovalsConfig(config.approvals);
+    if (error) {
+      return { valid: false, error };
+    }
+  }
+
+  if (config.git !== undefined) {
+    const error = validateGitConfig(config.git);
+    if (error) {
+      return { valid: false, error };
+    }
+  }
+
   return { valid: true };
 }
 
@@ -95,6 +297,10 @@ export function loadConfigFromPath(configPath: string): ConfigLoadResult {
       config.port = parsedConfig.port;
     }
 
+    if (parsedConfig.host !== undefined) {
+      config.host = parsedConfig.host.trim();
+    }
+
     if (parsedConfig.dashboardOnly !== undefined) {
       config.dashboardOnly = parsedConfig.dashboardOnly;
     }
@@ -103,6 +309,27 @@ export function loadConfigFromPath(configPath: string): ConfigLoadResult {
       config.lang = parsedConfig.lang;
     }
 
+    if (parsedConfig.validation !== undefined) {
+      config.validation = {
+        rules: (parsedConfig.validation.rules || []).map((rule: any) => ({ ...rule }))
+      };
+    }
+
+    if (parsedConfig.approvals !== undefined) {
+      config.approvals = {
+        ...(parsedConfig.approvals.requiredApprovals !== undefined && { requiredApprovals: parsedConfig.approvals.requiredApprovals }),
+        ...(parsedConfig.approvals.reviewers !== undefined && { reviewers: [...parsedConfig.approvals.reviewers] })
+      };
+    }
+
+    if (parsedConfig.git !== undefined) {
+      config.git = {
+        ...(parsedConfig.git.commitPattern !== undefined && { commitPattern: parsedConfig.git.commitPattern }),
+        ...(parsedConfig.git.mainBranch !== undefined && { mainBranch: parsedConfig.git.mainBranch.trim() }),
+        ...(parsedConfig.git.autoCompleteTasks !== undefined && { autoCompleteTasks: parsedConfig.git.autoCompleteTasks })
+      };
+    }
+
     return { 
       config, 
       configPath: expandedPath 
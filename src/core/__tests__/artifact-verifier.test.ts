@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  ArtifactVerifier,
+  artifactKey,
+  loadVerificationReport,
+  parseArtifactLocation,
+  verifySpecArtifacts
+} from '../artifact-verifier.js';
+import { ImplementationLogManager } from '../../dashboard/implementation-log-manager.js';
+import { PathUtils } from '../path-utils.js';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('ArtifactVerifier', () => {
+  let testDir: string;
+
+  async function writeSource(path: string, content: string) {
+    await fs.mkdir(join(testDir, path, '..'), { recursive: true });
+    await fs.writeFile(join(testDir, path), content);
+  }
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-artifact-verifier-test-${Date.now()}`);
+    await writeSource('src/auth/jwt.ts', [
+      "import { sign } from 'jsonwebtoken';",
+      '',
+      'export class JwtService {',
+      '  issue(userId: string) {',
+      '    return sign({ userId }, SECRET);',
+      '  }',
+      '}',
+      '',
+      'export const verifyToken = (token: string) => token.length > 0;'
+    ].join('\n'));
+    await writeSource('src/routes.ts', [
+      "app.get('/api/users/:id', getUser);",
+      "router.post('/invoices', createInvoice);"
+    ].join('\n'));
+    await writeSource('lib/billing.py', [
+      'class InvoiceRepository:',
+      '    def find_invoice(self, invoice_id):',
+      '        pass'
+    ].join('\n'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should parse logged locations', () => {
+    expect(parseArtifactLocation('src/server.ts:245')).toEqual({ file: 'src/server.ts', line: 245 });
+    expect(parseArtifactLocation('src/server.ts:245-260')).toEqual({ file: 'src/server.ts', line: 245 });
+    expect(parseArtifactLocation('src/server.ts')).toEqual({ file: 'src/server.ts', line: undefined });
+    expect(parseArtifactLocation('  ')).toBeNull();
+  });
+
+  it('should find declarations in TypeScript files through the syntax tree', async () => {
+    const verifier = new ArtifactVerifier(testDir);
+
+    expect(await verifier.verifyArtifact('classes', { name: 'JwtService', location: 'src/auth/jwt.ts:1' }))
+      .toMatchObject({ status: 'verified', location: 'src/auth/jwt.ts:3' });
+    expect(await verifier.verifyArtifact('functions', { name: 'JwtService.issue()', location: 'src/auth/jwt.ts:4' }))
+      .toMatchObject({ status: 'verified', location: 'src/auth/jwt.ts:4' });
+    expect(await verifier.verifyArtifact('functions', { name: 'verifyToken', location: 'src/auth/jwt.ts' }))
+      .toMatchObject({ status: 'verified', location: 'src/auth/jwt.ts:9' });
+  });
+
+  it('should find routes by their path, including under a mounted prefix', async () => {
+    const verifier = new ArtifactVerifier(testDir);
+
+    expect(await verifier.verifyArtifact('apiEndpoints', { method: 'GET', path: '/api/users/:id', location: 'src/routes.ts:1' }))
+      .toMatchObject({ status: 'verified', location: 'src/routes.ts:1' });
+    expect(await verifier.verifyArtifact('apiEndpoints', { method: 'POST', path: '/api/invoices', location: 'src/routes.ts' }))
+      .toMatchObject({ status: 'verified', location: 'src/routes.ts:2' });
+  });
+
+  it('should fall back to patterns for other languages', async () => {
+    const verifier = new ArtifactVerifier(testDir);
+
+    expect(await verifier.verifyArtifact('classes', { name: 'InvoiceRepository', location: 'lib/billing.py:1' }))
+      .toMatchObject({ status: 'verified', location: 'lib/billing.py:1' });
+    expect(await verifier.verifyArtifact('functions', { name: 'find_invoice', location: 'lib/billing.py' }))
+      .toMatchObject({ status: 'verified', location: 'lib/billing.py:2' });
+  });
+
+  it('should tell moved artifacts from stale ones', async () => {
+    const verifier = new ArtifactVerifier(testDir);
+
+    expect(await verifier.verifyArtifact('classes', { name: 'JwtService', location: 'src/services/jwt.ts:10' }))
+      .toMatchObject({ status: 'moved', location: 'src/auth/jwt.ts:3' });
+
+    const stale = await verifier.verifyArtifact('functions', { name: 'hashPassword', location: 'src/auth/jwt.ts:20' });
+    expect(stale.status).toBe('stale');
+    expect(stale.reason).toContain('src/auth/jwt.ts');
+
+    expect((await verifier.verifyArtifact('integrations', { description: 'Login form posts to /api/login' })).status)
+      .toBe('unverifiable');
+    expect((await verifier.verifyArtifact('classes', { name: 'JwtService', location: '../elsewhere/jwt.ts' })).status)
+      .toBe('verified');
+  });
+
+  it('should record results per spec, dropping results of deleted log entries', async () => {
+    const specPath = PathUtils.getSpecPath(testDir, 'auth');
+    const manager = new ImplementationLogManager(specPath);
+    const entry = await manager.addLogEntry({
+      taskId: '1',
+      timestamp: '2025-01-10T10:00:00.000Z',
+      summary: 'JWT service',
+      filesModified: [],
+      filesCreated: ['src/auth/jwt.ts'],
+      statistics: { linesAdded: 9, linesRemoved: 0, filesChanged: 1 },
+      artifacts: {
+        classes: [{ name: 'JwtService', purpose: 'Issues tokens', location: 'src/auth/jwt.ts:3', isExported: true }],
+        functions: [{ name: 'revokeToken', purpose: 'Revokes tokens', location: 'src/auth/jwt.ts:12', isExported: true }]
+      }
+    });
+
+    await verifySpecArtifacts(testDir, specPath);
+    const report = await loadVerificationReport(manager.getLogsDir());
+    expect(report?.artifacts[artifactKey(entry.id, 'classes', 0)].status).toBe('verified');
+    expect(report?.artifacts[artifactKey(entry.id, 'functions', 0)].status).toBe('stale');
+
+    for (const file of await fs.readdir(manager.getLogsDir())) {
+      if (file.endsWith('.md')) await fs.rm(join(manager.getLogsDir(), file));
+    }
+    await manager.addLogEntry({ ...entry, taskId: '2', artifacts: {} });
+    const next = await verifySpecArtifacts(testDir, specPath);
+    expect(next.artifacts).toEqual({});
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  getDocumentType,
+  loadDocumentTemplate,
+  validateDocument,
+  registerDocumentValidator,
+  unregisterDocumentValidator,
+  getDocumentValidators,
+  formatDocumentValidationIssues
+} from '../document-validator.js';
+
+const DESIGN_TEMPLATE = `# Design Document
+
+## Overview
+
+[High-level description of the feature]
+
+## Architecture
+
+[Describe the overall architecture]
+
+## Testing Strategy (if applicable)
+
+[How the feature is tested]
+`;
+
+const DESIGN_CONTENT = `# Design Document
+
+## Overview
+
+Adds CSV export to the reports page.
+
+## Architecture
+
+The export runs in a background worker.
+`;
+
+describe('document-validator', () => {
+  let testDir: string | undefined;
+
+  afterEach(async () => {
+    unregisterDocumentValidator('design', 'no-lorem');
+    if (testDir) {
+      await fs.rm(testDir, { recursive: true, force: true });
+      testDir = undefined;
+    }
+  });
+
+  it('should map file paths to document types', () => {
+    expect(getDocumentType('.spec-workflow/specs/export/design.md')).toBe('design');
+    expect(getDocumentType('.spec-workflow\\steering\\tech.md')).toBe('tech');
+    expect(getDocumentType('docs/README.md')).toBeNull();
+  });
+
+  it('should register built-in validators for every document type', () => {
+    expect(getDocumentValidators('design').map(v => v.name)).toEqual(['required-sections', 'template-placeholders', 'project-rules']);
+    expect(getDocumentValidators('tasks').map(v => v.name)).toContain('tasks-format');
+    expect(getDocumentValidators('requirements').map(v => v.name)).toContain('requirements-format');
+  });
+
+  it('should pass a complete document', () => {
+    const result = validateDocument('design', DESIGN_CONTENT, DESIGN_TEMPLATE);
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toHaveLength(0);
+    expect(result.summary.requiredSections).toBe(2);
+  });
+
+  it('should reject missing and empty required sections', () => {
+    const content = `# Design Document
+
+## Overview
+
+## Components
+- Exporter
+`;
+    const result = validateDocument('design', content, DESIGN_TEMPLATE);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(e => e.message)).toEqual([
+      'Missing required section "Architecture"',
+      'Section "Overview" is empty'
+    ]);
+    expect(result.errors[1].line).toBe(3);
+    expect(result.guidance).toHaveLength(1);
+  });
+
+  it('should reject placeholder text left from the template and warn about TODO markers', () => {
+    const content = DESIGN_CONTENT
+      .replace('Adds CSV export to the reports page.', '[High-level description of the feature]')
+      .replace('The export runs in a background worker.', 'TODO: decide on worker model');
+    const result = validateDocument('design', content, DESIGN_TEMPLATE);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({ line: 5, field: 'placeholder' });
+    expect(result.warnings[0]).toMatchObject({ line: 9, field: 'placeholder' });
+  });
+
+  it('should not treat links and checkboxes as placeholders', () => {
+    const content = DESIGN_CONTENT + '\nSee [Overview](#overview).\n- [ ] Follow-up\n';
+    const result = validateDocument('design', content, '# Design\n\n## Overview\n\n[Overview]\n\n- [ ] task\n');
+    expect(result.valid).toBe(true);
+  });
+
+  it('should run custom validators and merge their issues', () => {
+    registerDocumentValidator('design', {
+      name: 'no-lorem',
+      validate: (content) => ({
+        issues: content.includes('lorem')
+          ? [{ line: 1, field: 'content', message: 'Lorem ipsum found', severity: 'error' }]
+          : []
+      })
+    });
+
+    const result = validateDocument('design', DESIGN_CONTENT + '\nlorem\n', DESIGN_TEMPLATE);
+    expect(result.valid).toBe(false);
+    expect(formatDocumentValidationIssues(result)).toEqual(['Found 1 error(s):', '  Line 1: Lorem ipsum found']);
+  });
+
+  it('should prefix task and criterion locations from the format validators', () => {
+    const result = validateDocument('tasks', '# Tasks\n\n- [ ] Missing ID\n');
+    expect(result.errors[0]).toMatchObject({ line: 3, field: 'taskId' });
+
+    const requirements = validateDocument('requirements', '## Requirements\n\n### Requirement 1\n\n**User Story:** As a user, I want x, so that y\n\n#### Acceptance Criteria\n\n1. The system should work\n');
+    expect(requirements.errors.find(e => e.field === 'ears')?.location).toBe('Criterion 1.1');
+  });
+
+  it('should prefer user templates over bundled templates', async () => {
+    testDir = join(tmpdir(), `spec-workflow-doc-validator-test-${Date.now()}`);
+    const bundled = await loadDocumentTemplate(testDir, 'design');
+    expect(bundled).toContain('## Architecture');
+
+    await fs.mkdir(join(testDir, '.spec-workflow', 'user-templates'), { recursive: true });
+    await fs.writeFile(join(testDir, '.spec-workflow', 'user-templates', 'design-template.md'), DESIGN_TEMPLATE);
+    expect(await loadDocumentTemplate(testDir, 'design')).toBe(DESIGN_TEMPLATE);
+  });
+});
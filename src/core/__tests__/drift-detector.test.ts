@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { detectSpecDrift } from '../drift-detector.js';
+import { ApprovalStorage } from '../../dashboard/approval-storage.js';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('drift-detector', () => {
+  let testDir: string;
+  let specDir: string;
+
+  async function approve(fileName: string) {
+    const storage = new ApprovalStorage(testDir);
+    const approvalId = await storage.createApproval(
+      fileName, `.spec-workflow/specs/test-spec/${fileName}`, 'spec', 'test-spec'
+    );
+    await storage.updateApproval(approvalId, 'approved', 'Approved');
+  }
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-drift-test-${Date.now()}`);
+    specDir = join(testDir, '.spec-workflow', 'specs', 'test-spec');
+    await fs.mkdir(specDir, { recursive: true });
+    await fs.writeFile(join(specDir, 'requirements.md'), '# Requirements\n\n- Users can log in\n');
+    await fs.writeFile(join(specDir, 'tasks.md'), '- [ ] 1. Build login\n  - File: src/login.ts\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should report approval status per document', async () => {
+    await approve('requirements.md');
+
+    const report = await detectSpecDrift(testDir, 'test-spec');
+    const byDoc = Object.fromEntries(report.documents.map(d => [d.document, d.status]));
+    expect(byDoc).toEqual({ requirements: 'in-sync', design: 'missing', tasks: 'not-approved' });
+    expect(report.hasDrift).toBe(false);
+  });
+
+  it('should detect edits made after approval and include a diff on request', async () => {
+    await approve('requirements.md');
+    await fs.writeFile(join(specDir, 'requirements.md'), '# Requirements\n\n- Users can log in with SSO\n');
+
+    const report = await detectSpecDrift(testDir, 'test-spec', { includeDiff: true });
+    const requirements = report.documents.find(d => d.document === 'requirements')!;
+    expect(report.hasDrift).toBe(true);
+    expect(requirements.status).toBe('drifted');
+    expect(requirements.stats?.changes).toBe(1);
+    expect(requirements.diff?.chunks[0].lines.some(l => l.type === 'add' && l.content.includes('SSO'))).toBe(true);
+  });
+
+  it('should ignore task checkbox progress in tasks.md', async () => {
+    await approve('tasks.md');
+    await fs.writeFile(join(specDir, 'tasks.md'), '- [x] 1. Build login\n  - File: src/login.ts\n');
+
+    const report = await detectSpecDrift(testDir, 'test-spec');
+    expect(report.documents.find(d => d.document === 'tasks')?.status).toBe('in-sync');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { simpleGit, SimpleGit } from 'simple-git';
+import { linkSpecCommits, parseCommitReferences, scanCommitReferences } from '../git-commits.js';
+import { ImplementationLogEntry } from '../../types.js';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('parseCommitReferences', () => {
+  it('should find references on one line or as trailers', () => {
+    expect(parseCommitReferences('Add login form (Spec: user-auth Task: 2.3)')).toEqual([{ spec: 'user-auth', task: '2.3' }]);
+    expect(parseCommitReferences('Add login form\n\nSpec: user-auth\nTask: 2.3\nspec: user-auth, task: 4')).toEqual([
+      { spec: 'user-auth', task: '2.3' },
+      { spec: 'user-auth', task: '4' }
+    ]);
+    expect(parseCommitReferences('Spec: a Task: 1\nSpec: a Task: 1')).toHaveLength(1);
+    expect(parseCommitReferences('Fix typo')).toEqual([]);
+    expect(parseCommitReferences('Spec: .. Task: 1\nSpec: ./x Task: 2')).toEqual([]);
+  });
+
+  it('should use a custom pattern', () => {
+    const pattern = String.raw`\[(?<spec>[\w-]+)#(?<task>[\d.]+)\]`;
+    expect(parseCommitReferences('[user-auth#1.2] Add session store', pattern)).toEqual([{ spec: 'user-auth', task: '1.2' }]);
+  });
+});
+
+describe('git commit links', () => {
+  let testDir: string;
+  let git: SimpleGit;
+
+  async function commit(message: string, file: string): Promise<string> {
+    await fs.writeFile(join(testDir, file), message);
+    await git.add('.');
+    await git.commit(message);
+    return (await git.revparse(['HEAD'])).trim();
+  }
+
+  function logEntry(id: string, taskId: string, commits: string[]): ImplementationLogEntry {
+    return {
+      id,
+      taskId,
+      timestamp: new Date().toISOString(),
+      summary: 'Work',
+      filesModified: [],
+      filesCreated: [],
+      statistics: { linesAdded: 0, linesRemoved: 0, filesChanged: 0 },
+      artifacts: {},
+      commits
+    };
+  }
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-git-commits-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    git = simpleGit(testDir);
+    await git.init();
+    await git.raw(['symbolic-ref', 'HEAD', 'refs/heads/main']);
+    await git.addConfig('user.name', 'Test');
+    await git.addConfig('user.email', 'test@example.com');
+    await git.addConfig('commit.gpgsign', 'false');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should link commits to tasks by message and implementation log, with their branches', async () => {
+    const landed = await commit('Add login form\n\nSpec: user-auth\nTask: 1.1', 'a.txt');
+    const unreferenced = await commit('Wire up session store', 'b.txt');
+    await commit('Spec: billing Task: 1', 'c.txt');
+    await git.checkoutLocalBranch('feature');
+    const pending = await commit('Add logout (Spec: user-auth Task: 1.2)', 'd.txt');
+
+    const links = await linkSpecCommits(testDir, 'user-auth', [
+      logEntry('log-1', '2', [unreferenced]),
+      logEntry('log-2', '1.1', [landed.slice(0, 10), 'deadbeef']),
+      logEntry('log-3', '3', ['--all', `--output=${join(testDir, 'pwned')}`])
+    ]);
+
+    expect(links?.mainBranch).toBe('main');
+    expect(Object.keys(links!.tasks).sort()).toEqual(['1.1', '1.2', '2']);
+    expect(await fs.readdir(testDir)).not.toContain('pwned^{commit}');
+    expect(links!.tasks['1.1']).toEqual([expect.objectContaining({
+      sha: landed,
+      subject: 'Add login form',
+      author: 'Test',
+      branches: ['feature', 'main'],
+      onMainBranch: true,
+      logEntryIds: ['log-2']
+    })]);
+    expect(links!.tasks['1.2']).toEqual([expect.objectContaining({ sha: pending, branches: ['feature'], onMainBranch: false, logEntryIds: [] })]);
+    expect(links!.tasks['2']).toEqual([expect.objectContaining({ sha: unreferenced, logEntryIds: ['log-1'] })]);
+  });
+
+  it('should scan references across specs and honor the main branch option', async () => {
+    await commit('Spec: user-auth Task: 1', 'a.txt');
+    await git.checkoutLocalBranch('release');
+    await commit('Spec: billing Task: 2', 'b.txt');
+
+    const scan = await scanCommitReferences(testDir);
+    expect(scan?.commits.map(commit => [commit.references, commit.onMainBranch])).toEqual([
+      [[{ spec: 'billing', task: '2' }], false],
+      [[{ spec: 'user-auth', task: '1' }], true]
+    ]);
+
+    const release = await scanCommitReferences(testDir, { mainBranch: 'release' });
+    expect(release?.mainBranch).toBe('release');
+    expect(release?.commits.every(commit => commit.onMainBranch)).toBe(true);
+
+    const outside = join(tmpdir(), `spec-workflow-no-git-commits-test-${Date.now()}`);
+    await fs.mkdir(outside, { recursive: true });
+    try {
+      expect(await scanCommitReferences(outside)).toBeNull();
+      expect(await linkSpecCommits(outside, 'user-auth', [])).toBeNull();
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+});
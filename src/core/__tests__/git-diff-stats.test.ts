@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { simpleGit, SimpleGit } from 'simple-git';
+import { collectGitDiffStats, resolveImplementationChanges } from '../git-diff-stats.js';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('git diff statistics', () => {
+  let testDir: string;
+  let git: SimpleGit;
+
+  async function write(path: string, content: string) {
+    await fs.mkdir(join(testDir, path, '..'), { recursive: true });
+    await fs.writeFile(join(testDir, path), content);
+  }
+
+  async function commit(message: string): Promise<string> {
+    await git.add('.');
+    await git.commit(message);
+    return (await git.revparse(['HEAD'])).trim();
+  }
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-git-diff-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+    git = simpleGit(testDir);
+    await git.init();
+    await git.addConfig('user.name', 'Test');
+    await git.addConfig('user.email', 'test@example.com');
+    await git.addConfig('commit.gpgsign', 'false');
+
+    await write('src/app.ts', 'const a = 1;\nconst b = 2;\n');
+    await write('README.md', '# App\n');
+    await commit('Initial');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should count uncommitted and untracked changes, ignoring workflow documents', async () => {
+    await write('src/app.ts', 'const a = 1;\nconst c = 3;\nconst d = 4;\n');
+    await write('src/new.ts', 'export {};\n');
+    await write('.spec-workflow/specs/app/tasks.md', '- [x] 1. Task\n');
+
+    expect(await collectGitDiffStats(testDir)).toEqual({
+      filesModified: ['src/app.ts'],
+      filesCreated: ['src/new.ts'],
+      statistics: { linesAdded: 3, linesRemoved: 1, filesChanged: 2 },
+      commits: []
+    });
+  });
+
+  it('should count the changes of a commit range and record its commits', async () => {
+    const base = (await git.revparse(['HEAD'])).trim();
+    await write('src/util.ts', 'export const x = 1;\n');
+    const first = await commit('Add util');
+    await fs.rm(join(testDir, 'README.md'));
+    const second = await commit('Remove readme');
+
+    const range = await collectGitDiffStats(testDir, { commitRange: `${base}..HEAD` });
+    expect(range).toMatchObject({
+      filesModified: ['README.md'],
+      filesCreated: ['src/util.ts'],
+      statistics: { linesAdded: 1, linesRemoved: 1, filesChanged: 2 },
+      commits: [first, second]
+    });
+
+    const single = await collectGitDiffStats(testDir, { commitRange: first });
+    expect(single).toMatchObject({ filesCreated: ['src/util.ts'], commits: [first] });
+
+    const sinceBase = await collectGitDiffStats(testDir, { baseRef: base });
+    expect(sinceBase?.commits).toEqual([first, second]);
+
+    await expect(collectGitDiffStats(testDir, { commitRange: 'no-such-ref' })).rejects.toThrow();
+  });
+
+  it('should refuse ranges and refs that git would read as options', async () => {
+    const output = join(testDir, 'pwned');
+
+    for (const options of [
+      { commitRange: `--output=${output}..HEAD` },
+      { commitRange: `HEAD~0..--output=${output}` },
+      { commitRange: `--output=${output}` },
+      { baseRef: `--output=${output}` }
+    ]) {
+      await expect(collectGitDiffStats(testDir, options)).rejects.toThrow();
+    }
+    await expect(fs.readdir(testDir)).resolves.not.toEqual(expect.arrayContaining([expect.stringMatching(/^pwned/)]));
+
+    const head = (await git.revparse(['HEAD'])).trim();
+    expect((await collectGitDiffStats(testDir, { commitRange: `${head}..` }))?.commits).toEqual([]);
+  });
+
+  it('should fall back to reported values outside a repository or without changes', async () => {
+    const reported = { filesModified: ['a.ts'], filesCreated: [], statistics: { linesAdded: 5, linesRemoved: 2 } };
+
+    const clean = await resolveImplementationChanges(testDir, reported);
+    expect(clean).toMatchObject({ statisticsSource: 'reported', statistics: { linesAdded: 5, linesRemoved: 2, filesChanged: 1 } });
+
+    await write('src/app.ts', 'changed\n');
+    const computed = await resolveImplementationChanges(testDir, reported);
+    expect(computed).toMatchObject({ statisticsSource: 'git', filesModified: ['src/app.ts'] });
+
+    const outside = join(tmpdir(), `spec-workflow-no-git-test-${Date.now()}`);
+    await fs.mkdir(outside, { recursive: true });
+    try {
+      expect(await collectGitDiffStats(outside)).toBeNull();
+      expect((await resolveImplementationChanges(outside, reported)).statisticsSource).toBe('reported');
+      await expect(resolveImplementationChanges(outside, {})).rejects.toThrow('statistics are required');
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ProjectWorkspaces } from '../project-workspaces.js';
+import { ProjectRegistry } from '../project-registry.js';
+import { PathUtils } from '../path-utils.js';
+import { SPEC_WORKFLOW_HOME_ENV } from '../global-dir.js';
+
+async function exists(path: string): Promise<boolean> {
+  return fs.access(path).then(() => true, () => false);
+}
+
+describe('ProjectWorkspaces', () => {
+  let testDir: string;
+  let previousHome: string | undefined;
+  let registry: ProjectRegistry;
+  let workspaces: ProjectWorkspaces;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-workspaces-test-${Date.now()}`);
+    previousHome = process.env[SPEC_WORKFLOW_HOME_ENV];
+    process.env[SPEC_WORKFLOW_HOME_ENV] = join(testDir, 'home');
+    for (const dir of ['shop', 'blog', join('other', 'shop')]) {
+      await fs.mkdir(join(testDir, dir), { recursive: true });
+    }
+    registry = new ProjectRegistry();
+    workspaces = new ProjectWorkspaces(registry, '1.0.0');
+  });
+
+  afterEach(async () => {
+    if (previousHome === undefined) {
+      delete process.env[SPEC_WORKFLOW_HOME_ENV];
+    } else {
+      process.env[SPEC_WORKFLOW_HOME_ENV] = previousHome;
+    }
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should initialize and register a project on first use only', async () => {
+    const shop = join(testDir, 'shop');
+    expect(await exists(join(shop, '.spec-workflow'))).toBe(false);
+
+    expect(await workspaces.prepare(shop)).toBe(shop);
+    expect(await exists(join(shop, '.spec-workflow', 'specs'))).toBe(true);
+    expect((await registry.getProject(shop))?.projectName).toBe('shop');
+
+    await fs.rm(join(shop, '.spec-workflow'), { recursive: true });
+    await workspaces.prepare(shop);
+    expect(await exists(join(shop, '.spec-workflow'))).toBe(false);
+    expect(await workspaces.getRegisteredPaths()).toEqual([shop]);
+  });
+
+  it('should resolve projects by ID, name or absolute path', async () => {
+    const blog = join(testDir, 'blog');
+    const blogId = await registry.registerProject(blog, process.pid);
+
+    expect(await workspaces.resolve(blogId)).toBe(blog);
+    expect(await workspaces.resolve('blog')).toBe(blog);
+    expect(await exists(join(blog, '.spec-workflow'))).toBe(true);
+
+    const shop = join(testDir, 'shop');
+    expect(await workspaces.resolve(shop)).toBe(shop);
+    expect((await workspaces.list()).map(project => project.projectName)).toEqual(['blog', 'shop']);
+
+    await expect(workspaces.resolve('missing')).rejects.toThrow("Unknown project: 'missing'");
+    await expect(workspaces.resolve(join(testDir, 'missing'))).rejects.toThrow('Project path does not exist');
+  });
+
+  it('should translate host paths in Docker mode', async () => {
+    process.env.SPEC_WORKFLOW_HOST_PATH_PREFIX = '/host/projects';
+    process.env.SPEC_WORKFLOW_CONTAINER_PATH_PREFIX = testDir;
+    PathUtils.resetPathConfig();
+    try {
+      expect(await workspaces.resolve('/host/projects/shop')).toBe(join(testDir, 'shop'));
+      expect(await registry.getProject(join(testDir, 'shop'))).not.toBeNull();
+    } finally {
+      delete process.env.SPEC_WORKFLOW_HOST_PATH_PREFIX;
+      delete process.env.SPEC_WORKFLOW_CONTAINER_PATH_PREFIX;
+      PathUtils.resetPathConfig();
+    }
+  });
+
+  it('should leave projects registered by another live server to it', async () => {
+    const blog = join(testDir, 'blog');
+    await registry.registerProject(blog, process.ppid);
+
+    expect(await workspaces.prepare(blog)).toBe(blog);
+    expect((await registry.getProject(blog))?.pid).toBe(process.ppid);
+    expect(await workspaces.getRegisteredPaths()).toEqual([]);
+  });
+
+  it('should refuse names that match several projects', async () => {
+    await workspaces.prepare(join(testDir, 'shop'));
+    await workspaces.prepare(join(testDir, 'other', 'shop'));
+
+    await expect(workspaces.resolve('shop')).rejects.toThrow("Several projects are named 'shop'");
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import { validateRequirementsMarkdown, formatRequirementsValidationErrors } from '../requirements-validator.js';
+import { parseEarsClause, parseUserStory } from '../requirements-parser.js';
+
+const VALID_CONTENT = `# Requirements Document
+
+## Introduction
+
+Export reports as CSV.
+
+## Requirements
+
+### Requirement 1
+
+**User Story:** As an analyst, I want to export reports, so that I can share them
+
+#### Acceptance Criteria
+
+1. WHEN the user clicks Export THEN the system SHALL download a CSV file
+2. IF the report is empty THEN the system SHALL show an empty-state message
+3. WHILE an export is running, the system SHALL disable the Export button
+
+## Non-Functional Requirements
+
+### Performance
+- Exports SHALL finish within 5 seconds
+`;
+
+describe('requirements-validator', () => {
+  describe('parseEarsClause', () => {
+    it('should split event-driven and unwanted-behavior criteria', () => {
+      expect(parseEarsClause('WHEN the user clicks Export THEN the system SHALL download a file')).toEqual({
+        pattern: 'event-driven',
+        keywords: ['WHEN'],
+        condition: 'the user clicks Export',
+        hasThen: true,
+        system: 'the system',
+        response: 'download a file'
+      });
+      expect(parseEarsClause('IF the token expired THEN the API SHALL return 401')?.pattern).toBe('unwanted-behavior');
+    });
+
+    it('should handle comma-separated, complex and ubiquitous criteria', () => {
+      const state = parseEarsClause('WHILE offline, the app SHALL queue changes');
+      expect(state).toMatchObject({ pattern: 'state-driven', condition: 'offline', system: 'the app', hasThen: false });
+
+      expect(parseEarsClause('WHILE offline, WHEN the user saves THEN the app SHALL queue the change')?.keywords)
+        .toEqual(['WHILE', 'WHEN']);
+      expect(parseEarsClause('The system SHALL log every request')).toMatchObject({ pattern: 'ubiquitous', system: 'The system' });
+      expect(parseEarsClause('The system should log every request')).toBeNull();
+    });
+  });
+
+  describe('parseUserStory', () => {
+    it('should extract role, goal and benefit', () => {
+      expect(parseUserStory('As an analyst, I want to export reports, so that I can share them')).toEqual({
+        role: 'analyst',
+        goal: 'export reports',
+        benefit: 'I can share them'
+      });
+      expect(parseUserStory('Export reports')).toBeNull();
+    });
+  });
+
+  describe('validateRequirementsMarkdown', () => {
+    it('should pass validation for template-conformant requirements', () => {
+      const result = validateRequirementsMarkdown(VALID_CONTENT);
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+      expect(result.warnings).toHaveLength(0);
+      expect(result.summary).toEqual({ totalRequirements: 1, totalCriteria: 3, validCriteria: 3, invalidCriteria: 0 });
+      expect(result.requirements[0].acceptanceCriteria[2].ears?.pattern).toBe('state-driven');
+    });
+
+    it('should report criteria without SHALL with line numbers and suggestions', () => {
+      const content = VALID_CONTENT.replace(
+        '2. IF the report is empty THEN the system SHALL show an empty-state message',
+        '2. IF the report is empty THEN the system should show an empty-state message'
+      );
+      const result = validateRequirementsMarkdown(content);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({
+        line: 16,
+        requirementId: '1',
+        criterionId: '1.2',
+        field: 'ears',
+        message: 'Acceptance criterion has no SHALL clause'
+      });
+      expect(result.errors[0].suggestion).toContain('Replace SHOULD/MUST/WILL with SHALL');
+      expect(result.summary.invalidCriteria).toBe(1);
+    });
+
+    it('should report empty conditions and responses', () => {
+      const content = VALID_CONTENT.replace(
+        '1. WHEN the user clicks Export THEN the system SHALL download a CSV file',
+        '1. WHEN THEN the system SHALL'
+      );
+      const result = validateRequirementsMarkdown(content);
+      expect(result.errors.map(e => e.message)).toEqual([
+        'WHEN clause has no condition',
+        'SHALL clause has no response'
+      ]);
+    });
+
+    it('should warn about missing THEN and malformed user stories', () => {
+      const content = VALID_CONTENT
+        .replace('As an analyst, I want to export reports, so that I can share them', 'Export reports')
+        .replace('1. WHEN the user clicks Export THEN the system SHALL', '1. WHEN the user clicks Export the system SHALL');
+      const result = validateRequirementsMarkdown(content);
+
+      expect(result.valid).toBe(true);
+      expect(result.warnings.map(w => w.field)).toEqual(['userStory', 'ears']);
+      expect(result.warnings[0].line).toBe(11);
+      expect(result.warnings[1].message).toBe('WHEN clause is missing THEN before the system name');
+    });
+
+    it('should require numbered acceptance criteria and unique IDs', () => {
+      const content = `## Requirements
+
+### Requirement 1
+
+**User Story:** As a user, I want to log in, so that my data is private
+
+#### Acceptance Criteria
+
+- WHEN the user logs in THEN the system SHALL create a session
+
+### Requirement 1
+
+**User Story:** As a user, I want to log out, so that my session ends
+
+#### Acceptance Criteria
+
+1. WHEN the user logs out THEN the system SHALL end the session
+`;
+      const result = validateRequirementsMarkdown(content);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(e => e.message)).toEqual([
+        'Acceptance criteria must be a numbered list',
+        'Duplicate requirement ID 1 (first defined on line 3)'
+      ]);
+    });
+
+    it('should fail when no requirements are found', () => {
+      const result = validateRequirementsMarkdown('# Requirements Document\n\nTBD\n');
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].message).toBe('No numbered requirements found');
+    });
+  });
+
+  describe('formatRequirementsValidationErrors', () => {
+    it('should format errors with criterion locations and suggestions', () => {
+      const result = validateRequirementsMarkdown(VALID_CONTENT.replace('SHALL download', 'will download'));
+      const messages = formatRequirementsValidationErrors(result);
+
+      expect(messages[0]).toBe('Found 1 error(s):');
+      expect(messages[1]).toBe('  Line 15 (Criterion 1.1): Acceptance criterion has no SHALL clause');
+      expect(messages[2]).toContain('Suggestion:');
+    });
+  });
+});
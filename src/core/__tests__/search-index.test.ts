@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { SearchIndex, tokenize, highlightRanges } from '../search-index.js';
+
+describe('tokenize', () => {
+  it('should lowercase words and split camelCase into parts', () => {
+    expect(tokenize('Use ApprovalStorage for snake_case').map(token => token.term)).toEqual([
+      'use', 'approvalstorage', 'approval', 'storage', 'for', 'snake', 'case'
+    ]);
+    expect(tokenize('parseHTTPHeader')[0]).toEqual({ term: 'parsehttpheader', start: 0, end: 15 });
+    expect(tokenize('parseHTTPHeader').slice(1).map(token => token.term)).toEqual(['parse', 'http', 'header']);
+  });
+});
+
+describe('SearchIndex', () => {
+  it('should rank documents with more and rarer matches first', () => {
+    const index = new SearchIndex<{ title: string }>();
+    index.add('a', ['# Login', 'Users sign in with a password.'], { title: 'A' });
+    index.add('b', ['# Export', 'Export a report of users.'], { title: 'B' });
+    index.add('c', ['# Login audit', 'Each login is recorded with the password strength.'], { title: 'C' });
+
+    const hits = index.search('login password');
+    expect(hits.map(hit => hit.id)).toEqual(['c', 'a']);
+    expect(hits[0].line).toBe(1);
+    expect(index.search('users').map(hit => hit.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('should match the last query term as a prefix', () => {
+    const index = new SearchIndex<null>();
+    index.add('a', ['The approval workflow'], null);
+    index.add('b', ['An approver signs off'], null);
+
+    expect(index.search('approv').map(hit => hit.id).sort()).toEqual(['a', 'b']);
+    expect(index.search('approv workflow')).toEqual([]);
+    expect(index.search('approval workf').map(hit => hit.id)).toEqual(['a']);
+  });
+
+  it('should forget removed and replaced documents', () => {
+    const index = new SearchIndex<{ spec: string }>();
+    index.add('a', ['alpha'], { spec: 'one' });
+    index.add('b', ['alpha beta'], { spec: 'two' });
+    index.add('a', ['gamma'], { spec: 'one' });
+
+    expect(index.search('alpha').map(hit => hit.id)).toEqual(['b']);
+    index.removeWhere(meta => meta.spec === 'two');
+    expect(index.search('alpha')).toEqual([]);
+    expect(index.size).toBe(1);
+  });
+
+  it('should rank partial, related and misspelled matches when any term may match', () => {
+    const index = new SearchIndex<null>();
+    index.add('jwt', ['JwtService', 'Issues signed tokens'], null, [3, 1]);
+    index.add('session', ['SessionStore', 'Keeps sessions in redis'], null, [3, 1]);
+    index.add('mailer', ['Mailer', 'Sends email'], null, [3, 1]);
+
+    const options = { matchAll: false, fuzzy: true, synonyms: { auth: ['jwt', 'session'] } };
+    expect(index.search('auth', options).map(hit => hit.id).sort()).toEqual(['jwt', 'session']);
+    expect(index.search('sesion', options)[0]).toMatchObject({ id: 'session', terms: ['session'] });
+    expect(index.search('jwt tokens', options)[0].id).toBe('jwt');
+    expect(index.search('jwt mailer', { ...options, matchAll: true })).toEqual([]);
+  });
+
+  it('should highlight whole words matching the query', () => {
+    expect(highlightRanges('The SpecWatcher watches specs', 'spec')).toEqual([[4, 15], [24, 29]]);
+    expect(highlightRanges('Nothing here', 'spec')).toEqual([]);
+  });
+});
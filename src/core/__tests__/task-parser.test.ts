@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { parseTasksFromMarkdown, findNextPendingTask, findDependencyCycles } from '../task-parser.js';
+
+describe('task-parser', () => {
+  describe('dependencies', () => {
+    it('should parse _Depends:_ into task dependencies', () => {
+      const content = `- [ ] 1. First task
+  - File: src/a.ts
+
+- [ ] 2. Second task
+  - File: src/b.ts
+  - _Depends: 1_
+
+- [ ] 3. Third task
+  - File: src/c.ts
+  - _Depends: 1, 2._
+`;
+      const result = parseTasksFromMarkdown(content);
+      expect(result.tasks[0].dependencies).toBeUndefined();
+      expect(result.tasks[1].dependencies).toEqual(['1']);
+      expect(result.tasks[2].dependencies).toEqual(['1', '2']);
+    });
+
+    it('should mark tasks with unfinished dependencies as blocked', () => {
+      const content = `- [x] 1. Done task
+  - File: src/a.ts
+
+- [ ] 2. Waiting on 1
+  - File: src/b.ts
+  - _Depends: 1_
+
+- [ ] 3. Waiting on 2
+  - File: src/c.ts
+  - _Depends: 2_
+`;
+      const result = parseTasksFromMarkdown(content);
+      const [first, second, third] = result.tasks;
+
+      expect(first.blocked).toBe(false);
+      expect(first.ready).toBe(false);
+      expect(second.blocked).toBe(false);
+      expect(second.ready).toBe(true);
+      expect(third.blocked).toBe(true);
+      expect(third.ready).toBe(false);
+      expect(third.blockedBy).toEqual(['2']);
+      expect(result.summary.ready).toBe(1);
+      expect(result.summary.blocked).toBe(1);
+    });
+
+    it('should treat a parent dependency as satisfied when all subtasks are completed', () => {
+      const content = `- [ ] 1. Parent group
+- [x] 1.1 First subtask
+  - File: src/a.ts
+- [x] 1.2 Second subtask
+  - File: src/b.ts
+
+- [ ] 2. Needs group 1
+  - File: src/c.ts
+  - _Depends: 1_
+`;
+      const result = parseTasksFromMarkdown(content);
+      const task = result.tasks.find(t => t.id === '2')!;
+      expect(task.blocked).toBe(false);
+      expect(task.ready).toBe(true);
+    });
+
+    it('should keep tasks depending on unknown IDs blocked', () => {
+      const content = `- [ ] 1. Orphan
+  - File: src/a.ts
+  - _Depends: 9_
+`;
+      const result = parseTasksFromMarkdown(content);
+      expect(result.tasks[0].blocked).toBe(true);
+      expect(result.tasks[0].blockedBy).toEqual(['9']);
+    });
+
+    it('should ignore dependency mentions inside prompts', () => {
+      const content = `- [ ] 1. Task with prompt
+  - File: src/a.ts
+  - _Prompt: Role: Developer | Task: Build it, _Depends: 5_ style notes | Success: Works_
+`;
+      const result = parseTasksFromMarkdown(content);
+      expect(result.tasks[0].dependencies).toBeUndefined();
+      expect(result.tasks[0].ready).toBe(true);
+    });
+
+    it('should skip blocked tasks when finding the next pending task', () => {
+      const content = `- [-] 1. In progress
+  - File: src/a.ts
+
+- [ ] 2. Blocked
+  - File: src/b.ts
+  - _Depends: 1_
+
+- [ ] 3. Independent
+  - File: src/c.ts
+`;
+      const result = parseTasksFromMarkdown(content);
+      expect(findNextPendingTask(result.tasks)?.id).toBe('3');
+    });
+  });
+
+  describe('findDependencyCycles', () => {
+    it('should return no cycles for an acyclic graph', () => {
+      const graph = new Map([['1', []], ['2', ['1']], ['3', ['1', '2']]]);
+      expect(findDependencyCycles(graph)).toEqual([]);
+    });
+
+    it('should detect a cycle with its path', () => {
+      const graph = new Map([['1', ['3']], ['2', ['1']], ['3', ['2']]]);
+      const cycles = findDependencyCycles(graph);
+      expect(cycles).toHaveLength(1);
+      expect(cycles[0][0]).toBe(cycles[0][cycles[0].length - 1]);
+      expect(cycles[0]).toHaveLength(4);
+    });
+
+    it('should ignore edges to IDs missing from the graph', () => {
+      const graph = new Map([['1', ['7']]]);
+      expect(findDependencyCycles(graph)).toEqual([]);
+    });
+  });
+});
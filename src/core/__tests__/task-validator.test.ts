@@ -157,6 +157,70 @@ describe('task-validator', () => {
       });
     });
 
+    describe('dependencies', () => {
+      it('should accept valid dependencies including parent task IDs', () => {
+        const content = `- [ ] 1. Parent group
+- [ ] 1.1 First subtask
+  - File: src/a.ts
+
+- [ ] 2. Depends on group
+  - File: src/b.ts
+  - _Depends: 1, 1.1_
+`;
+        const result = validateTasksMarkdown(content);
+        expect(result.valid).toBe(true);
+        expect(result.errors).toHaveLength(0);
+      });
+
+      it('should error on circular dependencies', () => {
+        const content = `- [ ] 1. First task
+  - File: src/a.ts
+  - _Depends: 2_
+
+- [ ] 2. Second task
+  - File: src/b.ts
+  - _Depends: 1_
+
+- [ ] 3. Unrelated task
+  - File: src/c.ts
+`;
+        const result = validateTasksMarkdown(content);
+        expect(result.valid).toBe(false);
+        const cycleError = result.errors.find(e => e.message.includes('Circular dependency'));
+        expect(cycleError?.field).toBe('dependencies');
+        expect(result.summary.validTasks).toBe(1);
+        expect(result.summary.invalidTasks).toBe(2);
+      });
+
+      it('should error on self and unknown dependencies', () => {
+        const content = `- [ ] 1. Self reference
+  - File: src/a.ts
+  - _Depends: 1_
+
+- [ ] 2. Unknown reference
+  - File: src/b.ts
+  - _Depends: 7_
+`;
+        const result = validateTasksMarkdown(content);
+        expect(result.valid).toBe(false);
+        expect(result.errors.some(e => e.message.includes('depends on itself'))).toBe(true);
+        expect(result.errors.some(e => e.message.includes('unknown task 7'))).toBe(true);
+      });
+
+      it('should warn on Depends without underscore delimiters', () => {
+        const content = `- [ ] 1. First task
+  - File: src/a.ts
+
+- [ ] 2. Second task
+  - File: src/b.ts
+  - Depends: 1
+`;
+        const result = validateTasksMarkdown(content);
+        expect(result.valid).toBe(true);
+        expect(result.warnings.some(w => w.field === 'dependencies')).toBe(true);
+      });
+    });
+
     describe('mixed valid and invalid tasks', () => {
       it('should report errors only for invalid tasks', () => {
         const content = `- [ ] 1. Valid task
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { buildTraceabilityMatrix } from '../traceability.js';
+import { parseRequirementsFromMarkdown, normalizeRequirementRef } from '../requirements-parser.js';
+import { ImplementationLogEntry } from '../../types.js';
+
+const REQUIREMENTS_CONTENT = `# Requirements Document
+
+## Introduction
+
+User login for the dashboard.
+
+## Requirements
+
+### Requirement 1: Login
+
+**User Story:** As a user, I want to log in, so that my data is private
+
+#### Acceptance Criteria
+
+1. WHEN the user submits valid credentials THEN the system SHALL create a session
+2. IF the credentials are invalid THEN the system SHALL show an error
+
+### Requirement 2: Logout
+
+**User Story:** As a user, I want to log out, so that nobody can reuse my session
+
+#### Acceptance Criteria
+
+1. WHEN the user logs out THEN the system SHALL destroy the session
+
+### Requirement 3: Audit
+
+**User Story:** As an admin, I want login events recorded
+
+## Non-Functional Requirements
+
+### 1. Performance
+- Login SHALL complete within 200ms
+`;
+
+const TASKS_CONTENT = `# Tasks Document
+
+- [x] 1. Create session store
+  - _Requirements: 1.1_
+
+- [-] 2. Create login form
+  - _Requirements: 1.1, 1.2_
+
+- [ ] 3. Create logout endpoint
+  - _Requirements: 2, 7_
+
+- [ ] 4. Write docs
+`;
+
+function logEntry(taskId: string): ImplementationLogEntry {
+  return {
+    id: `log-${taskId}`,
+    taskId,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    summary: `Implemented task ${taskId}`,
+    filesModified: [],
+    filesCreated: [],
+    statistics: { linesAdded: 1, linesRemoved: 0, filesChanged: 1 },
+    artifacts: {}
+  };
+}
+
+describe('requirements-parser', () => {
+  it('should parse numbered requirements with user stories and acceptance criteria', () => {
+    const result = parseRequirementsFromMarkdown(REQUIREMENTS_CONTENT);
+
+    expect(result.requirements.map(r => r.id)).toEqual(['1', '2', '3']);
+    expect(result.requirements[0].title).toBe('Login');
+    expect(result.requirements[0].userStory).toContain('I want to log in');
+    expect(result.requirements[0].acceptanceCriteria.map(c => c.id)).toEqual(['1.1', '1.2']);
+    expect(result.requirements[2].acceptanceCriteria).toHaveLength(0);
+    expect(result.summary).toEqual({ total: 3, acceptanceCriteria: 3 });
+  });
+
+  it('should normalize requirement references', () => {
+    expect(normalizeRequirementRef('2.3')).toBe('2.3');
+    expect(normalizeRequirementRef('Requirement 2')).toBe('2');
+    expect(normalizeRequirementRef('4.0')).toBe('4');
+  });
+});
+
+describe('buildTraceabilityMatrix', () => {
+  it('should map requirements and criteria to tasks and logs', () => {
+    const report = buildTraceabilityMatrix('login', REQUIREMENTS_CONTENT, TASKS_CONTENT, [logEntry('1')]);
+    const byId = Object.fromEntries(report.requirements.map(r => [r.id, r]));
+
+    expect(byId['1'].tasks).toEqual(['1', '2']);
+    expect(byId['1'].status).toBe('in-progress');
+    expect(byId['1.1']).toMatchObject({ parentId: '1', tasks: ['1', '2'], loggedTasks: ['1'] });
+    expect(byId['1.2'].tasks).toEqual(['2']);
+
+    // Referencing the requirement covers all of its criteria
+    expect(byId['2'].status).toBe('planned');
+    expect(byId['2.1'].tasks).toEqual(['3']);
+  });
+
+  it('should only mark requirements implemented when all tasks are completed and logged', () => {
+    const tasks = TASKS_CONTENT.replace('- [-] 2.', '- [x] 2.');
+    const withoutLog = buildTraceabilityMatrix('login', REQUIREMENTS_CONTENT, tasks, [logEntry('1')]);
+    expect(withoutLog.requirements.find(r => r.id === '1')?.status).toBe('in-progress');
+
+    const withLogs = buildTraceabilityMatrix('login', REQUIREMENTS_CONTENT, tasks, [logEntry('1'), logEntry('2')]);
+    expect(withLogs.requirements.find(r => r.id === '1')?.status).toBe('implemented');
+    expect(withLogs.summary.implementedRequirements).toBe(1);
+  });
+
+  it('should flag uncovered requirements and unknown references', () => {
+    const report = buildTraceabilityMatrix('login', REQUIREMENTS_CONTENT, TASKS_CONTENT, []);
+
+    expect(report.uncoveredRequirements).toEqual(['3']);
+    expect(report.unknownReferences).toEqual([{ taskId: '3', requirementId: '7' }]);
+    expect(report.summary).toMatchObject({
+      totalRequirements: 3,
+      coveredRequirements: 2,
+      totalCriteria: 3,
+      coveredCriteria: 3,
+      coveragePercent: 67
+    });
+  });
+
+  it('should ignore tasks without requirement references', () => {
+    const report = buildTraceabilityMatrix('login', REQUIREMENTS_CONTENT, TASKS_CONTENT, []);
+    expect(report.tasks.map(t => t.id)).toEqual(['1', '2', '3']);
+  });
+});
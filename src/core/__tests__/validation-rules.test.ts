@@ -0,0 +1,191 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { loadConfigFromPath } from '../../config.js';
+import { evaluateValidationRules, loadValidationRules } from '../validation-rules.js';
+import { validateProjectDocument } from '../document-validator.js';
+
+const TASKS_CONTENT = `# Tasks Document
+
+- [ ] 1. Create export service
+  - File: src/services/export.ts
+  - _Requirements: 1.1_
+
+- [ ] 2. Add export button
+  - _Requirements: 1.2_
+
+- [ ] 3. Wire up downloads
+  - [ ] 3.1 Add download helper
+    - File: src/utils/download.ts
+  - [ ] 3.2 Add progress toast
+`;
+
+const REQUIREMENTS_CONTENT = `# Requirements Document
+
+## Requirements
+
+### Requirement 1
+
+**User Story:** As an analyst, I want to export reports, so that I can share them
+
+#### Acceptance Criteria
+
+1. WHEN the user clicks Export THEN the system SHALL download a CSV file
+2. IF the report is empty THEN the system SHALL show an empty-state message
+3. WHILE an export is running, the system SHALL disable the Export button
+
+### Requirement 2
+
+**User Story:** As an analyst, I want to schedule exports, so that reports arrive automatically
+
+#### Acceptance Criteria
+
+1. WHEN a schedule is due THEN the system SHALL simply email the report
+
+## Non-Functional Requirements
+
+- Exports SHALL finish within 5 seconds
+`;
+
+describe('validation-rules', () => {
+  let testDir: string | undefined;
+
+  afterEach(async () => {
+    if (testDir) {
+      await fs.rm(testDir, { recursive: true, force: true });
+      testDir = undefined;
+    }
+  });
+
+  async function writeConfig(toml: string): Promise<string> {
+    testDir = join(tmpdir(), `spec-workflow-validation-rules-test-${Date.now()}`);
+    await fs.mkdir(join(testDir, '.spec-workflow'), { recursive: true });
+    await fs.writeFile(join(testDir, '.spec-workflow', 'config.toml'), toml);
+    return testDir;
+  }
+
+  describe('config loading', () => {
+    it('should load [[validation.rules]] from config.toml', async () => {
+      const projectDir = await writeConfig(`
+port = 4000
+
+[[validation.rules]]
+id = "task-files"
+documentType = "tasks"
+scope = "task"
+required = "File:"
+
+[[validation.rules]]
+documentType = "requirements"
+scope = "requirement"
+minCount = 3
+severity = "warning"
+`);
+      const { config, error } = loadConfigFromPath(join(projectDir, '.spec-workflow', 'config.toml'));
+      expect(error).toBeUndefined();
+      expect(config?.port).toBe(4000);
+      expect(config?.validation?.rules).toHaveLength(2);
+      expect(loadValidationRules(projectDir).rules[0]).toMatchObject({ id: 'task-files', scope: 'task' });
+    });
+
+    it('should reject invalid rules with their index', async () => {
+      const projectDir = await writeConfig(`
+[[validation.rules]]
+documentType = "tasks"
+forbidden = "("
+`);
+      const { rules, error } = loadValidationRules(projectDir);
+      expect(rules).toEqual([]);
+      expect(error).toContain('validation.rules[0]');
+    });
+
+    it('should reject scopes that do not apply to the document type', async () => {
+      const projectDir = await writeConfig(`
+[[validation.rules]]
+documentType = "design"
+scope = "task"
+required = "File:"
+`);
+      expect(loadValidationRules(projectDir).error).toContain('validation.rules[0]');
+    });
+  });
+
+  describe('evaluateValidationRules', () => {
+    it('should require patterns in every leaf task', () => {
+      const issues = evaluateValidationRules('tasks', TASKS_CONTENT, [
+        { id: 'task-files', documentType: 'tasks', scope: 'task', required: 'File:', message: 'Task is missing a File: bullet' }
+      ]);
+
+      expect(issues.map(i => i.location)).toEqual(['Task 2', 'Task 3.2']);
+      expect(issues[0]).toMatchObject({ line: 7, field: 'task-files', severity: 'error', message: 'Task is missing a File: bullet' });
+    });
+
+    it('should count acceptance criteria per requirement', () => {
+      const issues = evaluateValidationRules('requirements', REQUIREMENTS_CONTENT, [
+        { documentType: 'requirements', scope: 'requirement', minCount: 3 }
+      ]);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        line: 15,
+        location: 'Requirement 2',
+        field: 'validation.rules[0]',
+        message: 'Expected at least 3 acceptance criteria, found 1'
+      });
+    });
+
+    it('should report forbidden words on the matching line with the configured severity', () => {
+      const issues = evaluateValidationRules('requirements', REQUIREMENTS_CONTENT, [
+        { id: 'banned-words', documentType: 'requirements', forbidden: '\\b(simply|obviously)\\b', flags: 'i', severity: 'warning' },
+        { documentType: 'design', forbidden: 'export' }
+      ]);
+
+      expect(issues).toEqual([expect.objectContaining({
+        line: 21,
+        field: 'banned-words',
+        severity: 'warning',
+        message: 'Forbidden text "simply"'
+      })]);
+    });
+
+    it('should count pattern matches across the document', () => {
+      const issues = evaluateValidationRules('tasks', TASKS_CONTENT, [
+        { documentType: 'tasks', pattern: '_Requirements:', minCount: 5 },
+        { documentType: 'tasks', maxCount: 3 }
+      ]);
+
+      expect(issues.map(i => i.message)).toEqual([
+        'Expected at least 5 matches of /_Requirements:/, found 2',
+        'Expected at most 3 tasks, found 4'
+      ]);
+    });
+  });
+
+  describe('validateProjectDocument', () => {
+    it('should merge project rule issues into document validation', async () => {
+      const projectDir = await writeConfig(`
+[[validation.rules]]
+id = "task-files"
+documentType = "tasks"
+scope = "task"
+required = "File:"
+`);
+      const result = await validateProjectDocument(projectDir, 'tasks', TASKS_CONTENT);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.filter(e => e.field === 'task-files')).toHaveLength(2);
+    });
+
+    it('should fail validation when the project rules are invalid', async () => {
+      const projectDir = await writeConfig(`
+[[validation.rules]]
+documentType = "tasks"
+`);
+      const result = await validateProjectDocument(projectDir, 'tasks', TASKS_CONTENT);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].field).toBe('config');
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { readFile } from 'fs/promises';
+import { basename, join } from 'path';
+import { PathUtils } from './path-utils.js';
+import { ApprovalStorage } from '../dashboard/approval-storage.js';
+
+/**
+ * Approval state of a single spec or steering document
+ */
+export interface DocumentApprovalState {
+  approved: boolean;
+  approvedAt?: string;
+  changedSinceApproval: boolean;
+  source?: 'snapshot' | 'record';   // What the approval was derived from
+}
+
+export type ApprovalGateResult =
+  | { allowed: true; approvedAt?: string }
+  | { allowed: false; reason: 'not-approved' | 'changed-since-approval'; message: string; nextSteps: string[] };
+
+/**
+ * Reset every task checkbox marker to pending ([ ])
+ */
+export function resetTaskMarkers(content: string): string {
+  return content.replace(/^(\s*)-\s+\[[ x\-]\]/gm, '$1- [ ]');
+}
+
+/**
+ * Normalize document content before comparing it with the approved snapshot.
+ * Task checkbox markers are reset for tasks.md so that progress updates
+ * ([ ] -> [-] -> [x]) do not count as changes to the approved plan.
+ */
+export function normalizeApprovedContent(content: string, fileName: string): string {
+  let normalized = content.replace(/\r\n/g, '\n');
+  if (fileName === 'tasks.md') {
+    normalized = resetTaskMarkers(normalized);
+  }
+  return normalized
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Derive the approval state of a document from its approved snapshots and approval records.
+ * Approved snapshots are preferred because they survive approval deletion and allow
+ * detecting edits made after approval. Approval records without a snapshot (e.g. approved
+ * from the VS Code extension) count as approved, but cannot be checked for changes.
+ */
+export async function getDocumentApprovalState(
+  projectPath: string,
+  categoryName: string,
+  fileName: string,
+  currentContent?: string
+): Promise<DocumentApprovalState> {
+  const approvalStorage = new ApprovalStorage(projectPath);
+
+  const snapshot = await approvalStorage.getLatestApprovedSnapshot(categoryName, fileName);
+  const record = (await approvalStorage.getAllApprovals()).find(approval =>
+    approval.status === 'approved' &&
+    approval.categoryName === categoryName &&
+    basename(approval.filePath) === fileName
+  );
+
+  // The approved snapshot is captured just before the record is marked approved,
+  // so a record only wins when it belongs to a later approval without a snapshot
+  const snapshotTime = snapshot ? new Date(snapshot.timestamp).getTime() : 0;
+  const recordTime = record?.respondedAt ? new Date(record.respondedAt).getTime() : 0;
+  const useSnapshot = snapshot && (!record || snapshot.approvalId === record.id || snapshotTime >= recordTime);
+
+  if (snapshot && useSnapshot) {
+    const changedSinceApproval = currentContent !== undefined &&
+      normalizeApprovedContent(currentContent, fileName) !== normalizeApprovedContent(snapshot.content, fileName);
+    return {
+      approved: true,
+      approvedAt: snapshot.timestamp,
+      changedSinceApproval,
+      source: 'snapshot'
+    };
+  }
+
+  if (record) {
+    return {
+      approved: true,
+      approvedAt: record.respondedAt,
+      changedSinceApproval: false,
+      source: 'record'
+    };
+  }
+
+  return { approved: false, changedSinceApproval: false };
+}
+
+/**
+ * Check that a spec's tasks.md is approved and unchanged since approval.
+ * Implementation logging and task status changes are only allowed when this passes.
+ */
+export async function checkTasksApprovalGate(projectPath: string, specName: string): Promise<ApprovalGateResult> {
+  const tasksPath = join(PathUtils.getSpecPath(projectPath, specName), 'tasks.md');
+
+  let content: string | undefined;
+  try {
+    content = await readFile(tasksPath, 'utf-8');
+  } catch {
+    // Missing tasks.md is reported as not approved
+  }
+
+  const state = await getDocumentApprovalState(projectPath, specName, 'tasks.md', content);
+
+  if (!state.approved) {
+    return {
+      allowed: false,
+      reason: 'not-approved',
+      message: `Tasks for specification '${specName}' have not been approved. Implementation is blocked until tasks.md is approved in the dashboard.`,
+      nextSteps: [
+        'BLOCKED - Do not implement tasks yet',
+        `Request approval: approvals action:"request" filePath:".spec-workflow/specs/${specName}/tasks.md"`,
+        'Wait for approval in the dashboard or VS Code extension',
+        'Requirements and design must be approved before tasks'
+      ]
+    };
+  }
+
+  if (state.changedSinceApproval) {
+    return {
+      allowed: false,
+      reason: 'changed-since-approval',
+      message: `tasks.md for specification '${specName}' changed since it was approved on ${state.approvedAt}. Implementation is blocked until the changes are approved.`,
+      nextSteps: [
+        'BLOCKED - The approved task plan was modified',
+        'Review the changes in the dashboard',
+        `Request approval again: approvals action:"request" filePath:".spec-workflow/specs/${specName}/tasks.md"`
+      ]
+    };
+  }
+
+  return { allowed: true, approvedAt: state.approvedAt };
+}
@@ -0,0 +1,411 @@
+import type ts from 'typescript';
+import { promises as fs } from 'fs';
+import { extname, isAbsolute, join, normalize, relative, sep } from 'path';
+import { ImplementationLogEntry } from '../types.js';
+import { ImplementationLogManager } from '../dashboard/implementation-log-manager.js';
+
+export type ArtifactCollection = keyof ImplementationLogEntry['artifacts'];
+
+/**
+ * - verified: found where the log says, or anywhere when the log gave no file
+ * - moved: no longer at the logged file, but declared elsewhere in the project
+ * - stale: not found anywhere in the project
+ * - unverifiable: nothing to look for, e.g. integrations, which have no name or location
+ */
+export type ArtifactStatus = 'verified' | 'moved' | 'stale' | 'unverifiable';
+
+export interface ArtifactVerification {
+  status: ArtifactStatus;
+  location?: string;   // Where it is now, as path:line relative to the project root
+  reason?: string;     // Why it is stale or unverifiable
+  checkedAt: string;
+}
+
+export interface ArtifactVerificationReport {
+  verifiedAt: string;
+  artifacts: Record<string, ArtifactVerification>;  // By artifactKey()
+}
+
+export const VERIFICATION_FILE = 'artifact-verification.json';
+
+const TS_EXTENSIONS = new Set(['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']);
+const SOURCE_EXTENSIONS = new Set([
+  ...TS_EXTENSIONS,
+  '.py', '.go', '.rs', '.java', '.kt', '.kts', '.scala', '.rb', '.php', '.cs', '.swift',
+  '.c', '.cc', '.cpp', '.h', '.hpp', '.vue', '.svelte', '.dart', '.ex', '.exs'
+]);
+const IGNORED_DIRECTORIES = new Set([
+  'node_modules', 'dist', 'build', 'out', 'coverage', 'target', 'vendor', '__pycache__', 'bin', 'obj'
+]);
+
+// Bounds on the project-wide scan used to find code that moved
+const MAX_SCANNED_FILES = 5000;
+const MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Key of an artifact within a spec's logs: the log entry, the collection and the position in it
+ */
+export function artifactKey(logId: string, collection: ArtifactCollection, index: number): string {
+  return `${logId}:${collection}:${index}`;
+}
+
+// What a source file declares, and the string literals in it, with 1-based line numbers
+interface FileFacts {
+  symbols: Map<string, number[]>;
+  literals: Map<string, number[]>;
+}
+
+function addFact(facts: Map<string, number[]>, key: string, line: number): void {
+  const lines = facts.get(key);
+  if (lines) {
+    lines.push(line);
+  } else {
+    facts.set(key, [line]);
+  }
+}
+
+type TypeScript = typeof ts;
+
+let typescript: Promise<TypeScript> | undefined;
+
+// The compiler is large: it is loaded by the first verification, not by every server importing this module
+function loadTypeScript(): Promise<TypeScript> {
+  typescript ??= import('typescript').then(module => module.default);
+  return typescript;
+}
+
+function scriptKind(ts: TypeScript, extension: string): ts.ScriptKind {
+  switch (extension) {
+    case '.tsx': return ts.ScriptKind.TSX;
+    case '.jsx': return ts.ScriptKind.JSX;
+    case '.js': case '.mjs': case '.cjs': return ts.ScriptKind.JS;
+    default: return ts.ScriptKind.TS;
+  }
+}
+
+/**
+ * Declarations and string literals of a TypeScript or JavaScript file, from its syntax tree.
+ * Class members are recorded both by name and as Class.member.
+ */
+async function typeScriptFacts(fileName: string, content: string): Promise<FileFacts> {
+  const ts = await loadTypeScript();
+  const source = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, scriptKind(ts, extname(fileName)));
+  const facts: FileFacts = { symbols: new Map(), literals: new Map() };
+  const lineOf = (node: ts.Node) => source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+
+  const visit = (node: ts.Node, container?: string) => {
+    let name: string | undefined;
+    if (
+      ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node) ||
+      ts.isTypeAliasDeclaration(node) || ts.isEnumDeclaration(node) || ts.isModuleDeclaration(node)
+    ) {
+      name = node.name && ts.isIdentifier(node.name) ? node.name.text : undefined;
+    } else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name)) {
+      name = node.name.text;
+    } else if (
+      ts.isMethodDeclaration(node) || ts.isPropertyDeclaration(node) || ts.isGetAccessor(node) ||
+      ts.isSetAccessor(node) || ts.isPropertyAssignment(node) || ts.isMethodSignature(node) || ts.isPropertySignature(node)
+    ) {
+      name = ts.isIdentifier(node.name) || ts.isStringLiteral(node.name) ? node.name.text : undefined;
+    } else if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+      addFact(facts.literals, node.text, lineOf(node));
+    }
+
+    if (name) {
+      addFact(facts.symbols, name, lineOf(node));
+      if (container) {
+        addFact(facts.symbols, `${container}.${name}`, lineOf(node));
+      }
+    }
+
+    const isContainer = ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node) ||
+      ts.isModuleDeclaration(node) || (ts.isVariableDeclaration(node) && !!node.initializer && ts.isObjectLiteralExpression(node.initializer));
+    ts.forEachChild(node, child => visit(child, isContainer && name ? name : container));
+  };
+  visit(source);
+  return facts;
+}
+
+/**
+ * Declarations and string literals of a file in another language, by pattern. Declarations
+ * are recognised by the keywords common languages use (function, def, func, class, struct, ...)
+ * and by assignments of functions.
+ */
+function patternFacts(content: string): FileFacts {
+  const facts: FileFacts = { symbols: new Map(), literals: new Map() };
+  const declaration = new RegExp([
+    String.raw`\b(?:function|def|func|fn|fun|sub|class|interface|struct|trait|enum|type|module|protocol|object|record)\s+(?:\([^)]*\)\s*)?([A-Za-z_$][\w$]*)`,
+    String.raw`\b(?:const|let|var|val)\s+([A-Za-z_$][\w$]*)`,
+    String.raw`^\s*(?:(?:public|private|protected|internal|static|final|abstract|override|virtual|async|export)\s+)+[\w<>\[\],.?]+\s+([A-Za-z_$][\w$]*)\s*\(`,
+    String.raw`\b([A-Za-z_$][\w$]*)\s*[:=]\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*=>)`
+  ].join('|'), 'gm');
+
+  content.split(/\r?\n/).forEach((text, index) => {
+    for (const match of text.matchAll(declaration)) {
+      const name = match.slice(1).find(Boolean);
+      if (name) addFact(facts.symbols, name, index + 1);
+    }
+    for (const match of text.matchAll(/(['"`])((?:\\.|(?!\1).)*)\1/g)) {
+      addFact(facts.literals, match[2], index + 1);
+    }
+  });
+  return facts;
+}
+
+/**
+ * Split a logged location such as "src/server.ts:245" or "src/server.ts:245-260" into file and line
+ */
+export function parseArtifactLocation(location: string | undefined): { file: string; line?: number } | null {
+  const value = location?.trim();
+  if (!value) return null;
+  const match = value.match(/^(.+?)(?::(\d+)(?:[-:]\d+)?)?(?:\s*\(line\s+(\d+)\))?$/i);
+  if (!match) return null;
+  const line = Number(match[2] ?? match[3]);
+  return { file: match[1].trim(), line: Number.isFinite(line) && line > 0 ? line : undefined };
+}
+
+/**
+ * Names an artifact may be declared under: "JwtService.issue()" is looked up as
+ * "JwtService.issue", then "issue"
+ */
+function candidateNames(name: string | undefined): string[] {
+  const cleaned = (name ?? '').replace(/\(.*$/s, '').replace(/<.*$/s, '').trim();
+  if (!cleaned) return [];
+  const qualified = cleaned.replace(/::|#/g, '.');
+  const last = qualified.split('.').pop()!;
+  return [...new Set([qualified, last])].filter(candidate => /^[A-Za-z_$][\w$.]*$/.test(candidate));
+}
+
+/**
+ * Route strings an endpoint may be registered under: the full path, then without leading
+ * segments, for routers mounted under a prefix
+ */
+function candidateRoutes(path: string | undefined): string[] {
+  const segments = (path ?? '').trim().split('/').filter(Boolean);
+  const routes: string[] = [];
+  for (let start = 0; start < segments.length; start++) {
+    routes.push(`/${segments.slice(start).join('/')}`);
+  }
+  return routes;
+}
+
+/**
+ * What to look for to verify an artifact: declared names, or route literals for endpoints
+ */
+function artifactTarget(collection: ArtifactCollection, artifact: any): { names: string[]; routes: string[]; label: string } {
+  if (collection === 'apiEndpoints') {
+    return { names: [], routes: candidateRoutes(artifact.path), label: `${artifact.method ?? ''} ${artifact.path ?? ''}`.trim() };
+  }
+  if (collection === 'integrations') {
+    return { names: [], routes: [], label: artifact.description ?? '' };
+  }
+  return { names: candidateNames(artifact.name), routes: [], label: artifact.name ?? '' };
+}
+
+function findIn(facts: FileFacts, target: { names: string[]; routes: string[] }): number[] | undefined {
+  for (const name of target.names) {
+    const lines = facts.symbols.get(name);
+    if (lines) return lines;
+  }
+  for (const route of target.routes) {
+    const lines = facts.literals.get(route);
+    if (lines) return lines;
+  }
+  return undefined;
+}
+
+function nearest(lines: number[], line: number | undefined): number {
+  if (line === undefined) return lines[0];
+  return lines.reduce((best, candidate) => Math.abs(candidate - line) < Math.abs(best - line) ? candidate : best);
+}
+
+/**
+ * Checks that the code artifacts recorded in implementation logs still exist in the project.
+ * Each artifact is looked up in the file its log names first; only when it isn't there is the
+ * rest of the project scanned, once per verifier, to tell code that moved from code that is gone.
+ */
+export class ArtifactVerifier {
+  private projectPath: string;
+  private files: Map<string, Promise<FileFacts | null>> = new Map();
+  private projectFiles?: Promise<string[]>;
+
+  constructor(projectPath: string) {
+    this.projectPath = projectPath;
+  }
+
+  async verifyArtifact(collection: ArtifactCollection, artifact: any): Promise<ArtifactVerification> {
+    const checkedAt = new Date().toISOString();
+    const target = artifactTarget(collection, artifact);
+    if (target.names.length === 0 && target.routes.length === 0) {
+      return { status: 'unverifiable', reason: collection === 'integrations' ? 'Integrations have no name or location to check' : 'No name recorded', checkedAt };
+    }
+
+    const logged = parseArtifactLocation(artifact.location);
+    const loggedFile = logged ? this.toProjectFile(logged.file) : null;
+    if (loggedFile) {
+      const facts = await this.factsOf(loggedFile);
+      const lines = facts && findIn(facts, target);
+      if (lines) {
+        return { status: 'verified', location: `${loggedFile}:${nearest(lines, logged?.line)}`, checkedAt };
+      }
+    }
+
+    for (const file of await this.listProjectFiles()) {
+      if (file === loggedFile) continue;
+      const facts = await this.factsOf(file);
+      const lines = facts && findIn(facts, target);
+      if (lines) {
+        return { status: loggedFile ? 'moved' : 'verified', location: `${file}:${lines[0]}`, checkedAt };
+      }
+    }
+
+    const missingFile = loggedFile && !(await this.factsOf(loggedFile));
+    return {
+      status: 'stale',
+      reason: missingFile
+        ? `${loggedFile} no longer exists and ${target.label} was not found elsewhere`
+        : loggedFile
+          ? `${target.label} is no longer in ${loggedFile} or elsewhere in the project`
+          : `${target.label} was not found in the project`,
+      checkedAt
+    };
+  }
+
+  /**
+   * Verify every artifact of the given log entries, keyed by artifactKey()
+   */
+  async verifyEntries(entries: ImplementationLogEntry[]): Promise<Record<string, ArtifactVerification>> {
+    const results: Record<string, ArtifactVerification> = {};
+    for (const entry of entries) {
+      for (const [collection, artifacts] of Object.entries(entry.artifacts ?? {}) as Array<[ArtifactCollection, any[]]>) {
+        for (let index = 0; index < (artifacts?.length ?? 0); index++) {
+          results[artifactKey(entry.id, collection, index)] = await this.verifyArtifact(collection, artifacts[index]);
+        }
+      }
+    }
+    return results;
+  }
+
+  /**
+   * A logged file as a path relative to the project root, or null if it points outside it
+   */
+  private toProjectFile(file: string): string | null {
+    const absolute = isAbsolute(file) ? normalize(file) : join(this.projectPath, file);
+    const relativePath = relative(this.projectPath, absolute);
+    if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath)) return null;
+    return relativePath.split(sep).join('/');
+  }
+
+  private factsOf(file: string): Promise<FileFacts | null> {
+    let facts = this.files.get(file);
+    if (!facts) {
+      facts = this.readFacts(file);
+      this.files.set(file, facts);
+    }
+    return facts;
+  }
+
+  private async readFacts(file: string): Promise<FileFacts | null> {
+    const absolute = join(this.projectPath, file);
+    try {
+      const stats = await fs.stat(absolute);
+      if (!stats.isFile() || stats.size > MAX_FILE_SIZE) return null;
+      const content = await fs.readFile(absolute, 'utf-8');
+      return TS_EXTENSIONS.has(extname(file)) ? await typeScriptFacts(file, content) : patternFacts(content);
+    } catch {
+      return null;
+    }
+  }
+
+  private listProjectFiles(): Promise<string[]> {
+    if (!this.projectFiles) {
+      this.projectFiles = this.scanDirectory('', []);
+    }
+    return this.projectFiles;
+  }
+
+  private async scanDirectory(directory: string, found: string[]): Promise<string[]> {
+    let entries;
+    try {
+      entries = await fs.readdir(join(this.projectPath, directory), { withFileTypes: true });
+    } catch {
+      return found;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (found.length >= MAX_SCANNED_FILES) break;
+      const path = directory ? `${directory}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && !IGNORED_DIRECTORIES.has(entry.name)) {
+          await this.scanDirectory(path, found);
+        }
+      } else if (entry.isFile() && SOURCE_EXTENSIONS.has(extname(entry.name))) {
+        found.push(path);
+      }
+    }
+    return found;
+  }
+}
+
+/**
+ * The last verification of a spec's logged artifacts, or null if it was never verified
+ */
+export async function loadVerificationReport(logsDir: string): Promise<ArtifactVerificationReport | null> {
+  try {
+    return JSON.parse(await fs.readFile(join(logsDir, VERIFICATION_FILE), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record verification results, keeping earlier results for artifacts not verified this time
+ * unless their log entries are gone
+ */
+export async function saveVerificationResults(
+  logsDir: string,
+  results: Record<string, ArtifactVerification>,
+  logIds: string[]
+): Promise<ArtifactVerificationReport> {
+  const previous = await loadVerificationReport(logsDir);
+  const existing = new Set(logIds);
+  const kept = Object.entries(previous?.artifacts ?? {}).filter(([key]) => existing.has(key.split(':')[0]));
+
+  const report: ArtifactVerificationReport = {
+    verifiedAt: new Date().toISOString(),
+    artifacts: { ...Object.fromEntries(kept), ...results }
+  };
+  await fs.mkdir(logsDir, { recursive: true });
+  await fs.writeFile(join(logsDir, VERIFICATION_FILE), JSON.stringify(report, null, 2), 'utf-8');
+  return report;
+}
+
+/**
+ * Verify every artifact in a spec's implementation logs and record the results. Pass a
+ * verifier to share its file cache when verifying several specs of one project.
+ */
+export async function verifySpecArtifacts(
+  projectPath: string,
+  specPath: string,
+  verifier: ArtifactVerifier = new ArtifactVerifier(projectPath)
+): Promise<ArtifactVerificationReport> {
+  const logManager = new ImplementationLogManager(specPath);
+  const logs = await logManager.getAllLogs();
+  if (logs.length === 0) {
+    return { verifiedAt: new Date().toISOString(), artifacts: {} };
+  }
+  const results = await verifier.verifyEntries(logs);
+  return saveVerificationResults(logManager.getLogsDir(), results, logs.map(log => log.id));
+}
+
+/**
+ * Count verification results by status
+ */
+export function summarizeVerification(results: Iterable<ArtifactVerification>): Record<ArtifactStatus, number> {
+  const summary: Record<ArtifactStatus, number> = { verified: 0, moved: 0, stale: 0, unverifiable: 0 };
+  for (const result of results) {
+    summary[result.status]++;
+  }
+  return summary;
+}
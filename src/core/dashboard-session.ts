@@ -7,6 +7,25 @@ export interface DashboardSessionEntry {
   port: number;
   pid: number;
   startedAt: string;
+  token?: string;                      // Access token required by the dashboard's /api and /ws routes
+}
+
+/**
+ * Link to a dashboard page (a hash route such as "/logs?spec=x"). With a token the link
+ * also signs the browser in: the dashboard exchanges it for a session cookie and removes
+ * it from the address bar. Only the console and the browser the dashboard opens get such
+ * links; tool responses use buildDashboardLink, since the token grants admin access.
+ */
+export function buildDashboardLoginUrl(url: string, token?: string, route: string = '/'): string {
+  const query = token ? `?token=${encodeURIComponent(token)}` : '';
+  return `${url}/${query}#${route}`;
+}
+
+/**
+ * Link to a dashboard page without credentials; the reader signs in as usual
+ */
+export function buildDashboardLink(url: string, route: string = '/'): string {
+  return buildDashboardLoginUrl(url, undefined, route);
 }
 
 /**
@@ -63,7 +82,8 @@ export class DashboardSessionManager {
   }
 
   /**
-   * Write the session file atomically
+   * Write the session file atomically. The file holds the dashboard's access token,
+   * so it is only readable by the current user.
    */
   private async writeSession(session: DashboardSessionEntry): Promise<void> {
     await this.ensureSessionDir();
@@ -72,7 +92,7 @@ export class DashboardSessionManager {
 
     // Write to temporary file first, then rename for atomic operation
     const tempPath = `${this.sessionPath}.tmp`;
-    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.writeFile(tempPath, content, { encoding: 'utf-8', mode: 0o600 });
     await fs.rename(tempPath, this.sessionPath);
   }
 
@@ -92,12 +112,13 @@ export class DashboardSessionManager {
   /**
    * Register the dashboard session
    */
-  async registerDashboard(url: string, port: number, pid: number): Promise<void> {
+  async registerDashboard(url: string, port: number, pid: number, token?: string): Promise<void> {
     const session: DashboardSessionEntry = {
       url,
       port,
       pid,
-      startedAt: new Date().toISOString()
+      startedAt: new Date().toISOString(),
+      ...(token && { token })
     };
 
     await this.writeSession(session);
@@ -0,0 +1,398 @@
+/**
+ * Document Validator Module
+ * Registry of validators run on spec and steering documents before approval
+ */
+
+import { promises as fs } from 'fs';
+import { basename, dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { PathUtils } from './path-utils.js';
+import { validateTasksMarkdown } from './task-validator.js';
+import { validateRequirementsMarkdown } from './requirements-validator.js';
+import { evaluateValidationRules, loadValidationRules } from './validation-rules.js';
+import type { ValidationRule } from '../config.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export type DocumentType = 'requirements' | 'design' | 'tasks' | 'product' | 'tech' | 'structure';
+
+export const DOCUMENT_TYPES: DocumentType[] = ['requirements', 'design', 'tasks', 'product', 'tech', 'structure'];
+
+export interface DocumentValidationIssue {
+  line: number;
+  location?: string;                   // e.g. "Task 1.2", "Criterion 2.1", "Section Overview"
+  field: string;
+  message: string;
+  suggestion?: string;
+  severity: 'error' | 'warning';
+}
+
+export interface DocumentValidationContext {
+  documentType: DocumentType;
+  template?: string;                   // Content of the template the document was written from
+  rules?: ValidationRule[];            // Project rules from the [validation] section of config.toml
+}
+
+export interface DocumentValidatorOutput {
+  issues: DocumentValidationIssue[];
+  summary?: Record<string, number>;
+}
+
+export interface DocumentValidator {
+  name: string;
+  validate: (content: string, context: DocumentValidationContext) => DocumentValidatorOutput;
+  guidance?: string[];                 // How to fix the document when this validator reports errors
+}
+
+export interface DocumentValidationResult {
+  documentType: DocumentType;
+  valid: boolean;
+  errors: DocumentValidationIssue[];
+  warnings: DocumentValidationIssue[];
+  summary: Record<string, number>;
+  guidance: string[];
+}
+
+const validators = new Map<DocumentType, DocumentValidator[]>();
+
+/**
+ * Register a validator for one or more document types.
+ * Validators run in registration order; a validator with the same name replaces the existing one.
+ */
+export function registerDocumentValidator(types: DocumentType | DocumentType[], validator: DocumentValidator): void {
+  for (const type of Array.isArray(types) ? types : [types]) {
+    const registered = (validators.get(type) || []).filter(v => v.name !== validator.name);
+    validators.set(type, [...registered, validator]);
+  }
+}
+
+/**
+ * Remove a validator by name from one or more document types
+ */
+export function unregisterDocumentValidator(types: DocumentType | DocumentType[], name: string): void {
+  for (const type of Array.isArray(types) ? types : [types]) {
+    validators.set(type, (validators.get(type) || []).filter(v => v.name !== name));
+  }
+}
+
+export function getDocumentValidators(type: DocumentType): DocumentValidator[] {
+  return [...(validators.get(type) || [])];
+}
+
+/**
+ * Determine the document type from a file path (e.g. ".spec-workflow/specs/x/design.md" -> "design")
+ */
+export function getDocumentType(filePath: string): DocumentType | null {
+  const name = basename(filePath.replace(/\\/g, '/')).replace(/\.md$/i, '').toLowerCase();
+  return DOCUMENT_TYPES.includes(name as DocumentType) ? name as DocumentType : null;
+}
+
+/**
+ * Load the template for a document type.
+ * Custom templates in .spec-workflow/user-templates/ take precedence over the bundled templates.
+ */
+export async function loadDocumentTemplate(projectPath: string, type: DocumentType): Promise<string | undefined> {
+  const candidates = [
+    join(PathUtils.getWorkflowRoot(projectPath), 'user-templates', `${type}-template.md`),
+    join(__dirname, '..', 'markdown', 'templates', `${type}-template.md`)
+  ];
+
+  for (const candidate of candidates) {
+    try {
+      return await fs.readFile(candidate, 'utf-8');
+    } catch {
+      // Try the next location
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Run all validators registered for a document type
+ */
+export function validateDocument(
+  type: DocumentType,
+  content: string,
+  template?: string,
+  rules?: ValidationRule[]
+): DocumentValidationResult {
+  const context: DocumentValidationContext = { documentType: type, template, rules };
+  const errors: DocumentValidationIssue[] = [];
+  const warnings: DocumentValidationIssue[] = [];
+  const guidance: string[] = [];
+  let summary: Record<string, number> = {};
+
+  for (const validator of getDocumentValidators(type)) {
+    const output = validator.validate(content, context);
+    const validatorErrors = output.issues.filter(i => i.severity === 'error');
+
+    errors.push(...validatorErrors);
+    warnings.push(...output.issues.filter(i => i.severity === 'warning'));
+    if (output.summary) {
+      summary = { ...summary, ...output.summary };
+    }
+    if (validatorErrors.length > 0 && validator.guidance) {
+      guidance.push(...validator.guidance);
+    }
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+  warnings.sort((a, b) => a.line - b.line);
+
+  return {
+    documentType: type,
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    summary,
+    guidance
+  };
+}
+
+/**
+ * Validate a project document with its template and the project's configured validation rules.
+ * An invalid config.toml is reported as an error so that house rules are never silently skipped.
+ */
+export async function validateProjectDocument(
+  projectPath: string,
+  type: DocumentType,
+  content: string
+): Promise<DocumentValidationResult> {
+  const template = await loadDocumentTemplate(projectPath, type);
+  const { rules, error } = loadValidationRules(projectPath);
+  const result = validateDocument(type, content, template, rules);
+
+  if (error) {
+    result.errors.unshift({
+      line: 1,
+      field: 'config',
+      message: `Project validation rules could not be loaded: ${error}`,
+      suggestion: 'Fix the [validation] section in .spec-workflow/config.toml',
+      severity: 'error'
+    });
+    result.valid = false;
+  }
+
+  return result;
+}
+
+/**
+ * Format validation issues for display
+ * @param result The validation result
+ * @returns Formatted string array of errors and warnings
+ */
+export function formatDocumentValidationIssues(result: DocumentValidationResult): string[] {
+  const messages: string[] = [];
+
+  const format = (issue: DocumentValidationIssue) => {
+    const location = issue.location ? ` (${issue.location})` : '';
+    messages.push(`  Line ${issue.line}${location}: ${issue.message}`);
+    if (issue.suggestion) {
+      messages.push(`    Suggestion: ${issue.suggestion}`);
+    }
+  };
+
+  if (result.errors.length > 0) {
+    messages.push(`Found ${result.errors.length} error(s):`);
+    result.errors.forEach(format);
+  }
+
+  if (result.warnings.length > 0) {
+    messages.push(`Found ${result.warnings.length} warning(s):`);
+    result.warnings.forEach(format);
+  }
+
+  return messages;
+}
+
+// ---------------------------------------------------------------------------
+// Built-in validators
+// ---------------------------------------------------------------------------
+
+interface Heading {
+  level: number;
+  text: string;
+  line: number;                        // 0-based
+}
+
+function extractHeadings(content: string): Heading[] {
+  const headings: Heading[] = [];
+  let inCodeBlock = false;
+
+  content.split('\n').forEach((line, index) => {
+    if (line.trim().startsWith('```')) {
+      inCodeBlock = !inCodeBlock;
+      return;
+    }
+    const match = !inCodeBlock && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (match) {
+      headings.push({ level: match[1].length, text: match[2].trim(), line: index });
+    }
+  });
+
+  return headings;
+}
+
+function normalizeHeading(text: string): string {
+  return text
+    .replace(/\(.*?\)/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Required sections are the template's level-2 headings, except those marked "(if applicable)" or "(optional)"
+ */
+function checkRequiredSections(content: string, context: DocumentValidationContext): DocumentValidatorOutput {
+  if (!context.template) {
+    return { issues: [] };
+  }
+
+  const required = extractHeadings(context.template)
+    .filter(h => h.level === 2 && !/\((?:if applicable|optional)\)/i.test(h.text));
+  const lines = content.split('\n');
+  const headings = extractHeadings(content);
+  const issues: DocumentValidationIssue[] = [];
+
+  for (const section of required) {
+    const key = normalizeHeading(section.text);
+    const index = headings.findIndex(h => normalizeHeading(h.text) === key);
+
+    if (index === -1) {
+      issues.push({
+        line: 1,
+        location: `Section ${section.text}`,
+        field: 'section',
+        message: `Missing required section "${section.text}"`,
+        suggestion: `Add a "## ${section.text}" section as described in the ${context.documentType} template`,
+        severity: 'error'
+      });
+      continue;
+    }
+
+    // A section is empty if nothing but blank lines appear before the next heading of the same or higher level
+    const heading = headings[index];
+    const next = headings.slice(index + 1).find(h => h.level <= heading.level);
+    const body = lines.slice(heading.line + 1, next ? next.line : lines.length);
+    if (body.every(line => !line.trim())) {
+      issues.push({
+        line: heading.line + 1,
+        location: `Section ${section.text}`,
+        field: 'section',
+        message: `Section "${heading.text}" is empty`,
+        suggestion: 'Fill in the section or explain why it does not apply',
+        severity: 'error'
+      });
+    }
+  }
+
+  return {
+    issues,
+    summary: { requiredSections: required.length }
+  };
+}
+
+// Bracketed template text, excluding checkboxes and markdown links
+const PLACEHOLDER = /\[([^\[\]\n]{2,})\](?!\()/g;
+
+function extractPlaceholders(text: string): Set<string> {
+  const placeholders = new Set<string>();
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    placeholders.add(match[1].trim().toLowerCase());
+  }
+  return placeholders;
+}
+
+/**
+ * Flag bracketed placeholder text copied from the template, and TODO/TBD markers
+ */
+function checkPlaceholders(content: string, context: DocumentValidationContext): DocumentValidatorOutput {
+  const templatePlaceholders = context.template ? extractPlaceholders(context.template) : new Set<string>();
+  const issues: DocumentValidationIssue[] = [];
+
+  content.split('\n').forEach((line, index) => {
+    const leftovers = [...line.matchAll(PLACEHOLDER)]
+      .map(match => match[0])
+      .filter(text => templatePlaceholders.has(text.slice(1, -1).trim().toLowerCase()));
+
+    if (leftovers.length > 0) {
+      issues.push({
+        line: index + 1,
+        field: 'placeholder',
+        message: `Template placeholder text left in document: ${leftovers.join(', ')}`,
+        suggestion: 'Replace the bracketed template text with project-specific content',
+        severity: 'error'
+      });
+    } else if (/^\s*(?:[-*]\s+|\d+\.\s+)?(?:TODO|TBD|FIXME)\b/.test(line)) {
+      issues.push({
+        line: index + 1,
+        field: 'placeholder',
+        message: 'Unfinished content marker (TODO/TBD/FIXME)',
+        suggestion: 'Complete the content before requesting approval',
+        severity: 'warning'
+      });
+    }
+  });
+
+  return { issues };
+}
+
+registerDocumentValidator(DOCUMENT_TYPES, {
+  name: 'required-sections',
+  validate: checkRequiredSections,
+  guidance: ['Add every section from the document template (sections marked "(if applicable)" are optional)']
+});
+
+registerDocumentValidator(DOCUMENT_TYPES, {
+  name: 'template-placeholders',
+  validate: checkPlaceholders,
+  guidance: ['Replace all bracketed template placeholders such as [Describe ...] with real content']
+});
+
+registerDocumentValidator(DOCUMENT_TYPES, {
+  name: 'project-rules',
+  validate: (content, context) => ({
+    issues: context.rules ? evaluateValidationRules(context.documentType, content, context.rules) : []
+  }),
+  guidance: ['Follow the project rules in the [validation] section of .spec-workflow/config.toml']
+});
+
+registerDocumentValidator('tasks', {
+  name: 'tasks-format',
+  validate: (content) => {
+    const result = validateTasksMarkdown(content);
+    return {
+      issues: [...result.errors, ...result.warnings].map(({ taskId, ...issue }) => ({
+        ...issue,
+        ...(taskId && { location: `Task ${taskId}` })
+      })),
+      summary: result.summary
+    };
+  },
+  guidance: [
+    'Ensure each task has: checkbox (- [ ]), numeric ID (1.1), description',
+    'Ensure metadata uses underscores: _Requirements: ..._',
+    'Ensure _Prompt ends with underscore'
+  ]
+});
+
+registerDocumentValidator('requirements', {
+  name: 'requirements-format',
+  validate: (content) => {
+    const result = validateRequirementsMarkdown(content);
+    return {
+      issues: [...result.errors, ...result.warnings].map(({ requirementId, criterionId, ...issue }) => ({
+        ...issue,
+        ...(criterionId
+          ? { location: `Criterion ${criterionId}` }
+          : requirementId ? { location: `Requirement ${requirementId}` } : {})
+      })),
+      summary: result.summary
+    };
+  },
+  guidance: [
+    'Ensure each requirement has a heading like "### Requirement 1" and a numbered acceptance criteria list',
+    'Write acceptance criteria in EARS format: WHEN [event] THEN [system] SHALL [response]'
+  ]
+});
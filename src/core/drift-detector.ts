@@ -0,0 +1,93 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { PathUtils } from './path-utils.js';
+import { normalizeApprovedContent, resetTaskMarkers } from './approval-gate.js';
+import { ApprovalStorage, DiffResult, computeLineDiff } from '../dashboard/approval-storage.js';
+
+export type SpecDocument = 'requirements' | 'design' | 'tasks';
+
+export interface DocumentDrift {
+  document: SpecDocument;
+  fileName: string;
+  status: 'in-sync' | 'drifted' | 'not-approved' | 'missing';
+  approvedAt?: string;
+  approvalId?: string;
+  approvedVersion?: number;
+  stats?: {
+    additions: number;
+    deletions: number;
+    changes: number;
+  };
+  diff?: DiffResult;                   // Only included when requested
+}
+
+export interface SpecDriftReport {
+  specName: string;
+  hasDrift: boolean;
+  documents: DocumentDrift[];
+}
+
+const SPEC_DOCUMENTS: SpecDocument[] = ['requirements', 'design', 'tasks'];
+
+/**
+ * Compare each spec document with its latest approved snapshot.
+ * A document drifts when its content changed after approval; task checkbox
+ * progress in tasks.md is not considered drift.
+ */
+export async function detectSpecDrift(
+  projectPath: string,
+  specName: string,
+  options: { includeDiff?: boolean } = {}
+): Promise<SpecDriftReport> {
+  const approvalStorage = new ApprovalStorage(projectPath);
+  const specPath = PathUtils.getSpecPath(projectPath, specName);
+  const documents: DocumentDrift[] = [];
+
+  for (const document of SPEC_DOCUMENTS) {
+    const fileName = `${document}.md`;
+
+    let content: string;
+    try {
+      content = await readFile(join(specPath, fileName), 'utf-8');
+    } catch {
+      documents.push({ document, fileName, status: 'missing' });
+      continue;
+    }
+
+    const snapshot = await approvalStorage.getLatestApprovedSnapshot(specName, fileName);
+    if (!snapshot) {
+      documents.push({ document, fileName, status: 'not-approved' });
+      continue;
+    }
+
+    const drift: DocumentDrift = {
+      document,
+      fileName,
+      status: 'in-sync',
+      approvedAt: snapshot.timestamp,
+      approvalId: snapshot.approvalId,
+      approvedVersion: snapshot.version
+    };
+
+    if (normalizeApprovedContent(content, fileName) !== normalizeApprovedContent(snapshot.content, fileName)) {
+      // Compare tasks without progress markers so the diff only shows plan changes
+      const diff = fileName === 'tasks.md'
+        ? computeLineDiff(resetTaskMarkers(snapshot.content), resetTaskMarkers(content))
+        : computeLineDiff(snapshot.content, content);
+
+      drift.status = 'drifted';
+      drift.stats = { additions: diff.additions, deletions: diff.deletions, changes: diff.changes };
+      if (options.includeDiff) {
+        drift.diff = diff;
+      }
+    }
+
+    documents.push(drift);
+  }
+
+  return {
+    specName,
+    hasDrift: documents.some(d => d.status === 'drifted'),
+    documents
+  };
+}
@@ -0,0 +1,238 @@
+import { simpleGit, SimpleGit } from 'simple-git';
+import { GitConfig, loadConfigFile } from '../config.js';
+import { ImplementationLogEntry } from '../types.js';
+import { resolveCommit } from './git-diff-stats.js';
+
+// Matches "Spec: user-auth Task: 2.3", on one line or as two trailers
+export const DEFAULT_COMMIT_PATTERN = String.raw`Spec:\s*(?<spec>[\w-][\w.-]*)[\s,;]+Task:\s*(?<task>\d+(?:\.\d+)*)`;
+
+// Newest commits read from the local branches on each scan
+const DEFAULT_MAX_COMMITS = 2000;
+
+export interface CommitScanOptions {
+  commitPattern?: string;  // Regex with named groups "spec" and "task" (default: DEFAULT_COMMIT_PATTERN)
+  mainBranch?: string;     // Defaults to main, then master
+  maxCommits?: number;
+}
+
+export interface CommitReference {
+  spec: string;
+  task: string;
+}
+
+export interface LinkedCommit {
+  sha: string;
+  shortSha: string;
+  subject: string;
+  author: string;
+  date: string;            // Author date, ISO 8601
+  committedAt: string;     // Committer date, ISO 8601
+  branches: string[];      // Local branches containing the commit
+  onMainBranch: boolean;
+}
+
+export interface ReferencingCommit extends LinkedCommit {
+  references: CommitReference[];
+}
+
+export interface CommitScan {
+  mainBranch: string | null;
+  commits: ReferencingCommit[];   // Newest first
+}
+
+export interface TaskCommit extends LinkedCommit {
+  logEntryIds: string[];   // Implementation log entries that recorded the commit
+}
+
+export interface SpecCommitLinks {
+  mainBranch: string | null;
+  tasks: Record<string, TaskCommit[]>;   // By task ID, newest first
+}
+
+interface RawCommit {
+  sha: string;
+  shortSha: string;
+  author: string;
+  date: string;
+  committedAt: string;
+  message: string;
+}
+
+const LOG_FORMAT = '--format=%H%x1f%h%x1f%an%x1f%aI%x1f%cI%x1f%B%x1e';
+
+/**
+ * Load the [git] section of the project's .spec-workflow/config.toml
+ */
+export function loadGitConfig(projectPath: string): { git: GitConfig; error?: string } {
+  const { config, error } = loadConfigFile(projectPath);
+  if (error) {
+    return { git: {}, error };
+  }
+  return { git: config?.git || {} };
+}
+
+/**
+ * Spec and task references in a commit message. A message may reference several tasks.
+ */
+export function parseCommitReferences(message: string, pattern: string = DEFAULT_COMMIT_PATTERN): CommitReference[] {
+  const references: CommitReference[] = [];
+  const seen = new Set<string>();
+  for (const match of message.matchAll(new RegExp(pattern, 'gi'))) {
+    const spec = match.groups?.spec?.trim();
+    const task = match.groups?.task?.trim();
+    if (!spec || !task || seen.has(`${spec}\0${task}`)) continue;
+    seen.add(`${spec}\0${task}`);
+    references.push({ spec, task });
+  }
+  return references;
+}
+
+async function openRepository(projectPath: string): Promise<SimpleGit | null> {
+  const git = simpleGit(projectPath);
+  try {
+    return (await git.checkIsRepo()) ? git : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readLog(git: SimpleGit, args: string[]): Promise<RawCommit[]> {
+  const output = await git.raw(['log', LOG_FORMAT, ...args]);
+  const commits: RawCommit[] = [];
+  for (const record of output.split('\x1e')) {
+    const fields = record.replace(/^\n/, '').split('\x1f');
+    if (fields.length < 6) continue;
+    const [sha, shortSha, author, date, committedAt, message] = fields;
+    commits.push({ sha, shortSha, author, date, committedAt, message: message.trim() });
+  }
+  return commits;
+}
+
+async function resolveBranches(git: SimpleGit, preferred?: string): Promise<{ branches: string[]; mainBranch: string | null }> {
+  const branches = (await git.raw(['for-each-ref', '--format=%(refname:short)', 'refs/heads'])).split('\n').filter(Boolean);
+  const candidates = preferred ? [preferred] : ['main', 'master'];
+  return { branches, mainBranch: candidates.find(branch => branches.includes(branch)) ?? null };
+}
+
+/**
+ * The local branches containing each of the given commits
+ */
+async function branchMembership(git: SimpleGit, branches: string[], shas: Set<string>, maxCommits: number): Promise<Map<string, string[]>> {
+  const membership = new Map<string, string[]>();
+  if (shas.size === 0) return membership;
+  for (const branch of branches) {
+    const reachable = (await git.raw(['rev-list', `--max-count=${maxCommits}`, `refs/heads/${branch}`])).split('\n');
+    for (const sha of reachable) {
+      if (!shas.has(sha)) continue;
+      const list = membership.get(sha) ?? [];
+      list.push(branch);
+      membership.set(sha, list);
+    }
+  }
+  return membership;
+}
+
+function toLinkedCommit(raw: RawCommit, membership: Map<string, string[]>, mainBranch: string | null): LinkedCommit {
+  const branches = membership.get(raw.sha) ?? [];
+  return {
+    sha: raw.sha,
+    shortSha: raw.shortSha,
+    subject: raw.message.split('\n')[0],
+    author: raw.author,
+    date: raw.date,
+    committedAt: raw.committedAt,
+    branches,
+    onMainBranch: mainBranch !== null && branches.includes(mainBranch)
+  };
+}
+
+/**
+ * Commits on the project's local branches whose messages reference a spec task. Returns null
+ * when the project is not in a git repository.
+ */
+export async function scanCommitReferences(projectPath: string, options: CommitScanOptions = {}): Promise<CommitScan | null> {
+  const git = await openRepository(projectPath);
+  if (!git) return null;
+
+  const maxCommits = options.maxCommits ?? DEFAULT_MAX_COMMITS;
+  const { branches, mainBranch } = await resolveBranches(git, options.mainBranch);
+  if (branches.length === 0) return { mainBranch, commits: [] };
+
+  const referencing = (await readLog(git, ['--branches', '--topo-order', `--max-count=${maxCommits}`]))
+    .map(raw => ({ raw, references: parseCommitReferences(raw.message, options.commitPattern) }))
+    .filter(({ references }) => references.length > 0);
+
+  const membership = await branchMembership(git, branches, new Set(referencing.map(({ raw }) => raw.sha)), maxCommits);
+  return {
+    mainBranch,
+    commits: referencing.map(({ raw, references }) => ({ ...toLinkedCommit(raw, membership, mainBranch), references }))
+  };
+}
+
+/**
+ * The commits of each task in a spec: those whose messages reference the task, and those
+ * recorded by the task's implementation log entries. Returns null when the project is not
+ * in a git repository.
+ */
+export async function linkSpecCommits(
+  projectPath: string,
+  specName: string,
+  logEntries: ImplementationLogEntry[],
+  options: CommitScanOptions = {}
+): Promise<SpecCommitLinks | null> {
+  const git = await openRepository(projectPath);
+  if (!git) return null;
+
+  const maxCommits = options.maxCommits ?? DEFAULT_MAX_COMMITS;
+  const { branches, mainBranch } = await resolveBranches(git, options.mainBranch);
+
+  const commits = new Map<string, RawCommit>();
+  const taskShas = new Map<string, Set<string>>();
+  const logEntryIds = new Map<string, string[]>();
+  const link = (taskId: string, sha: string) => {
+    const shas = taskShas.get(taskId) ?? new Set<string>();
+    shas.add(sha);
+    taskShas.set(taskId, shas);
+  };
+
+  if (branches.length > 0) {
+    for (const raw of await readLog(git, ['--branches', '--topo-order', `--max-count=${maxCommits}`])) {
+      const tasks = parseCommitReferences(raw.message, options.commitPattern)
+        .filter(reference => reference.spec === specName)
+        .map(reference => reference.task);
+      if (tasks.length === 0) continue;
+      commits.set(raw.sha, raw);
+      tasks.forEach(taskId => link(taskId, raw.sha));
+    }
+  }
+
+  // Logged commits may be older than the scanned ones, on another branch, or gone after a rebase
+  const missing = new Set<string>();
+  for (const entry of logEntries) {
+    for (const logged of entry.commits ?? []) {
+      const sha = commits.has(logged)
+        ? logged
+        : await resolveCommit(git, logged).catch(() => '');
+      if (!sha) continue;
+      link(entry.taskId, sha);
+      const ids = logEntryIds.get(sha) ?? [];
+      if (!ids.includes(entry.id)) logEntryIds.set(sha, [...ids, entry.id]);
+      if (!commits.has(sha)) missing.add(sha);
+    }
+  }
+  if (missing.size > 0) {
+    for (const raw of await readLog(git, ['--no-walk=unsorted', ...missing])) {
+      commits.set(raw.sha, raw);
+    }
+  }
+
+  const membership = await branchMembership(git, branches, new Set(commits.keys()), maxCommits);
+  const tasks: Record<string, TaskCommit[]> = {};
+  for (const [taskId, shas] of taskShas) {
+    const linked = [...shas]
+      .map(sha => ({ ...toLinkedCommit(commits.get(sha)!, membership, mainBranch), logEntryIds: logEntryIds.get(sha) ?? [] }))
+      .sort((a, b) => Date.parse(b.committedAt) - Date.parse(a.committedAt));
+    if (linked.length > 0) tasks[taskId] = linked;
+  }
+  return { mainBranch, tasks };
+}
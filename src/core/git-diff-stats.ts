@@ -0,0 +1,211 @@
+import { simpleGit, SimpleGit } from 'simple-git';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { ImplementationLogEntry } from '../types.js';
+
+export interface GitDiffOptions {
+  baseRef?: string;      // Compare the working tree, including uncommitted and untracked files, with this ref (default: HEAD)
+  commitRange?: string;  // Or count the changes of these commits: "a1b2c3..d4e5f6", or a single commit
+}
+
+export interface GitDiffStats {
+  filesModified: string[];
+  filesCreated: string[];
+  statistics: ImplementationLogEntry['statistics'];
+  commits: string[];     // Full SHAs of the commits in the diff, oldest first
+}
+
+// The tree of a repository without commits, to diff against before the first commit
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+// Workflow documents change with every task; they are bookkeeping, not implementation
+const PATHSPEC = ['--', '.', ':(exclude).spec-workflow'];
+
+const MAX_UNTRACKED_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Parse `git diff --numstat -z`: "added\tremoved\tpath\0" per file, "-" counts for binary files
+ */
+function parseNumstat(output: string): Map<string, { added: number; removed: number }> {
+  const counts = new Map<string, { added: number; removed: number }>();
+  for (const record of output.split('\0')) {
+    const match = record.match(/^(\d+|-)\t(\d+|-)\t([\s\S]+)$/);
+    if (!match) continue;
+    counts.set(match[3], {
+      added: match[1] === '-' ? 0 : Number(match[1]),
+      removed: match[2] === '-' ? 0 : Number(match[2])
+    });
+  }
+  return counts;
+}
+
+/**
+ * Parse `git diff --name-status -z`: "status\0path\0" per file
+ */
+function parseNameStatus(output: string): Map<string, string> {
+  const statuses = new Map<string, string>();
+  const fields = output.split('\0');
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    if (fields[i]) statuses.set(fields[i + 1], fields[i][0]);
+  }
+  return statuses;
+}
+
+async function countLines(path: string): Promise<number> {
+  try {
+    const stats = await fs.stat(path);
+    if (!stats.isFile() || stats.size === 0 || stats.size > MAX_UNTRACKED_FILE_SIZE) return 0;
+    const content = await fs.readFile(path);
+    if (content.includes(0)) return 0; // Binary, as git counts it
+    const lines = content.toString('utf-8').split('\n').length;
+    return content[content.length - 1] === 0x0a ? lines - 1 : lines;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Resolve a caller-supplied ref to a full SHA. Refs that git would read as an option are refused.
+ */
+export async function resolveCommit(git: SimpleGit, ref: string): Promise<string> {
+  if (ref.startsWith('-')) {
+    throw new Error(`Invalid ref: ${ref}`);
+  }
+  return (await git.revparse(['--verify', '--end-of-options', `${ref}^{commit}`])).trim();
+}
+
+/**
+ * Files and lines changed in the project according to git, either in the working tree since a
+ * base ref or in a range of commits. Paths are relative to the project, which may be a
+ * subdirectory of the repository. Returns null when the project is not in a git repository;
+ * throws when a ref or range does not resolve.
+ */
+export async function collectGitDiffStats(projectPath: string, options: GitDiffOptions = {}): Promise<GitDiffStats | null> {
+  const git = simpleGit(projectPath);
+  try {
+    if (!(await git.checkIsRepo())) return null;
+  } catch {
+    return null;
+  }
+
+  let diffArgs: string[];
+  let commits: string[] = [];
+  let includeUntracked = false;
+
+  if (options.commitRange) {
+    const range = options.commitRange.trim();
+    const endpoints = range.match(/^(.*?)(\.\.\.?)(.*)$/);
+    if (endpoints) {
+      // An omitted endpoint means HEAD, as in git; only verified SHAs reach rev-list and diff
+      const from = await resolveCommit(git, endpoints[1] || 'HEAD');
+      const to = await resolveCommit(git, endpoints[3] || 'HEAD');
+      diffArgs = [`${from}${endpoints[2]}${to}`];
+      commits = (await git.raw(['rev-list', '--reverse', ...diffArgs])).split('\n').filter(Boolean);
+    } else {
+      const sha = await resolveCommit(git, range);
+      const parent = await git.revparse(['--verify', '--quiet', `${sha}^`]).catch(() => '');
+      diffArgs = [parent.trim() || EMPTY_TREE, sha];
+      commits = [sha];
+    }
+  } else {
+    const head = await git.revparse(['--verify', '--quiet', 'HEAD']).catch(() => '');
+    const base = options.baseRef?.trim()
+      ? await resolveCommit(git, options.baseRef.trim())
+      : (head.trim() ? 'HEAD' : EMPTY_TREE);
+    diffArgs = [base];
+    if (options.baseRef && head.trim()) {
+      commits = (await git.raw(['rev-list', '--reverse', `${base}..HEAD`])).split('\n').filter(Boolean);
+    }
+    includeUntracked = true;
+  }
+
+  const numstat = parseNumstat(await git.raw(['diff', '--numstat', '-z', '--no-renames', '--relative', ...diffArgs, ...PATHSPEC]));
+  const statuses = parseNameStatus(await git.raw(['diff', '--name-status', '-z', '--no-renames', '--relative', ...diffArgs, ...PATHSPEC]));
+
+  const filesModified: string[] = [];
+  const filesCreated: string[] = [];
+  let linesAdded = 0;
+  let linesRemoved = 0;
+
+  for (const [file, status] of statuses) {
+    (status === 'A' ? filesCreated : filesModified).push(file);
+    const counts = numstat.get(file);
+    linesAdded += counts?.added ?? 0;
+    linesRemoved += counts?.removed ?? 0;
+  }
+
+  if (includeUntracked) {
+    const untracked = (await git.raw(['ls-files', '--others', '--exclude-standard', '-z', ...PATHSPEC])).split('\0').filter(Boolean);
+    for (const file of untracked) {
+      filesCreated.push(file);
+      linesAdded += await countLines(join(projectPath, file));
+    }
+  }
+
+  filesModified.sort();
+  filesCreated.sort();
+  return {
+    filesModified,
+    filesCreated,
+    statistics: {
+      linesAdded,
+      linesRemoved,
+      filesChanged: filesModified.length + filesCreated.length
+    },
+    commits
+  };
+}
+
+export interface ReportedChanges {
+  filesModified?: string[];
+  filesCreated?: string[];
+  statistics?: { linesAdded?: number; linesRemoved?: number };
+}
+
+export type ImplementationChanges = Pick<ImplementationLogEntry, 'filesModified' | 'filesCreated' | 'statistics' | 'commits' | 'statisticsSource'>;
+
+/**
+ * The changes to record in an implementation log entry. They come from git when the project is
+ * a repository and git finds changes; otherwise from what the caller reported, which is then
+ * required. Throws when neither is available or a ref or range is invalid.
+ */
+export async function resolveImplementationChanges(
+  projectPath: string,
+  reported: ReportedChanges,
+  options: GitDiffOptions = {}
+): Promise<ImplementationChanges> {
+  const fromGit = await collectGitDiffStats(projectPath, options);
+  const explicit = !!(options.baseRef || options.commitRange);
+
+  if (fromGit && (explicit || fromGit.statistics.filesChanged > 0)) {
+    return {
+      filesModified: fromGit.filesModified,
+      filesCreated: fromGit.filesCreated,
+      statistics: fromGit.statistics,
+      ...(fromGit.commits.length > 0 && { commits: fromGit.commits }),
+      statisticsSource: 'git'
+    };
+  }
+
+  if (explicit) {
+    throw new Error('baseRef and commitRange need the project to be in a git repository');
+  }
+  if (!reported.statistics) {
+    throw new Error(fromGit
+      ? 'git found no uncommitted changes; pass commitRange or baseRef for committed work, or report statistics'
+      : 'statistics are required when the project is not a git repository');
+  }
+
+  const filesModified = reported.filesModified ?? [];
+  const filesCreated = reported.filesCreated ?? [];
+  return {
+    filesModified,
+    filesCreated,
+    statistics: {
+      linesAdded: reported.statistics.linesAdded || 0,
+      linesRemoved: reported.statistics.linesRemoved || 0,
+      filesChanged: filesModified.length + filesCreated.length
+    },
+    statisticsSource: 'reported'
+  };
+}
@@ -32,7 +32,9 @@ const DEFAULT_DIR_NAME = '.spec-workflow-mcp';
  * - activeProjects.json - Project registry
  * - activeSession.json - Dashboard session info
  * - settings.json - Global settings
+ * - users.json - Dashboard user accounts and roles
  * - job-execution-history.json - Job execution history
+ * - webhook-deliveries.json - Recent webhook deliveries
  * - migration.log - Implementation log migration tracking
  * 
  * @returns The absolute path to the global directory
@@ -3,6 +3,7 @@ import { join } from 'path';
 import { PathUtils } from './path-utils.js';
 import { SpecData, SteeringStatus, PhaseStatus } from '../types.js';
 import { parseTaskProgress } from './task-parser.js';
+import { getDocumentApprovalState } from './approval-gate.js';
 
 export class SpecParser {
   constructor(private projectPath: string) {}
@@ -40,9 +41,9 @@ export class SpecParser {
       }
       
       // Read all phase files
-      const requirements = await this.getPhaseStatus(specPath, 'requirements.md');
-      const design = await this.getPhaseStatus(specPath, 'design.md');
-      const tasks = await this.getPhaseStatus(specPath, 'tasks.md');
+      const requirements = await this.getPhaseStatus(name, specPath, 'requirements.md');
+      const design = await this.getPhaseStatus(name, specPath, 'design.md');
+      const tasks = await this.getPhaseStatus(name, specPath, 'tasks.md');
       
       // Parse task progress using unified parser
       let taskProgress = undefined;
@@ -106,15 +107,19 @@ export class SpecParser {
     }
   }
 
-  private async getPhaseStatus(basePath: string, filename: string): Promise<PhaseStatus> {
+  private async getPhaseStatus(specName: string, basePath: string, filename: string): Promise<PhaseStatus> {
     const filePath = join(basePath, filename);
     
     try {
       const stats = await stat(filePath);
       const content = await readFile(filePath, 'utf-8');
+      const approval = await getDocumentApprovalState(this.projectPath, specName, filename, content);
       
       return {
         exists: true,
+        approved: approval.approved,
+        approvedAt: approval.approvedAt,
+        changedSinceApproval: approval.changedSinceApproval,
         lastModified: stats.mtime.toISOString(),
         content
       };
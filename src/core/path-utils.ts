@@ -231,6 +231,10 @@ export class PathUtils {
     return this.safeJoin(projectPath, '.spec-workflow', 'approvals', specName);
   }
 
+  static getAuditLogPath(projectPath: string): string {
+    return this.safeJoin(projectPath, '.spec-workflow', 'audit', 'audit-log.jsonl');
+  }
+
 
   // Ensure paths work across Windows, macOS, Linux
   static toPlatformPath(path: string): string {
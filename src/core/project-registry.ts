@@ -160,6 +160,18 @@ export class ProjectRegistry {
     return projectId;
   }
 
+  /**
+   * Register a project unless another live process has already registered it, in which case
+   * that process keeps it. Resolves with whether this call registered the project.
+   */
+  async registerProjectIfUnclaimed(projectPath: string, pid: number): Promise<{ projectId: string; registered: boolean }> {
+    const existing = await this.getProject(projectPath);
+    if (existing && existing.pid !== pid && this.isProcessAlive(existing.pid)) {
+      return { projectId: existing.projectId, registered: false };
+    }
+    return { projectId: await this.registerProject(projectPath, pid), registered: true };
+  }
+
   /**
    * Unregister a project from the global registry by path
    */
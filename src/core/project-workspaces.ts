@@ -0,0 +1,99 @@
+import { isAbsolute, resolve } from 'path';
+import { PathUtils, validateProjectPath } from './path-utils.js';
+import { WorkspaceInitializer } from './workspace-initializer.js';
+import { ProjectRegistry, ProjectRegistryEntry } from './project-registry.js';
+
+/**
+ * The projects one MCP server works on. A project's .spec-workflow directory is initialized
+ * and the project registered with the dashboard the first time it is used, not up front.
+ */
+export class ProjectWorkspaces {
+  private registry: ProjectRegistry;
+  private version: string;
+  private prepared: Map<string, Promise<string>> = new Map();
+  private registered: Set<string> = new Set();
+
+  constructor(registry: ProjectRegistry, version: string) {
+    this.registry = registry;
+    this.version = version;
+  }
+
+  /**
+   * Validate, initialize and register a project once; later calls return the same result.
+   * Resolves with the absolute project path.
+   */
+  prepare(projectPath: string): Promise<string> {
+    const key = resolve(projectPath);
+    let prepared = this.prepared.get(key);
+    if (!prepared) {
+      prepared = this.initialize(key);
+      this.prepared.set(key, prepared);
+      // Let a later call retry, e.g. once the directory exists
+      prepared.catch(() => this.prepared.delete(key));
+    }
+    return prepared;
+  }
+
+  /**
+   * Find a project by registry ID, name or absolute path, and prepare it. Paths are translated
+   * like tool arguments in Docker mode. With registeredOnly, a path must belong to a project
+   * already in the registry.
+   */
+  async resolve(reference: string, options: { registeredOnly?: boolean } = {}): Promise<string> {
+    const projects = await this.registry.getAllProjects();
+
+    const byId = projects.find(project => project.projectId === reference);
+    if (byId) {
+      return this.prepare(byId.projectPath);
+    }
+
+    const byName = projects.filter(project => project.projectName === reference);
+    if (byName.length === 1) {
+      return this.prepare(byName[0].projectPath);
+    }
+    if (byName.length > 1) {
+      const ids = byName.map(project => `${project.projectId} (${project.projectPath})`).join(', ');
+      throw new Error(`Several projects are named '${reference}': ${ids}. Use the project ID instead.`);
+    }
+
+    const projectPath = PathUtils.translatePath(reference);
+    if (isAbsolute(projectPath)) {
+      const byPath = projects.find(project => resolve(project.projectPath) === resolve(projectPath));
+      if (byPath || !options.registeredOnly) {
+        return this.prepare(projectPath);
+      }
+    }
+    throw new Error(`Unknown project: '${reference}'. List projects with the projects tool, or register one by absolute path.`);
+  }
+
+  /**
+   * Every project in the global registry, including those registered by other servers
+   */
+  async list(): Promise<ProjectRegistryEntry[]> {
+    const projects = await this.registry.getAllProjects();
+    return projects.sort((a, b) => a.projectName.localeCompare(b.projectName));
+  }
+
+  /**
+   * Projects this server registered, for unregistering on shutdown. Projects another live
+   * server had registered first stay that server's.
+   */
+  async getRegisteredPaths(): Promise<string[]> {
+    await Promise.allSettled(this.prepared.values());
+    return [...this.registered];
+  }
+
+  private async initialize(projectPath: string): Promise<string> {
+    await validateProjectPath(projectPath);
+
+    const workspaceInitializer = new WorkspaceInitializer(projectPath, this.version);
+    await workspaceInitializer.initializeWorkspace();
+
+    const { projectId, registered } = await this.registry.registerProjectIfUnclaimed(projectPath, process.pid);
+    if (registered) {
+      this.registered.add(projectPath);
+      console.error(`Project registered: ${projectId}`);
+    }
+    return projectPath;
+  }
+}
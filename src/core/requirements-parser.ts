@@ -0,0 +1,227 @@
+/**
+ * Requirements Parser Module
+ * Extracts numbered requirements and their acceptance criteria from requirements.md
+ */
+
+export type EarsPattern = 'ubiquitous' | 'event-driven' | 'state-driven' | 'unwanted-behavior' | 'optional-feature' | 'complex';
+
+export interface EarsClause {
+  pattern: EarsPattern;
+  keywords: string[];                  // Leading keywords in order (e.g., ["WHEN"], ["WHILE", "WHEN"])
+  condition?: string;                  // Trigger, state, or precondition text
+  hasThen: boolean;                    // Whether THEN separates the condition from the system
+  system: string;                      // Text between the condition and SHALL (may be empty)
+  response: string;                    // Text after SHALL
+}
+
+export interface UserStory {
+  role: string;
+  goal: string;
+  benefit?: string;
+}
+
+export interface ParsedAcceptanceCriterion {
+  id: string;                          // Criterion ID (e.g., "1.2" for the 2nd criterion of requirement 1)
+  text: string;                        // Criterion text
+  lineNumber: number;                  // Line number in the file (0-based)
+  ears: EarsClause | null;             // null when the criterion has no SHALL clause
+}
+
+export interface ParsedRequirement {
+  id: string;                          // Requirement ID (e.g., "1", "2.1")
+  title: string;                       // Heading text after the ID (may be empty)
+  lineNumber: number;                  // Line number in the file (0-based)
+  userStory?: string;                  // **User Story:** text
+  userStoryLineNumber?: number;        // Line number of the user story (0-based)
+  userStoryParts?: UserStory | null;   // null when the story does not follow "As a ..., I want ..., so that ..."
+  acceptanceCriteria: ParsedAcceptanceCriterion[];
+}
+
+export interface RequirementsParserResult {
+  requirements: ParsedRequirement[];
+  summary: {
+    total: number;
+    acceptanceCriteria: number;
+  };
+}
+
+// Matches "### Requirement 1", "### Requirement 1: Login", "### REQ-2 Title"
+const PREFIXED_REQUIREMENT_HEADING = /^#{2,4}\s+(?:Requirement\s+|REQ-?)(\d+(?:\.\d+)*)\b\.?:?\s*(.*)$/i;
+// Matches "### 1. Login", "### 2.1. Session handling"
+const NUMBERED_REQUIREMENT_HEADING = /^#{2,4}\s+(\d+(?:\.\d+)*)\.\s+(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+const NUMBERED_ITEM = /^\s*(\d+)\.\s+(.+)$/;
+
+/**
+ * Parse requirements from markdown content.
+ * Requirement headings must start with "Requirement N" or "N." so that other
+ * numbered headings are not mistaken for requirements. Acceptance criteria are the
+ * numbered items under an "Acceptance Criteria" heading or label, numbered as
+ * "{requirementId}.{n}".
+ */
+export function parseRequirementsFromMarkdown(content: string): RequirementsParserResult {
+  const lines = content.split('\n');
+  const requirements: ParsedRequirement[] = [];
+  let current: ParsedRequirement | null = null;
+  let inCriteria = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    const headingMatch = trimmed.match(HEADING);
+    if (headingMatch) {
+      const requirementMatch = trimmed.match(PREFIXED_REQUIREMENT_HEADING) || trimmed.match(NUMBERED_REQUIREMENT_HEADING);
+
+      if (requirementMatch) {
+        current = {
+          id: requirementMatch[1],
+          title: requirementMatch[2].trim(),
+          lineNumber: i,
+          acceptanceCriteria: []
+        };
+        requirements.push(current);
+        inCriteria = false;
+      } else if (/acceptance criteria/i.test(headingMatch[2])) {
+        inCriteria = current !== null;
+      } else if (headingMatch[1].length <= 2) {
+        // A new top-level section (e.g. "## Non-Functional Requirements") ends the requirement list
+        if (requirements.length > 0) break;
+        current = null;
+        inCriteria = false;
+      } else {
+        inCriteria = false;
+      }
+      continue;
+    }
+
+    if (!current) continue;
+
+    // "**Acceptance Criteria:**" written as a bold label instead of a heading
+    if (/^\*\*acceptance criteria:?\*\*:?$/i.test(trimmed)) {
+      inCriteria = true;
+      continue;
+    }
+
+    const storyMatch = trimmed.match(/^\*\*User Story:?\*\*:?\s*(.+)$/i);
+    if (storyMatch) {
+      current.userStory = storyMatch[1].trim();
+      current.userStoryLineNumber = i;
+      current.userStoryParts = parseUserStory(current.userStory);
+      continue;
+    }
+
+    if (inCriteria) {
+      const itemMatch = line.match(NUMBERED_ITEM);
+      if (itemMatch) {
+        current.acceptanceCriteria.push({
+          id: `${current.id}.${itemMatch[1]}`,
+          text: itemMatch[2].trim(),
+          lineNumber: i,
+          ears: parseEarsClause(itemMatch[2])
+        });
+      }
+    }
+  }
+
+  return {
+    requirements,
+    summary: {
+      total: requirements.length,
+      acceptanceCriteria: requirements.reduce((sum, r) => sum + r.acceptanceCriteria.length, 0)
+    }
+  };
+}
+
+/**
+ * Normalize a requirement reference from a task (e.g. "2.3", "Requirement 2", "4.0")
+ * Returns the bare ID, with a trailing ".0" treated as the requirement itself.
+ */
+export function normalizeRequirementRef(ref: string): string {
+  const match = ref.trim().match(/(\d+(?:\.\d+)*)/);
+  if (!match) {
+    return ref.trim();
+  }
+  return match[1].replace(/\.0$/, '');
+}
+
+const EARS_KEYWORDS: Record<string, EarsPattern> = {
+  WHEN: 'event-driven',
+  WHILE: 'state-driven',
+  IF: 'unwanted-behavior',
+  WHERE: 'optional-feature'
+};
+
+/**
+ * Split an acceptance criterion into its EARS clauses.
+ * Supports "WHEN/WHILE/IF/WHERE <condition> [THEN|,] <system> SHALL <response>" and
+ * ubiquitous "<system> SHALL <response>". Returns null if there is no SHALL.
+ */
+export function parseEarsClause(text: string): EarsClause | null {
+  const normalized = text.replace(/\*\*/g, '').replace(/\s+/g, ' ').trim();
+
+  const shallMatch = normalized.match(/\bSHALL\b/i);
+  if (!shallMatch || shallMatch.index === undefined) {
+    return null;
+  }
+
+  let before = normalized.slice(0, shallMatch.index).trim();
+  const response = normalized.slice(shallMatch.index + shallMatch[0].length).trim().replace(/[.;]$/, '');
+
+  const leading = before.match(/^(WHEN|WHILE|IF|WHERE)\s/i);
+  if (!leading) {
+    return { pattern: 'ubiquitous', keywords: [], hasThen: false, system: before, response };
+  }
+
+  // Further upper-case keywords make a complex requirement, e.g. "WHILE offline, WHEN the user saves ..."
+  before = before.slice(leading[0].length);
+  const keywords = [leading[1].toUpperCase()];
+  for (const match of before.matchAll(/(?:^|\s)(WHEN|WHILE|IF|WHERE)\s/g)) {
+    keywords.push(match[1]);
+  }
+  let condition: string;
+  let system: string;
+  let hasThen = false;
+
+  const thenMatch = before.match(/\bTHEN\b/i);
+  if (thenMatch && thenMatch.index !== undefined) {
+    hasThen = true;
+    condition = before.slice(0, thenMatch.index);
+    system = before.slice(thenMatch.index + thenMatch[0].length);
+  } else {
+    // Without THEN, the last comma separates the condition from the system
+    const comma = before.lastIndexOf(',');
+    condition = comma >= 0 ? before.slice(0, comma) : before;
+    system = comma >= 0 ? before.slice(comma + 1) : '';
+  }
+
+  return {
+    pattern: keywords.length > 1 ? 'complex' : EARS_KEYWORDS[keywords[0]],
+    keywords,
+    condition: condition.replace(/,\s*$/, '').trim(),
+    hasThen,
+    system: system.trim(),
+    response
+  };
+}
+
+/**
+ * Split a user story into role, goal and benefit.
+ * Returns null if the story does not follow "As a [role], I want [goal], so that [benefit]".
+ */
+export function parseUserStory(text: string): UserStory | null {
+  const match = text
+    .replace(/\*\*/g, '')
+    .trim()
+    .match(/^As an?\s+(.+?),?\s+I\s+(?:want|need|would like)\s+(?:to\s+)?(.+?)(?:,?\s+so\s+that\s+(.+?))?\.?$/i);
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    role: match[1].trim(),
+    goal: match[2].trim(),
+    ...(match[3] && { benefit: match[3].trim() })
+  };
+}
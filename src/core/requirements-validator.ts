@@ -0,0 +1,253 @@
+/**
+ * Requirements Validator Module
+ * Validates requirements.md structure and EARS acceptance criteria before approval
+ */
+
+import { parseRequirementsFromMarkdown, ParsedRequirement } from './requirements-parser.js';
+
+export interface RequirementsValidationError {
+  line: number;
+  requirementId?: string;
+  criterionId?: string;
+  field: string;
+  message: string;
+  suggestion?: string;
+  severity: 'error' | 'warning';
+}
+
+export interface RequirementsValidationResult {
+  valid: boolean;
+  errors: RequirementsValidationError[];
+  warnings: RequirementsValidationError[];
+  requirements: ParsedRequirement[];
+  summary: {
+    totalRequirements: number;
+    totalCriteria: number;
+    validCriteria: number;
+    invalidCriteria: number;
+  };
+}
+
+const EARS_SUGGESTION = 'Use EARS format: "WHEN [event] THEN [system] SHALL [response]" or "IF [precondition] THEN [system] SHALL [response]"';
+
+/**
+ * Validate requirements.md content against the requirements template
+ * @param content The markdown content to validate
+ * @returns RequirementsValidationResult with errors, warnings, parsed requirements, and summary
+ */
+export function validateRequirementsMarkdown(content: string): RequirementsValidationResult {
+  const lines = content.split('\n');
+  const { requirements } = parseRequirementsFromMarkdown(content);
+  const errors: RequirementsValidationError[] = [];
+  const warnings: RequirementsValidationError[] = [];
+  let totalCriteria = 0;
+  let validCriteria = 0;
+
+  if (requirements.length === 0) {
+    errors.push({
+      line: 1,
+      field: 'requirements',
+      message: 'No numbered requirements found',
+      suggestion: 'Add requirements as headings like "### Requirement 1" under "## Requirements"',
+      severity: 'error'
+    });
+  }
+
+  const seenIds = new Map<string, number>();
+
+  for (const requirement of requirements) {
+    const line = requirement.lineNumber + 1; // 1-based for user-friendly messages
+    const requirementId = requirement.id;
+
+    // 1. Requirement IDs must be unique so tasks can reference them
+    const firstLine = seenIds.get(requirementId);
+    if (firstLine !== undefined) {
+      errors.push({
+        line,
+        requirementId,
+        field: 'requirementId',
+        message: `Duplicate requirement ID ${requirementId} (first defined on line ${firstLine})`,
+        suggestion: 'Number requirements sequentially so each ID is unique',
+        severity: 'error'
+      });
+    } else {
+      seenIds.set(requirementId, line);
+    }
+
+    // 2. User story: "As a [role], I want [feature], so that [benefit]"
+    if (!requirement.userStory) {
+      warnings.push({
+        line,
+        requirementId,
+        field: 'userStory',
+        message: 'Requirement has no user story',
+        suggestion: 'Add "**User Story:** As a [role], I want [feature], so that [benefit]"',
+        severity: 'warning'
+      });
+    } else if (!requirement.userStoryParts) {
+      warnings.push({
+        line: (requirement.userStoryLineNumber ?? requirement.lineNumber) + 1,
+        requirementId,
+        field: 'userStory',
+        message: 'User story does not follow the "As a ..., I want ..., so that ..." format',
+        suggestion: 'Rewrite as "As a [role], I want [feature], so that [benefit]"',
+        severity: 'warning'
+      });
+    } else if (!requirement.userStoryParts.benefit) {
+      warnings.push({
+        line: (requirement.userStoryLineNumber ?? requirement.lineNumber) + 1,
+        requirementId,
+        field: 'userStory',
+        message: 'User story has no "so that" benefit',
+        suggestion: 'Explain why the requirement matters: "..., so that [benefit]"',
+        severity: 'warning'
+      });
+    }
+
+    // 3. Every requirement needs acceptance criteria
+    if (requirement.acceptanceCriteria.length === 0) {
+      const hasBulletCriteria = hasUnnumberedCriteria(lines, requirement.lineNumber);
+      errors.push({
+        line,
+        requirementId,
+        field: 'acceptanceCriteria',
+        message: hasBulletCriteria
+          ? 'Acceptance criteria must be a numbered list'
+          : 'Requirement has no acceptance criteria',
+        suggestion: hasBulletCriteria
+          ? 'Number each criterion ("1. WHEN ...") so tasks can reference it as "1.1"'
+          : 'Add "#### Acceptance Criteria" followed by numbered EARS statements',
+        severity: 'error'
+      });
+    }
+
+    // 4. Each criterion must be a well-formed EARS statement
+    for (const criterion of requirement.acceptanceCriteria) {
+      totalCriteria++;
+      const criterionErrors = errors.length;
+      const criterionLine = criterion.lineNumber + 1;
+      const base = { line: criterionLine, requirementId, criterionId: criterion.id };
+      const ears = criterion.ears;
+
+      if (!ears) {
+        const usesShould = /\b(should|must|will)\b/i.test(criterion.text);
+        errors.push({
+          ...base,
+          field: 'ears',
+          message: 'Acceptance criterion has no SHALL clause',
+          suggestion: usesShould
+            ? 'Replace SHOULD/MUST/WILL with SHALL. ' + EARS_SUGGESTION
+            : EARS_SUGGESTION,
+          severity: 'error'
+        });
+      } else {
+        if (ears.pattern !== 'ubiquitous' && !ears.condition) {
+          errors.push({
+            ...base,
+            field: 'ears',
+            message: `${ears.keywords[0]} clause has no condition`,
+            suggestion: `Describe the ${ears.keywords[0] === 'IF' ? 'precondition' : 'trigger'} after ${ears.keywords[0]}`,
+            severity: 'error'
+          });
+        }
+
+        if (!ears.response) {
+          errors.push({
+            ...base,
+            field: 'ears',
+            message: 'SHALL clause has no response',
+            suggestion: 'Describe the expected system behavior after SHALL',
+            severity: 'error'
+          });
+        }
+
+        if (!ears.system) {
+          warnings.push({
+            ...base,
+            field: 'ears',
+            message: ears.pattern !== 'ubiquitous' && !ears.hasThen
+              ? `${ears.keywords[0]} clause is missing THEN before the system name`
+              : 'Acceptance criterion does not name the system before SHALL',
+            suggestion: EARS_SUGGESTION,
+            severity: 'warning'
+          });
+        }
+
+        if (ears.pattern !== 'ubiquitous' && !/^(WHEN|WHILE|IF|WHERE)\b/.test(criterion.text.replace(/\*\*/g, '').trim())) {
+          warnings.push({
+            ...base,
+            field: 'ears',
+            message: 'EARS keywords should be upper case',
+            suggestion: 'Write keywords as WHEN, WHILE, IF, WHERE, THEN and SHALL',
+            severity: 'warning'
+          });
+        }
+      }
+
+      if (errors.length === criterionErrors) {
+        validCriteria++;
+      }
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    requirements,
+    summary: {
+      totalRequirements: requirements.length,
+      totalCriteria,
+      validCriteria,
+      invalidCriteria: totalCriteria - validCriteria
+    }
+  };
+}
+
+/**
+ * Check whether a requirement lists acceptance criteria as bullets instead of a numbered list
+ */
+function hasUnnumberedCriteria(lines: string[], headingIndex: number): boolean {
+  let inCriteria = false;
+  for (let i = headingIndex + 1; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (/^#{1,3}\s/.test(trimmed)) break;
+    if (/acceptance criteria/i.test(trimmed)) {
+      inCriteria = true;
+    } else if (inCriteria && /^[-*]\s+\S/.test(trimmed)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Format requirements validation errors for display
+ * @param result The validation result
+ * @returns Formatted string array of errors and warnings
+ */
+export function formatRequirementsValidationErrors(result: RequirementsValidationResult): string[] {
+  const messages: string[] = [];
+
+  const format = (issue: RequirementsValidationError) => {
+    const location = issue.criterionId
+      ? ` (Criterion ${issue.criterionId})`
+      : issue.requirementId ? ` (Requirement ${issue.requirementId})` : '';
+    messages.push(`  Line ${issue.line}${location}: ${issue.message}`);
+    if (issue.suggestion) {
+      messages.push(`    Suggestion: ${issue.suggestion}`);
+    }
+  };
+
+  if (result.errors.length > 0) {
+    messages.push(`Found ${result.errors.length} error(s):`);
+    result.errors.forEach(format);
+  }
+
+  if (result.warnings.length > 0) {
+    messages.push(`Found ${result.warnings.length} warning(s):`);
+    result.warnings.forEach(format);
+  }
+
+  return messages;
+}
@@ -0,0 +1,304 @@
+/**
+ * A small in-memory inverted index with BM25 ranking, for searching line-oriented text
+ * such as markdown documents. Documents are indexed line by line so hits can point at
+ * the line that matched.
+ */
+
+export interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+export interface SearchHit<M> {
+  id: string;
+  meta: M;
+  score: number;
+  line: number;    // 0-based index of the line matching the most query terms
+  terms: string[]; // Indexed terms that matched
+}
+
+interface IndexedDocument<M> {
+  lines: string[];
+  meta: M;
+  length: number;
+  lineWeights?: number[];
+}
+
+// Postings per document: the line index of each occurrence, weighted by its line for term frequency
+type Postings = Map<string, number[]>;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// How much looser matches count, relative to the exact term
+const PREFIX_WEIGHT = 0.8;
+const SYNONYM_WEIGHT = 0.6;
+const FUZZY_WEIGHT = 0.5;
+
+/**
+ * Split text into lowercase word tokens with their offsets. camelCase and PascalCase words
+ * also yield their parts, so "ApprovalStorage" matches "approval", "storage" and "approvalstorage".
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = match[0];
+    const start = match.index!;
+    tokens.push({ term: word.toLowerCase(), start, end: start + word.length });
+
+    const parts = [...word.matchAll(/\p{Lu}+(?!\p{Ll})|\p{Lu}?\p{Ll}+|\p{N}+/gu)];
+    if (parts.length > 1) {
+      for (const part of parts) {
+        const partStart = start + part.index!;
+        tokens.push({ term: part[0].toLowerCase(), start: partStart, end: partStart + part[0].length });
+      }
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Unique query terms in the order they were typed
+ */
+export function queryTerms(query: string): string[] {
+  return [...new Set(tokenize(query).map(token => token.term))];
+}
+
+/**
+ * Character ranges of the words in text that match the query. The last query term also
+ * matches as a prefix, as it is the one still being typed.
+ */
+export function highlightRanges(text: string, query: string): Array<[number, number]> {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+  const prefix = terms[terms.length - 1];
+
+  const ranges = tokenize(text)
+    .filter(token => terms.includes(token.term) || token.term.startsWith(prefix))
+    .map(token => [token.start, token.end] as [number, number])
+    .sort((a, b) => a[0] - b[0] || b[1] - a[1]);
+
+  // Whole words and their camelCase parts overlap; keep the outermost range
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] < last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push(range);
+    }
+  }
+  return merged;
+}
+
+export interface SearchOptions {
+  limit?: number;                        // All hits when omitted
+  matchAll?: boolean;                    // Require every query term (default), or rank documents matching any
+  prefix?: 'last' | 'all';               // Which query terms also match as prefixes (default: the last one)
+  fuzzy?: boolean;                       // Also match terms one or two typos away
+  synonyms?: Record<string, string[]>;   // Related terms each query term also matches, at a lower weight
+}
+
+/**
+ * Levenshtein distance, or max + 1 once it is known to exceed max
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export class SearchIndex<M> {
+  private documents: Map<string, IndexedDocument<M>> = new Map();
+  private postings: Map<string, Postings> = new Map();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Add a document, replacing any document with the same ID. Line weights make terms on
+   * some lines, such as names, count for more than others.
+   */
+  add(id: string, lines: string[], meta: M, lineWeights?: number[]): void {
+    this.remove(id);
+
+    let length = 0;
+    lines.forEach((line, lineIndex) => {
+      for (const { term } of tokenize(line)) {
+        let termPostings = this.postings.get(term);
+        if (!termPostings) {
+          termPostings = new Map();
+          this.postings.set(term, termPostings);
+        }
+        let occurrences = termPostings.get(id);
+        if (!occurrences) {
+          occurrences = [];
+          termPostings.set(id, occurrences);
+        }
+        occurrences.push(lineIndex);
+        length += lineWeights?.[lineIndex] ?? 1;
+      }
+    });
+
+    this.documents.set(id, { lines, meta, length, lineWeights });
+    this.totalLength += length;
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    for (const { term } of document.lines.flatMap(line => tokenize(line))) {
+      const termPostings = this.postings.get(term);
+      if (termPostings?.delete(id) && termPostings.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+  }
+
+  /**
+   * Remove every document whose metadata matches
+   */
+  removeWhere(predicate: (meta: M) => boolean): void {
+    for (const [id, document] of [...this.documents]) {
+      if (predicate(document.meta)) {
+        this.remove(id);
+      }
+    }
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  getLines(id: string): string[] | undefined {
+    return this.documents.get(id)?.lines;
+  }
+
+  /**
+   * Rank documents against the query with BM25. Each query term matches indexed terms
+   * exactly, and depending on the options by prefix, synonym or typo, the looser matches
+   * counting for less. A document scores the best of its matches for each query term.
+   */
+  search(query: string, options: SearchOptions = {}): SearchHit<M>[] {
+    const terms = queryTerms(query);
+    if (terms.length === 0 || this.documents.size === 0) return [];
+
+    const { matchAll = true, prefix = 'last' } = options;
+    const expansions = terms.map((term, index) =>
+      this.expand(term, prefix === 'all' || index === terms.length - 1, options)
+    );
+    if (matchAll && expansions.some(expansion => expansion.size === 0)) return [];
+
+    const documentCount = this.documents.size;
+    const averageLength = this.totalLength / documentCount || 1;
+    const candidates = new Set<string>();
+    for (const expansion of expansions) {
+      for (const indexedTerm of expansion.keys()) {
+        for (const id of this.postings.get(indexedTerm)!.keys()) {
+          candidates.add(id);
+        }
+      }
+    }
+
+    const hits: SearchHit<M>[] = [];
+    for (const id of candidates) {
+      const document = this.documents.get(id)!;
+      let score = 0;
+      let termsMatched = 0;
+      const matchedTerms = new Set<string>();
+      const termsPerLine: Map<number, number> = new Map();
+
+      for (const expansion of expansions) {
+        let best = 0;
+        const lines = new Set<number>();
+        for (const [indexedTerm, weight] of expansion) {
+          const termPostings = this.postings.get(indexedTerm)!;
+          const occurrences = termPostings.get(id);
+          if (!occurrences) continue;
+
+          const idf = Math.log(1 + (documentCount - termPostings.size + 0.5) / (termPostings.size + 0.5));
+          const tf = occurrences.reduce((sum, line) => sum + (document.lineWeights?.[line] ?? 1), 0);
+          const termScore = weight * idf * (tf * (BM25_K1 + 1)) /
+            (tf + BM25_K1 * (1 - BM25_B + BM25_B * document.length / averageLength));
+          best = Math.max(best, termScore);
+          matchedTerms.add(indexedTerm);
+          occurrences.forEach(line => lines.add(line));
+        }
+        if (lines.size === 0) continue;
+
+        score += best;
+        termsMatched++;
+        for (const line of lines) {
+          termsPerLine.set(line, (termsPerLine.get(line) ?? 0) + 1);
+        }
+      }
+      if (termsMatched === 0 || (matchAll && termsMatched < terms.length)) continue;
+
+      let line = 0;
+      let bestCount = 0;
+      for (const [lineIndex, count] of termsPerLine) {
+        if (count > bestCount || (count === bestCount && lineIndex < line)) {
+          line = lineIndex;
+          bestCount = count;
+        }
+      }
+
+      hits.push({ id, meta: document.meta, score, line, terms: [...matchedTerms].sort() });
+    }
+
+    hits.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+    return options.limit === undefined ? hits : hits.slice(0, options.limit);
+  }
+
+  /**
+   * The indexed terms a query term matches, with the weight of each match
+   */
+  private expand(term: string, asPrefix: boolean, options: SearchOptions): Map<string, number> {
+    const expansion: Map<string, number> = new Map();
+    const consider = (indexedTerm: string, weight: number) => {
+      if (weight > (expansion.get(indexedTerm) ?? 0)) {
+        expansion.set(indexedTerm, weight);
+      }
+    };
+
+    const related = (options.synonyms?.[term] ?? []).map(synonym => synonym.toLowerCase());
+    const maxDistance = options.fuzzy && term.length >= 4 ? (term.length >= 8 ? 2 : 1) : 0;
+
+    for (const indexedTerm of this.postings.keys()) {
+      if (indexedTerm === term) {
+        consider(indexedTerm, 1);
+      } else if (asPrefix && indexedTerm.startsWith(term)) {
+        consider(indexedTerm, PREFIX_WEIGHT);
+      }
+      for (const synonym of related) {
+        if (indexedTerm === synonym || (asPrefix && indexedTerm.startsWith(synonym))) {
+          consider(indexedTerm, SYNONYM_WEIGHT);
+        }
+      }
+      if (maxDistance > 0 && editDistance(term, indexedTerm, maxDistance) <= maxDistance) {
+        consider(indexedTerm, FUZZY_WEIGHT);
+      }
+    }
+    return expansion;
+  }
+}
@@ -115,6 +115,7 @@ export interface ParsedTask {
   
   // Optional metadata
   requirements?: string[];              // Referenced requirements
+  dependencies?: string[];             // IDs of tasks that must be completed first (_Depends:_)
   leverage?: string;                   // Code to leverage
   files?: string[];                    // Files to modify/create
   purposes?: string[];                 // Purpose statements
@@ -122,6 +123,11 @@ export interface ParsedTask {
   prompt?: string;                     // AI prompt for this task (full text)
   promptStructured?: PromptSection[];  // Structured prompt sections (if prompt contains pipe separators)
   
+  // Computed dependency state
+  blockedBy?: string[];                // Dependencies that are not completed yet
+  blocked: boolean;                    // true if not completed and any dependency is not completed
+  ready: boolean;                      // true if pending, not a header, and not blocked
+  
   // For backward compatibility
   completed: boolean;                  // true if status === 'completed'
   inProgress: boolean;                 // true if status === 'in-progress'
@@ -135,6 +141,8 @@ export interface TaskParserResult {
     inProgress: number;
     pending: number;
     headers: number;
+    ready: number;
+    blocked: number;
   };
 }
 
@@ -196,6 +204,7 @@ export function parseTasksFromMarkdown(content: string): TaskParserResult {
     
     // Parse metadata from content between this task and the next
     const requirements: string[] = [];
+    const dependencies: string[] = [];
     const leverage: string[] = [];
     const files: string[] = [];
     const purposes: string[] = [];
@@ -248,6 +257,12 @@ export function parseTasksFromMarkdown(content: string): TaskParserResult {
           // Split by comma and filter out empty/NFR
           requirements.push(...reqText.split(',').map(r => r.trim()).filter(r => r && r !== 'NFR'));
         }
+      } else if (contentLine.includes('_Depends:') && !contentLine.includes('_Prompt:')) {
+        // Only process if not inside a prompt
+        const depMatch = contentLine.match(/_Depends:\s*([^_]+?)_/);
+        if (depMatch) {
+          dependencies.push(...parseDependencyList(depMatch[1]));
+        }
       } else if (contentLine.includes('_Leverage:') && !contentLine.includes('_Prompt:')) {
         // Only process if not inside a prompt
         const levMatch = contentLine.match(/_Leverage:\s*([^_]+?)_/);
@@ -278,6 +293,7 @@ export function parseTasksFromMarkdown(content: string): TaskParserResult {
     
     // Determine if this is a header task (has no implementation details)
     const hasDetails = requirements.length > 0 || 
+                      dependencies.length > 0 ||
                       leverage.length > 0 || 
                       files.length > 0 || 
                       purposes.length > 0 || 
@@ -297,11 +313,14 @@ export function parseTasksFromMarkdown(content: string): TaskParserResult {
       lineNumber,
       indentLevel: indent.length / 2, // Assuming 2 spaces per indent level
       isHeader: !hasDetails,
+      blocked: false,
+      ready: false,
       completed: status === 'completed',
       inProgress: status === 'in-progress',
       
       // Add metadata if present
       ...(requirements.length > 0 && { requirements }),
+      ...(dependencies.length > 0 && { dependencies }),
       ...(leverage.length > 0 && { leverage: leverage.join(', ') }),
       ...(files.length > 0 && { files }),
       ...(purposes.length > 0 && { purposes }),
@@ -317,13 +336,18 @@ export function parseTasksFromMarkdown(content: string): TaskParserResult {
     }
   }
   
+  // Resolve blocked/ready state now that every task is known
+  applyDependencyState(tasks);
+  
   // Calculate summary
   const summary = {
     total: tasks.length,
     completed: tasks.filter(t => t.status === 'completed').length,
     inProgress: tasks.filter(t => t.status === 'in-progress').length,
     pending: tasks.filter(t => t.status === 'pending').length,
-    headers: tasks.filter(t => t.isHeader).length
+    headers: tasks.filter(t => t.isHeader).length,
+    ready: tasks.filter(t => t.ready).length,
+    blocked: tasks.filter(t => t.blocked).length
   };
   
   return {
@@ -377,10 +401,89 @@ export function updateTaskStatus(
 }
 
 /**
- * Find the next pending task that is not a header
+ * Parse a comma-separated dependency list (e.g. "1.2, 3") into task IDs
+ */
+function parseDependencyList(text: string): string[] {
+  return text
+    .split(',')
+    .map(d => d.trim().replace(/\.$/, ''))
+    .filter(d => /^\d+(?:\.\d+)*$/.test(d));
+}
+
+/**
+ * Check whether a dependency is satisfied.
+ * A dependency is satisfied when the task itself is completed, or when it is a
+ * parent task whose subtasks (e.g. 3.1, 3.2 for "3") are all completed.
+ */
+export function isDependencySatisfied(tasks: ParsedTask[], dependencyId: string): boolean {
+  const task = tasks.find(t => t.id === dependencyId);
+  if (task?.status === 'completed') {
+    return true;
+  }
+
+  const subtasks = tasks.filter(t => t.id.startsWith(dependencyId + '.'));
+  return subtasks.length > 0 && subtasks.every(t => t.status === 'completed');
+}
+
+/**
+ * Compute blocked/ready state for every task from its dependencies.
+ * Unknown dependency IDs can never be satisfied, so they keep the task blocked.
+ */
+function applyDependencyState(tasks: ParsedTask[]): void {
+  for (const task of tasks) {
+    const blockedBy = (task.dependencies || []).filter(dep => !isDependencySatisfied(tasks, dep));
+
+    task.blocked = task.status !== 'completed' && blockedBy.length > 0;
+    task.ready = task.status === 'pending' && !task.isHeader && !task.blocked;
+    if (task.blocked) {
+      task.blockedBy = blockedBy;
+    }
+  }
+}
+
+/**
+ * Find dependency cycles in a task graph
+ * @param graph Map of task ID to the IDs it depends on
+ * @returns Each cycle as a path of task IDs, starting and ending with the same ID
+ */
+export function findDependencyCycles(graph: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+
+    for (const dep of graph.get(id) || []) {
+      if (!graph.has(dep)) continue;
+
+      const depState = state.get(dep);
+      if (depState === 'visiting') {
+        cycles.push([...stack.slice(stack.indexOf(dep)), dep]);
+      } else if (!depState) {
+        visit(dep);
+      }
+    }
+
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  for (const id of graph.keys()) {
+    if (!state.has(id)) {
+      visit(id);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Find the next pending task that is not a header and whose dependencies are completed
  */
 export function findNextPendingTask(tasks: ParsedTask[]): ParsedTask | null {
-  return tasks.find(t => t.status === 'pending' && !t.isHeader) || null;
+  return tasks.find(t => t.ready) || null;
 }
 
 /**
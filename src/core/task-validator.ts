@@ -3,6 +3,8 @@
  * Validates tasks.md format compliance before approval
  */
 
+import { findDependencyCycles } from './task-parser.js';
+
 export interface ValidationError {
   line: number;
   taskId?: string;
@@ -35,6 +37,11 @@ export function validateTasksMarkdown(content: string): ValidationResult {
   let taskCount = 0;
   let validTaskCount = 0;
 
+  // Dependency references collected per task, checked once all task IDs are known
+  const dependencyRefs: { taskId: string; line: number; dependencies: string[] }[] = [];
+  const taskLines = new Map<string, number>();
+  const validTaskIds = new Set<string>();
+
   // Find all checkbox lines and their ranges (including malformed ones with asterisks)
   const checkboxIndices: number[] = [];
   for (let i = 0; i < lines.length; i++) {
@@ -112,6 +119,9 @@ export function validateTasksMarkdown(content: string): ValidationResult {
       taskValid = false;
     } else {
       taskId = taskIdMatch[1];
+      if (!taskLines.has(taskId)) {
+        taskLines.set(taskId, lineNum);
+      }
     }
 
     // 3. Validate metadata in following lines
@@ -164,6 +174,42 @@ export function validateTasksMarkdown(content: string): ValidationResult {
         }
       }
 
+      // Check for _Depends:_ format (skip prompt lines, which may mention dependencies in prose)
+      if (trimmedLine.includes('Depends:') && !trimmedLine.includes('_Prompt:')) {
+        const depMatch = trimmedLine.match(/_Depends:\s*([^_]+?)_/);
+        if (depMatch) {
+          const dependencies = depMatch[1].split(',').map(d => d.trim().replace(/\.$/, '')).filter(d => d);
+          const invalidIds = dependencies.filter(d => !/^\d+(?:\.\d+)*$/.test(d));
+          if (invalidIds.length > 0) {
+            errors.push({
+              line: lineIdx + 1,
+              taskId,
+              field: 'dependencies',
+              message: `Invalid dependency ID(s): ${invalidIds.join(', ')}`,
+              suggestion: 'List numeric task IDs separated by commas, e.g. "_Depends: 1.2, 3_"',
+              severity: 'error'
+            });
+            taskValid = false;
+          }
+          if (taskId) {
+            dependencyRefs.push({
+              taskId,
+              line: lineIdx + 1,
+              dependencies: dependencies.filter(d => !invalidIds.includes(d))
+            });
+          }
+        } else if (trimmedLine.match(/Depends:\s*\S/) && !trimmedLine.includes('_Depends:')) {
+          warnings.push({
+            line: lineIdx + 1,
+            taskId,
+            field: 'dependencies',
+            message: 'Depends field missing underscore delimiters',
+            suggestion: 'Use "_Depends: ..._" format for proper parsing',
+            severity: 'warning'
+          });
+        }
+      }
+
       // Check for Files: field
       if (trimmedLine.match(/Files?:/i)) {
         hasFiles = true;
@@ -232,9 +278,71 @@ export function validateTasksMarkdown(content: string): ValidationResult {
     // Track if task is valid (only errors affect validity, not warnings)
     if (taskValid) {
       validTaskCount++;
+      if (taskId) {
+        validTaskIds.add(taskId);
+      }
     }
   }
 
+  // 4. Validate dependency references against the full set of task IDs
+  const invalidateTask = (id: string) => {
+    if (validTaskIds.delete(id)) {
+      validTaskCount--;
+    }
+  };
+  const graph = new Map<string, string[]>();
+  const allTaskIds = Array.from(taskLines.keys());
+
+  for (const ref of dependencyRefs) {
+    for (const dep of ref.dependencies) {
+      if (dep === ref.taskId) {
+        errors.push({
+          line: ref.line,
+          taskId: ref.taskId,
+          field: 'dependencies',
+          message: `Task ${ref.taskId} depends on itself`,
+          suggestion: 'Remove the task\'s own ID from its _Depends_ list',
+          severity: 'error'
+        });
+        invalidateTask(ref.taskId);
+      } else if (!taskLines.has(dep) && !allTaskIds.some(id => id.startsWith(dep + '.'))) {
+        errors.push({
+          line: ref.line,
+          taskId: ref.taskId,
+          field: 'dependencies',
+          message: `Task ${ref.taskId} depends on unknown task ${dep}`,
+          suggestion: 'Reference an existing task ID or remove the dependency',
+          severity: 'error'
+        });
+        invalidateTask(ref.taskId);
+      }
+    }
+
+    // A dependency on a parent task ("3") is a dependency on each of its subtasks
+    const edges = ref.dependencies.flatMap(dep =>
+      taskLines.has(dep) ? [dep] : allTaskIds.filter(id => id.startsWith(dep + '.'))
+    );
+    graph.set(ref.taskId, [...(graph.get(ref.taskId) || []), ...edges.filter(e => e !== ref.taskId)]);
+  }
+
+  for (const id of allTaskIds) {
+    if (!graph.has(id)) {
+      graph.set(id, []);
+    }
+  }
+
+  for (const cycle of findDependencyCycles(graph)) {
+    errors.push({
+      line: taskLines.get(cycle[0]) || 0,
+      taskId: cycle[0],
+      field: 'dependencies',
+      message: `Circular dependency: ${cycle.join(' -> ')}`,
+      suggestion: 'Remove one of the _Depends_ references so tasks can be completed in order',
+      severity: 'error'
+    });
+    cycle.forEach(invalidateTask);
+  }
+
   return {
     valid: errors.length === 0,
     errors,
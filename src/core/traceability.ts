@@ -0,0 +1,177 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { PathUtils } from './path-utils.js';
+import { parseRequirementsFromMarkdown, normalizeRequirementRef } from './requirements-parser.js';
+import { parseTasksFromMarkdown } from './task-parser.js';
+import { ImplementationLogEntry } from '../types.js';
+import { ImplementationLogManager } from '../dashboard/implementation-log-manager.js';
+
+export type TraceStatus = 'uncovered' | 'planned' | 'in-progress' | 'implemented';
+
+export interface RequirementTrace {
+  id: string;
+  parentId?: string;                   // Set for acceptance criteria (e.g. "1" for "1.2")
+  title: string;
+  tasks: string[];                     // IDs of tasks that reference this requirement
+  loggedTasks: string[];               // Subset of tasks with implementation log entries
+  status: TraceStatus;
+}
+
+export interface TaskTrace {
+  id: string;
+  description: string;
+  status: 'pending' | 'in-progress' | 'completed';
+  requirements: string[];              // Normalized requirement references
+  unknownRequirements: string[];       // References that match no requirement or criterion
+  logEntries: number;
+}
+
+export interface TraceabilityReport {
+  specName: string;
+  requirements: RequirementTrace[];
+  tasks: TaskTrace[];
+  uncoveredRequirements: string[];
+  unknownReferences: { taskId: string; requirementId: string }[];
+  summary: {
+    totalRequirements: number;
+    coveredRequirements: number;
+    implementedRequirements: number;
+    totalCriteria: number;
+    coveredCriteria: number;
+    coveragePercent: number;
+  };
+}
+
+/**
+ * Build a traceability matrix from requirements.md, tasks.md and implementation logs.
+ * A task referencing a requirement ("2") covers all of its acceptance criteria; a task
+ * referencing a criterion ("2.1") covers that criterion and, partially, its requirement.
+ */
+export function buildTraceabilityMatrix(
+  specName: string,
+  requirementsContent: string,
+  tasksContent: string,
+  logs: ImplementationLogEntry[]
+): TraceabilityReport {
+  const { requirements } = parseRequirementsFromMarkdown(requirementsContent);
+  const { tasks } = parseTasksFromMarkdown(tasksContent);
+
+  const logCounts = new Map<string, number>();
+  for (const log of logs) {
+    logCounts.set(log.taskId, (logCounts.get(log.taskId) || 0) + 1);
+  }
+
+  const knownIds = new Set<string>();
+  for (const requirement of requirements) {
+    knownIds.add(requirement.id);
+    requirement.acceptanceCriteria.forEach(c => knownIds.add(c.id));
+  }
+
+  const taskTraces: TaskTrace[] = [];
+  const unknownReferences: { taskId: string; requirementId: string }[] = [];
+
+  for (const task of tasks) {
+    if (!task.requirements || task.requirements.length === 0) continue;
+
+    const refs = [...new Set(task.requirements.map(normalizeRequirementRef))];
+    const unknown = refs.filter(ref => !knownIds.has(ref));
+    unknown.forEach(ref => unknownReferences.push({ taskId: task.id, requirementId: ref }));
+
+    taskTraces.push({
+      id: task.id,
+      description: task.description,
+      status: task.status,
+      requirements: refs,
+      unknownRequirements: unknown,
+      logEntries: logCounts.get(task.id) || 0
+    });
+  }
+
+  const traceFor = (id: string, title: string, matches: (ref: string) => boolean, parentId?: string): RequirementTrace => {
+    const linked = taskTraces.filter(t => t.requirements.some(matches));
+    const loggedTasks = linked.filter(t => t.logEntries > 0).map(t => t.id);
+
+    let status: TraceStatus = 'uncovered';
+    if (linked.length > 0) {
+      if (linked.every(t => t.status === 'completed' && t.logEntries > 0)) {
+        status = 'implemented';
+      } else if (linked.some(t => t.status !== 'pending' || t.logEntries > 0)) {
+        status = 'in-progress';
+      } else {
+        status = 'planned';
+      }
+    }
+
+    return {
+      id,
+      ...(parentId && { parentId }),
+      title,
+      tasks: linked.map(t => t.id),
+      loggedTasks,
+      status
+    };
+  };
+
+  const requirementTraces: RequirementTrace[] = [];
+  for (const requirement of requirements) {
+    requirementTraces.push(traceFor(
+      requirement.id,
+      requirement.title || requirement.userStory || '',
+      ref => ref === requirement.id || ref.startsWith(requirement.id + '.')
+    ));
+    for (const criterion of requirement.acceptanceCriteria) {
+      requirementTraces.push(traceFor(
+        criterion.id,
+        criterion.text,
+        ref => ref === criterion.id || ref === requirement.id,
+        requirement.id
+      ));
+    }
+  }
+
+  const topLevel = requirementTraces.filter(r => !r.parentId);
+  const criteria = requirementTraces.filter(r => r.parentId);
+  const covered = topLevel.filter(r => r.status !== 'uncovered').length;
+
+  return {
+    specName,
+    requirements: requirementTraces,
+    tasks: taskTraces,
+    uncoveredRequirements: requirementTraces.filter(r => r.status === 'uncovered').map(r => r.id),
+    unknownReferences,
+    summary: {
+      totalRequirements: topLevel.length,
+      coveredRequirements: covered,
+      implementedRequirements: topLevel.filter(r => r.status === 'implemented').length,
+      totalCriteria: criteria.length,
+      coveredCriteria: criteria.filter(r => r.status !== 'uncovered').length,
+      coveragePercent: topLevel.length > 0 ? Math.round((covered / topLevel.length) * 100) : 0
+    }
+  };
+}
+
+/**
+ * Read a spec's documents and implementation logs and build its traceability matrix.
+ * Returns null if the spec has neither requirements.md nor tasks.md.
+ */
+export async function getSpecTraceability(projectPath: string, specName: string): Promise<TraceabilityReport | null> {
+  const specPath = PathUtils.getSpecPath(projectPath, specName);
+
+  const readOptional = async (fileName: string): Promise<string | null> => {
+    try {
+      return await readFile(join(specPath, fileName), 'utf-8');
+    } catch {
+      return null;
+    }
+  };
+
+  const requirementsContent = await readOptional('requirements.md');
+  const tasksContent = await readOptional('tasks.md');
+  if (requirementsContent === null && tasksContent === null) {
+    return null;
+  }
+
+  const logs = await new ImplementationLogManager(specPath).getAllLogs();
+
+  return buildTraceabilityMatrix(specName, requirementsContent || '', tasksContent || '', logs);
+}
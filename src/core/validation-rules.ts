@@ -0,0 +1,173 @@
+/**
+ * Validation Rules Module
+ * Evaluates the project's declarative [validation] rules from .spec-workflow/config.toml
+ */
+
+import { loadConfigFile, ValidationRule } from '../config.js';
+import { parseRequirementsFromMarkdown } from './requirements-parser.js';
+import type { DocumentType, DocumentValidationIssue } from './document-validator.js';
+
+export interface ValidationRulesLoadResult {
+  rules: ValidationRule[];
+  error?: string;
+}
+
+interface RuleUnit {
+  location?: string;
+  startLine: number;                   // 0-based
+  lines: string[];
+  defaultCount?: number;               // Count used by minCount/maxCount when the rule has no pattern
+}
+
+/**
+ * Load validation rules from the project's .spec-workflow/config.toml
+ */
+export function loadValidationRules(projectPath: string): ValidationRulesLoadResult {
+  const { config, error } = loadConfigFile(projectPath);
+  if (error) {
+    return { rules: [], error };
+  }
+  return { rules: config?.validation?.rules || [] };
+}
+
+/**
+ * Split tasks.md into one unit per leaf task (parent tasks with subtasks are skipped)
+ */
+function getTaskUnits(lines: string[]): RuleUnit[] {
+  const tasks: { id: string; line: number }[] = [];
+  lines.forEach((line, index) => {
+    const match = line.match(/^\s*-\s+\[[ x\-]\]\s+(\d+(?:\.\d+)*)/);
+    if (match) {
+      tasks.push({ id: match[1], line: index });
+    }
+  });
+
+  return tasks
+    .map((task, index) => ({ ...task, end: index + 1 < tasks.length ? tasks[index + 1].line : lines.length }))
+    .filter(task => !tasks.some(other => other.id.startsWith(task.id + '.')))
+    .map(task => ({
+      location: `Task ${task.id}`,
+      startLine: task.line,
+      lines: lines.slice(task.line, task.end)
+    }));
+}
+
+/**
+ * Split requirements.md into one unit per numbered requirement
+ */
+function getRequirementUnits(content: string, lines: string[]): RuleUnit[] {
+  const { requirements } = parseRequirementsFromMarkdown(content);
+
+  return requirements.map((requirement, index) => {
+    let end = index + 1 < requirements.length ? requirements[index + 1].lineNumber : lines.length;
+    if (index + 1 === requirements.length) {
+      // The last requirement ends at the next top-level section
+      const nextSection = lines.findIndex((line, i) => i > requirement.lineNumber && /^#{1,2}\s/.test(line));
+      if (nextSection !== -1) {
+        end = nextSection;
+      }
+    }
+
+    return {
+      location: `Requirement ${requirement.id}`,
+      startLine: requirement.lineNumber,
+      lines: lines.slice(requirement.lineNumber, end),
+      defaultCount: requirement.acceptanceCriteria.length
+    };
+  });
+}
+
+function getDocumentUnit(type: DocumentType, content: string, lines: string[]): RuleUnit {
+  let defaultCount: number | undefined;
+  if (type === 'tasks') {
+    defaultCount = getTaskUnits(lines).length;
+  } else if (type === 'requirements') {
+    defaultCount = parseRequirementsFromMarkdown(content).requirements.length;
+  }
+  return { startLine: 0, lines, defaultCount };
+}
+
+function describeCount(rule: ValidationRule): string {
+  if (rule.pattern) {
+    return `matches of /${rule.pattern}/`;
+  }
+  if (rule.scope === 'requirement') {
+    return 'acceptance criteria';
+  }
+  return rule.documentType === 'tasks' ? 'tasks' : 'requirements';
+}
+
+/**
+ * Check a document against the rules that apply to its type
+ */
+export function evaluateValidationRules(type: DocumentType, content: string, rules: ValidationRule[]): DocumentValidationIssue[] {
+  const lines = content.split('\n');
+  const issues: DocumentValidationIssue[] = [];
+
+  rules.forEach((rule, index) => {
+    if (rule.documentType !== type) return;
+
+    const field = rule.id || `validation.rules[${index}]`;
+    const severity = rule.severity || 'error';
+    const flags = (rule.flags || '').replace(/g/g, '');
+    const units = rule.scope === 'task'
+      ? getTaskUnits(lines)
+      : rule.scope === 'requirement'
+        ? getRequirementUnits(content, lines)
+        : [getDocumentUnit(type, content, lines)];
+
+    for (const unit of units) {
+      const text = unit.lines.join('\n');
+      const base = { field, severity, ...(unit.location && { location: unit.location }) };
+
+      if (rule.required && !new RegExp(rule.required, flags).test(text)) {
+        issues.push({
+          ...base,
+          line: unit.startLine + 1,
+          message: rule.message || `Missing required pattern /${rule.required}/`,
+          suggestion: `Add content matching /${rule.required}/ (project rule ${field})`
+        });
+      }
+
+      if (rule.forbidden) {
+        const forbidden = new RegExp(rule.forbidden, flags);
+        unit.lines.forEach((line, offset) => {
+          const match = line.match(forbidden);
+          if (match) {
+            issues.push({
+              ...base,
+              line: unit.startLine + offset + 1,
+              message: rule.message || `Forbidden text "${match[0]}"`,
+              suggestion: `Remove or reword text matching /${rule.forbidden}/ (project rule ${field})`
+            });
+          }
+        });
+      }
+
+      if (rule.minCount !== undefined || rule.maxCount !== undefined) {
+        const count = rule.pattern
+          ? (text.match(new RegExp(rule.pattern, flags + 'g')) || []).length
+          : unit.defaultCount ?? 0;
+
+        if (rule.minCount !== undefined && count < rule.minCount) {
+          issues.push({
+            ...base,
+            line: unit.startLine + 1,
+            message: rule.message || `Expected at least ${rule.minCount} ${describeCount(rule)}, found ${count}`,
+            suggestion: `Project rule ${field} requires a minimum of ${rule.minCount}`
+          });
+        }
+        if (rule.maxCount !== undefined && count > rule.maxCount) {
+          issues.push({
+            ...base,
+            line: unit.startLine + 1,
+            message: rule.message || `Expected at most ${rule.maxCount} ${describeCount(rule)}, found ${count}`,
+            suggestion: `Project rule ${field} allows a maximum of ${rule.maxCount}`
+          });
+        }
+      }
+    }
+  });
+
+  return issues;
+}
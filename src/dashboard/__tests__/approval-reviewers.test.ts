@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  ApprovalStorage,
+  computeApprovalStatus,
+  getApprovalProgress,
+  loadApprovalPolicy,
+  resolveVotingReviewer
+} from '../approval-storage.js';
+import { approvalsHandler } from '../../tools/approvals.js';
+
+describe('multi-reviewer approvals', () => {
+  let testDir: string;
+  let storage: ApprovalStorage;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-reviewers-test-${Date.now()}`);
+    await fs.mkdir(join(testDir, '.spec-workflow', 'specs', 'export'), { recursive: true });
+    await fs.writeFile(join(testDir, '.spec-workflow', 'specs', 'export', 'notes.md'), '# Notes\n');
+    storage = new ApprovalStorage(testDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  function createApproval(requiredApprovals: number, reviewers?: string[]) {
+    return storage.createApproval(
+      'Export notes',
+      '.spec-workflow/specs/export/notes.md',
+      'spec',
+      'export',
+      'document',
+      undefined,
+      { requiredApprovals, reviewers }
+    );
+  }
+
+  it('should compute the aggregate status from reviewer decisions', () => {
+    const review = (reviewer: string, decision: 'approved' | 'rejected' | 'needs-revision') =>
+      ({ reviewer, decision, timestamp: new Date().toISOString() });
+
+    expect(computeApprovalStatus([review('alice', 'approved')], { requiredApprovals: 2 })).toBe('pending');
+    expect(computeApprovalStatus([review('alice', 'approved'), review('bob', 'approved')], { requiredApprovals: 2 })).toBe('approved');
+    expect(computeApprovalStatus([review('alice', 'approved'), review('bob', 'rejected')], { requiredApprovals: 1 })).toBe('rejected');
+    expect(computeApprovalStatus([review('alice', 'needs-revision')])).toBe('needs-revision');
+    expect(computeApprovalStatus([review('alice', 'approved')])).toBe('approved');
+  });
+
+  it('should stay pending until the required number of reviewers approve', async () => {
+    const id = await createApproval(2, ['alice', 'bob', 'carol']);
+
+    let approval = await storage.updateApproval(id, 'approved', 'LGTM', undefined, undefined, 'alice');
+    expect(approval.status).toBe('pending');
+    expect(getApprovalProgress(approval)).toMatchObject({ approvals: 1, approvalsRemaining: 1, outstandingReviewers: ['bob', 'carol'] });
+
+    // Voting again replaces the reviewer's earlier decision
+    approval = await storage.updateApproval(id, 'approved', 'Still LGTM', undefined, undefined, 'Alice');
+    expect(approval.status).toBe('pending');
+    expect(approval.reviews).toHaveLength(1);
+
+    approval = await storage.updateApproval(id, 'approved', 'Ship it', undefined, undefined, 'bob');
+    expect(approval.status).toBe('approved');
+    expect((await storage.getApproval(id))?.reviews?.map(r => r.reviewer)).toEqual(['Alice', 'bob']);
+
+    await expect(storage.updateApproval(id, 'rejected', 'Too late', undefined, undefined, 'carol'))
+      .rejects.toThrow('already approved');
+  });
+
+  it('should keep concurrent votes', async () => {
+    const id = await createApproval(3);
+
+    await Promise.all(['alice', 'bob', 'carol'].map(reviewer =>
+      storage.updateApproval(id, 'approved', 'LGTM', undefined, undefined, reviewer)));
+
+    const approval = await storage.getApproval(id);
+    expect(approval?.reviews?.map(r => r.reviewer).sort()).toEqual(['alice', 'bob', 'carol']);
+    expect(approval?.status).toBe('approved');
+  });
+
+  it('should only count multi-reviewer votes from signed-in, listed reviewers', () => {
+    const policy = { requiredApprovals: 2, reviewers: ['alice', 'bob'] };
+
+    expect(resolveVotingReviewer(undefined, undefined, 'anyone')).toEqual({ reviewer: 'anyone' });
+    expect(resolveVotingReviewer({ requiredApprovals: 1 }, 'alice', 'bob')).toEqual({ reviewer: 'alice' });
+    expect(resolveVotingReviewer(policy, 'Alice', 'bob')).toEqual({ reviewer: 'Alice' });
+    expect(resolveVotingReviewer({ requiredApprovals: 2 }, 'dave', 'bob')).toEqual({ reviewer: 'dave' });
+
+    // The access token alone carries no identity, so typed names don't count
+    expect(resolveVotingReviewer(policy, undefined, 'bob')).toHaveProperty('error');
+    expect(resolveVotingReviewer(policy, 'mallory', 'bob')).toHaveProperty('error');
+  });
+
+  it('should block on any rejection', async () => {
+    const id = await createApproval(2);
+
+    await storage.updateApproval(id, 'approved', 'LGTM', undefined, undefined, 'alice');
+    const approval = await storage.updateApproval(id, 'rejected', 'Missing error handling', undefined, undefined, 'bob');
+
+    expect(approval.status).toBe('rejected');
+    expect(approval.response).toBe('Missing error handling');
+  });
+
+  it('should load the reviewer policy from config.toml', async () => {
+    await fs.writeFile(join(testDir, '.spec-workflow', 'config.toml'), `
+[approvals]
+requiredApprovals = 2
+reviewers = ["alice", "bob"]
+`);
+    expect(loadApprovalPolicy(testDir)).toEqual({ policy: { requiredApprovals: 2, reviewers: ['alice', 'bob'] } });
+
+    await fs.writeFile(join(testDir, '.spec-workflow', 'config.toml'), `
+[approvals]
+requiredApprovals = 3
+reviewers = ["alice", "bob"]
+`);
+    expect(loadApprovalPolicy(testDir).error).toContain('approvals.requiredApprovals');
+  });
+
+  it('should report outstanding reviewers from the approvals tool status action', async () => {
+    const id = await createApproval(2, ['alice', 'bob', 'carol']);
+    await storage.updateApproval(id, 'approved', 'LGTM', undefined, undefined, 'carol');
+
+    const result = await approvalsHandler({ action: 'status', approvalId: id }, { projectPath: testDir });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      status: 'pending',
+      requiredApprovals: 2,
+      approvalCount: 1,
+      approvalsRemaining: 1,
+      outstandingReviewers: ['alice', 'bob']
+    });
+    expect(result.nextSteps).toContain('Approvals: 1 of 2 required');
+    expect(result.nextSteps).toContain('Waiting on: alice, bob');
+  });
+});
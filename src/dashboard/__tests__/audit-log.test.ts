@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AuditLog } from '../audit-log.js';
+import { ApprovalStorage } from '../approval-storage.js';
+import { tasksHandler } from '../../tools/tasks.js';
+
+describe('audit log', () => {
+  let testDir: string;
+  let auditLog: AuditLog;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-audit-test-${Date.now()}`);
+    await fs.mkdir(join(testDir, '.spec-workflow'), { recursive: true });
+    auditLog = new AuditLog(testDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function recordSamples() {
+    await auditLog.record({ actor: 'alice', source: 'dashboard', action: 'approval.approve', target: 'export/requirements.md', specName: 'export', details: { response: 'LGTM' } });
+    await auditLog.record({ actor: 'Bob', source: 'vscode', action: 'document.edit', target: 'export/design.md', specName: 'export' });
+    await auditLog.record({ actor: 'alice', source: 'dashboard', action: 'approval.reject', target: 'steering/tech.md' });
+    await auditLog.record({ source: 'mcp', action: 'task.status', target: 'import task 1', specName: 'import', details: { from: 'pending', to: 'in-progress' } });
+  }
+
+  it('should append entries as JSON lines', async () => {
+    await Promise.all([
+      auditLog.record({ actor: 'alice', source: 'dashboard', action: 'spec.archive', target: 'export', specName: 'export' }),
+      auditLog.record({ actor: 'bob', source: 'dashboard', action: 'spec.unarchive', target: 'import', specName: 'import' })
+    ]);
+
+    const lines = (await fs.readFile(auditLog.getLogPath(), 'utf-8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toMatchObject({ actor: 'alice', action: 'spec.archive' });
+    expect(JSON.parse(lines[1]).id).toBeDefined();
+  });
+
+  it('should filter by action prefix, actor, spec and search text', async () => {
+    await recordSamples();
+
+    expect((await auditLog.query({ action: 'approval' })).total).toBe(2);
+    expect((await auditLog.query({ action: 'approval.reject' })).entries[0].target).toBe('steering/tech.md');
+    expect((await auditLog.query({ actor: 'BOB' })).entries.map(e => e.action)).toEqual(['document.edit']);
+    expect((await auditLog.query({ specName: 'export' })).total).toBe(2);
+    expect((await auditLog.query({ search: 'lgtm' })).entries[0].action).toBe('approval.approve');
+
+    const all = await auditLog.query();
+    expect(all.entries[0].actor).toBe('anonymous');
+    expect(all.actors).toEqual(['alice', 'anonymous', 'Bob']);
+  });
+
+  it('should paginate newest first and skip unreadable lines', async () => {
+    await recordSamples();
+    await fs.appendFile(auditLog.getLogPath(), '{"truncated":\n');
+
+    const page = await auditLog.query({ limit: 2, offset: 1 });
+    expect(page.total).toBe(4);
+    expect(page.entries.map(e => e.target)).toEqual(['steering/tech.md', 'export/design.md']);
+
+    const future = await auditLog.query({ since: new Date(Date.now() + 60000).toISOString() });
+    expect(future.total).toBe(0);
+  });
+
+  it('should record task status changes made through the tasks tool', async () => {
+    const specDir = join(testDir, '.spec-workflow', 'specs', 'export');
+    await fs.mkdir(specDir, { recursive: true });
+    await fs.writeFile(join(specDir, 'tasks.md'), '# Tasks Document\n\n- [ ] 1. Build exporter\n  - File: src/export.ts\n');
+    const storage = new ApprovalStorage(testDir);
+    const approvalId = await storage.createApproval('Tasks', '.spec-workflow/specs/export/tasks.md', 'spec', 'export');
+    await storage.updateApproval(approvalId, 'approved', 'Looks good');
+
+    const result = await tasksHandler({ action: 'start', specName: 'export', taskId: '1' }, { projectPath: testDir });
+    expect(result.success).toBe(true);
+
+    const { entries } = await auditLog.query({ action: 'task.status' });
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      actor: 'agent',
+      source: 'mcp',
+      target: 'export task 1',
+      specName: 'export',
+      details: { taskId: '1', from: 'pending', to: 'in-progress' }
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fastify, { FastifyInstance } from 'fastify';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AUTH_COOKIE_NAME, buildAuthCookie, createAuthHook, generateAccessToken } from '../auth.js';
+import { DashboardSessionManager, buildDashboardLink, buildDashboardLoginUrl } from '../../core/dashboard-session.js';
+import { SPEC_WORKFLOW_HOME_ENV } from '../../core/global-dir.js';
+import { loadConfigFromPath } from '../../config.js';
+
+describe('dashboard auth', () => {
+  const token = generateAccessToken();
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    app = fastify({ logger: false });
+    app.addHook('onRequest', createAuthHook(token));
+    app.get('/api/projects/list', async () => []);
+    app.get('/api/test', async () => ({ message: 'ok' }));
+    app.get('/ws', async () => ({ upgraded: true }));
+    app.get('/index.html', async () => 'html');
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should reject API requests without a valid token', async () => {
+    expect((await app.inject({ url: '/api/projects/list' })).statusCode).toBe(401);
+    expect((await app.inject({
+      url: '/api/projects/list',
+      headers: { authorization: 'Bearer wrong-token' }
+    })).statusCode).toBe(401);
+  });
+
+  it('should accept the token as a bearer header or login cookie', async () => {
+    const bearer = await app.inject({ url: '/api/projects/list', headers: { authorization: `Bearer ${token}` } });
+    expect(bearer.statusCode).toBe(200);
+
+    const cookie = buildAuthCookie(token).split(';')[0];
+    expect(cookie.startsWith(`${AUTH_COOKIE_NAME}=`)).toBe(true);
+    const withCookie = await app.inject({ url: '/api/projects/list', headers: { cookie: `theme=dark; ${cookie}` } });
+    expect(withCookie.statusCode).toBe(200);
+  });
+
+  it('should protect the WebSocket endpoint and accept a token query parameter there only', async () => {
+    expect((await app.inject({ url: '/ws?projectId=abc' })).statusCode).toBe(401);
+    expect((await app.inject({ url: `/ws?projectId=abc&token=${token}` })).statusCode).toBe(200);
+    expect((await app.inject({ url: `/api/projects/list?token=${token}` })).statusCode).toBe(401);
+  });
+
+  it('should protect routes reached through percent-encoded paths', async () => {
+    expect((await app.inject({ url: '/%61pi/projects/list' })).statusCode).toBe(401);
+    expect((await app.inject({ url: '/api/%70rojects/list' })).statusCode).toBe(401);
+    expect((await app.inject({ url: '/%77s?projectId=abc' })).statusCode).toBe(401);
+    expect((await app.inject({ url: '/%2561pi/projects/list' })).statusCode).toBe(404);
+    expect((await app.inject({
+      url: '/%61pi/projects/list',
+      headers: { authorization: `Bearer ${token}` }
+    })).statusCode).toBe(200);
+  });
+
+  it('should leave the health check and static assets public', async () => {
+    expect((await app.inject({ url: '/api/test' })).statusCode).toBe(200);
+    expect((await app.inject({ url: '/index.html' })).statusCode).toBe(200);
+  });
+});
+
+describe('dashboard session token', () => {
+  let testDir: string;
+  let previousHome: string | undefined;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-session-test-${Date.now()}`);
+    previousHome = process.env[SPEC_WORKFLOW_HOME_ENV];
+    process.env[SPEC_WORKFLOW_HOME_ENV] = testDir;
+  });
+
+  afterEach(async () => {
+    if (previousHome === undefined) {
+      delete process.env[SPEC_WORKFLOW_HOME_ENV];
+    } else {
+      process.env[SPEC_WORKFLOW_HOME_ENV] = previousHome;
+    }
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should store the access token in a session file only the user can read', async () => {
+    const sessionManager = new DashboardSessionManager();
+    await sessionManager.registerDashboard('http://localhost:5000', 5000, process.pid, 'secret-token');
+
+    const session = await sessionManager.getDashboardSession();
+    expect(session).toMatchObject({ url: 'http://localhost:5000', token: 'secret-token' });
+
+    if (process.platform !== 'win32') {
+      const stat = await fs.stat(join(testDir, 'activeSession.json'));
+      expect(stat.mode & 0o777).toBe(0o600);
+    }
+  });
+
+  it('should build login links to dashboard routes', () => {
+    expect(buildDashboardLoginUrl('http://localhost:5000', 'a+b', '/logs?spec=auth'))
+      .toBe('http://localhost:5000/?token=a%2Bb#/logs?spec=auth');
+    expect(buildDashboardLoginUrl('http://localhost:5000')).toBe('http://localhost:5000/#/');
+    expect(buildDashboardLink('http://localhost:5000', '/approvals')).toBe('http://localhost:5000/#/approvals');
+  });
+
+  it('should read the dashboard host from config.toml', async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    const configPath = join(testDir, 'config.toml');
+
+    await fs.writeFile(configPath, 'host = "0.0.0.0"\n');
+    expect(loadConfigFromPath(configPath).config?.host).toBe('0.0.0.0');
+
+    await fs.writeFile(configPath, 'host = ""\n');
+    expect(loadConfigFromPath(configPath).error).toContain('Invalid host');
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ChatNotifier, ApprovalNotification, formatSlackMessage, formatTeamsMessage } from '../chat-notifier.js';
+import { ApprovalStorage, ApprovalRequest } from '../approval-storage.js';
+import { ProjectContext } from '../project-manager.js';
+import { SettingsManager } from '../settings-manager.js';
+import { SPEC_WORKFLOW_HOME_ENV } from '../../core/global-dir.js';
+
+const MINUTE = 60 * 1000;
+
+function notification(overrides: Partial<ApprovalNotification> = {}): ApprovalNotification {
+  const approval: ApprovalRequest = {
+    id: 'approval_1',
+    title: 'Requirements for <login>',
+    filePath: '.spec-workflow/specs/login/requirements.md',
+    type: 'document',
+    status: 'pending',
+    createdAt: new Date().toISOString(),
+    category: 'spec',
+    categoryName: 'login',
+    policy: { requiredApprovals: 2, reviewers: ['alice', 'bob'] },
+    reviews: []
+  };
+  return {
+    kind: 'new',
+    reminderLevel: 0,
+    escalated: false,
+    approval,
+    projectName: 'Shop',
+    reviewUrl: 'https://dash.example.com/#/approvals',
+    diffStats: { additions: 12, deletions: 3, sinceApproval: true },
+    pendingMinutes: 0,
+    outstandingReviewers: ['alice', 'bob'],
+    approvalsRemaining: 2,
+    ...overrides
+  };
+}
+
+describe('chat message formatting', () => {
+  it('should build a Slack Block Kit message with a review link and diff stats', () => {
+    const message = formatSlackMessage(notification()) as any;
+    expect(message.text).toBe('New approval request: Requirements for <login>');
+
+    const [header, section, actions] = message.blocks;
+    expect(header.type).toBe('header');
+    expect(section.text.text).toBe('*<https://dash.example.com/#/approvals|Requirements for &lt;login&gt;>*');
+    const fields = section.fields.map((f: { text: string }) => f.text);
+    expect(fields).toContain('*Category*\nSpec: login');
+    expect(fields).toContain('*Changes*\n+12 / -3 lines since last approval');
+    expect(fields).toContain('*Waiting on*\nalice, bob');
+    expect(actions.elements[0]).toMatchObject({ type: 'button', url: 'https://dash.example.com/#/approvals', style: 'primary' });
+  });
+
+  it('should build a Teams Adaptive Card and highlight escalations', () => {
+    const message = formatTeamsMessage(notification({
+      kind: 'reminder',
+      reminderLevel: 2,
+      escalated: true,
+      pendingMinutes: 180,
+      diffStats: { additions: 40, deletions: 0, sinceApproval: false }
+    })) as any;
+
+    expect(message.type).toBe('message');
+    const [attachment] = message.attachments;
+    expect(attachment.contentType).toBe('application/vnd.microsoft.card.adaptive');
+    const card = attachment.content;
+    expect(card.type).toBe('AdaptiveCard');
+    expect(card.body[0]).toMatchObject({ text: 'Escalation: approval still pending for 3 h', color: 'Attention' });
+    expect(card.body[2].facts).toContainEqual({ title: 'Changes', value: '+40 / -0 lines (new document)' });
+    expect(card.actions[0]).toMatchObject({ type: 'Action.OpenUrl', url: 'https://dash.example.com/#/approvals' });
+  });
+});
+
+describe('ChatNotifier', () => {
+  let testDir: string;
+  let projectDir: string;
+  let previousHome: string | undefined;
+  let server: Server;
+  let received: any[];
+  let clock: number;
+  let storage: ApprovalStorage;
+  let project: ProjectContext;
+  let notifier: ChatNotifier;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-chat-test-${Date.now()}`);
+    projectDir = join(testDir, 'project');
+    previousHome = process.env[SPEC_WORKFLOW_HOME_ENV];
+    process.env[SPEC_WORKFLOW_HOME_ENV] = join(testDir, 'home');
+
+    received = [];
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ path: req.url, body: JSON.parse(body) });
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    await new SettingsManager().saveChatNotificationSettings({
+      channels: [
+        { id: 'slack', name: 'Slack', platform: 'slack', webhookUrl: `${baseUrl}/slack`, enabled: true },
+        { id: 'teams', name: 'Teams', platform: 'teams', webhookUrl: `${baseUrl}/teams`, enabled: true, projectIds: ['other'] }
+      ],
+      reminderAfterMinutes: 30,
+      maxReminders: 2
+    });
+
+    await fs.mkdir(join(projectDir, '.spec-workflow', 'specs', 'login'), { recursive: true });
+    await fs.writeFile(join(projectDir, '.spec-workflow', 'specs', 'login', 'requirements.md'), '# Login\n\nUsers can log in.\n');
+    storage = new ApprovalStorage(projectDir);
+    project = { projectId: 'shop', projectName: 'Shop', approvalStorage: storage } as unknown as ProjectContext;
+
+    clock = Date.now() - 1000;
+    notifier = new ChatNotifier(
+      id => (id === 'shop' ? project : undefined),
+      () => 'http://localhost:5000',
+      { now: () => clock }
+    );
+  });
+
+  afterEach(async () => {
+    notifier.stop();
+    await new Promise(resolve => server.close(resolve));
+    if (previousHome === undefined) {
+      delete process.env[SPEC_WORKFLOW_HOME_ENV];
+    } else {
+      process.env[SPEC_WORKFLOW_HOME_ENV] = previousHome;
+    }
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should announce new approvals once, to matching channels', async () => {
+    await storage.createApproval('Login requirements', '.spec-workflow/specs/login/requirements.md', 'spec', 'login');
+    clock = Date.now();
+
+    await notifier.handleApprovalChange(project);
+    await notifier.handleApprovalChange(project);
+
+    expect(received).toHaveLength(1);
+    expect(received[0].path).toBe('/slack');
+    const fields = received[0].body.blocks[1].fields.map((f: { text: string }) => f.text);
+    expect(fields).toContain('*Changes*\n+3 / -0 lines (new document)');
+    expect(received[0].body.blocks[2].elements[0].url).toBe('http://localhost:5000/#/approvals');
+  });
+
+  it('should escalate reminders while an approval stays pending', async () => {
+    const id = await storage.createApproval('Login requirements', '.spec-workflow/specs/login/requirements.md', 'spec', 'login');
+    clock = Date.now();
+    await notifier.handleApprovalChange(project);
+
+    await notifier.checkReminders();
+    expect(received).toHaveLength(1);
+
+    clock += 31 * MINUTE;
+    await notifier.checkReminders();
+    clock += 30 * MINUTE;
+    await notifier.checkReminders();
+    // maxReminders is 2
+    clock += 120 * MINUTE;
+    await notifier.checkReminders();
+
+    expect(received.map(r => r.body.blocks[0].text.text)).toEqual([
+      ':memo: New approval request',
+      ':hourglass: Reminder: approval pending for 31 min',
+      ':rotating_light: Escalation: approval still pending for 1 h'
+    ]);
+
+    // Resolved approvals are no longer reminded
+    await notifier.handleApprovalChange(project);
+    await storage.updateApproval(id, 'approved', 'ok');
+    await notifier.handleApprovalChange(project);
+    clock += 600 * MINUTE;
+    await notifier.checkReminders();
+    expect(received).toHaveLength(3);
+  });
+
+  it('should not announce approvals that predate the notifier', async () => {
+    const late = new ChatNotifier(() => project, () => 'http://localhost:5000', { now: () => clock + 60 * MINUTE });
+    await storage.createApproval('Login requirements', '.spec-workflow/specs/login/requirements.md', 'spec', 'login');
+    await late.handleApprovalChange(project);
+    await late.checkReminders();
+    expect(received).toHaveLength(0);
+  });
+});
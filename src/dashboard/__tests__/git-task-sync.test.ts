@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { simpleGit, SimpleGit } from 'simple-git';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { GitTaskSync, AutoCompletedTask } from '../git-task-sync.js';
+import { ApprovalStorage } from '../approval-storage.js';
+import { AuditLog } from '../audit-log.js';
+import { ProjectContext } from '../project-manager.js';
+
+const TASKS = `# Tasks
+
+- [ ] 1. Add session store
+- [-] 2. Add login form
+- [ ] 3. Add logout
+  - _Depends: 1_
+- [ ] 4. Add password reset
+`;
+
+describe('GitTaskSync', () => {
+  let testDir: string;
+  let git: SimpleGit;
+  let project: ProjectContext;
+  let completions: Array<{ specName: string; tasks: AutoCompletedTask[] }>;
+  let sync: GitTaskSync;
+
+  const tasksPath = () => join(testDir, '.spec-workflow', 'specs', 'auth', 'tasks.md');
+
+  async function commit(message: string, file: string) {
+    await fs.writeFile(join(testDir, file), message);
+    await git.add(file);
+    await git.commit(message);
+  }
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-git-sync-test-${Date.now()}`);
+    await fs.mkdir(join(testDir, '.spec-workflow', 'specs', 'auth'), { recursive: true });
+    await fs.writeFile(tasksPath(), TASKS);
+    await fs.writeFile(join(testDir, '.spec-workflow', 'config.toml'), '[git]\nautoCompleteTasks = true\n');
+
+    const storage = new ApprovalStorage(testDir);
+    const approvalId = await storage.createApproval('Tasks', '.spec-workflow/specs/auth/tasks.md', 'spec', 'auth', 'document');
+    await storage.updateApproval(approvalId, 'approved', 'LGTM');
+
+    git = simpleGit(testDir);
+    await git.init();
+    await git.raw(['symbolic-ref', 'HEAD', 'refs/heads/main']);
+    await git.addConfig('user.name', 'Test');
+    await git.addConfig('user.email', 'test@example.com');
+    await git.addConfig('commit.gpgsign', 'false');
+
+    project = { projectId: 'app', projectName: 'App', projectPath: testDir, auditLog: new AuditLog(testDir) } as unknown as ProjectContext;
+    completions = [];
+    sync = new GitTaskSync(() => [project], async (_project, specName, tasks) => {
+      completions.push({ specName, tasks });
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should complete tasks referenced by commits on the main branch only', async () => {
+    await commit('Add store\n\nSpec: auth\nTask: 1', 'store.ts');
+    await commit('Add form (Spec: auth Task: 2)', 'form.ts');
+    await commit('Add logout (Spec: auth Task: 3)', 'logout.ts');
+    await git.checkoutLocalBranch('reset');
+    await commit('Add reset (Spec: auth Task: 4)', 'reset.ts');
+
+    const completed = await sync.syncProject(project);
+
+    // Task 3 is unblocked once task 1 is completed in the same pass
+    expect(completed.get('auth')?.map(task => [task.taskId, task.previousStatus])).toEqual([
+      ['1', 'pending'],
+      ['2', 'in-progress'],
+      ['3', 'pending']
+    ]);
+    expect(completions).toHaveLength(1);
+    const content = await fs.readFile(tasksPath(), 'utf-8');
+    expect(content).toContain('- [x] 1. Add session store');
+    expect(content).toContain('- [x] 3. Add logout');
+    expect(content).toContain('- [ ] 4. Add password reset');
+
+    expect((await sync.syncProject(project)).size).toBe(0);
+  });
+
+  it('should leave tasks whose status changed after the commit, and projects without autoCompleteTasks', async () => {
+    await commit('Spec: auth Task: 1', 'store.ts');
+    await project.auditLog.record({
+      source: 'dashboard',
+      action: 'task.status',
+      target: 'auth task 1',
+      specName: 'auth',
+      details: { taskId: '1', from: 'completed', to: 'pending' }
+    });
+    expect((await sync.syncProject(project)).size).toBe(0);
+
+    await fs.writeFile(join(testDir, '.spec-workflow', 'config.toml'), '[git]\nautoCompleteTasks = false\n');
+    await commit('Spec: auth Task: 4', 'reset.ts');
+    expect((await sync.syncProject(project)).size).toBe(0);
+    expect(await fs.readFile(tasksPath(), 'utf-8')).toBe(TASKS);
+  });
+
+  it('should only touch the tasks of specs that exist, whatever commit messages name', async () => {
+    // A custom pattern can match any spec name, including ones that point outside specs/
+    await fs.writeFile(join(testDir, '.spec-workflow', 'config.toml'), "[git]\nautoCompleteTasks = true\ncommitPattern = 'Spec: (?<spec>\\S+) Task: (?<task>\\d+)'\n");
+    const outside = [join(testDir, '.spec-workflow', 'tasks.md'), join(testDir, '.spec-workflow', 'specs', 'tasks.md')];
+    for (const path of outside) {
+      await fs.writeFile(path, TASKS);
+    }
+    await commit('Spec: .. Task: 1', 'a.ts');
+    await commit('Spec: . Task: 1', 'b.ts');
+    await commit('Spec: missing Task: 1', 'c.ts');
+
+    expect((await sync.syncProject(project)).size).toBe(0);
+    for (const path of [...outside, tasksPath()]) {
+      expect(await fs.readFile(path, 'utf-8')).toBe(TASKS);
+    }
+  });
+});
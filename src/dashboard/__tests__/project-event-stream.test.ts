@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ProjectEventStream,
+  computeListDelta,
+  formatServerSentEvent,
+  formatEventId,
+  parseEventId
+} from '../project-event-stream.js';
+
+describe('ProjectEventStream', () => {
+  it('should number events per project', () => {
+    const stream = new ProjectEventStream();
+    const first = JSON.parse(stream.publish('a', 'spec-update', { n: 1 }).message);
+    stream.publish('b', 'approval-update', []);
+    const second = stream.publish('a', 'task-status-update', { n: 2 });
+
+    expect(first).toEqual({ seq: 1, type: 'spec-update', projectId: 'a', data: { n: 1 } });
+    expect(second.seq).toBe(2);
+    expect(stream.getSeq('b')).toBe(1);
+    expect(stream.getSeq('missing')).toBe(0);
+  });
+
+  it('should replay missed events and report when it cannot', () => {
+    const stream = new ProjectEventStream(3);
+    for (let i = 1; i <= 5; i++) {
+      stream.publish('a', 'audit-update', { i });
+    }
+    const seqs = (events: { seq: number }[] | null) => events?.map(e => e.seq);
+
+    expect(seqs(stream.since('a', stream.streamId, 3))).toEqual([4, 5]);
+    expect(seqs(stream.since('a', stream.streamId, 2))).toEqual([3, 4, 5]);
+    expect(stream.since('a', stream.streamId, 5)).toEqual([]);
+
+    // Fell behind the buffer, ahead of the stream, or from an earlier dashboard run
+    expect(stream.since('a', stream.streamId, 1)).toBeNull();
+    expect(stream.since('a', stream.streamId, 9)).toBeNull();
+    expect(stream.since('a', 'previous-run', 4)).toBeNull();
+    expect(stream.since('a', stream.streamId, NaN)).toBeNull();
+  });
+});
+
+describe('computeListDelta', () => {
+  it('should include only new and changed items, with the full order', () => {
+    const before = [{ name: 'a', status: 'draft' }, { name: 'b', status: 'draft' }, { name: 'c', status: 'draft' }];
+    const after = [{ name: 'a', status: 'draft' }, { name: 'c', status: 'approved' }, { name: 'd', status: 'draft' }];
+
+    expect(computeListDelta(before, after)).toEqual({
+      upserted: [{ name: 'c', status: 'approved' }, { name: 'd', status: 'draft' }],
+      names: ['a', 'c', 'd']
+    });
+    expect(computeListDelta(undefined, after).upserted).toHaveLength(3);
+  });
+});
+
+describe('Server-Sent Events helpers', () => {
+  it('should format events with resumable IDs', () => {
+    const id = formatEventId('stream-1', 42);
+    expect(formatServerSentEvent('{"type":"spec-update"}', id)).toBe('id: stream-1:42\ndata: {"type":"spec-update"}\n\n');
+    expect(formatServerSentEvent('{}')).toBe('data: {}\n\n');
+
+    expect(parseEventId(id)).toEqual({ streamId: 'stream-1', seq: 42 });
+    expect(parseEventId('garbage')).toBeNull();
+    expect(parseEventId(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ApprovalStorage } from '../approval-storage.js';
+import { ProjectSearch } from '../project-search.js';
+
+describe('project search', () => {
+  let testDir: string;
+  let search: ProjectSearch;
+
+  async function write(relativePath: string, content: string) {
+    const filePath = join(testDir, '.spec-workflow', relativePath);
+    await fs.mkdir(join(filePath, '..'), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-search-test-${Date.now()}`);
+    await write('specs/checkout/requirements.md', '# Requirements\n\nShoppers pay with a saved card.\n');
+    await write('specs/checkout/Implementation Logs/task-1-2_20250101_abcd1234.md', '# Implementation Log: Task 1.2\n\n**Summary:** Added the PaymentGateway client\n');
+    await write('archive/specs/legacy/design.md', '# Design\n\nThe old card vault.\n');
+    await write('steering/tech.md', '# Tech\n\nPayments go through Stripe.\n');
+    await write('approvals/checkout/approval_1.json', JSON.stringify({
+      id: 'approval_1',
+      title: 'Checkout requirements',
+      filePath: '.spec-workflow/specs/checkout/requirements.md',
+      type: 'document',
+      status: 'needs-revision',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      category: 'spec',
+      categoryName: 'checkout',
+      comments: [{ type: 'selection', selectedText: 'saved card', comment: 'What about wallets?', timestamp: '2025-01-01T00:00:00.000Z', lineNumber: 3 }]
+    }));
+    search = new ProjectSearch(testDir, new ApprovalStorage(testDir));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should find documents, logs and approval comments with the line to jump to', async () => {
+    const [requirements] = await search.search('saved card');
+    expect(requirements).toMatchObject({ kind: 'spec', specName: 'checkout', document: 'requirements', path: '.spec-workflow/specs/checkout/requirements.md', line: 3 });
+    expect(requirements.snippet).toBe('Shoppers pay with a saved card.');
+    expect(requirements.highlights).toEqual([[20, 25], [26, 30]]);
+
+    expect((await search.search('payment gateway'))[0]).toMatchObject({ kind: 'log', taskId: '1.2', title: 'checkout: task 1.2' });
+    expect((await search.search('wallets'))[0]).toMatchObject({ kind: 'approval', approvalId: 'approval_1', line: 3 });
+    expect((await search.search('vault'))[0]).toMatchObject({ kind: 'spec', specName: 'legacy', archived: true });
+    expect((await search.search('stripe'))[0]).toMatchObject({ kind: 'steering', document: 'tech' });
+  });
+
+  it('should reindex a spec when it changes', async () => {
+    await search.search('card');
+    await write('specs/checkout/requirements.md', '# Requirements\n\nShoppers pay by invoice.\n');
+    await search.specChanged('checkout');
+
+    const results = await search.search('card');
+    expect(results.map(result => result.specName)).toEqual(['legacy']);
+    expect(await search.search('invoice')).toHaveLength(1);
+  });
+});
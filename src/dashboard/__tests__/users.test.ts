@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fastify, { FastifyInstance } from 'fastify';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AuthSessionStore, buildAuthCookie, createAuthHook, requireRole } from '../auth.js';
+import { UserStore, hasRole } from '../user-store.js';
+import { SPEC_WORKFLOW_HOME_ENV } from '../../core/global-dir.js';
+import { MultiProjectDashboardServer } from '../multi-server.js';
+
+describe('dashboard users and roles', () => {
+  let testDir: string;
+  let previousHome: string | undefined;
+  let store: UserStore;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-users-test-${Date.now()}`);
+    previousHome = process.env[SPEC_WORKFLOW_HOME_ENV];
+    process.env[SPEC_WORKFLOW_HOME_ENV] = testDir;
+    store = new UserStore();
+  });
+
+  afterEach(async () => {
+    if (previousHome === undefined) {
+      delete process.env[SPEC_WORKFLOW_HOME_ENV];
+    } else {
+      process.env[SPEC_WORKFLOW_HOME_ENV] = previousHome;
+    }
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should rank roles from viewer to admin', () => {
+    expect(hasRole('admin', 'approver')).toBe(true);
+    expect(hasRole('approver', 'editor')).toBe(true);
+    expect(hasRole('editor', 'approver')).toBe(false);
+    expect(hasRole('viewer', 'editor')).toBe(false);
+  });
+
+  it('should store hashed passwords and verify credentials', async () => {
+    expect(await store.hasUsers()).toBe(false);
+    await store.createUser('alice', 'correct horse', 'approver');
+
+    expect(await store.verifyCredentials('ALICE', 'correct horse')).toMatchObject({ username: 'alice', role: 'approver' });
+    expect(await store.verifyCredentials('alice', 'wrong password')).toBeNull();
+    expect(await store.verifyCredentials('bob', 'correct horse')).toBeNull();
+
+    const raw = await fs.readFile(join(testDir, 'users.json'), 'utf-8');
+    expect(raw).not.toContain('correct horse');
+    if (process.platform !== 'win32') {
+      const stat = await fs.stat(join(testDir, 'users.json'));
+      expect(stat.mode & 0o777).toBe(0o600);
+    }
+
+    await expect(store.createUser('Alice', 'another password', 'viewer')).rejects.toThrow('already exists');
+    await expect(store.createUser('carol', 'short', 'viewer')).rejects.toThrow('at least 8');
+  });
+
+  it('should update roles and passwords and delete users', async () => {
+    await store.createUser('alice', 'first password', 'viewer');
+    await store.updateUser('alice', { role: 'editor', password: 'second password' });
+
+    expect(await store.verifyCredentials('alice', 'first password')).toBeNull();
+    expect((await store.verifyCredentials('alice', 'second password'))?.role).toBe('editor');
+
+    await store.deleteUser('alice');
+    expect(await store.listUsers()).toEqual([]);
+    await expect(store.deleteUser('alice')).rejects.toThrow('not found');
+  });
+
+  describe('route enforcement', () => {
+    const token = 'startup-token';
+    let app: FastifyInstance;
+    let sessions: AuthSessionStore;
+
+    beforeEach(async () => {
+      sessions = new AuthSessionStore();
+      app = fastify({ logger: false });
+      app.decorateRequest('principal', undefined);
+      app.addHook('onRequest', createAuthHook(token, sessions, store));
+      app.get('/api/session', async (request) => request.principal);
+      app.put('/api/steering', { preHandler: requireRole('editor') }, async () => ({ success: true }));
+      app.post('/api/approve', { preHandler: requireRole('approver') }, async () => ({ success: true }));
+      await app.ready();
+    });
+
+    afterEach(async () => {
+      await app.close();
+    });
+
+    function cookieFor(username: string): string {
+      return buildAuthCookie(sessions.create(username)).split(';')[0];
+    }
+
+    it('should treat the access token as an admin', async () => {
+      const response = await app.inject({ method: 'POST', url: '/api/approve', headers: { authorization: `Bearer ${token}` } });
+      expect(response.statusCode).toBe(200);
+    });
+
+    it('should enforce the role of a logged-in user', async () => {
+      await store.createUser('viewer1', 'viewer password', 'viewer');
+      await store.createUser('editor1', 'editor password', 'editor');
+
+      const viewer = cookieFor('viewer1');
+      expect((await app.inject({ url: '/api/session', headers: { cookie: viewer } })).json()).toEqual({ username: 'viewer1', role: 'viewer' });
+      expect((await app.inject({ method: 'PUT', url: '/api/steering', headers: { cookie: viewer } })).statusCode).toBe(403);
+
+      const editor = cookieFor('editor1');
+      expect((await app.inject({ method: 'PUT', url: '/api/steering', headers: { cookie: editor } })).statusCode).toBe(200);
+      expect((await app.inject({ method: 'POST', url: '/api/approve', headers: { cookie: editor } })).statusCode).toBe(403);
+
+      await store.updateUser('editor1', { role: 'approver' });
+      expect((await app.inject({ method: 'POST', url: '/api/approve', headers: { cookie: editor } })).statusCode).toBe(200);
+    });
+
+    it('should reject sessions of deleted users and unknown session ids', async () => {
+      await store.createUser('alice', 'alice password', 'admin');
+      const cookie = cookieFor('alice');
+      await store.deleteUser('alice');
+
+      expect((await app.inject({ url: '/api/session', headers: { cookie } })).statusCode).toBe(401);
+      expect((await app.inject({ url: '/api/session', headers: { cookie: 'spec_workflow_token=made-up' } })).statusCode).toBe(401);
+    });
+  });
+
+  describe('dashboard routes', () => {
+    let app: FastifyInstance;
+
+    beforeEach(async () => {
+      // Only the API routes and the access check of the real server; nothing is started
+      app = new MultiProjectDashboardServer({ accessToken: 'startup-token' }).registerApi();
+      await app.ready();
+    });
+
+    afterEach(async () => {
+      await app.close();
+    });
+
+    async function signIn(username: string, password: string): Promise<string> {
+      const response = await app.inject({ method: 'POST', url: '/api/auth/login', payload: { username, password } });
+      expect(response.statusCode).toBe(200);
+      return String(response.headers['set-cookie']).split(';')[0];
+    }
+
+    it('should keep viewers from changing projects, snapshots and implementation logs', async () => {
+      await store.createUser('viewer1', 'viewer password', 'viewer');
+      const cookie = await signIn('viewer1', 'viewer password');
+
+      const mutations = [
+        { method: 'POST', url: '/api/projects/add', payload: { projectPath: testDir } },
+        { method: 'DELETE', url: '/api/projects/abc' },
+        { method: 'POST', url: '/api/projects/abc/approvals/xyz/snapshot' },
+        { method: 'POST', url: '/api/projects/abc/specs/login/implementation-log', payload: { taskId: '1' } },
+        { method: 'POST', url: '/api/projects/abc/specs/login/implementation-log/verify' }
+      ] as const;
+      for (const mutation of mutations) {
+        const response = await app.inject({ ...mutation, headers: { cookie } });
+        expect(response.statusCode, `${mutation.method} ${mutation.url}`).toBe(403);
+      }
+
+      // Editors get past the role check to the missing project
+      await store.createUser('editor1', 'editor password', 'editor');
+      const editor = await signIn('editor1', 'editor password');
+      const response = await app.inject({ method: 'POST', url: '/api/projects/abc/specs/login/implementation-log/verify', headers: { cookie: editor } });
+      expect(response.statusCode).toBe(404);
+      const addProject = await app.inject({ method: 'POST', url: '/api/projects/add', payload: { projectPath: testDir }, headers: { cookie: editor } });
+      expect(addProject.statusCode).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, Server, IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { WebhookDispatcher, signWebhookPayload } from '../webhook-dispatcher.js';
+import { SettingsManager } from '../settings-manager.js';
+import { SPEC_WORKFLOW_HOME_ENV } from '../../core/global-dir.js';
+import { WebhookConfig } from '../../types.js';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('webhook dispatcher', () => {
+  let testDir: string;
+  let previousHome: string | undefined;
+  let server: Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  let responses: number[];
+  let settingsManager: SettingsManager;
+  let dispatcher: WebhookDispatcher;
+
+  const project = { id: 'proj-1', name: 'Project One' };
+
+  function webhook(overrides: Partial<WebhookConfig> = {}): WebhookConfig {
+    return {
+      id: 'hook-1',
+      name: 'CI',
+      url: `${baseUrl}/hook`,
+      enabled: true,
+      events: [],
+      createdAt: new Date().toISOString(),
+      ...overrides
+    };
+  }
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-webhooks-test-${Date.now()}`);
+    previousHome = process.env[SPEC_WORKFLOW_HOME_ENV];
+    process.env[SPEC_WORKFLOW_HOME_ENV] = testDir;
+
+    received = [];
+    responses = [];
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    settingsManager = new SettingsManager();
+    dispatcher = new WebhookDispatcher({ retryDelaysMs: [0, 0], timeoutMs: 2000 });
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    if (previousHome === undefined) {
+      delete process.env[SPEC_WORKFLOW_HOME_ENV];
+    } else {
+      process.env[SPEC_WORKFLOW_HOME_ENV] = previousHome;
+    }
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should post signed payloads to matching webhooks only', async () => {
+    await settingsManager.addWebhook(webhook({ secret: 'shh' }));
+    await settingsManager.addWebhook(webhook({ id: 'hook-2', events: ['spec-update'] }));
+    await settingsManager.addWebhook(webhook({ id: 'hook-3', projectIds: ['other-project'] }));
+    await settingsManager.addWebhook(webhook({ id: 'hook-4', enabled: false }));
+
+    const deliveries = await dispatcher.dispatch('approval-update', project, { pendingApprovals: [] });
+    expect(deliveries.map(d => d.webhookId)).toEqual(['hook-1']);
+    expect(deliveries[0]).toMatchObject({ success: true, attempts: 1, statusCode: 200, projectId: 'proj-1' });
+
+    expect(received).toHaveLength(1);
+    const [request] = received;
+    expect(request.headers['x-spec-workflow-event']).toBe('approval-update');
+    expect(request.headers['x-spec-workflow-signature']).toBe(signWebhookPayload('shh', request.body));
+    expect(JSON.parse(request.body)).toMatchObject({
+      event: 'approval-update',
+      project,
+      data: { pendingApprovals: [] }
+    });
+  });
+
+  it('should retry server errors with backoff but not client errors', async () => {
+    await settingsManager.addWebhook(webhook());
+
+    responses = [503, 500];
+    const [retried] = await dispatcher.dispatch('task-status-update', project, {});
+    expect(retried).toMatchObject({ success: true, attempts: 3, statusCode: 200 });
+    // Every attempt carries the same delivery ID
+    expect(new Set(received.map(r => r.headers['x-spec-workflow-delivery'])).size).toBe(1);
+
+    responses = [404];
+    const [rejected] = await dispatcher.dispatch('task-status-update', project, {});
+    expect(rejected).toMatchObject({ success: false, attempts: 1, statusCode: 404, error: 'HTTP 404' });
+  });
+
+  it('should give up after the last retry when the receiver is unreachable', async () => {
+    await new Promise(resolve => server.close(resolve));
+    const delivery = await dispatcher.sendTestEvent(webhook());
+    expect(delivery).toMatchObject({ success: false, attempts: 1, event: 'test' });
+    expect(delivery.error).toBeTruthy();
+
+    await settingsManager.addWebhook(webhook());
+    const [failed] = await dispatcher.dispatch('spec-update', project, {});
+    expect(failed.attempts).toBe(3);
+    expect(failed.success).toBe(false);
+
+    // Reopen so afterEach can close it
+    server = createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  it('should keep a delivery log, newest first', async () => {
+    await settingsManager.addWebhook(webhook());
+    await dispatcher.dispatch('spec-update', project, {});
+    await dispatcher.sendTestEvent(webhook());
+
+    const deliveries = await dispatcher.getDeliveries();
+    expect(deliveries.map(d => d.event)).toEqual(['test', 'spec-update']);
+    expect(await dispatcher.getDeliveries('missing')).toEqual([]);
+  });
+});
@@ -3,6 +3,7 @@ import { promises as fs } from 'fs';
 import { join, isAbsolute, resolve, basename } from 'path';
 import chokidar from 'chokidar';
 import { PathUtils } from '../core/path-utils.js';
+import { loadConfigFile } from '../config.js';
 
 export interface ApprovalComment {
   type: 'selection' | 'general';
@@ -78,6 +79,24 @@ export interface DiffLine {
   content: string;
 }
 
+export type ApprovalDecision = 'approved' | 'rejected' | 'needs-revision';
+
+export interface ApprovalReview {
+  reviewer: string;
+  decision: ApprovalDecision;
+  timestamp: string;
+  response?: string;
+  annotations?: string;
+  comments?: ApprovalComment[];
+}
+
+export interface ApprovalPolicy {
+  requiredApprovals: number;  // Approvals needed before the request is approved
+  reviewers?: string[];       // Expected reviewers: who has not voted yet, and who may vote when set
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = { requiredApprovals: 1 };
+
 export interface ApprovalRequest {
   id: string;
   title: string;
@@ -98,6 +117,90 @@ export interface ApprovalRequest {
   metadata?: Record<string, any>;
   category: 'spec' | 'steering';
   categoryName: string; // spec or steering document name
+  policy?: ApprovalPolicy;    // Missing on approvals created before multi-reviewer support
+  reviews?: ApprovalReview[]; // Latest decision per reviewer
+}
+
+/**
+ * Load the reviewer policy from the project's [approvals] config section
+ */
+export function loadApprovalPolicy(projectPath: string): { policy: ApprovalPolicy; error?: string } {
+  const { config, error } = loadConfigFile(projectPath);
+  if (error) {
+    return { policy: DEFAULT_APPROVAL_POLICY, error };
+  }
+  const approvals = config?.approvals;
+  return {
+    policy: {
+      requiredApprovals: approvals?.requiredApprovals ?? DEFAULT_APPROVAL_POLICY.requiredApprovals,
+      ...(approvals?.reviewers && { reviewers: approvals.reviewers })
+    }
+  };
+}
+
+/**
+ * Aggregate per-reviewer decisions into an approval status.
+ * Any rejection or revision request blocks the approval; otherwise the request is
+ * approved once it has the policy's required number of approvals.
+ */
+export function computeApprovalStatus(
+  reviews: ApprovalReview[],
+  policy: ApprovalPolicy = DEFAULT_APPROVAL_POLICY
+): ApprovalRequest['status'] {
+  if (reviews.some(review => review.decision === 'rejected')) {
+    return 'rejected';
+  }
+  if (reviews.some(review => review.decision === 'needs-revision')) {
+    return 'needs-revision';
+  }
+  const approvals = reviews.filter(review => review.decision === 'approved').length;
+  return approvals >= Math.max(1, policy.requiredApprovals) ? 'approved' : 'pending';
+}
+
+/**
+ * Summarize how far an approval is from satisfying its policy
+ */
+export function getApprovalProgress(approval: ApprovalRequest): {
+  requiredApprovals: number;
+  approvals: number;
+  approvalsRemaining: number;
+  reviewers: string[];
+  outstandingReviewers: string[];
+} {
+  const policy = approval.policy || DEFAULT_APPROVAL_POLICY;
+  const reviews = approval.reviews || [];
+  const approvals = reviews.filter(review => review.decision === 'approved').length;
+  const voted = new Set(reviews.map(review => review.reviewer.toLowerCase()));
+
+  return {
+    requiredApprovals: policy.requiredApprovals,
+    approvals,
+    approvalsRemaining: Math.max(0, policy.requiredApprovals - approvals),
+    reviewers: reviews.map(review => review.reviewer),
+    outstandingReviewers: (policy.reviewers || []).filter(reviewer => !voted.has(reviewer.toLowerCase()))
+  };
+}
+
+/**
+ * Who a dashboard vote counts for. Votes on multi-reviewer approvals must come from a signed-in
+ * user account, listed in the policy's reviewers when it has any; otherwise whoever holds the
+ * access token could approve alone under several names. Single-reviewer votes use the given name.
+ */
+export function resolveVotingReviewer(
+  policy: ApprovalPolicy = DEFAULT_APPROVAL_POLICY,
+  username: string | undefined,
+  fallbackName: string
+): { reviewer: string } | { error: string } {
+  if (policy.requiredApprovals <= 1) {
+    return { reviewer: username || fallbackName };
+  }
+  if (!username) {
+    return { error: 'This approval needs several reviewers; sign in with your own user account to vote' };
+  }
+  if (policy.reviewers && !policy.reviewers.some(reviewer => reviewer.toLowerCase() === username.toLowerCase())) {
+    return { error: `${username} is not one of the reviewers of this approval` };
+  }
+  return { reviewer: username };
 }
 
 export class ApprovalStorage extends EventEmitter {
@@ -105,6 +208,7 @@ export class ApprovalStorage extends EventEmitter {
   public originalProjectPath: string; // Original host path for display/registry
   private approvalsDir: string;
   private watcher?: chokidar.FSWatcher;
+  private pendingUpdates: Map<string, Promise<unknown>> = new Map();
 
   constructor(translatedPath: string, originalPath?: string) {
     super();
@@ -169,7 +273,8 @@ export class ApprovalStorage extends EventEmitter {
     category: 'spec' | 'steering',
     categoryName: string,
     type: 'document' | 'action' = 'document',
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    policy?: ApprovalPolicy
   ): Promise<string> {
     const id = this.generateId();
     const approval: ApprovalRequest = {
@@ -181,7 +286,9 @@ export class ApprovalStorage extends EventEmitter {
       createdAt: new Date().toISOString(),
       metadata,
       category,
-      categoryName
+      categoryName,
+      policy: policy || DEFAULT_APPROVAL_POLICY,
+      reviews: []
     };
 
     // Create category directory if it doesn't exist
@@ -237,47 +344,73 @@ export class ApprovalStorage extends EventEmitter {
     return null;
   }
 
+  /**
+   * Record a reviewer's decision and recompute the aggregate status from the approval policy.
+   * A reviewer voting again replaces their earlier decision.
+   */
   async updateApproval(
     id: string,
-    status: 'approved' | 'rejected' | 'needs-revision',
+    decision: ApprovalDecision,
     response: string,
     annotations?: string,
-    comments?: ApprovalComment[]
-  ): Promise<void> {
-    const approval = await this.getApproval(id);
-    if (!approval) {
-      throw new Error(`Approval ${id} not found`);
-    }
-
-    // Capture snapshot before status change for certain transitions
-    if (status === 'needs-revision') {
-      try {
-        await this.captureSnapshot(id, 'revision_requested');
-      } catch (error) {
-        console.warn(`Failed to capture revision snapshot for approval ${id}:`, error);
+    comments?: ApprovalComment[],
+    reviewer: string = 'anonymous'
+  ): Promise<ApprovalRequest> {
+    // Votes are read-modify-write updates of one file; concurrent ones would drop each other's review
+    return this.serializeUpdate(id, async () => {
+      const approval = await this.getApproval(id);
+      if (!approval) {
+        throw new Error(`Approval ${id} not found`);
       }
-    } else if (status === 'approved') {
-      try {
-        await this.captureSnapshot(id, 'approved');
-      } catch (error) {
-        console.warn(`Failed to capture approval snapshot for approval ${id}:`, error);
+      if (approval.status !== 'pending') {
+        throw new Error(`Approval ${id} is already ${approval.status}`);
       }
-    }
 
-    approval.status = status;
-    approval.response = response;
-    approval.annotations = annotations;
-    approval.respondedAt = new Date().toISOString();
+      const timestamp = new Date().toISOString();
+      const reviewerName = reviewer.trim() || 'anonymous';
+      const reviews = (approval.reviews || []).filter(review => review.reviewer.toLowerCase() !== reviewerName.toLowerCase());
+      reviews.push({
+        reviewer: reviewerName,
+        decision,
+        timestamp,
+        response,
+        ...(annotations !== undefined && { annotations }),
+        ...(comments && { comments })
+      });
+      const status = computeApprovalStatus(reviews, approval.policy);
+
+      // Capture snapshot before status change for certain transitions
+      if (status === 'needs-revision') {
+        try {
+          await this.captureSnapshot(id, 'revision_requested');
+        } catch (error) {
+          console.warn(`Failed to capture revision snapshot for approval ${id}:`, error);
+        }
+      } else if (status === 'approved') {
+        try {
+          await this.captureSnapshot(id, 'approved');
+        } catch (error) {
+          console.warn(`Failed to capture approval snapshot for approval ${id}:`, error);
+        }
+      }
 
-    if (comments) {
-      approval.comments = comments;
-    }
+      approval.reviews = reviews;
+      approval.status = status;
+      approval.response = response;
+      approval.annotations = annotations;
+      approval.respondedAt = timestamp;
 
-    const filePath = await this.findApprovalPath(id);
-    if (!filePath) {
-      throw new Error(`Approval ${id} file not found`);
-    }
-    await fs.writeFile(filePath, JSON.stringify(approval, null, 2), 'utf-8');
+      if (comments) {
+        approval.comments = comments;
+      }
+
+      const filePath = await this.findApprovalPath(id);
+      if (!filePath) {
+        throw new Error(`Approval ${id} file not found`);
+      }
+      await fs.writeFile(filePath, JSON.stringify(approval, null, 2), 'utf-8');
+      return approval;
+    });
   }
 
   async createRevision(
@@ -328,6 +461,7 @@ export class ApprovalStorage extends EventEmitter {
     originalApproval.annotations = undefined;
     originalApproval.comments = undefined;
     originalApproval.respondedAt = undefined;
+    originalApproval.reviews = [];
     
     const approvalFilePath = await this.findApprovalPath(originalId);
     if (!approvalFilePath) {
@@ -525,8 +659,16 @@ export class ApprovalStorage extends EventEmitter {
     if (!approval || !approval.filePath) return [];
 
     // Get snapshots based on file path, not approval ID
-    const categoryDir = join(this.approvalsDir, approval.categoryName || 'default');
-    const snapshotsDir = join(categoryDir, '.snapshots', basename(approval.filePath));
+    return this.getFileSnapshots(approval.categoryName, approval.filePath);
+  }
+
+  /**
+   * Get all snapshots of a document, across every approval cycle.
+   * Works without an approval record, so it still answers after approvals are deleted.
+   */
+  async getFileSnapshots(categoryName: string, filePath: string): Promise<DocumentSnapshot[]> {
+    const categoryDir = join(this.approvalsDir, categoryName || 'default');
+    const snapshotsDir = join(categoryDir, '.snapshots', basename(filePath));
     const metadataPath = join(snapshotsDir, 'metadata.json');
 
     try {
@@ -547,6 +689,15 @@ export class ApprovalStorage extends EventEmitter {
     }
   }
 
+  /**
+   * Get the most recent snapshot captured when the document was approved
+   */
+  async getLatestApprovedSnapshot(categoryName: string, filePath: string): Promise<DocumentSnapshot | null> {
+    const snapshots = await this.getFileSnapshots(categoryName, filePath);
+    const approved = snapshots.filter(s => s.trigger === 'approved');
+    return approved.length > 0 ? approved[approved.length - 1] : null;
+  }
+
   async getSnapshot(approvalId: string, version: number): Promise<DocumentSnapshot | null> {
     const snapshots = await this.getSnapshots(approvalId);
     return snapshots.find(s => s.version === version) || null;
@@ -595,79 +746,99 @@ export class ApprovalStorage extends EventEmitter {
       toContent = toSnapshot.content;
     }
 
-    // Basic diff computation (we'll enhance this when we add the diff library)
-    const fromLines = fromContent.split('\n');
-    const toLines = toContent.split('\n');
-
-    // Simple line-by-line comparison for now
-    const diffLines: DiffLine[] = [];
-    let additions = 0;
-    let deletions = 0;
-    let changes = 0;
-
-    // This is a very basic implementation - will be replaced with proper diff library
-    const maxLines = Math.max(fromLines.length, toLines.length);
-    for (let i = 0; i < maxLines; i++) {
-      const fromLine = fromLines[i];
-      const toLine = toLines[i];
-
-      if (fromLine !== undefined && toLine !== undefined) {
-        if (fromLine === toLine) {
-          diffLines.push({
-            type: 'normal',
-            oldLineNumber: i + 1,
-            newLineNumber: i + 1,
-            content: fromLine
-          });
-        } else {
-          changes++;
-          diffLines.push({
-            type: 'delete',
-            oldLineNumber: i + 1,
-            content: fromLine
-          });
-          diffLines.push({
-            type: 'add',
-            newLineNumber: i + 1,
-            content: toLine
-          });
-        }
-      } else if (fromLine !== undefined) {
-        deletions++;
+    return computeLineDiff(fromContent, toContent);
+  }
+
+  /**
+   * Run updates of one approval one at a time
+   */
+  private serializeUpdate<T>(id: string, update: () => Promise<T>): Promise<T> {
+    const run = (this.pendingUpdates.get(id) ?? Promise.resolve()).then(update);
+    const settled = run.catch(() => undefined);
+    this.pendingUpdates.set(id, settled);
+    void settled.then(() => {
+      if (this.pendingUpdates.get(id) === settled) this.pendingUpdates.delete(id);
+    });
+    return run;
+  }
+
+  private generateSnapshotId(): string {
+    return `snapshot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private generateId(): string {
+    return `approval_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+/**
+ * Compute a line-by-line diff between two document versions
+ */
+export function computeLineDiff(fromContent: string, toContent: string): DiffResult {
+  // Basic diff computation (we'll enhance this when we add the diff library)
+  const fromLines = fromContent.split('\n');
+  const toLines = toContent.split('\n');
+
+  // Simple line-by-line comparison for now
+  const diffLines: DiffLine[] = [];
+  let additions = 0;
+  let deletions = 0;
+  let changes = 0;
+
+  // This is a very basic implementation - will be replaced with proper diff library
+  const maxLines = Math.max(fromLines.length, toLines.length);
+  for (let i = 0; i < maxLines; i++) {
+    const fromLine = fromLines[i];
+    const toLine = toLines[i];
+
+    if (fromLine !== undefined && toLine !== undefined) {
+      if (fromLine === toLine) {
+        diffLines.push({
+          type: 'normal',
+          oldLineNumber: i + 1,
+          newLineNumber: i + 1,
+          content: fromLine
+        });
+      } else {
+        changes++;
         diffLines.push({
           type: 'delete',
           oldLineNumber: i + 1,
           content: fromLine
         });
-      } else if (toLine !== undefined) {
-        additions++;
         diffLines.push({
           type: 'add',
           newLineNumber: i + 1,
           content: toLine
         });
       }
+    } else if (fromLine !== undefined) {
+      deletions++;
+      diffLines.push({
+        type: 'delete',
+        oldLineNumber: i + 1,
+        content: fromLine
+      });
+    } else if (toLine !== undefined) {
+      additions++;
+      diffLines.push({
+        type: 'add',
+        newLineNumber: i + 1,
+        content: toLine
+      });
     }
-
-    return {
-      additions,
-      deletions,
-      changes,
-      chunks: [{
-        oldStart: 1,
-        oldLines: fromLines.length,
-        newStart: 1,
-        newLines: toLines.length,
-        lines: diffLines
-      }]
-    };
   }
 
-  private generateSnapshotId(): string {
-    return `snapshot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-
-  private generateId(): string {
-    return `approval_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  }
-}
\ No newline at end of file
+  return {
+    additions,
+    deletions,
+    changes,
+    chunks: [{
+      oldStart: 1,
+      oldLines: fromLines.length,
+      newStart: 1,
+      newLines: toLines.length,
+      lines: diffLines
+    }]
+  };
+}
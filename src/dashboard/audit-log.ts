@@ -0,0 +1,141 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { randomUUID } from 'crypto';
+import { PathUtils } from '../core/path-utils.js';
+
+export type AuditAction =
+  | 'approval.approve'
+  | 'approval.reject'
+  | 'approval.needs-revision'
+  | 'task.status'
+  | 'document.edit'
+  | 'spec.archive'
+  | 'spec.unarchive';
+
+export type AuditSource = 'dashboard' | 'vscode' | 'mcp';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: string;
+  source: AuditSource;
+  action: AuditAction;
+  target: string;                      // Human-readable target, e.g. "user-auth/tasks.md" or "user-auth task 1.2"
+  specName?: string;
+  details?: Record<string, any>;
+}
+
+export interface AuditQuery {
+  action?: string;                     // Exact action or prefix, e.g. "approval"
+  actor?: string;                      // Case-insensitive exact match
+  specName?: string;
+  search?: string;                     // Case-insensitive substring of target and details
+  since?: string;                      // ISO timestamp (inclusive)
+  until?: string;                      // ISO timestamp (inclusive)
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditQueryResult {
+  entries: AuditEntry[];               // Newest first
+  total: number;                       // Matches before pagination
+  actors: string[];                    // All actors in the log, for filter options
+  actions: AuditAction[];              // All actions in the log, for filter options
+}
+
+export const UNKNOWN_ACTOR = 'anonymous';
+
+/**
+ * Append-only audit trail of changes made to a project's spec workflow.
+ * Entries are stored one JSON object per line in .spec-workflow/audit/audit-log.jsonl
+ * and are never rewritten; lines that fail to parse are skipped when reading.
+ */
+export class AuditLog {
+  private logPath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(projectPath: string) {
+    this.logPath = PathUtils.getAuditLogPath(projectPath);
+  }
+
+  getLogPath(): string {
+    return this.logPath;
+  }
+
+  /**
+   * Append an entry. Writes are serialized so concurrent requests cannot interleave lines.
+   */
+  async record(entry: Omit<AuditEntry, 'id' | 'timestamp' | 'actor'> & { actor?: string }): Promise<AuditEntry> {
+    const fullEntry: AuditEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...entry,
+      actor: entry.actor?.trim() || UNKNOWN_ACTOR
+    };
+
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(dirname(this.logPath), { recursive: true });
+      await fs.appendFile(this.logPath, JSON.stringify(fullEntry) + '\n', 'utf-8');
+    });
+    // Keep the queue alive after a failed write
+    this.writeQueue = write.catch(() => undefined);
+    await write;
+
+    return fullEntry;
+  }
+
+  async getAllEntries(): Promise<AuditEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.logPath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // Partially written or corrupted line
+      }
+    }
+    return entries;
+  }
+
+  async query(query: AuditQuery = {}): Promise<AuditQueryResult> {
+    const all = await this.getAllEntries();
+    const since = query.since ? new Date(query.since).getTime() : undefined;
+    const until = query.until ? new Date(query.until).getTime() : undefined;
+    const actor = query.actor?.toLowerCase();
+    const search = query.search?.toLowerCase();
+
+    const matches = all.filter(entry => {
+      if (query.action && entry.action !== query.action && !entry.action.startsWith(`${query.action}.`)) return false;
+      if (actor && entry.actor.toLowerCase() !== actor) return false;
+      if (query.specName && entry.specName !== query.specName) return false;
+      const time = new Date(entry.timestamp).getTime();
+      if (since !== undefined && !isNaN(since) && time < since) return false;
+      if (until !== undefined && !isNaN(until) && time > until) return false;
+      if (search) {
+        const haystack = `${entry.target} ${JSON.stringify(entry.details || {})}`.toLowerCase();
+        if (!haystack.includes(search)) return false;
+      }
+      return true;
+    });
+
+    // The file is in write order; reverse first so entries sharing a timestamp stay newest first
+    matches.reverse().sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    const offset = Math.max(0, query.offset || 0);
+    const limit = query.limit && query.limit > 0 ? query.limit : matches.length;
+
+    return {
+      entries: matches.slice(offset, offset + limit),
+      total: matches.length,
+      actors: Array.from(new Set(all.map(entry => entry.actor))).sort((a, b) => a.localeCompare(b)),
+      actions: Array.from(new Set(all.map(entry => entry.action))).sort()
+    };
+  }
+}
@@ -0,0 +1,203 @@
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { UserRole, UserStore, hasRole } from './user-store.js';
+
+/**
+ * Who a request was made by. The startup access token acts as an admin without
+ * a username; user logins carry the username and the role stored for it.
+ */
+export interface AuthPrincipal {
+  username?: string;
+  role: UserRole;
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    principal?: AuthPrincipal;
+  }
+}
+
+/**
+ * Cookie set by POST /api/auth/login so the browser sends the token (or the
+ * user's session id) with every request, including raw fetch() calls and the /ws upgrade.
+ */
+export const AUTH_COOKIE_NAME = 'spec_workflow_token';
+
+/**
+ * Routes reachable without a token: the dashboard health check used by port
+ * detection, the login endpoint itself and the status check the login page uses
+ * to decide which form to show. Static assets outside /api are always public so
+ * the browser can load the login page.
+ */
+const PUBLIC_API_ROUTES = new Set(['/api/test', '/api/auth/login', '/api/auth/status']);
+
+/**
+ * In-memory sessions for user logins. Sessions end when the dashboard restarts.
+ */
+export class AuthSessionStore {
+  private sessions = new Map<string, string>();
+
+  create(username: string): string {
+    const sessionId = randomBytes(32).toString('base64url');
+    this.sessions.set(sessionId, username);
+    return sessionId;
+  }
+
+  getUsername(sessionId: string | undefined): string | undefined {
+    return sessionId ? this.sessions.get(sessionId) : undefined;
+  }
+
+  delete(sessionId: string | undefined): void {
+    if (sessionId) {
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  deleteForUser(username: string): void {
+    const lower = username.toLowerCase();
+    for (const [sessionId, owner] of this.sessions) {
+      if (owner.toLowerCase() === lower) {
+        this.sessions.delete(sessionId);
+      }
+    }
+  }
+}
+
+export function generateAccessToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function tokensMatch(expected: string, provided: string | undefined): boolean {
+  if (!provided) {
+    return false;
+  }
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function getCookie(header: string | undefined, name: string): string | undefined {
+  if (!header) return undefined;
+  for (const part of header.split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      try {
+        return decodeURIComponent(value.join('='));
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the access token from the Authorization header, the login cookie, or -
+ * for WebSocket clients that cannot set headers - a `token` query parameter on /ws
+ */
+export function extractRequestToken(request: FastifyRequest): string | undefined {
+  const authorization = request.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  const cookie = getCookie(request.headers.cookie, AUTH_COOKIE_NAME);
+  if (cookie) {
+    return cookie;
+  }
+
+  if (getRequestPath(request) === '/ws') {
+    return new URL(request.url, 'http://localhost').searchParams.get('token') || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * The path a request is routed by: the matched route's pattern, or for unmatched requests the
+ * decoded and normalized URL path. The raw URL can't be used, as the router decodes
+ * percent-escapes, so "/%61pi/..." reaches the "/api/..." routes.
+ */
+export function getRequestPath(request: FastifyRequest): string {
+  const route = request.routeOptions?.url;
+  if (route) {
+    return route;
+  }
+  const pathname = request.url.split('?')[0];
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    decoded = pathname;
+  }
+  return new URL(decoded.replace(/\\/g, '/'), 'http://localhost').pathname;
+}
+
+export function requiresAuth(pathname: string): boolean {
+  if (pathname === '/ws') {
+    return true;
+  }
+  return pathname.startsWith('/api/') && !PUBLIC_API_ROUTES.has(pathname);
+}
+
+/**
+ * Resolve the caller from the access token or a user session. The user's role is
+ * looked up on every request so role changes and deletions take effect immediately.
+ */
+export async function resolvePrincipal(
+  request: FastifyRequest,
+  accessToken: string,
+  sessions?: AuthSessionStore,
+  users?: UserStore
+): Promise<AuthPrincipal | undefined> {
+  const token = extractRequestToken(request);
+  if (tokensMatch(accessToken, token)) {
+    return { role: 'admin' };
+  }
+
+  const username = sessions?.getUsername(token);
+  if (!username || !users) {
+    return undefined;
+  }
+  const user = await users.getUser(username);
+  if (!user) {
+    sessions?.delete(token);
+    return undefined;
+  }
+  return { username: user.username, role: user.role };
+}
+
+/**
+ * onRequest hook rejecting /api/* and /ws requests that carry neither the dashboard's
+ * access token nor a user session, and attaching the caller to request.principal
+ */
+export function createAuthHook(accessToken: string, sessions?: AuthSessionStore, users?: UserStore) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!requiresAuth(getRequestPath(request))) {
+      return;
+    }
+    const principal = await resolvePrincipal(request, accessToken, sessions, users);
+    if (!principal) {
+      return reply.code(401).send({ error: 'Unauthorized' });
+    }
+    request.principal = principal;
+  };
+}
+
+/**
+ * preHandler rejecting callers whose role is below the one a route requires
+ */
+export function requireRole(required: UserRole) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.principal || !hasRole(request.principal.role, required)) {
+      return reply.code(403).send({ error: `This action requires the ${required} role` });
+    }
+  };
+}
+
+export function buildAuthCookie(token: string): string {
+  return `${AUTH_COOKIE_NAME}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Strict`;
+}
+
+export function buildClearAuthCookie(): string {
+  return `${AUTH_COOKIE_NAME}=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`;
+}
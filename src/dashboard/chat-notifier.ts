@@ -0,0 +1,352 @@
+import { SettingsManager } from './settings-manager.js';
+import { ProjectContext } from './project-manager.js';
+import { ApprovalRequest, computeLineDiff, getApprovalProgress } from './approval-storage.js';
+import { ChatChannelConfig, ChatNotificationSettings } from '../types.js';
+
+export interface ApprovalNotification {
+  kind: 'new' | 'reminder';
+  reminderLevel: number;       // 0 for new approvals; reminders count up from 1
+  escalated: boolean;          // Reminders after the first one
+  approval: ApprovalRequest;
+  projectName: string;
+  reviewUrl: string;
+  diffStats?: {
+    additions: number;
+    deletions: number;
+    sinceApproval: boolean;    // Compared with the last approved version rather than an empty document
+  };
+  pendingMinutes: number;
+  outstandingReviewers: string[];
+  approvalsRemaining: number;
+}
+
+export interface ChatNotifierOptions {
+  checkIntervalMs?: number;    // How often pending approvals are checked for reminders
+  timeoutMs?: number;          // Per-request timeout when posting to a channel
+  now?: () => number;
+}
+
+const DEFAULT_CHECK_INTERVAL_MS = 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+function formatDuration(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} h`;
+  return `${Math.floor(hours / 24)} days`;
+}
+
+function headline(notification: ApprovalNotification): string {
+  if (notification.kind === 'new') return 'New approval request';
+  const waited = `pending for ${formatDuration(notification.pendingMinutes)}`;
+  return notification.escalated
+    ? `Escalation: approval still ${waited}`
+    : `Reminder: approval ${waited}`;
+}
+
+/**
+ * Label/value pairs shared by the Slack and Teams layouts
+ */
+function describeApproval(notification: ApprovalNotification): Array<{ label: string; value: string }> {
+  const { approval, diffStats } = notification;
+  const facts = [
+    { label: 'Project', value: notification.projectName },
+    { label: 'Category', value: approval.category === 'spec' ? `Spec: ${approval.categoryName}` : `Steering: ${approval.categoryName}` },
+    { label: 'Document', value: approval.filePath }
+  ];
+  if (diffStats) {
+    const change = `+${diffStats.additions} / -${diffStats.deletions} lines`;
+    facts.push({ label: 'Changes', value: diffStats.sinceApproval ? `${change} since last approval` : `${change} (new document)` });
+  }
+  if (notification.approvalsRemaining > 0 && (approval.policy?.requiredApprovals ?? 1) > 1) {
+    facts.push({ label: 'Approvals needed', value: String(notification.approvalsRemaining) });
+  }
+  if (notification.outstandingReviewers.length > 0) {
+    facts.push({ label: 'Waiting on', value: notification.outstandingReviewers.join(', ') });
+  }
+  return facts;
+}
+
+// Slack mrkdwn treats these as control characters
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Slack incoming-webhook payload using Block Kit, with a plain-text fallback for notifications
+ */
+export function formatSlackMessage(notification: ApprovalNotification): Record<string, unknown> {
+  const title = headline(notification);
+  const icon = notification.kind === 'new' ? ':memo:' : notification.escalated ? ':rotating_light:' : ':hourglass:';
+
+  return {
+    text: `${title}: ${notification.approval.title}`,
+    blocks: [
+      {
+        type: 'header',
+        text: { type: 'plain_text', text: `${icon} ${title}`, emoji: true }
+      },
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `*<${notification.reviewUrl}|${escapeSlack(notification.approval.title)}>*` },
+        fields: describeApproval(notification).map(({ label, value }) => ({
+          type: 'mrkdwn',
+          text: `*${label}*\n${escapeSlack(value)}`
+        }))
+      },
+      {
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            text: { type: 'plain_text', text: 'Review in dashboard' },
+            url: notification.reviewUrl,
+            ...(notification.escalated ? { style: 'danger' } : { style: 'primary' })
+          }
+        ]
+      }
+    ]
+  };
+}
+
+/**
+ * Teams webhook payload: a message with a single Adaptive Card attachment
+ */
+export function formatTeamsMessage(notification: ApprovalNotification): Record<string, unknown> {
+  return {
+    type: 'message',
+    attachments: [
+      {
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body: [
+            {
+              type: 'TextBlock',
+              text: headline(notification),
+              size: 'Medium',
+              weight: 'Bolder',
+              ...(notification.escalated ? { color: 'Attention' } : notification.kind === 'reminder' ? { color: 'Warning' } : {})
+            },
+            {
+              type: 'TextBlock',
+              text: notification.approval.title,
+              size: 'Large',
+              wrap: true
+            },
+            {
+              type: 'FactSet',
+              facts: describeApproval(notification).map(({ label, value }) => ({ title: label, value }))
+            }
+          ],
+          actions: [
+            {
+              type: 'Action.OpenUrl',
+              title: 'Review in dashboard',
+              url: notification.reviewUrl
+            }
+          ]
+        }
+      }
+    ]
+  };
+}
+
+export function chatChannelMatches(channel: ChatChannelConfig, projectId: string): boolean {
+  if (!channel.enabled) return false;
+  return !channel.projectIds || channel.projectIds.length === 0 || channel.projectIds.includes(projectId);
+}
+
+interface TrackedApproval {
+  projectId: string;
+  approvalId: string;
+  createdAt: number;
+  remindersSent: number;
+}
+
+/**
+ * Posts pending approvals to Slack and Teams channels configured in global settings,
+ * and reminds them while approvals stay pending past the configured threshold.
+ * Approvals that already existed when the notifier started are not announced again,
+ * but still get reminders once they are due.
+ */
+export class ChatNotifier {
+  private settingsManager: SettingsManager;
+  private getProject: (projectId: string) => ProjectContext | undefined;
+  private getDashboardUrl: () => string;
+  private checkIntervalMs: number;
+  private timeoutMs: number;
+  private now: () => number;
+  private startedAt: number;
+  private tracked: Map<string, TrackedApproval> = new Map();
+  private queue: Promise<void> = Promise.resolve();
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    getProject: (projectId: string) => ProjectContext | undefined,
+    getDashboardUrl: () => string,
+    options: ChatNotifierOptions = {}
+  ) {
+    this.settingsManager = new SettingsManager();
+    this.getProject = getProject;
+    this.getDashboardUrl = getDashboardUrl;
+    this.checkIntervalMs = options.checkIntervalMs ?? DEFAULT_CHECK_INTERVAL_MS;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.now = options.now ?? Date.now;
+    this.startedAt = this.now();
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.checkReminders().catch(error => console.error('[ChatNotifier] Reminder check failed:', error));
+    }, this.checkIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Announce approvals that appeared since the last change and forget resolved ones.
+   * Calls are serialized so bursts of file events can't announce an approval twice.
+   */
+  handleApprovalChange(project: ProjectContext): Promise<void> {
+    return this.enqueue(async () => {
+      const settings = await this.settingsManager.getChatNotificationSettings();
+      const pending = await project.approvalStorage.getAllPendingApprovals();
+      const pendingKeys = new Set<string>();
+
+      for (const approval of pending) {
+        const key = `${project.projectId}:${approval.id}`;
+        pendingKeys.add(key);
+        if (this.tracked.has(key)) continue;
+
+        const createdAt = Date.parse(approval.createdAt) || this.now();
+        const isNew = createdAt >= this.startedAt;
+        this.tracked.set(key, {
+          projectId: project.projectId,
+          approvalId: approval.id,
+          createdAt,
+          remindersSent: isNew ? 0 : this.dueReminderLevel(createdAt, settings)
+        });
+        if (isNew) {
+          await this.notify(project, approval, 0, settings);
+        }
+      }
+
+      for (const [key, entry] of this.tracked) {
+        if (entry.projectId === project.projectId && !pendingKeys.has(key)) {
+          this.tracked.delete(key);
+        }
+      }
+    });
+  }
+
+  /**
+   * Send the reminders that have come due since the last check
+   */
+  checkReminders(): Promise<void> {
+    return this.enqueue(async () => {
+      const settings = await this.settingsManager.getChatNotificationSettings();
+
+      for (const [key, entry] of this.tracked) {
+        const level = this.dueReminderLevel(entry.createdAt, settings);
+        if (level <= entry.remindersSent) continue;
+        entry.remindersSent = level;
+
+        const project = this.getProject(entry.projectId);
+        const approval = project ? await project.approvalStorage.getApproval(entry.approvalId) : null;
+        if (!project || !approval || approval.status !== 'pending') {
+          this.tracked.delete(key);
+          continue;
+        }
+        await this.notify(project, approval, level, settings);
+      }
+    });
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Reminders are due at every full threshold interval, up to the configured maximum
+  private dueReminderLevel(createdAt: number, settings: ChatNotificationSettings): number {
+    if (!settings.reminderAfterMinutes || settings.reminderAfterMinutes <= 0) return 0;
+    const elapsed = this.now() - createdAt;
+    const level = Math.floor(elapsed / (settings.reminderAfterMinutes * 60 * 1000));
+    return Math.max(0, Math.min(settings.maxReminders, level));
+  }
+
+  private async notify(project: ProjectContext, approval: ApprovalRequest, reminderLevel: number, settings: ChatNotificationSettings): Promise<void> {
+    const channels = settings.channels.filter(channel => chatChannelMatches(channel, project.projectId));
+    if (channels.length === 0) return;
+
+    const progress = getApprovalProgress(approval);
+    const notification: ApprovalNotification = {
+      kind: reminderLevel > 0 ? 'reminder' : 'new',
+      reminderLevel,
+      escalated: reminderLevel > 1,
+      approval,
+      projectName: project.projectName,
+      reviewUrl: this.buildReviewUrl(settings),
+      diffStats: await this.getDiffStats(project, approval),
+      pendingMinutes: Math.max(0, Math.floor((this.now() - (Date.parse(approval.createdAt) || this.now())) / 60000)),
+      outstandingReviewers: progress.outstandingReviewers,
+      approvalsRemaining: progress.approvalsRemaining
+    };
+
+    await Promise.all(channels.map(channel => this.post(
+      channel,
+      channel.platform === 'teams' ? formatTeamsMessage(notification) : formatSlackMessage(notification)
+    )));
+  }
+
+  /**
+   * Line changes against the last approved version of the document, or the whole
+   * document when it has never been approved
+   */
+  private async getDiffStats(project: ProjectContext, approval: ApprovalRequest): Promise<ApprovalNotification['diffStats']> {
+    if (approval.type !== 'document' || !approval.filePath) return undefined;
+    try {
+      const current = await project.approvalStorage.getCurrentFileContent(approval.id);
+      if (current === null) return undefined;
+      const approved = await project.approvalStorage.getLatestApprovedSnapshot(approval.categoryName, approval.filePath);
+      const diff = computeLineDiff(approved?.content ?? '', current);
+      return { additions: diff.additions, deletions: diff.deletions, sinceApproval: !!approved };
+    } catch {
+      return undefined;
+    }
+  }
+
+  // The access token is never put in chat messages; reviewers log in as usual
+  private buildReviewUrl(settings: ChatNotificationSettings): string {
+    const base = (settings.dashboardUrl || this.getDashboardUrl()).replace(/\/+$/, '');
+    return `${base}/#/approvals`;
+  }
+
+  private async post(channel: ChatChannelConfig, payload: Record<string, unknown>): Promise<void> {
+    try {
+      const response = await fetch(channel.webhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+      if (!response.ok) {
+        console.error(`[ChatNotifier] ${channel.name} responded with HTTP ${response.status}`);
+      }
+    } catch (error: any) {
+      console.error(`[ChatNotifier] Failed to post to ${channel.name}:`, error?.cause?.message || error?.message || error);
+    }
+  }
+}
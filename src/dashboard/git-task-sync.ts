@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { ProjectContext } from './project-manager.js';
+import { checkTasksApprovalGate } from '../core/approval-gate.js';
+import { PathUtils } from '../core/path-utils.js';
+import { loadGitConfig, scanCommitReferences, ReferencingCommit } from '../core/git-commits.js';
+import { parseTasksFromMarkdown, updateTaskStatus } from '../core/task-parser.js';
+
+export interface AutoCompletedTask {
+  taskId: string;
+  description: string;
+  previousStatus: 'pending' | 'in-progress';
+  commit: ReferencingCommit;   // The newest main-branch commit referencing the task
+}
+
+export interface GitTaskSyncOptions {
+  checkIntervalMs?: number;    // How often the projects' main branches are checked for new commits
+}
+
+const DEFAULT_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Marks tasks completed when a commit referencing them lands on the main branch, for projects
+ * that set autoCompleteTasks in the [git] section of their config.toml. A task is left alone
+ * once its status was changed after the commit, so reopening it by hand sticks.
+ */
+export class GitTaskSync {
+  private getProjects: () => ProjectContext[];
+  private onTasksCompleted: (project: ProjectContext, specName: string, tasks: AutoCompletedTask[]) => Promise<void>;
+  private checkIntervalMs: number;
+  private queue: Promise<void> = Promise.resolve();
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    getProjects: () => ProjectContext[],
+    onTasksCompleted: (project: ProjectContext, specName: string, tasks: AutoCompletedTask[]) => Promise<void>,
+    options: GitTaskSyncOptions = {}
+  ) {
+    this.getProjects = getProjects;
+    this.onTasksCompleted = onTasksCompleted;
+    this.checkIntervalMs = options.checkIntervalMs ?? DEFAULT_CHECK_INTERVAL_MS;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.checkAll().catch(error => console.error('[GitTaskSync] Commit check failed:', error));
+    }, this.checkIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Check every project. Checks are serialized so a slow repository can't be scanned twice at once.
+   */
+  checkAll(): Promise<void> {
+    return this.enqueue(async () => {
+      for (const project of this.getProjects()) {
+        try {
+          await this.syncProject(project);
+        } catch (error) {
+          console.error(`[GitTaskSync] Failed to sync tasks of ${project.projectName}:`, error);
+        }
+      }
+    });
+  }
+
+  /**
+   * Complete the project's tasks referenced by main-branch commits, returning them by spec
+   */
+  async syncProject(project: ProjectContext): Promise<Map<string, AutoCompletedTask[]>> {
+    const completedBySpec = new Map<string, AutoCompletedTask[]>();
+    const { git, error } = loadGitConfig(project.projectPath);
+    if (error || !git.autoCompleteTasks) return completedBySpec;
+
+    const scan = await scanCommitReferences(project.projectPath, git);
+    if (!scan?.mainBranch) return completedBySpec;
+
+    // Newest landed commit per spec and task; commits are listed newest first
+    const landed = new Map<string, Map<string, ReferencingCommit>>();
+    for (const commit of scan.commits.filter(commit => commit.onMainBranch)) {
+      for (const { spec, task } of commit.references) {
+        const tasks = landed.get(spec) ?? new Map<string, ReferencingCommit>();
+        if (!tasks.has(task)) tasks.set(task, commit);
+        landed.set(spec, tasks);
+      }
+    }
+
+    // Commit messages name specs freely; only existing specs' tasks.md files are ever rewritten
+    const specNames = await this.listSpecNames(project.projectPath);
+    for (const [specName, commits] of landed) {
+      if (!specNames.has(specName)) continue;
+      const completed = await this.completeTasks(project, specName, commits);
+      if (completed.length > 0) {
+        completedBySpec.set(specName, completed);
+        await this.onTasksCompleted(project, specName, completed);
+      }
+    }
+    return completedBySpec;
+  }
+
+  private async completeTasks(project: ProjectContext, specName: string, commits: Map<string, ReferencingCommit>): Promise<AutoCompletedTask[]> {
+    const tasksPath = join(PathUtils.getSpecPath(project.projectPath, specName), 'tasks.md');
+    let content: string;
+    try {
+      content = await fs.readFile(tasksPath, 'utf-8');
+    } catch {
+      return []; // Archived, renamed or not planned yet
+    }
+
+    const gate = await checkTasksApprovalGate(project.projectPath, specName);
+    if (!gate.allowed) return [];
+
+    const lastChanged = new Map<string, number>();
+    const { entries } = await project.auditLog.query({ action: 'task.status', specName });
+    for (const entry of entries) {
+      const taskId = entry.details?.taskId;
+      if (taskId && !lastChanged.has(taskId)) lastChanged.set(taskId, Date.parse(entry.timestamp));
+    }
+
+    const completed: AutoCompletedTask[] = [];
+    // In document order, parsing again each time: completing a task may unblock the next one
+    const taskIds = parseTasksFromMarkdown(content).tasks.map(task => task.id).filter(id => commits.has(id));
+    for (const taskId of taskIds) {
+      const commit = commits.get(taskId)!;
+      const task = parseTasksFromMarkdown(content).tasks.find(candidate => candidate.id === taskId);
+      if (!task || task.status === 'completed' || task.blocked) continue;
+      if ((lastChanged.get(taskId) ?? 0) >= Date.parse(commit.committedAt)) continue;
+
+      const updated = updateTaskStatus(content, taskId, 'completed');
+      if (updated === content) continue;
+      content = updated;
+      completed.push({ taskId, description: task.description, previousStatus: task.status, commit });
+    }
+
+    if (completed.length > 0) {
+      await fs.writeFile(tasksPath, content, 'utf-8');
+    }
+    return completed;
+  }
+
+  private async listSpecNames(projectPath: string): Promise<Set<string>> {
+    try {
+      const entries = await fs.readdir(PathUtils.getSpecPath(projectPath, ''), { withFileTypes: true });
+      return new Set(entries.filter(entry => entry.isDirectory()).map(entry => entry.name));
+    } catch {
+      return new Set(); // No specs yet
+    }
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
@@ -60,8 +60,10 @@ export class ImplementationLogManager {
       let linesAdded = 0;
       let linesRemoved = 0;
       let filesChanged = 0;
+      let statisticsSource: ImplementationLogEntry['statisticsSource'];
       const filesModified: string[] = [];
       const filesCreated: string[] = [];
+      const commits: string[] = [];
       const artifacts: ImplementationLogEntry['artifacts'] = {};
 
       let currentSection = '';
@@ -137,9 +139,19 @@ export class ImplementationLogManager {
           const match = line.match(/(\d+)/);
           filesChanged = match ? parseInt(match[1]) : 0;
         }
+        if (line.includes('**Source:**') && currentSection === 'statistics') {
+          const source = line.split('**Source:**')[1]?.trim();
+          statisticsSource = source === 'git' || source === 'reported' ? source : undefined;
+        }
 
         // Parse sections (## headers)
-        if (line.startsWith('## Files Modified')) {
+        if (line.startsWith('## Statistics')) {
+          currentSection = 'statistics';
+          currentArtifactType = null;
+        } else if (line.startsWith('## Commits')) {
+          currentSection = 'commits';
+          currentArtifactType = null;
+        } else if (line.startsWith('## Files Modified')) {
           currentSection = 'filesModified';
           currentArtifactType = null;
         } else if (line.startsWith('## Files Created')) {
@@ -205,6 +217,9 @@ export class ImplementationLogManager {
             filesCreated.push(fileName);
           }
         }
+        else if (currentSection === 'commits' && line.startsWith('- ')) {
+          commits.push(line.slice(2).trim());
+        }
         // Parse artifact key-value details
         else if (currentArtifactType && line.startsWith('- **')) {
           const kv = parseKeyValue(line);
@@ -247,6 +262,8 @@ export class ImplementationLogManager {
           linesRemoved,
           filesChanged
         },
+        ...(statisticsSource && { statisticsSource }),
+        ...(commits.length > 0 && { commits }),
         artifacts
       };
 
@@ -327,7 +344,17 @@ export class ImplementationLogManager {
     markdown += `- **Lines Added:** +${entry.statistics.linesAdded}\n`;
     markdown += `- **Lines Removed:** -${entry.statistics.linesRemoved}\n`;
     markdown += `- **Files Changed:** ${entry.statistics.filesChanged}\n`;
-    markdown += `- **Net Change:** ${entry.statistics.linesAdded - entry.statistics.linesRemoved}\n\n`;
+    markdown += `- **Net Change:** ${entry.statistics.linesAdded - entry.statistics.linesRemoved}\n`;
+    if (entry.statisticsSource) markdown += `- **Source:** ${entry.statisticsSource}\n`;
+    markdown += `\n`;
+
+    if (entry.commits && entry.commits.length > 0) {
+      markdown += `## Commits\n`;
+      entry.commits.forEach(commit => {
+        markdown += `- ${commit}\n`;
+      });
+      markdown += `\n`;
+    }
 
     // Files
     markdown += `## Files Modified\n`;
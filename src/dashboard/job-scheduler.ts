@@ -3,6 +3,8 @@ import { SettingsManager } from './settings-manager.js';
 import { ExecutionHistoryManager } from './execution-history-manager.js';
 import { ProjectManager } from './project-manager.js';
 import { AutomationJob } from '../types.js';
+import { ArtifactVerifier, verifySpecArtifacts } from '../core/artifact-verifier.js';
+import { PathUtils } from '../core/path-utils.js';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 
@@ -188,6 +190,11 @@ export class JobScheduler {
           );
           itemsProcessed += processed;
           itemsDeleted += deleted;
+        } else if (job.type === 'verify-artifacts') {
+          itemsProcessed += await this.verifyArtifacts(
+            projectContext.parser,
+            projectContext.projectPath
+          );
         }
       }
     } catch (e) {
@@ -299,6 +306,30 @@ export class JobScheduler {
     return { processed: archivedSpecs.length, deleted };
   }
 
+  /**
+   * Re-verify the logged artifacts of every active and archived spec against the code.
+   * Returns the number of artifacts checked.
+   */
+  private async verifyArtifacts(parser: any, projectPath: string): Promise<number> {
+    const verifier = new ArtifactVerifier(projectPath);
+    const specPaths = [
+      ...(await parser.getAllSpecs()).map((spec: any) => PathUtils.getSpecPath(projectPath, spec.name)),
+      ...(await parser.getAllArchivedSpecs()).map((spec: any) => PathUtils.getArchiveSpecPath(projectPath, spec.name))
+    ];
+
+    let checked = 0;
+    for (const specPath of specPaths) {
+      try {
+        const report = await verifySpecArtifacts(projectPath, specPath, verifier);
+        checked += Object.keys(report.artifacts).length;
+      } catch (e) {
+        console.error(`Failed to verify artifacts in ${specPath}:`, e);
+      }
+    }
+
+    return checked;
+  }
+
   /**
    * Manually trigger a job execution
    */
@@ -1,50 +1,138 @@
-import fastify, { FastifyInstance } from 'fastify';
+import fastify, { FastifyInstance, FastifyRequest } from 'fastify';
 import fastifyStatic from '@fastify/static';
 import fastifyWebsocket from '@fastify/websocket';
 import { join, dirname, basename, resolve } from 'path';
 import { readFile } from 'fs/promises';
+import { randomUUID } from 'crypto';
 import { promises as fs } from 'fs';
 import { fileURLToPath } from 'url';
 import open from 'open';
 import { WebSocket } from 'ws';
 import { findAvailablePort, validateAndCheckPort } from './utils.js';
 import { parseTasksFromMarkdown } from '../core/task-parser.js';
-import { ProjectManager } from './project-manager.js';
+import { checkTasksApprovalGate } from '../core/approval-gate.js';
+import { detectSpecDrift } from '../core/drift-detector.js';
+import { getSpecTraceability } from '../core/traceability.js';
+import { getDocumentType, validateProjectDocument } from '../core/document-validator.js';
+import { ProjectManager, ProjectContext } from './project-manager.js';
+import { AuditEntry } from './audit-log.js';
+import { resolveVotingReviewer } from './approval-storage.js';
 import { JobScheduler } from './job-scheduler.js';
+import { SettingsManager } from './settings-manager.js';
+import { WebhookDispatcher, WEBHOOK_EVENT_TYPES } from './webhook-dispatcher.js';
+import { ChatNotifier } from './chat-notifier.js';
+import { GitTaskSync, AutoCompletedTask } from './git-task-sync.js';
+import {
+  BufferedEvent,
+  ProjectEventStream,
+  computeListDelta,
+  formatEventId,
+  formatServerSentEvent,
+  parseEventId
+} from './project-event-stream.js';
+import { WebhookConfig, WebhookEventType, ChatChannelConfig, ChatNotificationSettings, SpecData } from '../types.js';
 import { ImplementationLogManager } from './implementation-log-manager.js';
-import { DashboardSessionManager } from '../core/dashboard-session.js';
+import { loadVerificationReport, verifySpecArtifacts } from '../core/artifact-verifier.js';
+import { resolveImplementationChanges } from '../core/git-diff-stats.js';
+import { linkSpecCommits, loadGitConfig } from '../core/git-commits.js';
+import { DashboardSessionManager, buildDashboardLoginUrl } from '../core/dashboard-session.js';
+import {
+  AuthSessionStore,
+  AUTH_COOKIE_NAME,
+  buildAuthCookie,
+  buildClearAuthCookie,
+  createAuthHook,
+  generateAccessToken,
+  getCookie,
+  requireRole,
+  tokensMatch
+} from './auth.js';
+import { UserRole, UserStore, isUserRole } from './user-store.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 interface WebSocketConnection {
   socket: WebSocket;
+}
+
+/**
+ * A dashboard client receiving events, over a WebSocket or a Server-Sent Events stream
+ */
+interface EventSubscriber {
   projectId?: string;
+  pending?: BufferedEvent[];   // Project events held back while a snapshot is being sent
+  snapshotId?: number;         // Identifies the latest snapshot request, so superseded ones are dropped
+  isOpen(): boolean;
+  send(message: string, seq?: number): void;   // seq is set for numbered project events and snapshots
+  close(): void;
 }
 
+export const DEFAULT_DASHBOARD_HOST = '127.0.0.1';
+
+const SSE_KEEP_ALIVE_MS = 25000;
+const SNAPSHOT_WAIT_MS = 10000;
+
 export interface MultiDashboardOptions {
   autoOpen?: boolean;
   port?: number;
+  host?: string;                       // Bind address (defaults to 127.0.0.1)
+  accessToken?: string;                // Generated at startup when not provided
 }
 
 export class MultiProjectDashboardServer {
   private app: FastifyInstance;
   private projectManager: ProjectManager;
   private jobScheduler: JobScheduler;
+  private settingsManager: SettingsManager;
+  private webhookDispatcher: WebhookDispatcher;
+  private chatNotifier: ChatNotifier;
+  private gitTaskSync: GitTaskSync;
   private sessionManager: DashboardSessionManager;
   private options: MultiDashboardOptions;
   private actualPort: number = 0;
-  private clients: Set<WebSocketConnection> = new Set();
+  private accessToken: string;
+  private userStore: UserStore;
+  private authSessions: AuthSessionStore = new AuthSessionStore();
+  private clients: Set<EventSubscriber> = new Set();
+  private eventStream: ProjectEventStream = new ProjectEventStream();
+  private lastSpecLists: Map<string, { specs: SpecData[]; archivedSpecs: SpecData[] }> = new Map();
   private packageVersion: string = 'unknown';
 
   constructor(options: MultiDashboardOptions = {}) {
     this.options = options;
     this.projectManager = new ProjectManager();
     this.jobScheduler = new JobScheduler(this.projectManager);
+    this.settingsManager = new SettingsManager();
+    this.webhookDispatcher = new WebhookDispatcher();
+    this.chatNotifier = new ChatNotifier(id => this.projectManager.getProject(id), () => this.getUrl());
+    this.gitTaskSync = new GitTaskSync(
+      () => this.projectManager.getAllProjects(),
+      (project, specName, tasks) => this.recordAutoCompletedTasks(project, specName, tasks)
+    );
     this.sessionManager = new DashboardSessionManager();
+    this.accessToken = options.accessToken || generateAccessToken();
+    this.userStore = new UserStore();
     this.app = fastify({ logger: false });
   }
 
+  getAccessToken(): string {
+    return this.accessToken;
+  }
+
+  /**
+   * Add the access check and the API routes to the Fastify app without starting anything, and
+   * return the app; start() adds the static files, the WebSocket and the listener. Tests call
+   * this to exercise the routes with inject().
+   */
+  registerApi(): FastifyInstance {
+    // Require the access token or a user session on /api/* and /ws
+    this.app.decorateRequest('principal', undefined);
+    this.app.addHook('onRequest', createAuthHook(this.accessToken, this.authSessions, this.userStore));
+    this.registerApiRoutes();
+    return this.app;
+  }
+
   async start() {
     // Fetch package version once at startup
     try {
@@ -71,6 +159,9 @@ export class MultiProjectDashboardServer {
     // Initialize job scheduler
     await this.jobScheduler.initialize();
 
+    // Added before plugins so the access check covers their routes
+    this.registerApi();
+
     // Register plugins
     await this.app.register(fastifyStatic, {
       root: join(__dirname, 'public'),
@@ -89,30 +180,22 @@ export class MultiProjectDashboardServer {
         const url = new URL(req.url || '', `http://${req.headers.host}`);
         const projectId = url.searchParams.get('projectId') || undefined;
 
-        connection.projectId = projectId;
-        self.clients.add(connection);
+        const subscriber: EventSubscriber = {
+          projectId,
+          isOpen: () => socket.readyState === 1,
+          send: (message) => socket.send(message),
+          close: () => {
+            socket.removeAllListeners();
+            if (socket.readyState === 1) {
+              socket.close();
+            }
+          }
+        };
+        self.clients.add(subscriber);
 
-        // Send initial state for the requested project
+        // Send a snapshot of the requested project
         if (projectId) {
-          const project = self.projectManager.getProject(projectId);
-          if (project) {
-            Promise.all([
-              project.parser.getAllSpecs(),
-              project.approvalStorage.getAllPendingApprovals()
-            ])
-              .then(([specs, approvals]) => {
-                socket.send(
-                  JSON.stringify({
-                    type: 'initial',
-                    projectId,
-                    data: { specs, approvals },
-                  })
-                );
-              })
-              .catch((error) => {
-                console.error('Error getting initial data:', error);
-              });
-          }
+          self.sendSnapshot(subscriber, projectId);
         }
 
         // Send projects list
@@ -125,7 +208,7 @@ export class MultiProjectDashboardServer {
 
         // Handle client disconnect
         const cleanup = () => {
-          self.clients.delete(connection);
+          self.clients.delete(subscriber);
           socket.removeAllListeners();
         };
 
@@ -134,33 +217,15 @@ export class MultiProjectDashboardServer {
         socket.on('disconnect', cleanup);
         socket.on('end', cleanup);
 
-        // Handle subscription messages
+        // Handle subscription messages: `subscribe` sends a snapshot, `resume` replays the events
+        // missed since a sequence number and falls back to a snapshot when they are gone
         socket.on('message', (data) => {
           try {
             const msg = JSON.parse(data.toString());
             if (msg.type === 'subscribe' && msg.projectId) {
-              connection.projectId = msg.projectId;
-
-              // Send initial data for new subscription
-              const project = self.projectManager.getProject(msg.projectId);
-              if (project) {
-                Promise.all([
-                  project.parser.getAllSpecs(),
-                  project.approvalStorage.getAllPendingApprovals()
-                ])
-                  .then(([specs, approvals]) => {
-                    socket.send(
-                      JSON.stringify({
-                        type: 'initial',
-                        projectId: msg.projectId,
-                        data: { specs, approvals },
-                      })
-                    );
-                  })
-                  .catch((error) => {
-                    console.error('Error getting initial data:', error);
-                  });
-              }
+              self.sendSnapshot(subscriber, msg.projectId);
+            } else if (msg.type === 'resume' && msg.projectId) {
+              self.resumeSubscriber(subscriber, msg.projectId, msg.streamId, Number(msg.seq));
             }
           } catch (error) {
             // Ignore invalid messages
@@ -177,9 +242,6 @@ export class MultiProjectDashboardServer {
     // Setup project manager event handlers
     this.setupProjectManagerEvents();
 
-    // Register API routes
-    this.registerApiRoutes();
-
     // Validate and set port (always provided by caller)
     if (!this.options.port) {
       throw new Error('Dashboard port must be specified');
@@ -189,15 +251,22 @@ export class MultiProjectDashboardServer {
     this.actualPort = this.options.port;
 
     // Start server
-    await this.app.listen({ port: this.actualPort, host: '0.0.0.0' });
+    const host = this.options.host || DEFAULT_DASHBOARD_HOST;
+    await this.app.listen({ port: this.actualPort, host });
 
     // Register dashboard in the session manager
-    const dashboardUrl = `http://localhost:${this.actualPort}`;
-    await this.sessionManager.registerDashboard(dashboardUrl, this.actualPort, process.pid);
+    const dashboardUrl = `http://${this.getUrlHost(host)}:${this.actualPort}`;
+    await this.sessionManager.registerDashboard(dashboardUrl, this.actualPort, process.pid, this.accessToken);
+
+    // Start reminders for approvals posted to chat channels
+    this.chatNotifier.start();
 
-    // Open browser if requested
+    // Complete tasks whose commits land on the main branch, where projects enable it
+    this.gitTaskSync.start();
+
+    // Open browser if requested, logging it in with the token
     if (this.options.autoOpen) {
-      await open(dashboardUrl);
+      await open(buildDashboardLoginUrl(dashboardUrl, this.accessToken));
     }
 
     return dashboardUrl;
@@ -220,11 +289,17 @@ export class MultiProjectDashboardServer {
         if (project) {
           const specs = await project.parser.getAllSpecs();
           const archivedSpecs = await project.parser.getAllArchivedSpecs();
+          const previous = this.lastSpecLists.get(projectId);
+          this.lastSpecLists.set(projectId, { specs, archivedSpecs });
           this.broadcastToProject(projectId, {
             type: 'spec-update',
             projectId,
-            data: { specs, archivedSpecs }
+            data: {
+              specs: computeListDelta(previous?.specs, specs),
+              archivedSpecs: computeListDelta(previous?.archivedSpecs, archivedSpecs)
+            }
           });
+          this.notifyWebhooks(projectId, 'spec-update', { action: data.action, specName: data.name, spec: data.data });
         }
       } catch (error) {
         console.error('Error broadcasting spec changes:', error);
@@ -265,6 +340,10 @@ export class MultiProjectDashboardServer {
             projectId,
             data: approvals
           });
+          this.notifyWebhooks(projectId, 'approval-update', { pendingApprovals: approvals });
+          this.chatNotifier
+            .handleApprovalChange(project)
+            .catch(error => console.error('Failed to send chat notifications:', error));
         }
       } catch (error) {
         console.error('Error broadcasting approval changes:', error);
@@ -273,14 +352,112 @@ export class MultiProjectDashboardServer {
     });
   }
 
+  /**
+   * Host to use in the dashboard URL: wildcard binds are reachable on localhost
+   */
+  private getUrlHost(host: string): string {
+    if (host === '0.0.0.0' || host === '::') {
+      return 'localhost';
+    }
+    return host.includes(':') ? `[${host}]` : host;
+  }
+
   private registerApiRoutes() {
+    // Exchange the access token for an HttpOnly session cookie
+    this.app.post('/api/auth/login', async (request, reply) => {
+      const { token, username, password } = (request.body || {}) as { token?: string; username?: string; password?: string };
+      if (username !== undefined) {
+        const user = await this.userStore.verifyCredentials(username.trim(), password || '');
+        if (!user) {
+          return reply.code(401).send({ error: 'Invalid username or password' });
+        }
+        reply.header('Set-Cookie', buildAuthCookie(this.authSessions.create(user.username)));
+        return { success: true, username: user.username, role: user.role };
+      }
+
+      if (!tokensMatch(this.accessToken, token?.trim())) {
+        return reply.code(401).send({ error: 'Invalid access token' });
+      }
+      reply.header('Set-Cookie', buildAuthCookie(this.accessToken));
+      return { success: true, role: 'admin' };
+    });
+
+    this.app.post('/api/auth/logout', async (request, reply) => {
+      this.authSessions.delete(getCookie(request.headers.cookie, AUTH_COOKIE_NAME));
+      reply.header('Set-Cookie', buildClearAuthCookie());
+      return { success: true };
+    });
+
+    // Public: tells the login page whether to offer a username/password form
+    this.app.get('/api/auth/status', async () => {
+      return { usersConfigured: await this.userStore.hasUsers() };
+    });
+
+    // Check whether the caller is authenticated (the auth hook answers 401 otherwise)
+    this.app.get('/api/auth/session', async (request) => {
+      return {
+        authenticated: true,
+        role: request.principal?.role,
+        ...(request.principal?.username && { username: request.principal.username })
+      };
+    });
+
+    // User management (admin only)
+    this.app.get('/api/users', { preHandler: requireRole('admin') }, async () => {
+      return { users: await this.userStore.listUsers() };
+    });
+
+    this.app.post('/api/users', { preHandler: requireRole('admin') }, async (request, reply) => {
+      const { username, password, role } = (request.body || {}) as { username?: string; password?: string; role?: UserRole };
+      if (!username?.trim() || !password || !isUserRole(role)) {
+        return reply.code(400).send({ error: 'username, password and a valid role are required' });
+      }
+      try {
+        const user = await this.userStore.createUser(username.trim(), password, role);
+        return { success: true, user };
+      } catch (error: any) {
+        return reply.code(400).send({ error: error.message });
+      }
+    });
+
+    this.app.put('/api/users/:username', { preHandler: requireRole('admin') }, async (request, reply) => {
+      const { username } = request.params as { username: string };
+      const { password, role } = (request.body || {}) as { password?: string; role?: UserRole };
+      if (role !== undefined && !isUserRole(role)) {
+        return reply.code(400).send({ error: `Invalid role: ${role}` });
+      }
+      if (!(await this.userStore.getUser(username))) {
+        return reply.code(404).send({ error: `User ${username} not found` });
+      }
+      try {
+        const user = await this.userStore.updateUser(username, { role, password });
+        if (password !== undefined) {
+          this.authSessions.deleteForUser(username);
+        }
+        return { success: true, user };
+      } catch (error: any) {
+        return reply.code(400).send({ error: error.message });
+      }
+    });
+
+    this.app.delete('/api/users/:username', { preHandler: requireRole('admin') }, async (request, reply) => {
+      const { username } = request.params as { username: string };
+      try {
+        await this.userStore.deleteUser(username);
+        this.authSessions.deleteForUser(username);
+        return { success: true };
+      } catch (error: any) {
+        return reply.code(404).send({ error: error.message });
+      }
+    });
+
     // Projects list
     this.app.get('/api/projects/list', async () => {
       return this.projectManager.getProjectsList();
     });
 
     // Add project manually
-    this.app.post('/api/projects/add', async (request, reply) => {
+    this.app.post('/api/projects/add', { preHandler: requireRole('admin') }, async (request, reply) => {
       const { projectPath } = request.body as { projectPath: string };
       if (!projectPath) {
         return reply.code(400).send({ error: 'projectPath is required' });
@@ -294,7 +471,7 @@ export class MultiProjectDashboardServer {
     });
 
     // Remove project
-    this.app.delete('/api/projects/:projectId', async (request, reply) => {
+    this.app.delete('/api/projects/:projectId', { preHandler: requireRole('admin') }, async (request, reply) => {
       const { projectId } = request.params as { projectId: string };
       try {
         await this.projectManager.removeProjectById(projectId);
@@ -304,6 +481,107 @@ export class MultiProjectDashboardServer {
       }
     });
 
+    // Server-Sent Events stream of project events, for networks where WebSocket upgrades are blocked.
+    // Carries the same messages as /ws; browsers resume through Last-Event-ID when they reconnect.
+    this.app.get('/api/projects/:projectId/events', async (request, reply) => {
+      const { projectId } = request.params as { projectId: string };
+      const { lastEventId } = request.query as { lastEventId?: string };
+      if (!this.projectManager.getProject(projectId)) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      reply.hijack();
+      const res = reply.raw;
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'  // Stop nginx-style proxies from buffering the stream
+      });
+      res.write('retry: 2000\n\n');
+
+      const streamId = this.eventStream.streamId;
+      const subscriber: EventSubscriber = {
+        projectId,
+        isOpen: () => !res.writableEnded && !res.destroyed,
+        send: (message, seq) => {
+          res.write(formatServerSentEvent(message, seq !== undefined ? formatEventId(streamId, seq) : undefined));
+        },
+        close: () => res.end()
+      };
+      this.clients.add(subscriber);
+
+      // Comment lines keep idle proxies from closing the connection
+      const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), SSE_KEEP_ALIVE_MS);
+      request.raw.on('close', () => {
+        clearInterval(keepAlive);
+        this.clients.delete(subscriber);
+      });
+
+      subscriber.send(JSON.stringify({
+        type: 'projects-update',
+        data: { projects: this.projectManager.getProjectsList() }
+      }));
+
+      const resumeFrom = parseEventId((request.headers['last-event-id'] as string | undefined) || lastEventId);
+      if (resumeFrom) {
+        this.resumeSubscriber(subscriber, projectId, resumeFrom.streamId, resumeFrom.seq);
+      } else {
+        this.sendSnapshot(subscriber, projectId);
+      }
+    });
+
+    // Long-poll alternative for proxies that buffer streamed responses. Returns the events after
+    // `since` (an SSE event ID), waiting up to `timeout` seconds for one; without a usable `since`
+    // it returns a snapshot. Pass the returned lastEventId as `since` on the next poll.
+    this.app.get('/api/projects/:projectId/events/poll', async (request, reply) => {
+      const { projectId } = request.params as { projectId: string };
+      const { since, timeout } = request.query as { since?: string; timeout?: string };
+      if (!this.projectManager.getProject(projectId)) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+      const waitMs = Math.min(Math.max(parseInt(timeout || '25', 10) || 0, 0), 60) * 1000;
+
+      const received: Array<{ message: string; seq?: number }> = [];
+      let wake = () => {};
+      const subscriber: EventSubscriber = {
+        projectId,
+        isOpen: () => true,
+        send: (message, seq) => {
+          received.push({ message, seq });
+          wake();
+        },
+        close: () => wake()
+      };
+
+      const position = parseEventId(since);
+      const missed = position ? this.eventStream.since(projectId, position.streamId, position.seq) : null;
+      if (missed && missed.length > 0) {
+        missed.forEach(event => subscriber.send(event.message, event.seq));
+      } else {
+        const woken = new Promise<void>(resolve => { wake = resolve; });
+        this.clients.add(subscriber);
+        if (!missed) {
+          this.sendSnapshot(subscriber, projectId);
+        }
+        // A snapshot is always waited for; new events only until the timeout
+        let timer: NodeJS.Timeout | undefined;
+        await Promise.race([
+          woken,
+          new Promise<void>(resolve => { timer = setTimeout(resolve, missed ? waitMs : SNAPSHOT_WAIT_MS); })
+        ]);
+        clearTimeout(timer);
+        this.clients.delete(subscriber);
+      }
+
+      const seqs = received.map(event => event.seq).filter((seq): seq is number => seq !== undefined);
+      const lastSeq = seqs.length > 0 ? Math.max(...seqs) : (missed && position ? position.seq : this.eventStream.getSeq(projectId));
+      return {
+        lastEventId: formatEventId(this.eventStream.streamId, lastSeq),
+        messages: received.map(event => JSON.parse(event.message))
+      };
+    });
+
     // Project info
     this.app.get('/api/projects/:projectId/info', async (request, reply) => {
       const { projectId } = request.params as { projectId: string };
@@ -415,8 +693,42 @@ export class MultiProjectDashboardServer {
       return result;
     });
 
+    // Compare spec documents with their latest approved snapshots
+    this.app.get('/api/projects/:projectId/specs/:name/drift', async (request, reply) => {
+      const { projectId, name } = request.params as { projectId: string; name: string };
+      const project = this.projectManager.getProject(projectId);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      try {
+        return await detectSpecDrift(project.projectPath, name, { includeDiff: true });
+      } catch (error: any) {
+        return reply.code(500).send({ error: `Failed to detect drift: ${error.message}` });
+      }
+    });
+
+    // Map requirements to tasks and implementation logs
+    this.app.get('/api/projects/:projectId/specs/:name/traceability', async (request, reply) => {
+      const { projectId, name } = request.params as { projectId: string; name: string };
+      const project = this.projectManager.getProject(projectId);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      try {
+        const report = await getSpecTraceability(project.projectPath, name);
+        if (!report) {
+          return reply.code(404).send({ error: 'Spec not found' });
+        }
+        return report;
+      } catch (error: any) {
+        return reply.code(500).send({ error: `Failed to build traceability matrix: ${error.message}` });
+      }
+    });
+
     // Save spec document
-    this.app.put('/api/projects/:projectId/specs/:name/:document', async (request, reply) => {
+    this.app.put('/api/projects/:projectId/specs/:name/:document', { preHandler: requireRole('editor') }, async (request, reply) => {
       const { projectId, name, document } = request.params as { projectId: string; name: string; document: string };
       const { content } = request.body as { content: string };
       const project = this.projectManager.getProject(projectId);
@@ -438,8 +750,15 @@ export class MultiProjectDashboardServer {
 
       try {
         const specDir = join(project.projectPath, '.spec-workflow', 'specs', name);
+        const previous = await readFile(docPath, 'utf-8').catch(() => null);
         await fs.mkdir(specDir, { recursive: true });
         await fs.writeFile(docPath, content, 'utf-8');
+        await this.recordAudit(project, request, {
+          action: 'document.edit',
+          target: `${name}/${document}.md`,
+          specName: name,
+          details: { category: 'spec', document, ...this.describeEdit(previous, content) }
+        });
         return { success: true, message: 'Document saved successfully' };
       } catch (error: any) {
         return reply.code(500).send({ error: `Failed to save document: ${error.message}` });
@@ -447,7 +766,7 @@ export class MultiProjectDashboardServer {
     });
 
     // Archive spec
-    this.app.post('/api/projects/:projectId/specs/:name/archive', async (request, reply) => {
+    this.app.post('/api/projects/:projectId/specs/:name/archive', { preHandler: requireRole('editor') }, async (request, reply) => {
       const { projectId, name } = request.params as { projectId: string; name: string };
       const project = this.projectManager.getProject(projectId);
 
@@ -457,6 +776,7 @@ export class MultiProjectDashboardServer {
 
       try {
         await project.archiveService.archiveSpec(name);
+        await this.recordAudit(project, request, { action: 'spec.archive', target: name, specName: name });
         return { success: true, message: `Spec '${name}' archived successfully` };
       } catch (error: any) {
         return reply.code(400).send({ error: error.message });
@@ -464,7 +784,7 @@ export class MultiProjectDashboardServer {
     });
 
     // Unarchive spec
-    this.app.post('/api/projects/:projectId/specs/:name/unarchive', async (request, reply) => {
+    this.app.post('/api/projects/:projectId/specs/:name/unarchive', { preHandler: requireRole('editor') }, async (request, reply) => {
       const { projectId, name } = request.params as { projectId: string; name: string };
       const project = this.projectManager.getProject(projectId);
 
@@ -474,12 +794,78 @@ export class MultiProjectDashboardServer {
 
       try {
         await project.archiveService.unarchiveSpec(name);
+        await this.recordAudit(project, request, { action: 'spec.unarchive', target: name, specName: name });
         return { success: true, message: `Spec '${name}' unarchived successfully` };
       } catch (error: any) {
         return reply.code(400).send({ error: error.message });
       }
     });
 
+    // Query the project's audit log
+    this.app.get('/api/projects/:projectId/audit', async (request, reply) => {
+      const { projectId } = request.params as { projectId: string };
+      const { action, actor, specName, search, since, until, limit, offset } = request.query as {
+        action?: string;
+        actor?: string;
+        specName?: string;
+        search?: string;
+        since?: string;
+        until?: string;
+        limit?: string;
+        offset?: string;
+      };
+      const project = this.projectManager.getProject(projectId);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      const limitNum = limit !== undefined ? parseInt(limit, 10) : 100;
+      const offsetNum = offset !== undefined ? parseInt(offset, 10) : 0;
+      if (isNaN(limitNum) || limitNum < 1 || isNaN(offsetNum) || offsetNum < 0) {
+        return reply.code(400).send({ error: 'limit must be a positive integer and offset a non-negative integer' });
+      }
+
+      try {
+        return await project.auditLog.query({
+          action: action || undefined,
+          actor: actor || undefined,
+          specName: specName || undefined,
+          search: search || undefined,
+          since: since || undefined,
+          until: until || undefined,
+          limit: Math.min(limitNum, 1000),
+          offset: offsetNum
+        });
+      } catch (error: any) {
+        return reply.code(500).send({ error: `Failed to read audit log: ${error.message}` });
+      }
+    });
+
+    // Full-text search across spec and steering documents, implementation logs and approvals
+    this.app.get('/api/projects/:projectId/search', async (request, reply) => {
+      const { projectId } = request.params as { projectId: string };
+      const { q, limit } = request.query as { q?: string; limit?: string };
+      const project = this.projectManager.getProject(projectId);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+      if (!q || !q.trim()) {
+        return reply.code(400).send({ error: 'q is required' });
+      }
+
+      const limitNum = limit !== undefined ? parseInt(limit, 10) : 20;
+      if (isNaN(limitNum) || limitNum < 1) {
+        return reply.code(400).send({ error: 'limit must be a positive integer' });
+      }
+
+      try {
+        const results = await project.search.search(q, Math.min(limitNum, 100));
+        return { query: q, results };
+      } catch (error: any) {
+        return reply.code(500).send({ error: `Search failed: ${error.message}` });
+      }
+    });
+
     // Get approvals
     this.app.get('/api/projects/:projectId/approvals', async (request, reply) => {
       const { projectId } = request.params as { projectId: string };
@@ -504,46 +890,55 @@ export class MultiProjectDashboardServer {
           return reply.code(404).send({ error: 'Approval not found or no file path' });
         }
 
-        const candidates: string[] = [];
-        const p = approval.filePath;
-        candidates.push(join(project.projectPath, p));
-        if (p.startsWith('/') || p.match(/^[A-Za-z]:[\\\/]/)) {
-          candidates.push(p);
+        const resolved = await this.readApprovalFile(project.projectPath, approval.filePath);
+        if (!resolved) {
+          return reply.code(500).send({ error: `Failed to read file at any known location for ${approval.filePath}` });
         }
-        if (!p.includes('.spec-workflow')) {
-          candidates.push(join(project.projectPath, '.spec-workflow', p));
+
+        return { content: resolved.content, filePath: resolved.resolvedPath };
+      } catch (error: any) {
+        return reply.code(500).send({ error: `Failed to read file: ${error.message}` });
+      }
+    });
+
+    // Validate the approval's document against its template and the project's validation rules
+    this.app.get('/api/projects/:projectId/approvals/:id/validation', async (request, reply) => {
+      const { projectId, id } = request.params as { projectId: string; id: string };
+      const project = this.projectManager.getProject(projectId);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      try {
+        const approval = await project.approvalStorage.getApproval(id);
+        if (!approval || !approval.filePath) {
+          return reply.code(404).send({ error: 'Approval not found or no file path' });
         }
 
-        let content: string | null = null;
-        let resolvedPath: string | null = null;
-        for (const candidate of candidates) {
-          try {
-            const data = await fs.readFile(candidate, 'utf-8');
-            content = data;
-            resolvedPath = candidate;
-            break;
-          } catch {
-            // try next candidate
-          }
+        const documentType = getDocumentType(approval.filePath);
+        if (!documentType) {
+          return { documentType: null, valid: true, errors: [], warnings: [], summary: {}, guidance: [] };
         }
 
-        if (content == null) {
+        const resolved = await this.readApprovalFile(project.projectPath, approval.filePath);
+        if (!resolved) {
           return reply.code(500).send({ error: `Failed to read file at any known location for ${approval.filePath}` });
         }
 
-        return { content, filePath: resolvedPath || approval.filePath };
+        return await validateProjectDocument(project.projectPath, documentType, resolved.content);
       } catch (error: any) {
-        return reply.code(500).send({ error: `Failed to read file: ${error.message}` });
+        return reply.code(500).send({ error: `Failed to validate document: ${error.message}` });
       }
     });
 
     // Approval actions (approve, reject, needs-revision)
-    this.app.post('/api/projects/:projectId/approvals/:id/:action', async (request, reply) => {
+    this.app.post('/api/projects/:projectId/approvals/:id/:action', { preHandler: requireRole('approver') }, async (request, reply) => {
       const { projectId, id, action } = request.params as { projectId: string; id: string; action: string };
-      const { response, annotations, comments } = request.body as {
+      const { response, annotations, comments, reviewer } = request.body as {
         response: string;
         annotations?: string;
         comments?: any[];
+        reviewer?: string;
       };
 
       const project = this.projectManager.getProject(projectId);
@@ -564,9 +959,34 @@ export class MultiProjectDashboardServer {
       };
       const status = actionToStatus[action];
 
+      const existing = await project.approvalStorage.getApproval(id);
+      if (existing && existing.status !== 'pending') {
+        return reply.code(409).send({ error: `Approval ${id} is already ${existing.status}` });
+      }
+
+      const voter = resolveVotingReviewer(existing?.policy, request.principal?.username, reviewer?.trim() || this.getActor(request));
+      if ('error' in voter) {
+        return reply.code(403).send({ error: voter.error });
+      }
+
       try {
-        await project.approvalStorage.updateApproval(id, status, response, annotations, comments);
-        return { success: true };
+        const actor = voter.reviewer;
+        const approval = await project.approvalStorage.updateApproval(id, status, response, annotations, comments, actor);
+        await this.recordAudit(project, request, {
+          actor,
+          action: `approval.${action}` as AuditEntry['action'],
+          target: approval.filePath || approval.title,
+          ...(approval.category === 'spec' && { specName: approval.categoryName }),
+          details: {
+            approvalId: id,
+            title: approval.title,
+            decision: status,
+            resultingStatus: approval.status,
+            ...(response && { response }),
+            ...(comments && comments.length > 0 && { commentCount: comments.length })
+          }
+        });
+        return { success: true, status: approval.status, reviews: approval.reviews };
       } catch (error: any) {
         return reply.code(404).send({ error: error.message });
       }
@@ -649,7 +1069,7 @@ export class MultiProjectDashboardServer {
     });
 
     // Manual snapshot capture
-    this.app.post('/api/projects/:projectId/approvals/:id/snapshot', async (request, reply) => {
+    this.app.post('/api/projects/:projectId/approvals/:id/snapshot', { preHandler: requireRole('editor') }, async (request, reply) => {
       const { projectId, id } = request.params as { projectId: string; id: string };
       const project = this.projectManager.getProject(projectId);
       if (!project) {
@@ -695,7 +1115,7 @@ export class MultiProjectDashboardServer {
     });
 
     // Save steering document
-    this.app.put('/api/projects/:projectId/steering/:name', async (request, reply) => {
+    this.app.put('/api/projects/:projectId/steering/:name', { preHandler: requireRole('editor') }, async (request, reply) => {
       const { projectId, name } = request.params as { projectId: string; name: string };
       const { content } = request.body as { content: string };
       const project = this.projectManager.getProject(projectId);
@@ -717,8 +1137,14 @@ export class MultiProjectDashboardServer {
       const docPath = join(steeringDir, `${name}.md`);
 
       try {
+        const previous = await readFile(docPath, 'utf-8').catch(() => null);
         await fs.mkdir(steeringDir, { recursive: true });
         await fs.writeFile(docPath, content, 'utf-8');
+        await this.recordAudit(project, request, {
+          action: 'document.edit',
+          target: `steering/${name}.md`,
+          details: { category: 'steering', document: name, ...this.describeEdit(previous, content) }
+        });
         return { success: true, message: 'Steering document saved successfully' };
       } catch (error: any) {
         return reply.code(500).send({ error: `Failed to save steering document: ${error.message}` });
@@ -761,8 +1187,67 @@ export class MultiProjectDashboardServer {
       }
     });
 
+    // Get the commits of each task in a spec
+    this.app.get('/api/projects/:projectId/specs/:name/commits', async (request, reply) => {
+      const { projectId, name } = request.params as { projectId: string; name: string };
+      const project = this.projectManager.getProject(projectId);
+
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      try {
+        if (!(await project.parser.getSpec(name))) {
+          return reply.code(404).send({ error: 'Spec not found' });
+        }
+
+        const links = await this.getSpecCommitLinks(project, name);
+        return links
+          ? { available: true, ...links }
+          : { available: false, mainBranch: null, tasks: {} };
+      } catch (error: any) {
+        return reply.code(500).send({ error: `Failed to get commits: ${error.message}` });
+      }
+    });
+
+    // Get the commits of a task
+    this.app.get('/api/projects/:projectId/specs/:name/tasks/:taskId/commits', async (request, reply) => {
+      const { projectId, name, taskId } = request.params as { projectId: string; name: string; taskId: string };
+      const project = this.projectManager.getProject(projectId);
+
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      try {
+        const tasksPath = join(project.projectPath, '.spec-workflow', 'specs', name, 'tasks.md');
+        let tasksContent: string;
+        try {
+          tasksContent = await readFile(tasksPath, 'utf-8');
+        } catch (error: any) {
+          if (error.code === 'ENOENT') {
+            return reply.code(404).send({ error: 'Tasks file not found' });
+          }
+          throw error;
+        }
+        if (!parseTasksFromMarkdown(tasksContent).tasks.some(task => task.id === taskId)) {
+          return reply.code(404).send({ error: `Task ${taskId} not found` });
+        }
+
+        const links = await this.getSpecCommitLinks(project, name);
+        return {
+          taskId,
+          available: links !== null,
+          mainBranch: links?.mainBranch ?? null,
+          commits: links?.tasks[taskId] ?? []
+        };
+      } catch (error: any) {
+        return reply.code(500).send({ error: `Failed to get task commits: ${error.message}` });
+      }
+    });
+
     // Update task status
-    this.app.put('/api/projects/:projectId/specs/:name/tasks/:taskId/status', async (request, reply) => {
+    this.app.put('/api/projects/:projectId/specs/:name/tasks/:taskId/status', { preHandler: requireRole('editor') }, async (request, reply) => {
       const { projectId, name, taskId } = request.params as { projectId: string; name: string; taskId: string };
       const { status } = request.body as { status: 'pending' | 'in-progress' | 'completed' };
       const project = this.projectManager.getProject(projectId);
@@ -803,6 +1288,17 @@ export class MultiProjectDashboardServer {
           };
         }
 
+        if (status !== 'pending' && task.blocked) {
+          return reply.code(409).send({
+            error: `Task ${taskId} is blocked by unfinished dependencies: ${(task.blockedBy || []).join(', ')}`
+          });
+        }
+
+        const gate = await checkTasksApprovalGate(project.projectPath, name);
+        if (!gate.allowed) {
+          return reply.code(409).send({ error: gate.message });
+        }
+
         const { updateTaskStatus } = await import('../core/task-parser.js');
         const updatedContent = updateTaskStatus(tasksContent, taskId, status);
 
@@ -811,6 +1307,12 @@ export class MultiProjectDashboardServer {
         }
 
         await fs.writeFile(tasksPath, updatedContent, 'utf-8');
+        await this.recordAudit(project, request, {
+          action: 'task.status',
+          target: `${name} task ${taskId}`,
+          specName: name,
+          details: { taskId, description: task.description, from: task.status, to: status }
+        });
 
         this.broadcastTaskUpdate(projectId, name);
 
@@ -825,7 +1327,7 @@ export class MultiProjectDashboardServer {
     });
 
     // Add implementation log entry
-    this.app.post('/api/projects/:projectId/specs/:name/implementation-log', async (request, reply) => {
+    this.app.post('/api/projects/:projectId/specs/:name/implementation-log', { preHandler: requireRole('editor') }, async (request, reply) => {
       const { projectId, name } = request.params as { projectId: string; name: string };
       const project = this.projectManager.getProject(projectId);
       if (!project) {
@@ -840,9 +1342,22 @@ export class MultiProjectDashboardServer {
           return reply.code(400).send({ error: 'artifacts field is REQUIRED. Include apiEndpoints, components, functions, classes, or integrations in the artifacts object.' });
         }
 
+        const gate = await checkTasksApprovalGate(project.projectPath, name);
+        if (!gate.allowed) {
+          return reply.code(409).send({ error: gate.message });
+        }
+
+        const { baseRef, commitRange, ...reported } = logData;
+        let changes;
+        try {
+          changes = await resolveImplementationChanges(project.projectPath, reported, { baseRef, commitRange });
+        } catch (gitError: any) {
+          return reply.code(400).send({ error: `Could not determine the changes: ${gitError.message}` });
+        }
+
         const specPath = join(project.projectPath, '.spec-workflow', 'specs', name);
         const logManager = new ImplementationLogManager(specPath);
-        const entry = await logManager.addLogEntry(logData);
+        const entry = await logManager.addLogEntry({ ...reported, ...changes });
 
         await this.broadcastImplementationLogUpdate(projectId, name);
         return entry;
@@ -873,12 +1388,30 @@ export class MultiProjectDashboardServer {
           logs = await logManager.searchLogs(query.search);
         }
 
-        return { entries: logs };
+        const verification = await loadVerificationReport(logManager.getLogsDir());
+        return { entries: logs, verification };
       } catch (error: any) {
         return reply.code(500).send({ error: `Failed to get implementation logs: ${error.message}` });
       }
     });
 
+    // Check that the artifacts in a spec's implementation logs still exist in the code
+    this.app.post('/api/projects/:projectId/specs/:name/implementation-log/verify', { preHandler: requireRole('editor') }, async (request, reply) => {
+      const { projectId, name } = request.params as { projectId: string; name: string };
+
+      const project = this.projectManager.getProject(projectId);
+      if (!project) {
+        return reply.code(404).send({ error: 'Project not found' });
+      }
+
+      try {
+        const specPath = join(project.projectPath, '.spec-workflow', 'specs', name);
+        return await verifySpecArtifacts(project.projectPath, specPath);
+      } catch (error: any) {
+        return reply.code(500).send({ error: `Failed to verify implementation log artifacts: ${error.message}` });
+      }
+    });
+
     // Get implementation log task stats
     this.app.get('/api/projects/:projectId/specs/:name/implementation-log/task/:taskId/stats', async (request, reply) => {
       const { projectId, name, taskId } = request.params as { projectId: string; name: string; taskId: string };
@@ -957,7 +1490,7 @@ export class MultiProjectDashboardServer {
     });
 
     // Create a new automation job
-    this.app.post('/api/jobs', async (request, reply) => {
+    this.app.post('/api/jobs', { preHandler: requireRole('admin') }, async (request, reply) => {
       const job = request.body as any;
 
       if (!job.id || !job.name || !job.type || job.config === undefined || !job.schedule) {
@@ -997,7 +1530,7 @@ export class MultiProjectDashboardServer {
     });
 
     // Update an automation job
-    this.app.put('/api/jobs/:jobId', async (request, reply) => {
+    this.app.put('/api/jobs/:jobId', { preHandler: requireRole('admin') }, async (request, reply) => {
       const { jobId } = request.params as { jobId: string };
       const updates = request.body as any;
 
@@ -1010,7 +1543,7 @@ export class MultiProjectDashboardServer {
     });
 
     // Delete an automation job
-    this.app.delete('/api/jobs/:jobId', async (request, reply) => {
+    this.app.delete('/api/jobs/:jobId', { preHandler: requireRole('admin') }, async (request, reply) => {
       const { jobId } = request.params as { jobId: string };
 
       try {
@@ -1022,7 +1555,7 @@ export class MultiProjectDashboardServer {
     });
 
     // Manually run a job
-    this.app.post('/api/jobs/:jobId/run', async (request, reply) => {
+    this.app.post('/api/jobs/:jobId/run', { preHandler: requireRole('admin') }, async (request, reply) => {
       const { jobId } = request.params as { jobId: string };
 
       try {
@@ -1057,26 +1590,438 @@ export class MultiProjectDashboardServer {
         return reply.code(500).send({ error: error.message });
       }
     });
+
+    // Webhooks (admin only, since they hold signing secrets)
+
+    // Get all webhooks
+    this.app.get('/api/webhooks', { preHandler: requireRole('admin') }, async () => {
+      const webhooks = await this.settingsManager.getAllWebhooks();
+      return webhooks.map(webhook => this.toPublicWebhook(webhook));
+    });
+
+    // Create a webhook
+    this.app.post('/api/webhooks', { preHandler: requireRole('admin') }, async (request, reply) => {
+      const parsed = this.parseWebhookInput(request.body || {}, true);
+      if ('error' in parsed) {
+        return reply.code(400).send({ error: parsed.error });
+      }
+
+      const webhook: WebhookConfig = {
+        id: randomUUID(),
+        name: parsed.fields.name!,
+        url: parsed.fields.url!,
+        enabled: parsed.fields.enabled ?? true,
+        events: parsed.fields.events ?? [],
+        ...(parsed.fields.projectIds && { projectIds: parsed.fields.projectIds }),
+        ...(parsed.fields.secret && { secret: parsed.fields.secret }),
+        createdAt: new Date().toISOString()
+      };
+      try {
+        await this.settingsManager.addWebhook(webhook);
+        return { success: true, webhook: this.toPublicWebhook(webhook) };
+      } catch (error: any) {
+        return reply.code(400).send({ error: error.message });
+      }
+    });
+
+    // Recent webhook deliveries, newest first
+    this.app.get('/api/webhooks/deliveries', { preHandler: requireRole('admin') }, async (request, reply) => {
+      const { webhookId, limit } = request.query as { webhookId?: string; limit?: string };
+      try {
+        return await this.webhookDispatcher.getDeliveries(webhookId, parseInt(limit || '50'));
+      } catch (error: any) {
+        return reply.code(500).send({ error: error.message });
+      }
+    });
+
+    // Update a webhook (omit secret to keep the current one, send "" to remove it)
+    this.app.put('/api/webhooks/:webhookId', { preHandler: requireRole('admin') }, async (request, reply) => {
+      const { webhookId } = request.params as { webhookId: string };
+      const parsed = this.parseWebhookInput(request.body || {}, false);
+      if ('error' in parsed) {
+        return reply.code(400).send({ error: parsed.error });
+      }
+
+      try {
+        await this.settingsManager.updateWebhook(webhookId, parsed.fields);
+        return { success: true, message: 'Webhook updated successfully' };
+      } catch (error: any) {
+        return reply.code(404).send({ error: error.message });
+      }
+    });
+
+    // Delete a webhook
+    this.app.delete('/api/webhooks/:webhookId', { preHandler: requireRole('admin') }, async (request, reply) => {
+      const { webhookId } = request.params as { webhookId: string };
+
+      try {
+        await this.settingsManager.deleteWebhook(webhookId);
+        return { success: true, message: 'Webhook deleted successfully' };
+      } catch (error: any) {
+        return reply.code(404).send({ error: error.message });
+      }
+    });
+
+    // Send a test event to a webhook
+    this.app.post('/api/webhooks/:webhookId/test', { preHandler: requireRole('admin') }, async (request, reply) => {
+      const { webhookId } = request.params as { webhookId: string };
+      const webhook = await this.settingsManager.getWebhook(webhookId);
+      if (!webhook) {
+        return reply.code(404).send({ error: 'Webhook not found' });
+      }
+      return await this.webhookDispatcher.sendTestEvent(webhook);
+    });
+
+    // Chat notifications (admin only, since channel URLs allow posting to them)
+
+    // Get chat notification settings
+    this.app.get('/api/chat-notifications', { preHandler: requireRole('admin') }, async () => {
+      return await this.settingsManager.getChatNotificationSettings();
+    });
+
+    // Replace chat notification settings
+    this.app.put('/api/chat-notifications', { preHandler: requireRole('admin') }, async (request, reply) => {
+      const current = await this.settingsManager.getChatNotificationSettings();
+      const parsed = this.parseChatNotificationInput(request.body || {}, current);
+      if ('error' in parsed) {
+        return reply.code(400).send({ error: parsed.error });
+      }
+
+      await this.settingsManager.saveChatNotificationSettings(parsed.settings);
+      return { success: true, settings: parsed.settings };
+    });
+  }
+
+  /**
+   * Read an approval's file, trying the project-relative, absolute and .spec-workflow-relative locations
+   */
+  private async readApprovalFile(projectPath: string, filePath: string): Promise<{ content: string; resolvedPath: string } | null> {
+    const candidates: string[] = [join(projectPath, filePath)];
+    if (filePath.startsWith('/') || filePath.match(/^[A-Za-z]:[\\\/]/)) {
+      candidates.push(filePath);
+    }
+    if (!filePath.includes('.spec-workflow')) {
+      candidates.push(join(projectPath, '.spec-workflow', filePath));
+    }
+
+    for (const candidate of candidates) {
+      try {
+        return { content: await fs.readFile(candidate, 'utf-8'), resolvedPath: candidate };
+      } catch {
+        // try next candidate
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Identity of the dashboard user making a request: the logged-in username, or the
+   * name sent by the frontend in the X-Spec-Workflow-Actor header (URI-encoded so
+   * non-ASCII names survive) when signed in with the access token
+   */
+  private getActor(request: FastifyRequest): string {
+    if (request.principal?.username) {
+      return request.principal.username;
+    }
+    const header = request.headers['x-spec-workflow-actor'];
+    const raw = Array.isArray(header) ? header[0] : header;
+    if (!raw) return 'anonymous';
+    try {
+      return decodeURIComponent(raw).trim().slice(0, 100) || 'anonymous';
+    } catch {
+      return raw.trim().slice(0, 100) || 'anonymous';
+    }
+  }
+
+  private describeEdit(previous: string | null, content: string): Record<string, number | boolean> {
+    return {
+      created: previous === null,
+      linesBefore: previous === null ? 0 : previous.split('\n').length,
+      linesAfter: content.split('\n').length
+    };
+  }
+
+  /**
+   * Append an audit entry for a dashboard change. Failures are logged but never fail the request.
+   */
+  private async recordAudit(
+    project: ProjectContext,
+    request: FastifyRequest,
+    entry: Pick<AuditEntry, 'action' | 'target'> & Partial<Pick<AuditEntry, 'actor' | 'specName' | 'details'>>
+  ) {
+    try {
+      const recorded = await project.auditLog.record({
+        source: 'dashboard',
+        ...entry,
+        actor: entry.actor || this.getActor(request)
+      });
+      this.broadcastToProject(project.projectId, {
+        type: 'audit-update',
+        projectId: project.projectId,
+        data: recorded
+      });
+    } catch (error) {
+      console.error('Failed to record audit entry:', error);
+    }
+  }
+
+  /**
+   * Commits linked to each task of a spec, or null when the project is not a git repository
+   */
+  private async getSpecCommitLinks(project: ProjectContext, specName: string) {
+    const { git } = loadGitConfig(project.projectPath);
+    const specPath = join(project.projectPath, '.spec-workflow', 'specs', specName);
+    const logEntries = await new ImplementationLogManager(specPath).getAllLogs();
+    return linkSpecCommits(project.projectPath, specName, logEntries, git);
+  }
+
+  /**
+   * Record tasks completed by commits on the main branch and tell clients about them
+   */
+  private async recordAutoCompletedTasks(project: ProjectContext, specName: string, tasks: AutoCompletedTask[]) {
+    for (const task of tasks) {
+      try {
+        const recorded = await project.auditLog.record({
+          source: 'dashboard',
+          actor: 'git',
+          action: 'task.status',
+          target: `${specName} task ${task.taskId}`,
+          specName,
+          details: {
+            taskId: task.taskId,
+            description: task.description,
+            from: task.previousStatus,
+            to: 'completed',
+            commit: task.commit.sha
+          }
+        });
+        this.broadcastToProject(project.projectId, {
+          type: 'audit-update',
+          projectId: project.projectId,
+          data: recorded
+        });
+      } catch (error) {
+        console.error('Failed to record audit entry:', error);
+      }
+    }
+    await this.broadcastTaskUpdate(project.projectId, specName);
+  }
+
+  /**
+   * Forward an event to matching webhooks. Deliveries and their retries run in the background.
+   */
+  private notifyWebhooks(projectId: string, event: WebhookEventType, data: unknown) {
+    const project = this.projectManager.getProject(projectId);
+    if (!project) return;
+    this.webhookDispatcher
+      .dispatch(event, { id: projectId, name: project.projectName }, data)
+      .catch(error => console.error('Failed to dispatch webhooks:', error));
+  }
+
+  /**
+   * Validate a webhook create/update body. Returns the accepted fields or an error message.
+   */
+  private parseWebhookInput(body: any, requireAll: boolean): { fields: Partial<WebhookConfig> } | { error: string } {
+    const fields: Partial<WebhookConfig> = {};
+
+    if (body.name !== undefined || requireAll) {
+      if (typeof body.name !== 'string' || !body.name.trim()) return { error: 'name is required' };
+      fields.name = body.name.trim();
+    }
+    if (body.url !== undefined || requireAll) {
+      let url: URL;
+      try {
+        url = new URL(body.url);
+      } catch {
+        return { error: 'url must be a valid URL' };
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return { error: 'url must use http or https' };
+      fields.url = url.toString();
+    }
+    if (body.events !== undefined) {
+      if (!Array.isArray(body.events) || body.events.some((e: unknown) => !WEBHOOK_EVENT_TYPES.includes(e as WebhookEventType))) {
+        return { error: `events must be a list of: ${WEBHOOK_EVENT_TYPES.join(', ')}` };
+      }
+      fields.events = body.events;
+    }
+    if (body.projectIds !== undefined) {
+      if (!Array.isArray(body.projectIds) || body.projectIds.some((id: unknown) => typeof id !== 'string')) {
+        return { error: 'projectIds must be a list of project IDs' };
+      }
+      fields.projectIds = body.projectIds;
+    }
+    if (body.secret !== undefined) {
+      if (typeof body.secret !== 'string') return { error: 'secret must be a string' };
+      fields.secret = body.secret || undefined;
+    }
+    if (body.enabled !== undefined) {
+      fields.enabled = body.enabled !== false;
+    }
+    return { fields };
+  }
+
+  /**
+   * Validate a chat notification settings body. Omitted fields keep their current values;
+   * channels without an ID are new and get one.
+   */
+  private parseChatNotificationInput(body: any, current: ChatNotificationSettings): { settings: ChatNotificationSettings } | { error: string } {
+    const settings: ChatNotificationSettings = { ...current };
+
+    if (body.reminderAfterMinutes !== undefined) {
+      if (!Number.isInteger(body.reminderAfterMinutes) || body.reminderAfterMinutes < 0) {
+        return { error: 'reminderAfterMinutes must be a whole number of minutes (0 disables reminders)' };
+      }
+      settings.reminderAfterMinutes = body.reminderAfterMinutes;
+    }
+    if (body.maxReminders !== undefined) {
+      if (!Number.isInteger(body.maxReminders) || body.maxReminders < 0) {
+        return { error: 'maxReminders must be a non-negative whole number' };
+      }
+      settings.maxReminders = body.maxReminders;
+    }
+    if (body.dashboardUrl !== undefined) {
+      if (body.dashboardUrl === '' || body.dashboardUrl === null) {
+        delete settings.dashboardUrl;
+      } else {
+        try {
+          settings.dashboardUrl = new URL(body.dashboardUrl).toString();
+        } catch {
+          return { error: 'dashboardUrl must be a valid URL' };
+        }
+      }
+    }
+    if (body.channels !== undefined) {
+      if (!Array.isArray(body.channels)) return { error: 'channels must be a list' };
+      const channels: ChatChannelConfig[] = [];
+      for (const channel of body.channels) {
+        if (typeof channel?.name !== 'string' || !channel.name.trim()) return { error: 'Every channel needs a name' };
+        if (channel.platform !== 'slack' && channel.platform !== 'teams') {
+          return { error: `Channel "${channel.name}": platform must be slack or teams` };
+        }
+        let url: URL;
+        try {
+          url = new URL(channel.webhookUrl);
+        } catch {
+          return { error: `Channel "${channel.name}": webhookUrl must be a valid URL` };
+        }
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+          return { error: `Channel "${channel.name}": webhookUrl must use http or https` };
+        }
+        if (channel.projectIds !== undefined && (!Array.isArray(channel.projectIds) || channel.projectIds.some((id: unknown) => typeof id !== 'string'))) {
+          return { error: `Channel "${channel.name}": projectIds must be a list of project IDs` };
+        }
+        channels.push({
+          id: typeof channel.id === 'string' && channel.id ? channel.id : randomUUID(),
+          name: channel.name.trim(),
+          platform: channel.platform,
+          webhookUrl: url.toString(),
+          enabled: channel.enabled !== false,
+          ...(channel.projectIds?.length && { projectIds: channel.projectIds })
+        });
+      }
+      settings.channels = channels;
+    }
+    return { settings };
+  }
+
+  /**
+   * Webhook as returned by the API: the secret is never sent back, only whether one is set
+   */
+  private toPublicWebhook({ secret, ...webhook }: WebhookConfig) {
+    return { ...webhook, hasSecret: !!secret };
   }
 
   private broadcastToAll(message: any) {
     const messageStr = JSON.stringify(message);
-    this.clients.forEach((connection) => {
-      if (connection.socket.readyState === 1) {
-        connection.socket.send(messageStr);
+    this.clients.forEach((client) => {
+      if (client.isOpen()) {
+        client.send(messageStr);
       }
     });
   }
 
-  private broadcastToProject(projectId: string, message: any) {
-    const messageStr = JSON.stringify(message);
-    this.clients.forEach((connection) => {
-      if (connection.socket.readyState === 1 && connection.projectId === projectId) {
-        connection.socket.send(messageStr);
+  /**
+   * Number the event, buffer it for clients that resume later, and send it to subscribed clients
+   */
+  private broadcastToProject(projectId: string, message: { type: string; projectId?: string; data: unknown }) {
+    const event = this.eventStream.publish(projectId, message.type, message.data);
+    this.clients.forEach((client) => {
+      if (!client.isOpen() || client.projectId !== projectId) return;
+      if (client.pending) {
+        client.pending.push(event);
+      } else {
+        client.send(event.message, event.seq);
       }
     });
   }
 
+  /**
+   * Send a project's full state. Events published meanwhile are held back and sent after it,
+   * so clients apply them on top of the snapshot.
+   */
+  private sendSnapshot(client: EventSubscriber, projectId: string) {
+    const snapshotId = (client.snapshotId ?? 0) + 1;
+    client.snapshotId = snapshotId;
+    client.projectId = projectId;
+    client.pending = undefined;
+
+    const project = this.projectManager.getProject(projectId);
+    if (!project) return;
+
+    client.pending = [];
+    const seq = this.eventStream.getSeq(projectId);
+    const release = (snapshot?: string) => {
+      if (client.snapshotId !== snapshotId) return;
+      const pending = client.pending || [];
+      client.pending = undefined;
+      if (!client.isOpen()) return;
+      if (snapshot) client.send(snapshot, seq);
+      pending.forEach(event => client.send(event.message, event.seq));
+    };
+
+    Promise.all([
+      project.parser.getAllSpecs(),
+      project.parser.getAllArchivedSpecs(),
+      project.approvalStorage.getAllPendingApprovals()
+    ])
+      .then(([specs, archivedSpecs, approvals]) => {
+        release(JSON.stringify({
+          type: 'initial',
+          projectId,
+          streamId: this.eventStream.streamId,
+          seq,
+          data: { specs, archivedSpecs, approvals }
+        }));
+      })
+      .catch((error) => {
+        console.error('Error getting initial data:', error);
+        release();
+      });
+  }
+
+  /**
+   * Replay the events a reconnecting client missed, or send a snapshot when they are no longer buffered
+   */
+  private resumeSubscriber(client: EventSubscriber, projectId: string, streamId: string | undefined, seq: number) {
+    const missed = this.eventStream.since(projectId, streamId, seq);
+    if (!missed || !this.projectManager.getProject(projectId)) {
+      this.sendSnapshot(client, projectId);
+      return;
+    }
+
+    // Supersede any snapshot still being prepared for this client
+    client.snapshotId = (client.snapshotId ?? 0) + 1;
+    client.projectId = projectId;
+    client.pending = undefined;
+    missed.forEach(event => client.send(event.message, event.seq));
+    client.send(JSON.stringify({
+      type: 'resumed',
+      projectId,
+      streamId: this.eventStream.streamId,
+      seq: this.eventStream.getSeq(projectId)
+    }));
+  }
+
   private async broadcastTaskUpdate(projectId: string, specName: string) {
     try {
       const project = this.projectManager.getProject(projectId);
@@ -1096,6 +2041,11 @@ export class MultiProjectDashboardServer {
           inProgress: parseResult.inProgressTask
         }
       });
+      this.notifyWebhooks(projectId, 'task-status-update', {
+        specName,
+        summary: parseResult.summary,
+        inProgress: parseResult.inProgressTask
+      });
     } catch (error) {
       console.error('Error broadcasting task update:', error);
     }
@@ -1118,27 +2068,27 @@ export class MultiProjectDashboardServer {
           entries: logs
         }
       });
+      this.notifyWebhooks(projectId, 'implementation-log-update', { specName, entries: logs });
     } catch (error) {
       console.error('Error broadcasting implementation log update:', error);
     }
   }
 
   async stop() {
-    // Close all WebSocket connections
-    this.clients.forEach((connection) => {
+    // Close all WebSocket connections and event streams
+    this.clients.forEach((client) => {
       try {
-        connection.socket.removeAllListeners();
-        if (connection.socket.readyState === 1) {
-          connection.socket.close();
-        }
+        client.close();
       } catch (error) {
         // Ignore cleanup errors
       }
     });
     this.clients.clear();
 
-    // Stop job scheduler
+    // Stop job scheduler, chat reminders and git task sync
     await this.jobScheduler.shutdown();
+    this.chatNotifier.stop();
+    this.gitTaskSync.stop();
 
     // Stop project manager
     await this.projectManager.stop();
@@ -3,6 +3,7 @@ import { join } from 'path';
 import { PathUtils } from '../core/path-utils.js';
 import { SpecData, SteeringStatus, TaskInfo } from '../types.js';
 import { parseTaskProgress } from '../core/task-parser.js';
+import { detectSpecDrift } from '../core/drift-detector.js';
 
 export interface ParsedSpec extends SpecData {
   displayName: string;
@@ -137,6 +138,17 @@ export class SpecParser {
         };
       } catch {}
 
+      // Approval state and drift against the latest approved snapshots
+      try {
+        const drift = await detectSpecDrift(this.projectPath, name);
+        for (const doc of drift.documents) {
+          const phase = spec.phases[doc.document];
+          phase.approved = doc.approvedAt !== undefined;
+          phase.approvedAt = doc.approvedAt;
+          phase.changedSinceApproval = doc.status === 'drifted';
+        }
+      } catch {}
+
       // Implementation phase is always considered "exists" since it's ongoing manual work
       spec.phases.implementation.exists = true;
 
@@ -0,0 +1,123 @@
+import { randomUUID } from 'crypto';
+
+export interface ProjectEvent {
+  seq: number;
+  type: string;
+  projectId: string;
+  data: unknown;
+}
+
+/**
+ * Changes to a keyed list since the previous event: the items that were added or changed,
+ * and the full key order so clients can drop removed items and keep the server's ordering
+ */
+export interface ListDelta<T> {
+  upserted: T[];
+  names: string[];
+}
+
+export interface BufferedEvent {
+  seq: number;
+  message: string;    // Serialized ProjectEvent
+}
+
+interface ProjectBuffer {
+  seq: number;
+  events: BufferedEvent[];
+}
+
+const DEFAULT_BUFFER_SIZE = 200;
+
+/**
+ * Items in `next` that are new or differ from `previous`, compared by their JSON form.
+ * Without a previous list every item counts as changed.
+ */
+export function computeListDelta<T extends { name: string }>(previous: T[] | undefined, next: T[]): ListDelta<T> {
+  const before = new Map((previous || []).map(item => [item.name, JSON.stringify(item)]));
+  return {
+    upserted: next.filter(item => before.get(item.name) !== JSON.stringify(item)),
+    names: next.map(item => item.name)
+  };
+}
+
+/**
+ * Format a message for a Server-Sent Events stream. The ID is what the browser sends back
+ * in Last-Event-ID when it reconnects.
+ */
+export function formatServerSentEvent(message: string, id?: string): string {
+  return `${id ? `id: ${id}\n` : ''}data: ${message}\n\n`;
+}
+
+/**
+ * SSE event IDs combine the stream ID and sequence number as `<streamId>:<seq>`
+ */
+export function formatEventId(streamId: string, seq: number): string {
+  return `${streamId}:${seq}`;
+}
+
+export function parseEventId(id: string | undefined): { streamId: string; seq: number } | null {
+  const match = id?.match(/^(.+):(\d+)$/);
+  return match ? { streamId: match[1], seq: parseInt(match[2], 10) } : null;
+}
+
+/**
+ * Numbers dashboard events per project and keeps the most recent ones, so WebSocket clients
+ * that reconnect can be sent what they missed instead of a full snapshot. Sequence numbers
+ * only mean something within one stream; the stream ID changes every time the dashboard starts.
+ */
+export class ProjectEventStream {
+  readonly streamId: string = randomUUID();
+  private buffers: Map<string, ProjectBuffer> = new Map();
+  private bufferSize: number;
+
+  constructor(bufferSize: number = DEFAULT_BUFFER_SIZE) {
+    this.bufferSize = bufferSize;
+  }
+
+  /**
+   * Assign the next sequence number to an event and buffer it
+   */
+  publish(projectId: string, type: string, data: unknown): BufferedEvent {
+    const buffer = this.getBuffer(projectId);
+    const event: ProjectEvent = { seq: ++buffer.seq, type, projectId, data };
+    const buffered = { seq: event.seq, message: JSON.stringify(event) };
+
+    buffer.events.push(buffered);
+    if (buffer.events.length > this.bufferSize) {
+      buffer.events.splice(0, buffer.events.length - this.bufferSize);
+    }
+    return buffered;
+  }
+
+  /**
+   * Sequence number of the latest event published for a project (0 before the first)
+   */
+  getSeq(projectId: string): number {
+    return this.buffers.get(projectId)?.seq ?? 0;
+  }
+
+  /**
+   * Events after `seq`, oldest first. Returns null when they can't all be replayed:
+   * the client saw another stream, is ahead of this one, or fell behind the buffer.
+   */
+  since(projectId: string, streamId: string | undefined, seq: number): BufferedEvent[] | null {
+    if (streamId !== this.streamId || !Number.isInteger(seq) || seq < 0) return null;
+
+    const buffer = this.getBuffer(projectId);
+    if (seq > buffer.seq) return null;
+    if (seq === buffer.seq) return [];
+
+    const oldest = buffer.events[0]?.seq ?? buffer.seq + 1;
+    if (seq + 1 < oldest) return null;
+    return buffer.events.filter(event => event.seq > seq);
+  }
+
+  private getBuffer(projectId: string): ProjectBuffer {
+    let buffer = this.buffers.get(projectId);
+    if (!buffer) {
+      buffer = { seq: 0, events: [] };
+      this.buffers.set(projectId, buffer);
+    }
+    return buffer;
+  }
+}
@@ -3,6 +3,8 @@ import chokidar from 'chokidar';
 import { SpecParser } from './parser.js';
 import { SpecWatcher } from './watcher.js';
 import { ApprovalStorage } from './approval-storage.js';
+import { AuditLog } from './audit-log.js';
+import { ProjectSearch } from './project-search.js';
 import { SpecArchiveService } from '../core/archive-service.js';
 import { ProjectRegistry, ProjectRegistryEntry, generateProjectId } from '../core/project-registry.js';
 import { PathUtils } from '../core/path-utils.js';
@@ -16,6 +18,8 @@ export interface ProjectContext {
   watcher: SpecWatcher;
   approvalStorage: ApprovalStorage;
   archiveService: SpecArchiveService;
+  auditLog: AuditLog;
+  search: ProjectSearch;
 }
 
 export class ProjectManager extends EventEmitter {
@@ -132,6 +136,8 @@ export class ProjectManager extends EventEmitter {
       const watcher = new SpecWatcher(translatedPath, parser);
       const approvalStorage = new ApprovalStorage(translatedPath, entry.projectPath);
       const archiveService = new SpecArchiveService(translatedPath);
+      const auditLog = new AuditLog(translatedPath);
+      const search = new ProjectSearch(translatedPath, approvalStorage);
 
       // Start watchers
       await watcher.start();
@@ -139,6 +145,7 @@ export class ProjectManager extends EventEmitter {
 
       // Forward events with projectId
       watcher.on('change', (event) => {
+        search.specChanged(event.name);
         this.emit('spec-change', { projectId: entry.projectId, ...event });
       });
 
@@ -147,10 +154,12 @@ export class ProjectManager extends EventEmitter {
       });
 
       watcher.on('steering-change', (event) => {
+        search.steeringChanged();
         this.emit('steering-change', { projectId: entry.projectId, ...event });
       });
 
       approvalStorage.on('approval-change', () => {
+        search.approvalsChanged();
         this.emit('approval-change', { projectId: entry.projectId });
       });
 
@@ -162,7 +171,9 @@ export class ProjectManager extends EventEmitter {
         parser,
         watcher,
         approvalStorage,
-        archiveService
+        archiveService,
+        auditLog,
+        search
       };
 
       this.projects.set(entry.projectId, context);
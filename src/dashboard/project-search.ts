@@ -0,0 +1,261 @@
+import { promises as fs } from 'fs';
+import { basename, join, relative } from 'path';
+import { PathUtils } from '../core/path-utils.js';
+import { SearchIndex, highlightRanges } from '../core/search-index.js';
+import { ApprovalRequest, ApprovalStorage } from './approval-storage.js';
+
+export type SearchResultKind = 'spec' | 'steering' | 'approval' | 'log';
+
+interface SearchEntry {
+  kind: SearchResultKind;
+  title: string;
+  path: string;              // Relative to the project root
+  specName?: string;
+  document?: string;         // Spec or steering document name; for approvals, the one reviewed
+  taskId?: string;           // Logs only
+  approvalId?: string;       // Approvals only
+  archived?: boolean;
+  lineNumbers?: Array<number | undefined>;  // Approvals: document line each indexed line refers to
+}
+
+export interface SearchResult {
+  kind: SearchResultKind;
+  title: string;
+  path: string;
+  specName?: string;
+  document?: string;
+  taskId?: string;
+  approvalId?: string;
+  archived?: boolean;
+  line?: number;             // 1-based line in the document to jump to
+  snippet: string;
+  highlights: Array<[number, number]>;
+  score: number;
+}
+
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Cut a long line down to a window around its first highlight, shifting the ranges to match
+ */
+function buildSnippet(text: string, ranges: Array<[number, number]>): { snippet: string; highlights: Array<[number, number]> } {
+  const line = text.trim();
+  const offset = text.indexOf(line);
+  const shifted = ranges.map(([start, end]) => [start - offset, end - offset] as [number, number]);
+  if (line.length <= SNIPPET_LENGTH) {
+    return { snippet: line, highlights: shifted };
+  }
+
+  const focus = shifted[0]?.[0] ?? 0;
+  const start = Math.max(0, Math.min(focus - SNIPPET_LENGTH / 4, line.length - SNIPPET_LENGTH));
+  const end = start + SNIPPET_LENGTH;
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${line.slice(start, end)}${end < line.length ? '…' : ''}`;
+  const highlights = shifted
+    .filter(([rangeStart, rangeEnd]) => rangeStart >= start && rangeEnd <= end)
+    .map(([rangeStart, rangeEnd]) => [rangeStart - start + prefix.length, rangeEnd - start + prefix.length] as [number, number]);
+  return { snippet, highlights };
+}
+
+async function readMarkdownFiles(dirPath: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    return entries.filter(entry => entry.isFile() && entry.name.endsWith('.md')).map(entry => entry.name).sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Full-text index over a project's spec documents, steering documents, implementation logs
+ * and approval comments. Built on the first search, then kept current by the project's
+ * watcher and approval events.
+ */
+export class ProjectSearch {
+  private projectPath: string;
+  private approvalStorage: ApprovalStorage;
+  private index: SearchIndex<SearchEntry> = new SearchIndex();
+  private built?: Promise<void>;
+  // Updates run one at a time so a slow re-read can't overwrite a newer one
+  private updates: Promise<void> = Promise.resolve();
+
+  constructor(projectPath: string, approvalStorage: ApprovalStorage) {
+    this.projectPath = projectPath;
+    this.approvalStorage = approvalStorage;
+  }
+
+  async search(query: string, limit: number = 20): Promise<SearchResult[]> {
+    if (!this.built) {
+      this.built = this.enqueue(() => this.build());
+    }
+    await this.built;
+    await this.updates;
+
+    return this.index.search(query, { limit }).map(hit => {
+      const { lineNumbers, ...entry } = hit.meta;
+      const text = this.index.getLines(hit.id)?.[hit.line] ?? '';
+      const { snippet, highlights } = buildSnippet(text, highlightRanges(text, query));
+      const line = hit.meta.kind === 'approval' ? lineNumbers?.[hit.line] : hit.line + 1;
+      return { ...entry, line, snippet, highlights, score: Math.round(hit.score * 1000) / 1000 };
+    });
+  }
+
+  /**
+   * Re-read a spec's documents and logs, active or archived
+   */
+  specChanged(specName: string): Promise<void> {
+    return this.update(() => this.indexSpec(specName));
+  }
+
+  steeringChanged(): Promise<void> {
+    return this.update(() => this.indexSteering());
+  }
+
+  approvalsChanged(): Promise<void> {
+    return this.update(() => this.indexApprovals());
+  }
+
+  private update(task: () => Promise<void>): Promise<void> {
+    // Before the first search there is nothing to keep current; the build reads everything
+    if (!this.built) return Promise.resolve();
+    return this.enqueue(task);
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const next = this.updates.then(task).catch(error => {
+      console.error('Failed to update search index:', error);
+    });
+    this.updates = next;
+    return next;
+  }
+
+  private async build(): Promise<void> {
+    this.index.clear();
+    const specNames = new Set<string>();
+    for (const specsPath of [PathUtils.getSpecPath(this.projectPath, ''), PathUtils.getArchiveSpecsPath(this.projectPath)]) {
+      try {
+        const entries = await fs.readdir(specsPath, { withFileTypes: true });
+        entries.filter(entry => entry.isDirectory()).forEach(entry => specNames.add(entry.name));
+      } catch {
+        // No specs yet
+      }
+    }
+    for (const specName of specNames) {
+      await this.indexSpec(specName);
+    }
+    await this.indexSteering();
+    await this.indexApprovals();
+  }
+
+  private async indexSpec(specName: string): Promise<void> {
+    this.index.removeWhere(entry => (entry.kind === 'spec' || entry.kind === 'log') && entry.specName === specName);
+
+    const locations = [
+      { dirPath: PathUtils.getSpecPath(this.projectPath, specName), archived: false },
+      { dirPath: PathUtils.getArchiveSpecPath(this.projectPath, specName), archived: true }
+    ];
+    for (const { dirPath, archived } of locations) {
+      for (const fileName of await readMarkdownFiles(dirPath)) {
+        const document = fileName.slice(0, -3);
+        await this.indexFile(join(dirPath, fileName), {
+          kind: 'spec',
+          title: `${specName}/${fileName}`,
+          specName,
+          document,
+          archived
+        });
+      }
+
+      const logsPath = join(dirPath, 'Implementation Logs');
+      for (const fileName of await readMarkdownFiles(logsPath)) {
+        await this.indexFile(join(logsPath, fileName), {
+          kind: 'log',
+          title: `${specName}: ${fileName}`,
+          specName,
+          archived
+        });
+      }
+    }
+  }
+
+  private async indexSteering(): Promise<void> {
+    this.index.removeWhere(entry => entry.kind === 'steering');
+
+    const steeringPath = PathUtils.getSteeringPath(this.projectPath);
+    for (const fileName of await readMarkdownFiles(steeringPath)) {
+      await this.indexFile(join(steeringPath, fileName), {
+        kind: 'steering',
+        title: `steering/${fileName}`,
+        document: fileName.slice(0, -3)
+      });
+    }
+  }
+
+  private async indexApprovals(): Promise<void> {
+    this.index.removeWhere(entry => entry.kind === 'approval');
+
+    for (const approval of await this.approvalStorage.getAllApprovals()) {
+      const { lines, lineNumbers } = approvalLines(approval);
+      this.index.add(`approval:${approval.id}`, lines, {
+        kind: 'approval',
+        title: approval.title,
+        path: approval.filePath,
+        specName: approval.category === 'spec' ? approval.categoryName : undefined,
+        document: basename(approval.filePath || '', '.md') || undefined,
+        approvalId: approval.id,
+        lineNumbers
+      });
+    }
+  }
+
+  private async indexFile(filePath: string, entry: Omit<SearchEntry, 'path'>): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return; // Deleted since the directory was listed
+    }
+
+    const path = relative(this.projectPath, filePath).replace(/\\/g, '/');
+    const lines = content.split(/\r?\n/);
+    if (entry.kind === 'log') {
+      const taskId = lines[0]?.match(/^# Implementation Log: Task (.+)$/)?.[1]?.trim();
+      if (taskId) {
+        entry = { ...entry, taskId, title: `${entry.specName}: task ${taskId}` };
+      }
+    }
+    this.index.add(path, lines, { ...entry, path });
+  }
+}
+
+/**
+ * The searchable text of an approval: its title, responses and every comment, one per line.
+ * Comments on a selection keep the line of the reviewed document they refer to.
+ */
+function approvalLines(approval: ApprovalRequest): { lines: string[]; lineNumbers: Array<number | undefined> } {
+  const lines: string[] = [];
+  const lineNumbers: Array<number | undefined> = [];
+  const push = (text: string | undefined, lineNumber?: number) => {
+    for (const line of (text ?? '').split(/\r?\n/)) {
+      if (line.trim()) {
+        lines.push(line);
+        lineNumbers.push(lineNumber);
+      }
+    }
+  };
+
+  push(approval.title);
+  push(approval.response);
+  push(approval.annotations);
+  for (const comment of approval.comments ?? []) {
+    push(comment.comment, comment.lineNumber);
+  }
+  for (const review of approval.reviews ?? []) {
+    push(review.response);
+    push(review.annotations);
+    for (const comment of review.comments ?? []) {
+      push(comment.comment, comment.lineNumber);
+    }
+  }
+  return { lines, lineNumbers };
+}
@@ -1,8 +1,14 @@
 import { join } from 'path';
 import { promises as fs } from 'fs';
-import { GlobalSettings, AutomationJob } from '../types.js';
+import { GlobalSettings, AutomationJob, WebhookConfig, ChatNotificationSettings } from '../types.js';
 import { getGlobalDir, getPermissionErrorHelp } from '../core/global-dir.js';
 
+export const DEFAULT_CHAT_NOTIFICATION_SETTINGS: ChatNotificationSettings = {
+  channels: [],
+  reminderAfterMinutes: 0,
+  maxReminders: 3
+};
+
 export class SettingsManager {
   private settingsPath: string;
   private settingsDir: string;
@@ -105,9 +111,10 @@ export class SettingsManager {
 
     const content = JSON.stringify(settings, null, 2);
 
-    // Write to temporary file first, then rename for atomic operation
+    // Write to temporary file first, then rename for atomic operation.
+    // Only the current user may read it, since it holds webhook secrets.
     const tempPath = `${this.settingsPath}.tmp`;
-    await fs.writeFile(tempPath, content, 'utf-8');
+    await fs.writeFile(tempPath, content, { encoding: 'utf-8', mode: 0o600 });
     await fs.rename(tempPath, this.settingsPath);
   }
 
@@ -180,6 +187,93 @@ export class SettingsManager {
     await this.saveSettings(settings);
   }
 
+  /**
+   * Get all configured webhooks
+   */
+  async getAllWebhooks(): Promise<WebhookConfig[]> {
+    const settings = await this.loadSettings();
+    return settings.webhooks || [];
+  }
+
+  /**
+   * Get a specific webhook by ID
+   */
+  async getWebhook(webhookId: string): Promise<WebhookConfig | null> {
+    const webhooks = await this.getAllWebhooks();
+    return webhooks.find(webhook => webhook.id === webhookId) || null;
+  }
+
+  /**
+   * Add a new webhook
+   */
+  async addWebhook(webhook: WebhookConfig): Promise<void> {
+    const settings = await this.loadSettings();
+    const webhooks = settings.webhooks || [];
+
+    if (webhooks.some(w => w.id === webhook.id)) {
+      throw new Error(`Webhook with ID ${webhook.id} already exists`);
+    }
+
+    settings.webhooks = [...webhooks, webhook];
+    await this.saveSettings(settings);
+  }
+
+  /**
+   * Update an existing webhook
+   */
+  async updateWebhook(webhookId: string, updates: Partial<WebhookConfig>): Promise<void> {
+    const settings = await this.loadSettings();
+    const webhooks = settings.webhooks || [];
+    const webhookIndex = webhooks.findIndex(w => w.id === webhookId);
+
+    if (webhookIndex === -1) {
+      throw new Error(`Webhook with ID ${webhookId} not found`);
+    }
+
+    // Merge updates, but don't allow changing ID
+    webhooks[webhookIndex] = {
+      ...webhooks[webhookIndex],
+      ...updates,
+      id: webhooks[webhookIndex].id
+    };
+
+    settings.webhooks = webhooks;
+    await this.saveSettings(settings);
+  }
+
+  /**
+   * Delete a webhook
+   */
+  async deleteWebhook(webhookId: string): Promise<void> {
+    const settings = await this.loadSettings();
+    const webhooks = settings.webhooks || [];
+    const remaining = webhooks.filter(w => w.id !== webhookId);
+
+    if (remaining.length === webhooks.length) {
+      throw new Error(`Webhook with ID ${webhookId} not found`);
+    }
+
+    settings.webhooks = remaining;
+    await this.saveSettings(settings);
+  }
+
+  /**
+   * Get chat notification settings, with defaults when none are configured
+   */
+  async getChatNotificationSettings(): Promise<ChatNotificationSettings> {
+    const settings = await this.loadSettings();
+    return { ...DEFAULT_CHAT_NOTIFICATION_SETTINGS, ...settings.chatNotifications };
+  }
+
+  /**
+   * Replace chat notification settings
+   */
+  async saveChatNotificationSettings(chatNotifications: ChatNotificationSettings): Promise<void> {
+    const settings = await this.loadSettings();
+    settings.chatNotifications = chatNotifications;
+    await this.saveSettings(settings);
+  }
+
   /**
    * Get the settings file path
    */
@@ -0,0 +1,217 @@
+import { join } from 'path';
+import { promises as fs } from 'fs';
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { getGlobalDir, getPermissionErrorHelp } from '../core/global-dir.js';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export type UserRole = 'viewer' | 'editor' | 'approver' | 'admin';
+
+/**
+ * Roles in increasing order of privilege; each role can do everything the previous one can.
+ * - viewer: read-only access
+ * - editor: edit spec and steering documents, change task status, archive specs
+ * - approver: editor, plus approve, reject or request revisions
+ * - admin: approver, plus automation jobs and user management
+ */
+export const USER_ROLES: UserRole[] = ['viewer', 'editor', 'approver', 'admin'];
+
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+}
+
+export interface StoredUser {
+  username: string;
+  role: UserRole;
+  passwordHash: string;                // hex-encoded scrypt key
+  salt: string;                        // hex-encoded
+  createdAt: string;
+  updatedAt?: string;
+}
+
+/** User as returned by the API, without credentials */
+export interface UserInfo {
+  username: string;
+  role: UserRole;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+interface UsersFile {
+  users: StoredUser[];
+}
+
+const KEY_LENGTH = 64;
+const USERNAME_PATTERN = /^[A-Za-z0-9._@-]{1,64}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export function toUserInfo(user: StoredUser): UserInfo {
+  return {
+    username: user.username,
+    role: user.role,
+    createdAt: user.createdAt,
+    ...(user.updatedAt && { updatedAt: user.updatedAt })
+  };
+}
+
+/**
+ * Dashboard user accounts, stored in ~/.spec-workflow-mcp/users.json
+ * (or SPEC_WORKFLOW_HOME if set). Passwords are kept as salted scrypt hashes.
+ */
+export class UserStore {
+  private usersDir: string;
+  private usersPath: string;
+
+  constructor() {
+    this.usersDir = getGlobalDir();
+    this.usersPath = join(this.usersDir, 'users.json');
+  }
+
+  /**
+   * Ensure the users directory exists
+   */
+  private async ensureUsersDir(): Promise<void> {
+    try {
+      await fs.mkdir(this.usersDir, { recursive: true });
+    } catch (error: any) {
+      if (error.code === 'EEXIST') {
+        return;
+      }
+      if (error.code === 'EACCES' || error.code === 'EPERM') {
+        console.error(getPermissionErrorHelp('create directory', this.usersDir));
+      }
+      throw error;
+    }
+  }
+
+  private async loadUsers(): Promise<StoredUser[]> {
+    try {
+      const content = await fs.readFile(this.usersPath, 'utf-8');
+      const parsed = JSON.parse(content) as UsersFile;
+      return Array.isArray(parsed.users) ? parsed.users : [];
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Save users atomically; the file is only readable by the current user
+   */
+  private async saveUsers(users: StoredUser[]): Promise<void> {
+    await this.ensureUsersDir();
+
+    const content = JSON.stringify({ users } satisfies UsersFile, null, 2);
+    const tempPath = `${this.usersPath}.tmp`;
+    await fs.writeFile(tempPath, content, { encoding: 'utf-8', mode: 0o600 });
+    await fs.rename(tempPath, this.usersPath);
+  }
+
+  private async hashPassword(password: string, salt: Buffer): Promise<string> {
+    return (await scryptAsync(password, salt, KEY_LENGTH)).toString('hex');
+  }
+
+  private findIndex(users: StoredUser[], username: string): number {
+    const lower = username.toLowerCase();
+    return users.findIndex(user => user.username.toLowerCase() === lower);
+  }
+
+  async listUsers(): Promise<UserInfo[]> {
+    return (await this.loadUsers()).map(toUserInfo);
+  }
+
+  async hasUsers(): Promise<boolean> {
+    return (await this.loadUsers()).length > 0;
+  }
+
+  async getUser(username: string): Promise<UserInfo | null> {
+    const users = await this.loadUsers();
+    const index = this.findIndex(users, username);
+    return index === -1 ? null : toUserInfo(users[index]);
+  }
+
+  async createUser(username: string, password: string, role: UserRole): Promise<UserInfo> {
+    if (!USERNAME_PATTERN.test(username)) {
+      throw new Error('Username must be 1-64 characters: letters, numbers, ".", "_", "@" or "-"');
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    const users = await this.loadUsers();
+    if (this.findIndex(users, username) !== -1) {
+      throw new Error(`User ${username} already exists`);
+    }
+
+    const salt = randomBytes(16);
+    const user: StoredUser = {
+      username,
+      role,
+      passwordHash: await this.hashPassword(password, salt),
+      salt: salt.toString('hex'),
+      createdAt: new Date().toISOString()
+    };
+    users.push(user);
+    await this.saveUsers(users);
+    return toUserInfo(user);
+  }
+
+  async updateUser(username: string, updates: { role?: UserRole; password?: string }): Promise<UserInfo> {
+    const users = await this.loadUsers();
+    const index = this.findIndex(users, username);
+    if (index === -1) {
+      throw new Error(`User ${username} not found`);
+    }
+
+    const user = { ...users[index] };
+    if (updates.role) {
+      user.role = updates.role;
+    }
+    if (updates.password !== undefined) {
+      if (updates.password.length < MIN_PASSWORD_LENGTH) {
+        throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      }
+      const salt = randomBytes(16);
+      user.salt = salt.toString('hex');
+      user.passwordHash = await this.hashPassword(updates.password, salt);
+    }
+    user.updatedAt = new Date().toISOString();
+
+    users[index] = user;
+    await this.saveUsers(users);
+    return toUserInfo(user);
+  }
+
+  async deleteUser(username: string): Promise<void> {
+    const users = await this.loadUsers();
+    const index = this.findIndex(users, username);
+    if (index === -1) {
+      throw new Error(`User ${username} not found`);
+    }
+    users.splice(index, 1);
+    await this.saveUsers(users);
+  }
+
+  /**
+   * Check a username and password, returning the user when they match
+   */
+  async verifyCredentials(username: string, password: string): Promise<UserInfo | null> {
+    const users = await this.loadUsers();
+    const index = this.findIndex(users, username);
+    if (index === -1) {
+      return null;
+    }
+
+    const user = users[index];
+    const expected = Buffer.from(user.passwordHash, 'hex');
+    const actual = Buffer.from(await this.hashPassword(password, Buffer.from(user.salt, 'hex')), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual) ? toUserInfo(user) : null;
+  }
+}
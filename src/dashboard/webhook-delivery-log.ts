@@ -0,0 +1,95 @@
+import { join } from 'path';
+import { promises as fs } from 'fs';
+import { WebhookDelivery, WebhookDeliveryLog } from '../types.js';
+import { getGlobalDir, getPermissionErrorHelp } from '../core/global-dir.js';
+
+export class WebhookDeliveryLogManager {
+  private logPath: string;
+  private logDir: string;
+  private maxEntries = 500; // Keep last 500 deliveries
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor() {
+    this.logDir = getGlobalDir();
+    this.logPath = join(this.logDir, 'webhook-deliveries.json');
+  }
+
+  /**
+   * Ensure the log directory exists
+   */
+  private async ensureLogDir(): Promise<void> {
+    try {
+      await fs.mkdir(this.logDir, { recursive: true });
+    } catch (error: any) {
+      if (error.code === 'EEXIST') {
+        return;
+      }
+      if (error.code === 'EACCES' || error.code === 'EPERM') {
+        console.error(getPermissionErrorHelp('create directory', this.logDir));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load the delivery log. A missing or unreadable file starts a fresh log.
+   */
+  private async loadLog(): Promise<WebhookDeliveryLog> {
+    try {
+      const content = (await fs.readFile(this.logPath, 'utf-8')).trim();
+      return content ? JSON.parse(content) as WebhookDeliveryLog : { deliveries: [] };
+    } catch (error: any) {
+      if (error.code === 'ENOENT' || error instanceof SyntaxError) {
+        if (error instanceof SyntaxError) {
+          console.error(`[WebhookDeliveryLog] Failed to parse ${this.logPath}, starting a new log: ${error.message}`);
+        }
+        return { deliveries: [] };
+      }
+      throw error;
+    }
+  }
+
+  private async saveLog(log: WebhookDeliveryLog): Promise<void> {
+    await this.ensureLogDir();
+
+    log.lastUpdated = new Date().toISOString();
+
+    // Write to temporary file first, then rename for atomic operation
+    const tempPath = `${this.logPath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(log, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.logPath);
+  }
+
+  /**
+   * Record a finished delivery. Writes are queued so concurrent deliveries don't overwrite each other.
+   */
+  recordDelivery(delivery: WebhookDelivery): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      const log = await this.loadLog();
+      log.deliveries.unshift(delivery);
+      if (log.deliveries.length > this.maxEntries) {
+        log.deliveries = log.deliveries.slice(0, this.maxEntries);
+      }
+      await this.saveLog(log);
+    });
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Get recent deliveries, newest first, optionally for one webhook
+   */
+  async getDeliveries(webhookId?: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    await this.writeQueue;
+    const log = await this.loadLog();
+    const deliveries = webhookId ? log.deliveries.filter(d => d.webhookId === webhookId) : log.deliveries;
+    return deliveries.slice(0, limit);
+  }
+
+  /**
+   * Get the log file path
+   */
+  getLogPath(): string {
+    return this.logPath;
+  }
+}
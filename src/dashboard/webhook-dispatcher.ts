@@ -0,0 +1,172 @@
+import { createHmac, randomUUID } from 'crypto';
+import { SettingsManager } from './settings-manager.js';
+import { WebhookDeliveryLogManager } from './webhook-delivery-log.js';
+import { WebhookConfig, WebhookDelivery, WebhookEventType } from '../types.js';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'approval-update',
+  'task-status-update',
+  'spec-update',
+  'implementation-log-update'
+];
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Spec-Workflow-Signature';
+
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEventType | 'test';
+  timestamp: string;
+  project?: { id: string; name: string };
+  data: unknown;
+}
+
+export interface WebhookDispatcherOptions {
+  retryDelaysMs?: number[];            // Wait before each retry; the number of retries is its length
+  timeoutMs?: number;                  // Per-attempt request timeout
+}
+
+const DEFAULT_RETRY_DELAYS_MS = [1000, 5000, 30000];
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * HMAC-SHA256 of the raw request body, sent as `sha256=<hex>` so receivers can
+ * verify the payload came from this dashboard
+ */
+export function signWebhookPayload(secret: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+export function webhookMatches(webhook: WebhookConfig, event: WebhookEventType, projectId: string): boolean {
+  if (!webhook.enabled) return false;
+  if (webhook.events.length > 0 && !webhook.events.includes(event)) return false;
+  if (webhook.projectIds && webhook.projectIds.length > 0 && !webhook.projectIds.includes(projectId)) return false;
+  return true;
+}
+
+// Server errors and rate limiting are worth retrying; other client errors will fail the same way again
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429 || status === 408;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Posts signed JSON payloads for dashboard events to the webhooks configured in
+ * global settings, retrying failed deliveries with backoff and logging the outcome.
+ */
+export class WebhookDispatcher {
+  private settingsManager: SettingsManager;
+  private deliveryLog: WebhookDeliveryLogManager;
+  private retryDelaysMs: number[];
+  private timeoutMs: number;
+
+  constructor(options: WebhookDispatcherOptions = {}) {
+    this.settingsManager = new SettingsManager();
+    this.deliveryLog = new WebhookDeliveryLogManager();
+    this.retryDelaysMs = options.retryDelaysMs ?? DEFAULT_RETRY_DELAYS_MS;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Send an event to every matching webhook. The returned promise resolves once
+   * all deliveries, including retries, have finished; callers need not await it.
+   */
+  async dispatch(event: WebhookEventType, project: { id: string; name: string }, data: unknown): Promise<WebhookDelivery[]> {
+    let webhooks: WebhookConfig[];
+    try {
+      webhooks = (await this.settingsManager.getAllWebhooks()).filter(w => webhookMatches(w, event, project.id));
+    } catch (error) {
+      console.error('[WebhookDispatcher] Failed to load webhooks:', error);
+      return [];
+    }
+
+    return Promise.all(webhooks.map(webhook => this.deliver(webhook, {
+      id: randomUUID(),
+      event,
+      timestamp: new Date().toISOString(),
+      project,
+      data
+    })));
+  }
+
+  /**
+   * Send a single test event to a webhook, without retries, so the result can be shown right away
+   */
+  async sendTestEvent(webhook: WebhookConfig): Promise<WebhookDelivery> {
+    return this.deliver(webhook, {
+      id: randomUUID(),
+      event: 'test',
+      timestamp: new Date().toISOString(),
+      data: { message: 'Test event from the Spec Workflow dashboard' }
+    }, []);
+  }
+
+  getDeliveries(webhookId?: string, limit?: number): Promise<WebhookDelivery[]> {
+    return this.deliveryLog.getDeliveries(webhookId, limit);
+  }
+
+  private async deliver(webhook: WebhookConfig, payload: WebhookPayload, retryDelaysMs = this.retryDelaysMs): Promise<WebhookDelivery> {
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'spec-workflow-mcp-webhook',
+      'X-Spec-Workflow-Event': payload.event,
+      'X-Spec-Workflow-Delivery': payload.id
+    };
+    if (webhook.secret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(webhook.secret, body);
+    }
+
+    const startTime = Date.now();
+    let attempts = 0;
+    let statusCode: number | undefined;
+    let error: string | undefined;
+
+    while (true) {
+      attempts++;
+      try {
+        const response = await fetch(webhook.url, {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(this.timeoutMs)
+        });
+        statusCode = response.status;
+        error = response.ok ? undefined : `HTTP ${response.status}`;
+        if (response.ok || !isRetryableStatus(response.status)) {
+          break;
+        }
+      } catch (fetchError: any) {
+        statusCode = undefined;
+        error = fetchError?.cause?.message || fetchError?.message || String(fetchError);
+      }
+
+      if (attempts > retryDelaysMs.length) {
+        break;
+      }
+      await sleep(retryDelaysMs[attempts - 1]);
+    }
+
+    const delivery: WebhookDelivery = {
+      id: payload.id,
+      webhookId: webhook.id,
+      webhookName: webhook.name,
+      event: payload.event,
+      ...(payload.project && { projectId: payload.project.id }),
+      url: webhook.url,
+      deliveredAt: new Date().toISOString(),
+      success: !error,
+      attempts,
+      ...(statusCode !== undefined && { statusCode }),
+      ...(error && { error }),
+      duration: Date.now() - startTime
+    };
+
+    try {
+      await this.deliveryLog.recordDelivery(delivery);
+    } catch (logError) {
+      console.error('[WebhookDispatcher] Failed to record delivery:', logError);
+    }
+    return delivery;
+  }
+}
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useMemo, useState, useCallback, useEffect } from 'react';
 import { useWs } from '../ws/WebSocketProvider';
-import { ImplementationLogEntry } from '../../types';
+import { ImplementationLogEntry, ArtifactVerificationReport, SpecCommitLinks } from '../../types';
+import { getStoredActorName } from '../identity/IdentityProvider';
 
 export type SpecSummary = {
   name: string;
@@ -11,6 +12,18 @@ export type SpecSummary = {
   phases?: any;
 };
 
+export type ApprovalReview = {
+  reviewer: string;
+  decision: 'approved' | 'rejected' | 'needs-revision';
+  timestamp: string;
+  response?: string;
+};
+
+export type ApprovalPolicy = {
+  requiredApprovals: number;
+  reviewers?: string[];
+};
+
 export type Approval = {
   id: string;
   title: string;
@@ -19,6 +32,8 @@ export type Approval = {
   filePath?: string;
   content?: string;
   createdAt?: string;
+  policy?: ApprovalPolicy;
+  reviews?: ApprovalReview[];
 };
 
 export type ProjectInfo = {
@@ -67,19 +82,158 @@ export interface DiffLine {
   content: string;
 }
 
+export interface DocumentDrift {
+  document: 'requirements' | 'design' | 'tasks';
+  fileName: string;
+  status: 'in-sync' | 'drifted' | 'not-approved' | 'missing';
+  approvedAt?: string;
+  approvalId?: string;
+  approvedVersion?: number;
+  stats?: { additions: number; deletions: number; changes: number };
+  diff?: DiffResult;
+}
+
+export interface SpecDriftReport {
+  specName: string;
+  hasDrift: boolean;
+  documents: DocumentDrift[];
+}
+
+export interface DocumentValidationIssue {
+  line: number;
+  location?: string;
+  field: string;
+  message: string;
+  suggestion?: string;
+  severity: 'error' | 'warning';
+}
+
+export interface DocumentValidationResult {
+  documentType: string | null;
+  valid: boolean;
+  errors: DocumentValidationIssue[];
+  warnings: DocumentValidationIssue[];
+  summary: Record<string, number>;
+  guidance: string[];
+}
+
+export type AuditAction =
+  | 'approval.approve'
+  | 'approval.reject'
+  | 'approval.needs-revision'
+  | 'task.status'
+  | 'document.edit'
+  | 'spec.archive'
+  | 'spec.unarchive';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor: string;
+  source: 'dashboard' | 'vscode' | 'mcp';
+  action: AuditAction;
+  target: string;
+  specName?: string;
+  details?: Record<string, any>;
+}
+
+export interface AuditQuery {
+  action?: string;
+  actor?: string;
+  specName?: string;
+  search?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditQueryResult {
+  entries: AuditEntry[];
+  total: number;
+  actors: string[];
+  actions: AuditAction[];
+}
+
+export type SearchResultKind = 'spec' | 'steering' | 'approval' | 'log';
+
+export interface SearchResult {
+  kind: SearchResultKind;
+  title: string;
+  path: string;
+  specName?: string;
+  document?: string;
+  taskId?: string;
+  approvalId?: string;
+  archived?: boolean;
+  line?: number;
+  snippet: string;
+  highlights: [number, number][];
+  score: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  results: SearchResult[];
+}
+
+export type TraceStatus = 'uncovered' | 'planned' | 'in-progress' | 'implemented';
+
+export interface RequirementTrace {
+  id: string;
+  parentId?: string;
+  title: string;
+  tasks: string[];
+  loggedTasks: string[];
+  status: TraceStatus;
+}
+
+export interface TaskTrace {
+  id: string;
+  description: string;
+  status: 'pending' | 'in-progress' | 'completed';
+  requirements: string[];
+  unknownRequirements: string[];
+  logEntries: number;
+}
+
+export interface TraceabilityReport {
+  specName: string;
+  requirements: RequirementTrace[];
+  tasks: TaskTrace[];
+  uncoveredRequirements: string[];
+  unknownReferences: { taskId: string; requirementId: string }[];
+  summary: {
+    totalRequirements: number;
+    coveredRequirements: number;
+    implementedRequirements: number;
+    totalCriteria: number;
+    coveredCriteria: number;
+    coveragePercent: number;
+  };
+}
+
 async function getJson<T>(url: string): Promise<T> {
   const res = await fetch(url);
   if (!res.ok) throw new Error(`GET ${url} failed: ${res.status}`);
   return res.json();
 }
 
+// Attribute changes to the configured reviewer name in the audit log
+function writeHeaders(): Record<string, string> {
+  const actor = getStoredActorName();
+  return actor
+    ? { 'Content-Type': 'application/json', 'X-Spec-Workflow-Actor': encodeURIComponent(actor) }
+    : { 'Content-Type': 'application/json' };
+}
+
 async function postJson(url: string, body: any) {
-  const res = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
-  return { ok: res.ok, status: res.status };
+  const res = await fetch(url, { method: 'POST', headers: writeHeaders(), body: JSON.stringify(body) });
+  return { ok: res.ok, status: res.status, data: res.ok ? await res.json().catch(() => null) : null };
 }
 
 async function putJson(url: string, body: any) {
-  const res = await fetch(url, { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+  const res = await fetch(url, { method: 'PUT', headers: writeHeaders(), body: JSON.stringify(body) });
   return { ok: res.ok, status: res.status, data: res.ok ? await res.json() : null };
 }
 
@@ -99,13 +253,19 @@ type ApiActionsContextType = {
   reloadAll: () => Promise<void>;
   getAllSpecDocuments: (name: string) => Promise<Record<string, { content: string; lastModified: string } | null>>;
   getAllArchivedSpecDocuments: (name: string) => Promise<Record<string, { content: string; lastModified: string } | null>>;
+  getSpecDrift: (name: string) => Promise<SpecDriftReport>;
+  getSpecTraceability: (name: string) => Promise<TraceabilityReport>;
+  getAuditLog: (query: AuditQuery) => Promise<AuditQueryResult>;
+  search: (query: string, limit?: number) => Promise<SearchResponse>;
   getSpecTasksProgress: (name: string) => Promise<any>;
+  getSpecCommits: (name: string) => Promise<SpecCommitLinks>;
   updateTaskStatus: (specName: string, taskId: string, status: 'pending' | 'in-progress' | 'completed') => Promise<{ ok: boolean; status: number; data?: any }>;
   approvalsAction: (id: string, action: 'approve' | 'reject' | 'needs-revision', payload: any) => Promise<{ ok: boolean; status: number }>;
   getApprovalContent: (id: string) => Promise<{ content: string; filePath?: string }>;
   getApprovalSnapshots: (id: string) => Promise<DocumentSnapshot[]>;
   getApprovalSnapshot: (id: string, version: number) => Promise<DocumentSnapshot>;
   getApprovalDiff: (id: string, fromVersion: number, toVersion?: number | 'current') => Promise<DiffResult>;
+  getApprovalValidation: (id: string) => Promise<DocumentValidationResult>;
   captureApprovalSnapshot: (id: string) => Promise<{ success: boolean; message: string }>;
   saveSpecDocument: (name: string, document: string, content: string) => Promise<{ ok: boolean; status: number }>;
   saveArchivedSpecDocument: (name: string, document: string, content: string) => Promise<{ ok: boolean; status: number }>;
@@ -114,7 +274,8 @@ type ApiActionsContextType = {
   getSteeringDocument: (name: string) => Promise<{ content: string; lastModified: string }>;
   saveSteeringDocument: (name: string, content: string) => Promise<{ ok: boolean; status: number }>;
   addImplementationLog: (specName: string, logData: any) => Promise<{ ok: boolean; status: number; data?: any }>;
-  getImplementationLogs: (specName: string, query?: { taskId?: string; search?: string }) => Promise<{ entries: ImplementationLogEntry[] }>;
+  getImplementationLogs: (specName: string, query?: { taskId?: string; search?: string }) => Promise<{ entries: ImplementationLogEntry[]; verification?: ArtifactVerificationReport | null }>;
+  verifyImplementationLog: (specName: string) => Promise<{ ok: boolean; status: number; data?: ArtifactVerificationReport | null }>;
   getImplementationLogStats: (specName: string, taskId: string) => Promise<any>;
   getChangelog: (version: string) => Promise<{ content: string }>;
 };
@@ -122,6 +283,22 @@ type ApiActionsContextType = {
 const ApiDataContext = createContext<ApiDataContextType | undefined>(undefined);
 const ApiActionsContext = createContext<ApiActionsContextType | undefined>(undefined);
 
+type SpecListDelta = { upserted: SpecSummary[]; names: string[] };
+
+function applySpecDelta(previous: SpecSummary[], delta: SpecListDelta): SpecSummary[] {
+  const byName = new Map(previous.map(spec => [spec.name, spec]));
+  delta.upserted.forEach(spec => byName.set(spec.name, spec));
+  const next = delta.names
+    .map(name => byName.get(name))
+    .filter((spec): spec is SpecSummary => !!spec);
+
+  // Keep the previous array when nothing changed to avoid needless re-renders
+  const unchanged = delta.upserted.length === 0 &&
+    next.length === previous.length &&
+    next.every((spec, index) => spec === previous[index]);
+  return unchanged ? previous : next;
+}
+
 interface ApiProviderProps {
   initial?: { specs?: SpecSummary[]; archivedSpecs?: SpecSummary[]; approvals?: Approval[] };
   projectId: string | null;
@@ -175,39 +352,13 @@ export function ApiProvider({ initial, projectId, children }: ApiProviderProps)
 
   // Handle websocket updates for real-time data changes
   useEffect(() => {
-    const handleSpecUpdate = (data: { specs?: SpecSummary[]; archivedSpecs?: SpecSummary[] }) => {
-      // Only update if data actually changed (deep equality check)
+    // Spec updates carry only the specs that changed, plus the full name order
+    const handleSpecUpdate = (data: { specs?: SpecListDelta; archivedSpecs?: SpecListDelta }) => {
       if (data.specs) {
-        setSpecs(prevSpecs => {
-          // Check if arrays are identical to avoid unnecessary updates
-          if (prevSpecs.length !== data.specs!.length) return data.specs!;
-
-          // Check if any spec changed by comparing key properties
-          const hasChanges = data.specs!.some((newSpec, index) => {
-            const prevSpec = prevSpecs[index];
-            return !prevSpec ||
-                   prevSpec.name !== newSpec.name ||
-                   prevSpec.displayName !== newSpec.displayName ||
-                   prevSpec.status !== newSpec.status ||
-                   prevSpec.lastModified !== newSpec.lastModified ||
-                   JSON.stringify(prevSpec.taskProgress) !== JSON.stringify(newSpec.taskProgress);
-          });
-
-          return hasChanges ? data.specs! : prevSpecs;
-        });
+        setSpecs(prevSpecs => applySpecDelta(prevSpecs, data.specs!));
       }
-
       if (data.archivedSpecs) {
-        setArchivedSpecs(prevArchived => {
-          if (prevArchived.length !== data.archivedSpecs!.length) return data.archivedSpecs!;
-
-          const hasChanges = data.archivedSpecs!.some((newSpec, index) => {
-            const prevSpec = prevArchived[index];
-            return !prevSpec || prevSpec.name !== newSpec.name;
-          });
-
-          return hasChanges ? data.archivedSpecs! : prevArchived;
-        });
+        setArchivedSpecs(prevArchived => applySpecDelta(prevArchived, data.archivedSpecs!));
       }
     };
 
@@ -267,13 +418,19 @@ export function ApiProvider({ initial, projectId, children }: ApiProviderProps)
         reloadAll: async () => {},
         getAllSpecDocuments: async () => ({}),
         getAllArchivedSpecDocuments: async () => ({}),
+        getSpecDrift: async (name: string) => ({ specName: name, hasDrift: false, documents: [] }),
+        getSpecTraceability: async () => ({} as any),
+        getAuditLog: async () => ({ entries: [], total: 0, actors: [], actions: [] }),
+        search: async (query: string) => ({ query, results: [] }),
         getSpecTasksProgress: async () => ({}),
+        getSpecCommits: async () => ({ available: false, mainBranch: null, tasks: {} }),
         updateTaskStatus: async () => ({ ok: false, status: 400 }),
         approvalsAction: async () => ({ ok: false, status: 400 }),
         getApprovalContent: async () => ({ content: '' }),
         getApprovalSnapshots: async () => [],
         getApprovalSnapshot: async () => ({} as any),
         getApprovalDiff: async () => ({} as any),
+        getApprovalValidation: async () => ({ documentType: null, valid: true, errors: [], warnings: [], summary: {}, guidance: [] }),
         captureApprovalSnapshot: async () => ({ success: false, message: 'No project selected' }),
         saveSpecDocument: async () => ({ ok: false, status: 400 }),
         saveArchivedSpecDocument: async () => ({ ok: false, status: 400 }),
@@ -283,6 +440,7 @@ export function ApiProvider({ initial, projectId, children }: ApiProviderProps)
         saveSteeringDocument: async () => ({ ok: false, status: 400 }),
         addImplementationLog: async () => ({ ok: false, status: 400 }),
         getImplementationLogs: async () => ({ entries: [] }),
+        verifyImplementationLog: async () => ({ ok: false, status: 400 }),
         getImplementationLogStats: async () => ({}),
         getChangelog: async () => ({ content: '' }),
       };
@@ -294,7 +452,23 @@ export function ApiProvider({ initial, projectId, children }: ApiProviderProps)
       reloadAll,
       getAllSpecDocuments: (name: string) => getJson(`${prefix}/specs/${encodeURIComponent(name)}/all`),
       getAllArchivedSpecDocuments: (name: string) => getJson(`${prefix}/specs/${encodeURIComponent(name)}/all/archived`),
+      getSpecDrift: (name: string) => getJson(`${prefix}/specs/${encodeURIComponent(name)}/drift`),
+      getSpecTraceability: (name: string) => getJson(`${prefix}/specs/${encodeURIComponent(name)}/traceability`),
+      getAuditLog: (query: AuditQuery) => {
+        const params = new URLSearchParams();
+        Object.entries(query).forEach(([key, value]) => {
+          if (value !== undefined && value !== '') params.set(key, String(value));
+        });
+        const qs = params.toString();
+        return getJson(`${prefix}/audit${qs ? `?${qs}` : ''}`);
+      },
+      search: (query: string, limit?: number) => {
+        const params = new URLSearchParams({ q: query });
+        if (limit !== undefined) params.set('limit', String(limit));
+        return getJson(`${prefix}/search?${params.toString()}`);
+      },
       getSpecTasksProgress: (name: string) => getJson(`${prefix}/specs/${encodeURIComponent(name)}/tasks/progress`),
+      getSpecCommits: (name: string) => getJson(`${prefix}/specs/${encodeURIComponent(name)}/commits`),
       updateTaskStatus: (specName: string, taskId: string, status: 'pending' | 'in-progress' | 'completed') =>
         putJson(`${prefix}/specs/${encodeURIComponent(specName)}/tasks/${encodeURIComponent(taskId)}/status`, { status }),
       approvalsAction: (id, action, body) => postJson(`${prefix}/approvals/${encodeURIComponent(id)}/${action}`, body),
@@ -305,6 +479,7 @@ export function ApiProvider({ initial, projectId, children }: ApiProviderProps)
         const to = toVersion === undefined ? 'current' : toVersion;
         return getJson(`${prefix}/approvals/${encodeURIComponent(id)}/diff?from=${fromVersion}&to=${to}`);
       },
+      getApprovalValidation: (id: string) => getJson(`${prefix}/approvals/${encodeURIComponent(id)}/validation`),
       captureApprovalSnapshot: (id: string) => postJson(`${prefix}/approvals/${encodeURIComponent(id)}/snapshot`, {}),
       saveSpecDocument: (name: string, document: string, content: string) =>
         putJson(`${prefix}/specs/${encodeURIComponent(name)}/${encodeURIComponent(document)}`, { content }),
@@ -323,6 +498,7 @@ export function ApiProvider({ initial, projectId, children }: ApiProviderProps)
         if (params.toString()) url += `?${params.toString()}`;
         return getJson(url);
       },
+      verifyImplementationLog: (specName: string) => postJson(`${prefix}/specs/${encodeURIComponent(specName)}/implementation-log/verify`, {}),
       getImplementationLogStats: (specName: string, taskId: string) => getJson(`${prefix}/specs/${encodeURIComponent(specName)}/implementation-log/task/${encodeURIComponent(taskId)}/stats`),
       getChangelog: (version: string) => getJson(`${prefix}/changelog/${encodeURIComponent(version)}`),
     };
@@ -4,6 +4,8 @@ import { Routes, Route, Navigate } from 'react-router-dom';
 import { ThemeProvider, useTheme } from '../theme/ThemeProvider';
 import { WebSocketProvider, useWs } from '../ws/WebSocketProvider';
 import { ProjectProvider, useProjects } from '../projects/ProjectProvider';
+import { IdentityProvider } from '../identity/IdentityProvider';
+import { AuthProvider } from '../auth/AuthProvider';
 import { ApiProvider } from '../api/api';
 import { HighlightStyles } from '../theme/HighlightStyles';
 import { DashboardStatistics } from '../pages/DashboardStatistics';
@@ -11,7 +13,9 @@ import { SpecsPage } from '../pages/SpecsPage';
 import { SteeringPage } from '../pages/SteeringPage';
 import { TasksPage } from '../pages/TasksPage';
 import { LogsPage } from '../pages/LogsPage';
+import { TraceabilityPage } from '../pages/TraceabilityPage';
 import { ApprovalsPage } from '../pages/ApprovalsPage';
+import { AuditPage } from '../pages/AuditPage';
 import { SpecViewerPage } from '../pages/SpecViewerPage';
 import { SettingsPage } from '../pages/SettingsPage';
 import { NotificationProvider } from '../notifications/NotificationProvider';
@@ -22,6 +26,7 @@ import { I18nErrorBoundary } from '../../components/I18nErrorBoundary';
 import { ProjectDropdown } from '../components/ProjectDropdown';
 import { PageNavigationSidebar } from '../components/PageNavigationSidebar';
 import { ChangelogModal } from '../modals/ChangelogModal';
+import { SearchModal } from '../modals/SearchModal';
 
 function Header({ toggleSidebar }: { toggleSidebar: () => void }) {
   const { t } = useTranslation();
@@ -31,6 +36,19 @@ function Header({ toggleSidebar }: { toggleSidebar: () => void }) {
   const { info } = useApi();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [showChangelog, setShowChangelog] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+
+  // Ctrl+K / Cmd+K opens the search box from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowSearch(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   // Update the browser tab title when project info is loaded
   useEffect(() => {
@@ -79,6 +97,20 @@ function Header({ toggleSidebar }: { toggleSidebar: () => void }) {
           </div>
 
           <div className="flex items-center gap-3">
+            {currentProject && (
+              <button
+                onClick={() => setShowSearch(true)}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                title={t('search.open')}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+                </svg>
+                <span className="hidden sm:inline">{t('search.button')}</span>
+                <kbd className="hidden lg:inline text-xs px-1.5 py-0.5 rounded border border-gray-300 dark:border-gray-600">Ctrl K</kbd>
+              </button>
+            )}
+
             <span className={`inline-block w-2.5 h-2.5 rounded-full ${connected ? 'bg-emerald-500' : 'bg-rose-500'}`} title={connected ? t('connectionStatus.connected') : t('connectionStatus.disconnected')} />
 
             {/* Desktop Controls */}
@@ -203,6 +235,9 @@ function Header({ toggleSidebar }: { toggleSidebar: () => void }) {
         version={info?.version || ''}
         projectId={currentProject?.projectId}
       />
+
+      {/* Search Modal */}
+      <SearchModal isOpen={showSearch && !!currentProject} onClose={() => setShowSearch(false)} />
     </>
   );
 }
@@ -262,7 +297,9 @@ function AppInner() {
                 <Route path="/specs/view" element={<SpecViewerPage />} />
                 <Route path="/tasks" element={<TasksPage />} />
                 <Route path="/logs" element={<LogsPage />} />
+                <Route path="/traceability" element={<TraceabilityPage />} />
                 <Route path="/approvals" element={<ApprovalsPage />} />
+                <Route path="/audit" element={<AuditPage />} />
                 <Route path="/settings" element={<SettingsPage />} />
                 <Route path="*" element={<Navigate to="/" replace />} />
               </Routes>
@@ -303,9 +340,13 @@ export default function App() {
   return (
     <I18nErrorBoundary>
       <ThemeProvider>
-        <ProjectProvider>
-          <AppWithProviders />
-        </ProjectProvider>
+        <AuthProvider>
+          <IdentityProvider>
+            <ProjectProvider>
+              <AppWithProviders />
+            </ProjectProvider>
+          </IdentityProvider>
+        </AuthProvider>
       </ThemeProvider>
     </I18nErrorBoundary>
   );
@@ -0,0 +1,131 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { LoginPage } from './LoginPage';
+
+type AuthStatus = 'checking' | 'authenticated' | 'unauthenticated';
+
+export type UserRole = 'viewer' | 'editor' | 'approver' | 'admin';
+
+// Increasing privilege, matching the server's role order
+export const USER_ROLES: UserRole[] = ['viewer', 'editor', 'approver', 'admin'];
+
+type AuthContextType = {
+  status: AuthStatus;
+  /** Logged-in username; undefined when signed in with the access token */
+  username?: string;
+  role?: UserRole;
+  /** Whether user accounts exist, so the login page offers a username/password form */
+  usersConfigured: boolean;
+  login: (token: string) => Promise<boolean>;
+  loginWithPassword: (username: string, password: string) => Promise<boolean>;
+  logout: () => Promise<void>;
+  /** Whether the current role is at least the given role */
+  can: (required: UserRole) => boolean;
+};
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+/**
+ * Take a token passed in the login link (?token=...) and remove it from the address bar
+ */
+function consumeUrlToken(): string | null {
+  const params = new URLSearchParams(window.location.search);
+  const token = params.get('token');
+  if (token) {
+    params.delete('token');
+    const search = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`);
+  }
+  return token;
+}
+
+/**
+ * Gates the dashboard behind its access token or a user login. Logging in exchanges the
+ * credentials for an HttpOnly cookie, which the browser then sends with every API request
+ * and the WebSocket. The server enforces roles; this provider only exposes them so pages
+ * can hide controls the current user cannot use.
+ */
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<AuthStatus>('checking');
+  const [username, setUsername] = useState<string | undefined>();
+  const [role, setRole] = useState<UserRole | undefined>();
+  const [usersConfigured, setUsersConfigured] = useState(false);
+
+  const refreshSession = useCallback(async () => {
+    try {
+      const res = await fetch('/api/auth/session');
+      if (!res.ok) {
+        setStatus('unauthenticated');
+        return;
+      }
+      const session = await res.json() as { username?: string; role?: UserRole };
+      setUsername(session.username);
+      setRole(session.role);
+      setStatus('authenticated');
+    } catch {
+      setStatus('unauthenticated');
+    }
+  }, []);
+
+  const submitLogin = useCallback(async (body: Record<string, string>) => {
+    const res = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    if (res.ok) {
+      await refreshSession();
+    }
+    return res.ok;
+  }, [refreshSession]);
+
+  const login = useCallback((token: string) => submitLogin({ token }), [submitLogin]);
+
+  const loginWithPassword = useCallback(
+    (user: string, password: string) => submitLogin({ username: user, password }),
+    [submitLogin]
+  );
+
+  const logout = useCallback(async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined);
+    setUsername(undefined);
+    setRole(undefined);
+    setStatus('unauthenticated');
+  }, []);
+
+  const can = useCallback((required: UserRole) => {
+    return !!role && USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+  }, [role]);
+
+  useEffect(() => {
+    const checkSession = async () => {
+      fetch('/api/auth/status')
+        .then(res => res.ok ? res.json() : { usersConfigured: false })
+        .then(data => setUsersConfigured(!!data.usersConfigured))
+        .catch(() => undefined);
+
+      const urlToken = consumeUrlToken();
+      if (urlToken && await login(urlToken).catch(() => false)) {
+        return;
+      }
+      await refreshSession();
+    };
+    checkSession();
+  }, [login, refreshSession]);
+
+  const value = useMemo(
+    () => ({ status, username, role, usersConfigured, login, loginWithPassword, logout, can }),
+    [status, username, role, usersConfigured, login, loginWithPassword, logout, can]
+  );
+
+  return (
+    <AuthContext.Provider value={value}>
+      {status === 'authenticated' ? children : status === 'unauthenticated' ? <LoginPage /> : null}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextType {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error('useAuth must be used within AuthProvider');
+  return ctx;
+}
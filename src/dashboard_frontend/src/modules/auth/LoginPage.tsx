@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from './AuthProvider';
+
+type LoginMode = 'password' | 'token';
+
+const inputClass = 'w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+export function LoginPage() {
+  const { t } = useTranslation();
+  const { login, loginWithPassword, usersConfigured } = useAuth();
+  const [mode, setMode] = useState<LoginMode>(usersConfigured ? 'password' : 'token');
+  const [token, setToken] = useState('');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  // The status check may finish after the first render
+  useEffect(() => {
+    setMode(usersConfigured ? 'password' : 'token');
+  }, [usersConfigured]);
+
+  const canSubmit = mode === 'token' ? !!token.trim() : !!username.trim() && !!password;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setSubmitting(true);
+    setError('');
+    try {
+      if (mode === 'token') {
+        if (!await login(token.trim())) {
+          setError(t('auth.invalidToken'));
+        }
+      } else if (!await loginWithPassword(username.trim(), password)) {
+        setError(t('auth.invalidCredentials'));
+      }
+    } catch {
+      setError(t('auth.error'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const switchMode = (next: LoginMode) => {
+    setMode(next);
+    setError('');
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-md bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 space-y-4"
+      >
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white mb-1">{t('auth.title')}</h1>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {mode === 'password' ? t('auth.passwordDescription') : t('auth.description')}
+          </p>
+        </div>
+
+        {mode === 'password' ? (
+          <>
+            <div>
+              <label htmlFor="login-username" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {t('auth.usernameLabel')}
+              </label>
+              <input
+                id="login-username"
+                type="text"
+                autoComplete="username"
+                autoFocus
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="login-password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {t('auth.passwordLabel')}
+              </label>
+              <input
+                id="login-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </>
+        ) : (
+          <div>
+            <label htmlFor="access-token" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              {t('auth.tokenLabel')}
+            </label>
+            <input
+              id="access-token"
+              type="password"
+              autoComplete="off"
+              autoFocus
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              className={`${inputClass} font-mono`}
+            />
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{t('auth.tokenHint')}</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+            <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={submitting || !canSubmit}
+          className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+        >
+          {submitting ? t('auth.submitting') : t('auth.submit')}
+        </button>
+
+        {usersConfigured && (
+          <button
+            type="button"
+            onClick={() => switchMode(mode === 'password' ? 'token' : 'password')}
+            className="w-full text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {mode === 'password' ? t('auth.useToken') : t('auth.usePassword')}
+          </button>
+        )}
+      </form>
+    </div>
+  );
+}
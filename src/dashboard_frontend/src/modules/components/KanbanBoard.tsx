@@ -17,6 +17,7 @@ import {
 } from '@dnd-kit/sortable';
 import { KanbanTaskCard } from './KanbanTaskCard';
 import { useTranslation } from 'react-i18next';
+import { TaskCommit } from '../../types';
 
 interface Task {
   id: string;
@@ -27,6 +28,9 @@ interface Task {
   files?: string[];
   implementationDetails?: string[];
   requirements?: string[];
+  dependencies?: string[];
+  blockedBy?: string[];
+  blocked?: boolean;
   leverage?: string;
   prompt?: string;
 }
@@ -39,6 +43,8 @@ interface KanbanBoardProps {
   copiedTaskId: string | null;
   data: any;
   statusFilter?: 'all' | 'pending' | 'in-progress' | 'completed';
+  commitsByTask?: Record<string, TaskCommit[]>;
+  mainBranch?: string | null;
 }
 
 export function KanbanBoard({
@@ -48,7 +54,9 @@ export function KanbanBoard({
   onCopyTaskPrompt,
   copiedTaskId,
   data,
-  statusFilter = 'all'
+  statusFilter = 'all',
+  commitsByTask = {},
+  mainBranch = null
 }: KanbanBoardProps) {
   const { t } = useTranslation();
   const [activeTask, setActiveTask] = React.useState<Task | null>(null);
@@ -159,6 +167,12 @@ export function KanbanBoard({
       return;
     }
 
+    // Tasks with unfinished dependencies can only move back to pending
+    if (task.blocked && newStatus !== 'pending') {
+      console.log('[KanbanBoard] Task is blocked by:', task.blockedBy);
+      return;
+    }
+
     console.log('[KanbanBoard] Updating task status:', taskId, 'from', task.status, 'to', newStatus);
     onTaskStatusChange(taskId, newStatus);
   };
@@ -287,6 +301,8 @@ export function KanbanBoard({
                   onCopyTaskPrompt={() => onCopyTaskPrompt(task)}
                   copiedTaskId={copiedTaskId}
                   isInProgress={data?.inProgress === task.id}
+                  commits={commitsByTask[task.id]}
+                  mainBranch={mainBranch}
                 />
               ))
             )}
@@ -455,6 +471,8 @@ export function KanbanBoard({
                 copiedTaskId={null}
                 isInProgress={data?.inProgress === activeTask.id}
                 isDragging={true}
+                commits={commitsByTask[activeTask.id]}
+                mainBranch={mainBranch}
               />
             </div>
           ) : null}
@@ -2,6 +2,8 @@ import React from 'react';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { useTranslation } from 'react-i18next';
+import { TaskCommit } from '../../types';
+import { TaskCommitList } from './TaskCommitList';
 
 interface Task {
   id: string;
@@ -10,6 +12,9 @@ interface Task {
   files?: string[];
   implementationDetails?: string[];
   requirements?: string[];
+  dependencies?: string[];
+  blockedBy?: string[];
+  blocked?: boolean;
   leverage?: string;
   prompt?: string;
 }
@@ -21,6 +26,8 @@ interface KanbanTaskCardProps {
   copiedTaskId: string | null;
   isInProgress?: boolean;
   isDragging?: boolean;
+  commits?: TaskCommit[];
+  mainBranch?: string | null;
 }
 
 export function KanbanTaskCard({
@@ -29,7 +36,9 @@ export function KanbanTaskCard({
   onCopyTaskPrompt,
   copiedTaskId,
   isInProgress = false,
-  isDragging = false
+  isDragging = false,
+  commits = [],
+  mainBranch = null
 }: KanbanTaskCardProps) {
   const { t } = useTranslation();
 
@@ -181,6 +190,19 @@ export function KanbanTaskCard({
 
       {/* Task Metadata */}
       <div className="space-y-1">
+        {/* Unfinished dependencies */}
+        {task.blocked && task.blockedBy && (
+          <div
+            className="flex items-center gap-1 text-xs text-red-600 dark:text-red-400"
+            title={t('tasksPage.dependencies.blockedTooltip', { tasks: task.blockedBy.join(', ') })}
+          >
+            <svg className="w-3 h-3 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+            </svg>
+            <span className="truncate">{t('tasksPage.dependencies.blockedBy', { tasks: task.blockedBy.join(', ') })}</span>
+          </div>
+        )}
+
         {/* File count */}
         {task.files && task.files.length > 0 && (
           <div className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
@@ -211,6 +233,9 @@ export function KanbanTaskCard({
             <span className="truncate">AI Prompt</span>
           </div>
         )}
+
+        {/* Linked commits */}
+        <TaskCommitList commits={commits} mainBranch={mainBranch} compact />
       </div>
     </div>
   );
@@ -113,6 +113,20 @@ export function PageNavigationSidebar({
         </svg>
       ),
     },
+    {
+      path: '/traceability',
+      labelKey: 'nav.traceability',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            d="M3 10h18M3 14h18m-9-4v8m-7 0h14a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z"
+          />
+        </svg>
+      ),
+    },
     {
       path: '/approvals',
       labelKey: 'nav.approvals',
@@ -127,6 +141,20 @@ export function PageNavigationSidebar({
         </svg>
       ),
     },
+    {
+      path: '/audit',
+      labelKey: 'nav.audit',
+      icon: (
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
+          />
+        </svg>
+      ),
+    },
     {
       path: '/settings',
       labelKey: 'nav.settings',
@@ -0,0 +1,119 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { TaskCommit } from '../../types';
+
+interface TaskCommitListProps {
+  commits: TaskCommit[];
+  mainBranch: string | null;
+  compact?: boolean;       // Kanban cards show the newest commits only, without authors and dates
+}
+
+const COMPACT_LIMIT = 2;
+
+function formatDate(dateStr: string) {
+  return new Date(dateStr).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+}
+
+function BranchBadge({ commit, mainBranch }: { commit: TaskCommit; mainBranch: string | null }) {
+  const { t } = useTranslation();
+
+  if (commit.onMainBranch && mainBranch) {
+    return (
+      <span
+        className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300 whitespace-nowrap"
+        title={t('taskCommits.onMainBranch', { branch: mainBranch })}
+      >
+        {mainBranch}
+      </span>
+    );
+  }
+  if (commit.branches.length > 0) {
+    return (
+      <span
+        className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 whitespace-nowrap"
+        title={t('taskCommits.onBranches', { branches: commit.branches.join(', ') })}
+      >
+        {commit.branches[0]}{commit.branches.length > 1 ? ` +${commit.branches.length - 1}` : ''}
+      </span>
+    );
+  }
+  return (
+    <span
+      className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400 whitespace-nowrap"
+      title={t('taskCommits.noBranchDescription')}
+    >
+      {t('taskCommits.noBranch')}
+    </span>
+  );
+}
+
+export function TaskCommitList({ commits, mainBranch, compact = false }: TaskCommitListProps) {
+  const { t } = useTranslation();
+
+  if (commits.length === 0) return null;
+
+  const shown = compact ? commits.slice(0, COMPACT_LIMIT) : commits;
+
+  if (compact) {
+    return (
+      <div className="space-y-1">
+        {shown.map(commit => (
+          <div key={commit.sha} className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 min-w-0" title={commit.subject}>
+            <svg className="w-3 h-3 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <circle cx="12" cy="12" r="3" strokeWidth="2" />
+              <path strokeLinecap="round" strokeWidth="2" d="M3 12h6m6 0h6" />
+            </svg>
+            <span className="font-mono flex-shrink-0">{commit.shortSha}</span>
+            <span className="truncate">{commit.subject}</span>
+            {commit.onMainBranch && mainBranch && (
+              <span className="w-1.5 h-1.5 rounded-full bg-green-500 flex-shrink-0" title={t('taskCommits.onMainBranch', { branch: mainBranch })} />
+            )}
+          </div>
+        ))}
+        {commits.length > shown.length && (
+          <div className="text-xs text-gray-400 dark:text-gray-500 pl-4">
+            {t('taskCommits.more', { count: commits.length - shown.length })}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 sm:mt-4">
+      <div className="text-xs sm:text-sm font-medium text-gray-600 dark:text-gray-400 mb-2 flex items-center gap-1">
+        <svg className="w-3 h-3 sm:w-4 sm:h-4 md:w-5 md:h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <circle cx="12" cy="12" r="3" strokeWidth="2" />
+          <path strokeLinecap="round" strokeWidth="2" d="M3 12h6m6 0h6" />
+        </svg>
+        {t('taskCommits.label')} ({commits.length})
+      </div>
+      <ul className="space-y-1">
+        {shown.map(commit => (
+          <li key={commit.sha} className="flex items-center gap-2 text-xs sm:text-sm min-w-0">
+            <span className="font-mono text-xs px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 flex-shrink-0" title={commit.sha}>
+              {commit.shortSha}
+            </span>
+            <span className="truncate text-gray-700 dark:text-gray-300" title={commit.subject}>{commit.subject}</span>
+            <BranchBadge commit={commit} mainBranch={mainBranch} />
+            {commit.logEntryIds.length > 0 && (
+              <span
+                className="px-1.5 py-0.5 rounded text-[10px] font-medium bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300 whitespace-nowrap"
+                title={t('taskCommits.loggedDescription')}
+              >
+                {t('taskCommits.logged')}
+              </span>
+            )}
+            <span className="ml-auto text-xs text-gray-400 dark:text-gray-500 whitespace-nowrap hidden sm:inline">
+              {commit.author} · {formatDate(commit.date)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
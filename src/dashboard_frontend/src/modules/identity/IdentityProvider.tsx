@@ -0,0 +1,44 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+
+const STORAGE_KEY = 'spec-workflow:reviewer-name';
+
+type IdentityContextType = {
+  actorName: string;
+  setActorName: (name: string) => void;
+};
+
+const IdentityContext = createContext<IdentityContextType | undefined>(undefined);
+
+/**
+ * Name of the person using this browser, sent with every change so approvals and
+ * edits are attributed in the project's audit log
+ */
+export function getStoredActorName(): string {
+  try {
+    return localStorage.getItem(STORAGE_KEY) || '';
+  } catch {
+    return '';
+  }
+}
+
+export function IdentityProvider({ children }: { children: React.ReactNode }) {
+  const [actorName, setActorName] = useState<string>(getStoredActorName);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, actorName.trim());
+    } catch {
+      // localStorage unavailable; the name is kept for this session only
+    }
+  }, [actorName]);
+
+  const value = useMemo(() => ({ actorName, setActorName }), [actorName]);
+
+  return <IdentityContext.Provider value={value}>{children}</IdentityContext.Provider>;
+}
+
+export function useIdentity(): IdentityContextType {
+  const ctx = useContext(IdentityContext);
+  if (!ctx) throw new Error('useIdentity must be used within IdentityProvider');
+  return ctx;
+}
@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { MagnifyingGlassIcon } from '@heroicons/react/24/solid';
+import { useApi, SearchResult } from '../api/api';
+
+interface SearchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+/**
+ * Where a search result opens: the document at the matching line where there is one
+ */
+function resultLink(result: SearchResult): string {
+  const params = new URLSearchParams();
+  switch (result.kind) {
+    case 'log':
+      if (result.specName) params.set('spec', result.specName);
+      if (result.taskId) params.set('task', result.taskId);
+      return `/logs?${params.toString()}`;
+    case 'steering':
+      if (result.document) params.set('doc', result.document);
+      return `/steering?${params.toString()}`;
+    case 'approval':
+      // Comments on a selection open the reviewed spec document at the commented line
+      if (!result.specName || !result.document || result.line === undefined) {
+        return '/approvals';
+      }
+      break;
+  }
+
+  params.set('name', result.specName || '');
+  if (result.document) params.set('doc', result.document);
+  if (result.line !== undefined) {
+    params.set('mode', 'source');
+    params.set('line', String(result.line));
+  }
+  if (result.archived) params.set('archived', 'true');
+  return `/specs/view?${params.toString()}`;
+}
+
+function Snippet({ text, highlights }: { text: string; highlights: [number, number][] }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach(([start, end], index) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(text.slice(position));
+  return <>{parts}</>;
+}
+
+export function SearchModal({ isOpen, onClose }: SearchModalProps) {
+  const { t } = useTranslation();
+  const { search } = useApi();
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('');
+      setResults([]);
+      setError('');
+      inputRef.current?.focus();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen || !query.trim()) {
+      setResults([]);
+      return;
+    }
+
+    let active = true;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const response = await search(query);
+        if (!active) return;
+        setResults(response.results);
+        setSelected(0);
+        setError('');
+      } catch (err) {
+        if (active) setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (active) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      active = false;
+      clearTimeout(timer);
+    };
+  }, [query, isOpen, search]);
+
+  const open = (result: SearchResult) => {
+    navigate(resultLink(result));
+    onClose();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(index => Math.min(index + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(index => Math.max(index - 1, 0));
+    } else if (e.key === 'Enter' && results[selected]) {
+      e.preventDefault();
+      open(results[selected]);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 p-4 pt-[10vh]"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-2xl max-h-[70vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <MagnifyingGlassIcon className="w-5 h-5 text-gray-400" />
+          <input
+            ref={inputRef}
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('search.placeholder')}
+            className="flex-1 bg-transparent text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none"
+            aria-label={t('search.placeholder')}
+          />
+          <kbd className="hidden sm:inline text-xs px-1.5 py-0.5 rounded border border-gray-300 dark:border-gray-600 text-gray-500 dark:text-gray-400">Esc</kbd>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {error ? (
+            <div className="p-4 text-sm text-red-600 dark:text-red-400">{t('search.error', { error })}</div>
+          ) : !query.trim() ? (
+            <div className="p-4 text-sm text-gray-500 dark:text-gray-400">{t('search.hint')}</div>
+          ) : results.length === 0 ? (
+            <div className="p-4 text-sm text-gray-500 dark:text-gray-400">
+              {loading ? t('search.searching') : t('search.noResults', { query })}
+            </div>
+          ) : (
+            <ul role="listbox">
+              {results.map((result, index) => (
+                <li
+                  key={`${result.path}:${result.approvalId ?? ''}:${index}`}
+                  role="option"
+                  aria-selected={index === selected}
+                  onMouseEnter={() => setSelected(index)}
+                  onClick={() => open(result)}
+                  className={`px-4 py-2 cursor-pointer border-b border-gray-100 dark:border-gray-700/50 ${
+                    index === selected ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+                  }`}
+                >
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-xs px-1.5 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                      {t(`search.kinds.${result.kind}`)}
+                    </span>
+                    <span className="font-medium text-gray-900 dark:text-white truncate">{result.title}</span>
+                    {result.archived && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400">{t('search.archived')}</span>
+                    )}
+                    {result.line !== undefined && (
+                      <span className="ml-auto text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                        {t('search.line', { line: result.line })}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-300 truncate mt-0.5">
+                    <Snippet text={result.snippet} highlights={result.highlights} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
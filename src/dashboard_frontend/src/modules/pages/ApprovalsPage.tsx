@@ -1,5 +1,5 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { useApi, DocumentSnapshot, DiffResult } from '../api/api';
+import { useApi, Approval, DocumentSnapshot, DiffResult, DocumentValidationResult, DocumentValidationIssue } from '../api/api';
 import { ApprovalsAnnotator, ApprovalComment } from '../approvals/ApprovalsAnnotator';
 import { NotificationProvider } from '../notifications/NotificationProvider';
 import { TextInputModal } from '../modals/TextInputModal';
@@ -8,6 +8,9 @@ import { DiffViewer } from '../diff/DiffViewer';
 import { DiffStats, DiffStatsBadge } from '../diff/DiffStats';
 import { formatSnapshotTimestamp, createVersionLabel, hasDiffChanges, getSnapshotTriggerDescription } from '../diff/utils';
 import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { useIdentity } from '../identity/IdentityProvider';
+import { useAuth } from '../auth/AuthProvider';
 
 function formatDate(dateStr?: string, t?: (k: string, o?: any) => string) {
   if (!dateStr) return t ? t('common.unknown') : 'Unknown';
@@ -20,8 +23,122 @@ function formatDate(dateStr?: string, t?: (k: string, o?: any) => string) {
 }
 
 
-function ApprovalItem({ a }: { a: any }) {
-  const { approvalsAction, getApprovalContent, getApprovalSnapshots, getApprovalDiff } = useApi();
+function ReviewerVotes({ a }: { a: Approval }) {
+  const { t } = useTranslation();
+  const requiredApprovals = a.policy?.requiredApprovals ?? 1;
+  const reviews = a.reviews || [];
+
+  // Single-reviewer approvals keep the original compact layout
+  if (requiredApprovals <= 1 && reviews.length === 0) {
+    return null;
+  }
+
+  const approvals = reviews.filter(r => r.decision === 'approved').length;
+  const voted = new Set(reviews.map(r => r.reviewer.toLowerCase()));
+  const outstanding = (a.policy?.reviewers || []).filter(r => !voted.has(r.toLowerCase()));
+
+  return (
+    <div className="mb-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          {t('approvalsPage.reviewers.progress', { approvals, required: requiredApprovals })}
+        </span>
+        {reviews.map(review => (
+          <span
+            key={review.reviewer}
+            title={review.response ? `${review.response} (${formatDate(review.timestamp, t)})` : formatDate(review.timestamp, t)}
+            className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs ${
+              review.decision === 'approved'
+                ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                : review.decision === 'rejected'
+                ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+                : 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200'
+            }`}
+          >
+            {review.reviewer}: {review.decision === 'needs-revision' ? t('approvals.status.needsRevision') : t(`approvals.status.${review.decision}`)}
+          </span>
+        ))}
+      </div>
+      {outstanding.length > 0 && (
+        <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+          {t('approvalsPage.reviewers.waitingOn', { reviewers: outstanding.join(', ') })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ValidationIssueList({ issues, severity }: { issues: DocumentValidationIssue[]; severity: 'error' | 'warning' }) {
+  const { t } = useTranslation();
+  const color = severity === 'error'
+    ? 'text-red-700 dark:text-red-300'
+    : 'text-yellow-700 dark:text-yellow-300';
+
+  return (
+    <ul className="space-y-1.5">
+      {issues.map((issue, index) => (
+        <li key={`${issue.field}-${issue.line}-${index}`} className="text-sm">
+          <div className={color}>
+            <span className="font-mono text-xs mr-2">{t('approvalsPage.validation.line', { line: issue.line })}</span>
+            {issue.location && <span className="font-medium mr-1">{issue.location}:</span>}
+            {issue.message}
+          </div>
+          {issue.suggestion && (
+            <div className="text-xs text-gray-600 dark:text-gray-400 ml-4">
+              {t('approvalsPage.validation.suggestion', { suggestion: issue.suggestion })}
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function ValidationPanel({ validation }: { validation: DocumentValidationResult }) {
+  const { t } = useTranslation();
+
+  if (!validation.documentType || (validation.errors.length === 0 && validation.warnings.length === 0)) {
+    return null;
+  }
+
+  const hasErrors = validation.errors.length > 0;
+
+  return (
+    <div className={`mb-4 rounded-lg border p-3 sm:p-4 ${
+      hasErrors
+        ? 'border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-900/20'
+        : 'border-yellow-200 bg-yellow-50 dark:border-yellow-800 dark:bg-yellow-900/20'
+    }`}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white">{t('approvalsPage.validation.title')}</h4>
+        <div className="flex items-center gap-2 text-xs">
+          {hasErrors && (
+            <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300">
+              {t('approvalsPage.validation.errors', { count: validation.errors.length })}
+            </span>
+          )}
+          {validation.warnings.length > 0 && (
+            <span className="px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300">
+              {t('approvalsPage.validation.warnings', { count: validation.warnings.length })}
+            </span>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-400 mb-3">
+        {hasErrors ? t('approvalsPage.validation.errorDescription') : t('approvalsPage.validation.warningDescription')}
+      </p>
+      {hasErrors && <ValidationIssueList issues={validation.errors} severity="error" />}
+      {validation.warnings.length > 0 && (
+        <div className={hasErrors ? 'mt-3' : ''}>
+          <ValidationIssueList issues={validation.warnings} severity="warning" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ApprovalItem({ a, reviewer, canReview }: { a: any; reviewer: string; canReview: boolean }) {
+  const { approvalsAction, getApprovalContent, getApprovalSnapshots, getApprovalDiff, getApprovalValidation } = useApi();
   const { t } = useTranslation();
   const [content, setContent] = useState<string>('');
   const [loading, setLoading] = useState<boolean>(false);
@@ -33,6 +150,7 @@ function ApprovalItem({ a }: { a: any }) {
   const [rejectModalOpen, setRejectModalOpen] = useState<boolean>(false);
   const [approvalWarningModalOpen, setApprovalWarningModalOpen] = useState<boolean>(false);
   const [revisionWarningModalOpen, setRevisionWarningModalOpen] = useState<boolean>(false);
+  const [reviewerModalOpen, setReviewerModalOpen] = useState<boolean>(false);
 
   // Snapshot-related state
   const [snapshots, setSnapshots] = useState<DocumentSnapshot[]>([]);
@@ -40,6 +158,7 @@ function ApprovalItem({ a }: { a: any }) {
   const [selectedSnapshotVersion, setSelectedSnapshotVersion] = useState<number>(-1);
   const [diff, setDiff] = useState<DiffResult | null>(null);
   const [diffLoading, setDiffLoading] = useState<boolean>(false);
+  const [validation, setValidation] = useState<DocumentValidationResult | null>(null);
 
   // Scroll functions for navigation FABs
   const scrollToComments = () => {
@@ -98,6 +217,23 @@ function ApprovalItem({ a }: { a: any }) {
     return () => { active = false; };
   }, [open, a.id, getApprovalSnapshots]);
 
+  // Re-run document validation (including project rules) whenever the review is opened or the content changes
+  useEffect(() => {
+    if (!open || !a.filePath) {
+      setValidation(null);
+      return;
+    }
+
+    let active = true;
+    getApprovalValidation(a.id)
+      .then((result) => { if (active) setValidation(result); })
+      .catch((error) => {
+        console.error('Failed to load validation results:', error);
+      });
+
+    return () => { active = false; };
+  }, [open, a.id, a.filePath, content, getApprovalValidation]);
+
   // Load diff when snapshot version changes or when switching to diff view
   useEffect(() => {
     if (viewMode !== 'diff' || snapshots.length === 0) {
@@ -124,14 +260,24 @@ function ApprovalItem({ a }: { a: any }) {
     return () => { active = false; };
   }, [viewMode, selectedSnapshotVersion, snapshots.length, a.id, getApprovalDiff]);
 
+  // Votes are recorded per reviewer, so multi-reviewer approvals need a name
+  const ensureReviewer = () => {
+    if ((a.policy?.requiredApprovals ?? 1) > 1 && !reviewer.trim()) {
+      setReviewerModalOpen(true);
+      return false;
+    }
+    return true;
+  };
+
   const handleApprove = async () => {
+    if (!ensureReviewer()) return;
     if (comments.length > 0) {
       setApprovalWarningModalOpen(true);
       return;
     }
     setActionLoading('approve');
     try {
-      await approvalsAction(a.id, 'approve', { response: t('approvalsPage.messages.approvedViaDashboard') });
+      await approvalsAction(a.id, 'approve', { response: t('approvalsPage.messages.approvedViaDashboard'), reviewer });
       setOpen(false);
     } catch (error) {
       console.error('Failed to approve:', error);
@@ -141,13 +287,14 @@ function ApprovalItem({ a }: { a: any }) {
   };
 
   const handleReject = async () => {
+    if (!ensureReviewer()) return;
     setRejectModalOpen(true);
   };
 
   const handleRejectWithFeedback = async (feedback: string) => {
     setActionLoading('reject');
     try {
-      await approvalsAction(a.id, 'reject', { response: feedback });
+      await approvalsAction(a.id, 'reject', { response: feedback, reviewer });
       setOpen(false);
     } catch (error) {
       console.error('Failed to reject:', error);
@@ -157,6 +304,7 @@ function ApprovalItem({ a }: { a: any }) {
   };
 
   const handleRevision = async () => {
+    if (!ensureReviewer()) return;
     if (comments.length === 0) {
       setRevisionWarningModalOpen(true);
       return;
@@ -189,6 +337,7 @@ function ApprovalItem({ a }: { a: any }) {
         timestamp: new Date().toISOString()
       }, null, 2),
       comments,
+      reviewer,
     };
 
     setActionLoading('revision');
@@ -258,6 +407,8 @@ function ApprovalItem({ a }: { a: any }) {
               </span>
             </div>
 
+            <ReviewerVotes a={a} />
+
             {/* Action Buttons */}
             <div className="flex flex-wrap items-center gap-2 sm:gap-3 min-w-0">
               <button
@@ -275,66 +426,71 @@ function ApprovalItem({ a }: { a: any }) {
                 <span className="sm:hidden">{open ? t('common.close') : t('approvalsPage.actions.reviewShort')}</span>
               </button>
 
-              <button
-                onClick={handleApprove}
-                disabled={!!actionLoading}
-                className="btn bg-green-600 hover:bg-green-700 focus:ring-green-500 text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 min-w-0 touch-manipulation"
-              >
-                {actionLoading === 'approve' ? (
-                  <svg className="animate-spin w-4 h-4 flex-shrink-0" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                ) : (
-                  <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7" />
-                  </svg>
-                )}
-                <span className="hidden sm:inline">{t('approvalsPage.actions.quickApprove')}</span>
-                <span className="sm:hidden">{t('approvalsPage.actions.approve')}</span>
-              </button>
-
-              <button
-                onClick={handleReject}
-                disabled={!!actionLoading}
-                className="btn bg-red-600 hover:bg-red-700 focus:ring-red-500 text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 min-w-0 touch-manipulation"
-              >
-                {actionLoading === 'reject' ? (
-                  <svg className="animate-spin w-4 h-4 flex-shrink-0" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                ) : (
-                  <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
-                  </svg>
-                )}
-                <span className="hidden sm:inline">{t('approvalsPage.actions.quickReject')}</span>
-                <span className="sm:hidden">{t('approvalsPage.actions.reject')}</span>
-              </button>
-
-              {open && (
-                <button
-                  onClick={handleRevision}
-                  disabled={!!actionLoading || comments.length === 0}
-                  className="btn bg-orange-600 hover:bg-orange-700 focus:ring-orange-500 text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 min-w-0 touch-manipulation"
-                >
-                  {actionLoading === 'revision' ? (
-                    <svg className="animate-spin w-4 h-4 flex-shrink-0" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                    </svg>
-                  ) : (
-                    <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                    </svg>
-                  )}
-                  <span className="hidden sm:inline">{t('approvalsPage.actions.requestRevisions')}</span>
-                  <span className="sm:hidden">{t('approvalsPage.actions.revisions')}</span>
-                  {comments.length > 0 && (
-                    <span className="ml-1 text-xs opacity-75">({comments.length})</span>
+              {/* Decisions need the approver role; the server rejects them otherwise */}
+              {canReview && (
+                <>
+                  <button
+                    onClick={handleApprove}
+                    disabled={!!actionLoading}
+                    className="btn bg-green-600 hover:bg-green-700 focus:ring-green-500 text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 min-w-0 touch-manipulation"
+                  >
+                    {actionLoading === 'approve' ? (
+                      <svg className="animate-spin w-4 h-4 flex-shrink-0" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                    ) : (
+                      <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7" />
+                      </svg>
+                    )}
+                    <span className="hidden sm:inline">{t('approvalsPage.actions.quickApprove')}</span>
+                    <span className="sm:hidden">{t('approvalsPage.actions.approve')}</span>
+                  </button>
+
+                  <button
+                    onClick={handleReject}
+                    disabled={!!actionLoading}
+                    className="btn bg-red-600 hover:bg-red-700 focus:ring-red-500 text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 min-w-0 touch-manipulation"
+                  >
+                    {actionLoading === 'reject' ? (
+                      <svg className="animate-spin w-4 h-4 flex-shrink-0" fill="none" viewBox="0 0 24 24">
+                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                    ) : (
+                      <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    )}
+                    <span className="hidden sm:inline">{t('approvalsPage.actions.quickReject')}</span>
+                    <span className="sm:hidden">{t('approvalsPage.actions.reject')}</span>
+                  </button>
+
+                  {open && (
+                    <button
+                      onClick={handleRevision}
+                      disabled={!!actionLoading || comments.length === 0}
+                      className="btn bg-orange-600 hover:bg-orange-700 focus:ring-orange-500 text-xs sm:text-sm disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1 min-w-0 touch-manipulation"
+                    >
+                      {actionLoading === 'revision' ? (
+                        <svg className="animate-spin w-4 h-4 flex-shrink-0" fill="none" viewBox="0 0 24 24">
+                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                        </svg>
+                      ) : (
+                        <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                        </svg>
+                      )}
+                      <span className="hidden sm:inline">{t('approvalsPage.actions.requestRevisions')}</span>
+                      <span className="sm:hidden">{t('approvalsPage.actions.revisions')}</span>
+                      {comments.length > 0 && (
+                        <span className="ml-1 text-xs opacity-75">({comments.length})</span>
+                      )}
+                    </button>
                   )}
-                </button>
+                </>
               )}
             </div>
           </div>
@@ -344,6 +500,8 @@ function ApprovalItem({ a }: { a: any }) {
       {open && (
         <div className="border-t border-gray-200 dark:border-gray-700 p-2 sm:p-3 md:p-4 lg:p-6 min-w-0 max-w-full overflow-x-hidden relative">
 
+          {validation && <ValidationPanel validation={validation} />}
+
           {/* View Controls */}
           <div className="mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
             {/* View Mode Tabs */}
@@ -565,6 +723,15 @@ function ApprovalItem({ a }: { a: any }) {
         message={t('approvalsPage.revision.noCommentsMessage')}
         variant="warning"
       />
+
+      {/* Reviewer Name Required Modal */}
+      <AlertModal
+        isOpen={reviewerModalOpen}
+        onClose={() => setReviewerModalOpen(false)}
+        title={t('approvalsPage.reviewers.nameRequiredTitle')}
+        message={t('approvalsPage.reviewers.nameRequiredMessage')}
+        variant="warning"
+      />
     </div>
   );
 }
@@ -572,7 +739,12 @@ function ApprovalItem({ a }: { a: any }) {
 function Content() {
   const { approvals } = useApi();
   const [filterCategory, setFilterCategory] = useState<string>('all');
+  const { actorName } = useIdentity();
+  const { username, can } = useAuth();
   const { t } = useTranslation();
+  // Logged-in users always review under their username
+  const reviewer = username || actorName;
+  const canReview = can('approver');
 
   // Get unique categories from approvals
   const categories = useMemo(() => {
@@ -625,6 +797,24 @@ function Content() {
             </div>
           </div>
 
+          {/* Reviewer Identity (configured in Settings) */}
+          <div className="flex flex-wrap items-center sm:justify-end gap-2 text-sm text-gray-600 dark:text-gray-400">
+            {reviewer.trim()
+              ? t('approvalsPage.reviewers.reviewingAs', { name: reviewer.trim() })
+              : t('approvalsPage.reviewers.anonymous')}
+            {!username && (
+              <Link to="/settings" className="text-blue-600 dark:text-blue-400 hover:underline">
+                {t('approvalsPage.reviewers.changeName')}
+              </Link>
+            )}
+          </div>
+
+          {!canReview && (
+            <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-3 text-sm text-blue-800 dark:text-blue-300">
+              {t('approvalsPage.readOnlyNotice')}
+            </div>
+          )}
+
           {/* Filter Dropdown */}
           {categories.length > 1 && (
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-end gap-2 sm:gap-3 overflow-x-hidden">
@@ -661,7 +851,7 @@ function Content() {
       ) : (
         <div className="space-y-3 sm:space-y-4 max-w-full overflow-x-hidden">
           {filteredApprovals.map((a) => (
-            <ApprovalItem key={a.id} a={a} />
+            <ApprovalItem key={a.id} a={a} reviewer={reviewer} canReview={canReview} />
           ))}
         </div>
       )}
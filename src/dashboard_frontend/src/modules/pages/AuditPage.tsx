@@ -0,0 +1,310 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useApi, AuditAction, AuditEntry, AuditQuery, AuditQueryResult } from '../api/api';
+import { useWs } from '../ws/WebSocketProvider';
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABEL_KEYS: Record<AuditAction, string> = {
+  'approval.approve': 'auditPage.actions.approvalApprove',
+  'approval.reject': 'auditPage.actions.approvalReject',
+  'approval.needs-revision': 'auditPage.actions.approvalNeedsRevision',
+  'task.status': 'auditPage.actions.taskStatus',
+  'document.edit': 'auditPage.actions.documentEdit',
+  'spec.archive': 'auditPage.actions.specArchive',
+  'spec.unarchive': 'auditPage.actions.specUnarchive',
+};
+
+const ACTION_CLASSES: Record<AuditAction, string> = {
+  'approval.approve': 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  'approval.reject': 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  'approval.needs-revision': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  'task.status': 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  'document.edit': 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300',
+  'spec.archive': 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+  'spec.unarchive': 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+};
+
+interface Filters {
+  action: string;
+  actor: string;
+  specName: string;
+  search: string;
+  since: string;                       // yyyy-mm-dd from the date input
+  until: string;
+}
+
+const EMPTY_FILTERS: Filters = { action: '', actor: '', specName: '', search: '', since: '', until: '' };
+
+function toQuery(filters: Filters, offset: number): AuditQuery {
+  return {
+    action: filters.action || undefined,
+    actor: filters.actor || undefined,
+    specName: filters.specName || undefined,
+    search: filters.search.trim() || undefined,
+    // Date inputs are in local time; include the whole "until" day
+    since: filters.since ? new Date(`${filters.since}T00:00:00`).toISOString() : undefined,
+    until: filters.until ? new Date(`${filters.until}T23:59:59.999`).toISOString() : undefined,
+    limit: PAGE_SIZE,
+    offset,
+  };
+}
+
+function ActionBadge({ action }: { action: AuditAction }) {
+  const { t } = useTranslation();
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${ACTION_CLASSES[action] || ACTION_CLASSES['spec.archive']}`}>
+      {ACTION_LABEL_KEYS[action] ? t(ACTION_LABEL_KEYS[action]) : action}
+    </span>
+  );
+}
+
+function EntryDetails({ entry }: { entry: AuditEntry }) {
+  const { t } = useTranslation();
+  const details = entry.details || {};
+
+  if (entry.action === 'task.status') {
+    return <>{t('auditPage.details.statusChange', { from: details.from, to: details.to })}</>;
+  }
+  if (entry.action === 'document.edit') {
+    return (
+      <>
+        {details.created
+          ? t('auditPage.details.created')
+          : t('auditPage.details.lines', { before: details.linesBefore, after: details.linesAfter })}
+      </>
+    );
+  }
+  if (entry.action.startsWith('approval.')) {
+    return (
+      <div className="space-y-0.5">
+        {details.response && <div className="italic break-words">&ldquo;{details.response}&rdquo;</div>}
+        {details.commentCount > 0 && (
+          <div className="text-xs text-gray-500 dark:text-gray-400">{t('auditPage.details.comments', { count: details.commentCount })}</div>
+        )}
+      </div>
+    );
+  }
+  return <>—</>;
+}
+
+function AuditTable({ entries }: { entries: AuditEntry[] }) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="overflow-x-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+        <thead className="bg-gray-50 dark:bg-gray-900">
+          <tr>
+            <th className="px-4 py-2 text-left font-medium text-gray-600 dark:text-gray-400">{t('auditPage.table.time')}</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-600 dark:text-gray-400">{t('auditPage.table.actor')}</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-600 dark:text-gray-400">{t('auditPage.table.action')}</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-600 dark:text-gray-400">{t('auditPage.table.target')}</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-600 dark:text-gray-400">{t('auditPage.table.details')}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+          {entries.map((entry) => (
+            <tr key={entry.id}>
+              <td className="px-4 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">
+                {new Date(entry.timestamp).toLocaleString()}
+              </td>
+              <td className="px-4 py-2 text-gray-900 dark:text-white">
+                <div className="font-medium">{entry.actor}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">{t(`auditPage.source.${entry.source}`)}</div>
+              </td>
+              <td className="px-4 py-2">
+                <ActionBadge action={entry.action} />
+              </td>
+              <td className="px-4 py-2 font-mono text-gray-700 dark:text-gray-300 break-all">{entry.target}</td>
+              <td className="px-4 py-2 text-gray-700 dark:text-gray-300">
+                <EntryDetails entry={entry} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function AuditPage() {
+  const api = useApi();
+  const { subscribe, unsubscribe } = useWs();
+  const { t } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [filters, setFilters] = useState<Filters>({
+    ...EMPTY_FILTERS,
+    action: searchParams.get('action') || '',
+    actor: searchParams.get('actor') || '',
+    specName: searchParams.get('spec') || '',
+  });
+  const [result, setResult] = useState<AuditQueryResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const specs = api.specs;
+
+  // Reload the first page whenever the filters change or a new entry is recorded
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    setError('');
+
+    api.getAuditLog(toQuery(filters, 0)).then(data => {
+      if (active) setResult(data);
+    }).catch(err => {
+      if (active) setError(t('auditPage.loadError'));
+      console.error(err);
+    }).finally(() => {
+      if (active) setLoading(false);
+    });
+
+    return () => { active = false; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filters, refreshKey]);
+
+  useEffect(() => {
+    const handleUpdate = () => setRefreshKey(k => k + 1);
+    subscribe('audit-update', handleUpdate);
+    return () => unsubscribe('audit-update', handleUpdate);
+  }, [subscribe, unsubscribe]);
+
+  // Sync URL parameters
+  useEffect(() => {
+    const params: Record<string, string> = {};
+    if (filters.action) params.action = filters.action;
+    if (filters.actor) params.actor = filters.actor;
+    if (filters.specName) params.spec = filters.specName;
+    setSearchParams(params);
+  }, [filters.action, filters.actor, filters.specName, setSearchParams]);
+
+  const loadMore = async () => {
+    if (!result) return;
+    setLoadingMore(true);
+    try {
+      const next = await api.getAuditLog(toQuery(filters, result.entries.length));
+      setResult({ ...next, entries: [...result.entries, ...next.entries] });
+    } catch (err) {
+      setError(t('auditPage.loadError'));
+      console.error(err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const hasFilters = Object.values(filters).some(value => value !== '');
+  const inputClass = 'w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+  const labelClass = 'block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1';
+
+  return (
+    <div className="w-full h-full flex flex-col bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 p-4 md:p-6">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{t('auditPage.header.title')}</h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">{t('auditPage.header.subtitle')}</p>
+
+        {/* Filters */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3">
+          <div className="lg:col-span-2">
+            <label className={labelClass}>{t('auditPage.filters.search')}</label>
+            <input
+              type="text"
+              value={filters.search}
+              onChange={(e) => updateFilter('search', e.target.value)}
+              placeholder={t('auditPage.filters.searchPlaceholder')}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>{t('auditPage.filters.action')}</label>
+            <select value={filters.action} onChange={(e) => updateFilter('action', e.target.value)} className={inputClass}>
+              <option value="">{t('auditPage.filters.all')}</option>
+              {(Object.keys(ACTION_LABEL_KEYS) as AuditAction[]).map(action => (
+                <option key={action} value={action}>{t(ACTION_LABEL_KEYS[action])}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{t('auditPage.filters.actor')}</label>
+            <select value={filters.actor} onChange={(e) => updateFilter('actor', e.target.value)} className={inputClass}>
+              <option value="">{t('auditPage.filters.all')}</option>
+              {(result?.actors || []).map(actor => (
+                <option key={actor} value={actor}>{actor}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>{t('auditPage.filters.spec')}</label>
+            <select value={filters.specName} onChange={(e) => updateFilter('specName', e.target.value)} className={inputClass}>
+              <option value="">{t('auditPage.filters.all')}</option>
+              {specs.map(spec => (
+                <option key={spec.name} value={spec.name}>{spec.displayName}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>{t('auditPage.filters.since')}</label>
+              <input type="date" value={filters.since} onChange={(e) => updateFilter('since', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('auditPage.filters.until')}</label>
+              <input type="date" value={filters.until} onChange={(e) => updateFilter('until', e.target.value)} className={inputClass} />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between mt-4 text-sm text-gray-600 dark:text-gray-400">
+          <span>{result ? t('auditPage.total', { count: result.total }) : ''}</span>
+          {hasFilters && (
+            <button
+              onClick={() => setFilters(EMPTY_FILTERS)}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {t('auditPage.filters.clear')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 md:p-6">
+        {error ? (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+            <p className="text-red-700 dark:text-red-300">{error}</p>
+          </div>
+        ) : loading && !result ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-gray-500 dark:text-gray-400">{t('auditPage.loading')}</div>
+          </div>
+        ) : result && result.entries.length === 0 ? (
+          <div className="text-center py-12 text-gray-500 dark:text-gray-400">{t('auditPage.empty')}</div>
+        ) : result ? (
+          <div className="space-y-4">
+            <AuditTable entries={result.entries} />
+            {result.entries.length < result.total && (
+              <div className="flex justify-center">
+                <button
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 text-sm font-medium text-gray-700 dark:text-gray-300 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {loadingMore ? t('auditPage.loading') : t('auditPage.loadMore')}
+                </button>
+              </div>
+            )}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
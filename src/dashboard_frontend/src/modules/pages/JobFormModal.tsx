@@ -39,6 +39,11 @@ const JOB_TYPES = [
     value: 'cleanup-archived-specs' as const,
     label: 'Cleanup Archived Specs',
     description: 'Delete archived specifications older than specified days'
+  },
+  {
+    value: 'verify-artifacts' as const,
+    label: 'Verify Logged Artifacts',
+    description: 'Check that code artifacts recorded in implementation logs still exist, and mark stale ones'
   }
 ];
 
@@ -49,7 +54,7 @@ export function JobFormModal({ isOpen, onClose, onSubmit, initialJob, isLoading
   const [formData, setFormData] = useState({
     id: '',
     name: '',
-    type: 'cleanup-approvals' as const,
+    type: 'cleanup-approvals' as AutomationJob['type'],
     enabled: true,
     daysOld: 30,
     schedule: '0 2 * * *',
@@ -94,7 +99,7 @@ export function JobFormModal({ isOpen, onClose, onSubmit, initialJob, isLoading
       newErrors.name = 'Job name is required';
     }
 
-    if (formData.daysOld < 1 || formData.daysOld > 3650) {
+    if (formData.type !== 'verify-artifacts' && (formData.daysOld < 1 || formData.daysOld > 3650)) {
       newErrors.daysOld = 'Days must be between 1 and 3650';
     }
 
@@ -221,7 +226,7 @@ export function JobFormModal({ isOpen, onClose, onSubmit, initialJob, isLoading
               {showTemplateSelector && (
                 <div className="p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg space-y-2">
                   <p className="text-sm font-medium text-blue-900 dark:text-blue-400 mb-3">
-                    Quick Templates for {formData.type === 'cleanup-approvals' ? 'Approvals' : formData.type === 'cleanup-specs' ? 'Specs' : 'Archived Specs'}:
+                    Quick Templates for {formData.type === 'cleanup-approvals' ? 'Approvals' : formData.type === 'cleanup-specs' ? 'Specs' : formData.type === 'verify-artifacts' ? 'Artifact Verification' : 'Archived Specs'}:
                   </p>
                   <div className="space-y-2">
                     {availableTemplates.map((template) => (
@@ -246,6 +251,7 @@ export function JobFormModal({ isOpen, onClose, onSubmit, initialJob, isLoading
           )}
 
           {/* Days Old */}
+          {formData.type !== 'verify-artifacts' && (
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Delete records older than (days) *
@@ -265,6 +271,7 @@ export function JobFormModal({ isOpen, onClose, onSubmit, initialJob, isLoading
             </p>
             {errors.daysOld && <p className="text-red-500 text-sm mt-1">{errors.daysOld}</p>}
           </div>
+          )}
 
           {/* Schedule (Cron Expression) */}
           <div>
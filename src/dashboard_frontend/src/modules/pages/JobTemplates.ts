@@ -4,7 +4,7 @@
 
 export interface JobTemplate {
   name: string;
-  type: 'cleanup-approvals' | 'cleanup-specs' | 'cleanup-archived-specs';
+  type: 'cleanup-approvals' | 'cleanup-specs' | 'cleanup-archived-specs' | 'verify-artifacts';
   daysOld: number;
   schedule: string;
   description: string;
@@ -78,6 +78,22 @@ export const JOB_TEMPLATES: Record<string, JobTemplate> = {
     daysOld: 180,
     schedule: '0 4 1 * *', // First day of month at 4 AM
     description: 'Delete archived specs older than 180 days, runs monthly'
+  },
+
+  // Artifact verification templates
+  'verify-artifacts-nightly': {
+    name: 'Nightly Artifact Verification',
+    type: 'verify-artifacts',
+    daysOld: 0,
+    schedule: '0 1 * * *', // Every day at 1 AM
+    description: 'Check that logged artifacts still exist in the code, runs nightly'
+  },
+  'verify-artifacts-weekly': {
+    name: 'Weekly Artifact Verification',
+    type: 'verify-artifacts',
+    daysOld: 0,
+    schedule: '0 1 ? * SUN', // Every Sunday at 1 AM
+    description: 'Check that logged artifacts still exist in the code, runs weekly'
   }
 };
 
@@ -85,7 +101,7 @@ export const JOB_TEMPLATES: Record<string, JobTemplate> = {
  * Get templates by job type
  */
 export function getTemplatesByType(
-  type: 'cleanup-approvals' | 'cleanup-specs' | 'cleanup-archived-specs'
+  type: JobTemplate['type']
 ): JobTemplate[] {
   return Object.values(JOB_TEMPLATES).filter(template => template.type === type);
 }
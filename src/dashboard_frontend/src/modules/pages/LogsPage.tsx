@@ -3,8 +3,9 @@ import { useApi } from '../api/api';
 import { useWs } from '../ws/WebSocketProvider';
 import { useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { ImplementationLogEntry } from '../../types';
+import { ImplementationLogEntry, ArtifactVerification, ArtifactVerificationReport } from '../../types';
 import { SortDropdown } from '../components/SortDropdown';
+import { useAuth } from '../auth/AuthProvider';
 import {
   GlobeAltIcon,
   CubeIcon,
@@ -12,7 +13,8 @@ import {
   CircleStackIcon,
   LinkIcon,
   ChevronRightIcon,
-  ChevronDownIcon
+  ChevronDownIcon,
+  ShieldCheckIcon
 } from '@heroicons/react/24/solid';
 
 function formatDate(dateStr: string) {
@@ -48,25 +50,67 @@ function getTotalArtifactCount(artifacts: ImplementationLogEntry['artifacts']):
   );
 }
 
+type ArtifactCollection = keyof ImplementationLogEntry['artifacts'];
+
+// Verification results for each artifact of a collection, in order
+function collectionVerifications(
+  entry: ImplementationLogEntry,
+  collection: ArtifactCollection,
+  report: ArtifactVerificationReport | null
+): Array<ArtifactVerification | undefined> {
+  return (entry.artifacts?.[collection] ?? []).map((_, index) => report?.artifacts[`${entry.id}:${collection}:${index}`]);
+}
+
+function countStale(entry: ImplementationLogEntry, report: ArtifactVerificationReport | null): number {
+  if (!report) return 0;
+  return (['apiEndpoints', 'components', 'functions', 'classes', 'integrations'] as ArtifactCollection[])
+    .flatMap(collection => collectionVerifications(entry, collection, report))
+    .filter(verification => verification?.status === 'stale').length;
+}
+
+function VerificationBadge({ verification }: { verification?: ArtifactVerification }) {
+  const { t } = useTranslation();
+  if (!verification || verification.status === 'unverifiable') return null;
+
+  const style = {
+    verified: 'bg-green-100 dark:bg-green-900/40 text-green-700 dark:text-green-300',
+    moved: 'bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-300',
+    stale: 'bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300'
+  }[verification.status];
+  const title = verification.status === 'stale'
+    ? verification.reason
+    : verification.location && t('artifactVerification.foundAt', { location: verification.location });
+
+  return (
+    <span className={`inline-block px-1.5 py-0.5 rounded text-xs font-medium ${style}`} title={title}>
+      {t(`artifactVerification.status.${verification.status}`)}
+    </span>
+  );
+}
+
 // Artifact Section Component
 function ArtifactSection({
   title,
   icon: IconComponent,
   items,
   type,
-  color
+  color,
+  verifications = []
 }: {
   title: string;
   icon: React.ComponentType<{ className: string }>;
   items: any[];
   type: 'api' | 'component' | 'function' | 'class' | 'integration';
   color: string;
+  verifications?: Array<ArtifactVerification | undefined>;
 }) {
   const { t } = useTranslation();
   const [isExpanded, setIsExpanded] = useState(false);
 
   if (!items || items.length === 0) return null;
 
+  const staleCount = verifications.filter(verification => verification?.status === 'stale').length;
+
   const bgColor = {
     api: 'bg-blue-50 dark:bg-blue-900/20',
     component: 'bg-purple-50 dark:bg-purple-900/20',
@@ -94,6 +138,11 @@ function ArtifactSection({
           <h5 className={`font-semibold text-sm ${textColor}`}>
             {title} ({items.length})
           </h5>
+          {staleCount > 0 && (
+            <span className="inline-block px-1.5 py-0.5 rounded text-xs font-medium bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300">
+              {t('artifactVerification.staleCount', { count: staleCount })}
+            </span>
+          )}
         </div>
         {isExpanded ? (
           <ChevronDownIcon className={`w-4 h-4 ${textColor}`} />
@@ -122,8 +171,11 @@ function ArtifactSection({
                       {t('logsPage.artifacts.details.response')} {item.responseFormat}
                     </div>
                   )}
-                  <div className="text-xs bg-gray-200 dark:bg-gray-700 px-2 py-1 rounded font-mono w-fit">
-                    {item.location}
+                  <div className="flex items-center gap-2">
+                    <div className="text-xs bg-gray-200 dark:bg-gray-700 px-2 py-1 rounded font-mono w-fit">
+                      {item.location}
+                    </div>
+                    <VerificationBadge verification={verifications[idx]} />
                   </div>
                 </div>
               )}
@@ -145,8 +197,11 @@ function ArtifactSection({
                       {t('logsPage.artifacts.details.exports')} {item.exports.join(', ')}
                     </div>
                   )}
-                  <div className="text-xs bg-gray-200 dark:bg-gray-700 px-2 py-1 rounded font-mono w-fit">
-                    {item.location}
+                  <div className="flex items-center gap-2">
+                    <div className="text-xs bg-gray-200 dark:bg-gray-700 px-2 py-1 rounded font-mono w-fit">
+                      {item.location}
+                    </div>
+                    <VerificationBadge verification={verifications[idx]} />
                   </div>
                 </div>
               )}
@@ -169,8 +224,11 @@ function ArtifactSection({
                       <span className="text-gray-500 dark:text-gray-400">{t('logsPage.artifacts.details.private')}</span>
                     )}
                   </div>
-                  <div className="text-xs bg-gray-200 dark:bg-gray-700 px-2 py-1 rounded font-mono w-fit">
-                    {item.location}
+                  <div className="flex items-center gap-2">
+                    <div className="text-xs bg-gray-200 dark:bg-gray-700 px-2 py-1 rounded font-mono w-fit">
+                      {item.location}
+                    </div>
+                    <VerificationBadge verification={verifications[idx]} />
                   </div>
                 </div>
               )}
@@ -193,8 +251,11 @@ function ArtifactSection({
                       <span className="text-gray-500 dark:text-gray-400">{t('logsPage.artifacts.details.private')}</span>
                     )}
                   </div>
-                  <div className="text-xs bg-gray-200 dark:bg-gray-700 px-2 py-1 rounded font-mono w-fit">
-                    {item.location}
+                  <div className="flex items-center gap-2">
+                    <div className="text-xs bg-gray-200 dark:bg-gray-700 px-2 py-1 rounded font-mono w-fit">
+                      {item.location}
+                    </div>
+                    <VerificationBadge verification={verifications[idx]} />
                   </div>
                 </div>
               )}
@@ -315,11 +376,13 @@ function SearchableSpecDropdown({ specs, selected, onSelect }: { specs: any[]; s
 
 interface LogEntryProps {
   entry: ImplementationLogEntry;
+  verification: ArtifactVerificationReport | null;
 }
 
-function LogEntryCard({ entry }: LogEntryProps) {
+function LogEntryCard({ entry, verification }: LogEntryProps) {
   const { t } = useTranslation();
   const [isExpanded, setIsExpanded] = useState(false);
+  const staleCount = countStale(entry, verification);
 
   return (
     <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg mb-3">
@@ -335,6 +398,11 @@ function LogEntryCard({ entry }: LogEntryProps) {
             <span className="text-sm text-gray-500 dark:text-gray-400">
               {formatDate(entry.timestamp)}
             </span>
+            {staleCount > 0 && (
+              <span className="inline-block px-2 py-1 bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300 rounded text-xs font-medium">
+                {t('artifactVerification.staleCount', { count: staleCount })}
+              </span>
+            )}
           </div>
           <p className="mt-2 text-gray-900 dark:text-white font-medium">{entry.summary}</p>
         </div>
@@ -351,7 +419,17 @@ function LogEntryCard({ entry }: LogEntryProps) {
         <div className="border-t border-gray-200 dark:border-gray-700 p-4 space-y-4">
           {/* Code Statistics */}
           <div>
-            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">{t('logsPage.stats.title')}</h4>
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2 flex items-center gap-2">
+              {t('logsPage.stats.title')}
+              {entry.statisticsSource && (
+                <span
+                  className="px-1.5 py-0.5 rounded text-xs font-normal bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+                  title={t(`logChanges.${entry.statisticsSource}Description`)}
+                >
+                  {t(`logChanges.${entry.statisticsSource}`)}
+                </span>
+              )}
+            </h4>
             <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
               <div className="bg-green-50 dark:bg-green-900/20 rounded p-2">
                 <div className="text-xs text-gray-600 dark:text-gray-400">{t('logsPage.stats.linesAdded')}</div>
@@ -372,6 +450,20 @@ function LogEntryCard({ entry }: LogEntryProps) {
             </div>
           </div>
 
+          {/* Commits */}
+          {entry.commits && entry.commits.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">{t('logChanges.commits')} ({entry.commits.length})</h4>
+              <div className="flex flex-wrap gap-2">
+                {entry.commits.map(commit => (
+                  <code key={commit} title={commit} className="font-mono text-xs bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded">
+                    {commit.slice(0, 7)}
+                  </code>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Files Modified */}
           {entry.filesModified.length > 0 && (
             <div>
@@ -419,6 +511,7 @@ function LogEntryCard({ entry }: LogEntryProps) {
                     icon={GlobeAltIcon}
                     items={entry.artifacts.apiEndpoints}
                     type="api"
+                    verifications={collectionVerifications(entry, 'apiEndpoints', verification)}
                     color="blue"
                   />
                 )}
@@ -429,6 +522,7 @@ function LogEntryCard({ entry }: LogEntryProps) {
                     icon={CubeIcon}
                     items={entry.artifacts.components}
                     type="component"
+                    verifications={collectionVerifications(entry, 'components', verification)}
                     color="purple"
                   />
                 )}
@@ -439,6 +533,7 @@ function LogEntryCard({ entry }: LogEntryProps) {
                     icon={CodeBracketSquareIcon}
                     items={entry.artifacts.functions}
                     type="function"
+                    verifications={collectionVerifications(entry, 'functions', verification)}
                     color="green"
                   />
                 )}
@@ -449,6 +544,7 @@ function LogEntryCard({ entry }: LogEntryProps) {
                     icon={CircleStackIcon}
                     items={entry.artifacts.classes}
                     type="class"
+                    verifications={collectionVerifications(entry, 'classes', verification)}
                     color="orange"
                   />
                 )}
@@ -474,6 +570,7 @@ function LogEntryCard({ entry }: LogEntryProps) {
 export function LogsPage() {
   const api = useApi();
   const { subscribe, unsubscribe } = useWs();
+  const { can } = useAuth();
   const { t } = useTranslation();
   const [searchParams, setSearchParams] = useSearchParams();
 
@@ -483,6 +580,8 @@ export function LogsPage() {
   const [sortBy, setSortBy] = useState<string>(searchParams.get('sort') || 'timestamp');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>((searchParams.get('order') as 'asc' | 'desc') || 'desc');
   const [logs, setLogs] = useState<ImplementationLogEntry[]>([]);
+  const [verification, setVerification] = useState<ArtifactVerificationReport | null>(null);
+  const [verifying, setVerifying] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string>('');
 
@@ -526,6 +625,7 @@ export function LogsPage() {
   useEffect(() => {
     if (!selectedSpec) {
       setLogs([]);
+      setVerification(null);
       return;
     }
 
@@ -537,6 +637,7 @@ export function LogsPage() {
       search: search || undefined
     }).then(result => {
       setLogs(result.entries || []);
+      setVerification(result.verification ?? null);
     }).catch(err => {
       setError('Failed to load implementation logs');
       console.error(err);
@@ -546,6 +647,20 @@ export function LogsPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedSpec, search, taskFilter]);
 
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      const result = await api.verifyImplementationLog(selectedSpec);
+      if (!result.ok) throw new Error(`HTTP ${result.status}`);
+      setVerification(result.data ?? null);
+    } catch (err) {
+      setError(t('artifactVerification.failed'));
+      console.error(err);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
   const handleSortChange = (sort: string, order: string) => {
     setSortBy(sort);
     setSortOrder(order as 'asc' | 'desc');
@@ -716,6 +831,19 @@ export function LogsPage() {
               sortOptions={logSortOptions}
               align="right"
             />
+            {selectedSpec && logs.length > 0 && can('editor') && (
+              <button
+                onClick={handleVerify}
+                disabled={verifying}
+                title={verification
+                  ? t('artifactVerification.lastVerified', { time: formatDate(verification.verifiedAt) })
+                  : t('artifactVerification.neverVerified')}
+                className="flex items-center justify-center gap-2 px-4 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg text-gray-900 dark:text-white hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50 transition-colors whitespace-nowrap"
+              >
+                <ShieldCheckIcon className="w-4 h-4" />
+                {verifying ? t('artifactVerification.verifying') : t('artifactVerification.verify')}
+              </button>
+            )}
           </div>
 
           {/* Task Filter */}
@@ -810,7 +938,7 @@ export function LogsPage() {
         ) : (
           <div className="space-y-2">
             {filteredAndSortedLogs.map((entry) => (
-              <LogEntryCard key={entry.id} entry={entry} />
+              <LogEntryCard key={entry.id} entry={entry} verification={verification} />
             ))}
           </div>
         )}
@@ -2,14 +2,18 @@ import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { ChevronRightIcon, ChevronDownIcon } from '@heroicons/react/24/solid';
 import { useApi } from '../api/api';
+import { useIdentity } from '../identity/IdentityProvider';
+import { useAuth } from '../auth/AuthProvider';
 import { AutomationJob } from '../../types';
 import { JobFormModal } from './JobFormModal';
 import { JobExecutionHistory } from './JobExecutionHistory';
+import { UserManagement } from './UserManagement';
+import { WebhookSettings } from './WebhookSettings';
 
 interface JobUIState {
   id: string;
   name: string;
-  type: 'cleanup-approvals' | 'cleanup-specs' | 'cleanup-archived-specs';
+  type: 'cleanup-approvals' | 'cleanup-specs' | 'cleanup-archived-specs' | 'verify-artifacts';
   enabled: boolean;
   daysOld: number;
   schedule: string;
@@ -19,6 +23,10 @@ interface JobUIState {
 
 function Content() {
   const { t } = useTranslation();
+  const { actorName, setActorName } = useIdentity();
+  const { username, role, can, logout } = useAuth();
+  // Jobs and users can only be changed by admins; the server enforces this too
+  const isAdmin = can('admin');
   const [jobs, setJobs] = useState<JobUIState[]>([]);
   const [loading, setLoading] = useState(true);
   const [running, setRunning] = useState<Record<string, boolean>>({});
@@ -173,7 +181,8 @@ function Content() {
     const typeMap: Record<string, string> = {
       'cleanup-approvals': 'Cleanup Approvals',
       'cleanup-specs': 'Cleanup Specs',
-      'cleanup-archived-specs': 'Cleanup Archived Specs'
+      'cleanup-archived-specs': 'Cleanup Archived Specs',
+      'verify-artifacts': 'Verify Logged Artifacts'
     };
     return typeMap[type] || type;
   };
@@ -239,6 +248,64 @@ function Content() {
         </div>
       )}
 
+      {/* Account Section */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {t('settings.account.title', 'Account')}
+          </h2>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            {username
+              ? t('settings.account.signedInAs', 'Signed in as {{username}} ({{role}})', { username, role: t(`settings.users.roles.${role}`, role || '') })
+              : t('settings.account.signedInWithToken', 'Signed in with the dashboard access token (admin)')}
+          </p>
+        </div>
+        <button
+          onClick={logout}
+          className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 text-sm font-medium rounded-lg transition-colors"
+        >
+          {t('settings.account.signOut', 'Sign Out')}
+        </button>
+      </div>
+
+      {/* Reviewer Identity Section */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {t('settings.identity.title', 'Reviewer Identity')}
+          </h2>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            {t('settings.identity.description', 'Your name is recorded with approvals, task status changes and document edits made from this browser, and appears in the audit log.')}
+          </p>
+        </div>
+        <div className="max-w-sm">
+          <label htmlFor="reviewer-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            {t('settings.identity.nameLabel', 'Your name')}
+          </label>
+          <input
+            id="reviewer-name"
+            type="text"
+            value={username || actorName}
+            disabled={!!username}
+            onChange={(e) => setActorName(e.target.value)}
+            placeholder={t('settings.identity.namePlaceholder', 'e.g. Alex Kim')}
+            maxLength={100}
+            className="w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-60"
+          />
+          {username && (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              {t('settings.identity.lockedToAccount', 'Signed-in users are always recorded under their username.')}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Users Section */}
+      {isAdmin && <UserManagement />}
+
+      {/* Webhooks Section */}
+      {isAdmin && <WebhookSettings />}
+
       {/* Automated Cleanup Section */}
       <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
         {/* Section Header */}
@@ -263,7 +330,14 @@ function Content() {
               {t('settings.section.automatedCleanupDesc', 'Automatically delete old approval records, specifications, and archived specifications based on a schedule. Configure cleanup jobs to run on a recurring basis across all connected projects.')}
             </p>
 
+            {!isAdmin && (
+              <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-3 text-sm text-blue-800 dark:text-blue-300">
+                {t('settings.jobsAdminOnly', 'Only admins can create, change or run automation jobs.')}
+              </div>
+            )}
+
             {/* Add Job Button */}
+            {isAdmin && (
             <div className="flex justify-end">
               <button
                 onClick={() => {
@@ -275,6 +349,7 @@ function Content() {
                 {t('settings.addJob', 'Add Job')}
               </button>
             </div>
+            )}
 
             {/* Jobs List */}
             {!loading && jobs.length === 0 && (
@@ -289,15 +364,17 @@ function Content() {
                   <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
                     {t('settings.noJobsDesc', 'Create your first automation job to get started')}
                   </p>
-                  <button
-                    onClick={() => {
-                      setEditingJob(null);
-                      setShowFormModal(true);
-                    }}
-                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
-                  >
-                    {t('settings.createFirst', 'Create First Job')}
-                  </button>
+                  {isAdmin && (
+                    <button
+                      onClick={() => {
+                        setEditingJob(null);
+                        setShowFormModal(true);
+                      }}
+                      className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
+                    >
+                      {t('settings.createFirst', 'Create First Job')}
+                    </button>
+                  )}
                 </div>
               </div>
             )}
@@ -317,10 +394,12 @@ function Content() {
                   </span>
                 </div>
                 <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
-                  {t('settings.jobDescription', 'Delete records older than {{days}} days on schedule: {{schedule}}', {
-                    days: job.daysOld,
-                    schedule: job.schedule
-                  })}
+                  {job.type === 'verify-artifacts'
+                    ? t('artifactVerification.jobDescription', { schedule: job.schedule })
+                    : t('settings.jobDescription', 'Delete records older than {{days}} days on schedule: {{schedule}}', {
+                      days: job.daysOld,
+                      schedule: job.schedule
+                    })}
                 </p>
 
                 <div className="grid grid-cols-2 gap-4 mb-4">
@@ -357,6 +436,7 @@ function Content() {
                   <input
                     type="checkbox"
                     checked={job.enabled}
+                    disabled={!isAdmin}
                     onChange={() => handleToggleJob(job.id, job.enabled)}
                     className="w-5 h-5 rounded"
                   />
@@ -369,6 +449,7 @@ function Content() {
             </div>
 
             {/* Action Buttons */}
+            {isAdmin && (
             <div className="flex gap-2 pt-4 border-t border-gray-200 dark:border-gray-700">
               <button
                 onClick={() => handleRunJob(job.id)}
@@ -414,6 +495,7 @@ function Content() {
                 {t('settings.delete', 'Delete')}
               </button>
             </div>
+            )}
 
             {/* Execution History */}
             <JobExecutionHistory jobId={job.id} isExpanded={expandedJobs.has(job.id)} />
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useApi } from '../api/api';
 import { useSearchParams } from 'react-router-dom';
 import { Markdown } from '../markdown/Markdown';
@@ -8,12 +8,15 @@ import { useTranslation } from 'react-i18next';
 type ViewMode = 'rendered' | 'source';
 
 function Content() {
-  const { getAllSpecDocuments } = useApi();
+  const { getAllSpecDocuments, getAllArchivedSpecDocuments } = useApi();
   const { t } = useTranslation();
   const [params] = useSearchParams();
   const spec = params.get('name') || '';
   const initialDoc = (params.get('doc') as 'requirements' | 'design' | 'tasks') || 'requirements';
   const initialMode = (params.get('mode') as ViewMode) || 'rendered';
+  const archived = params.get('archived') === 'true';
+  const targetLine = Number(params.get('line')) || 0;
+  const targetLineRef = useRef<HTMLDivElement>(null);
   const [activeDoc, setActiveDoc] = useState<'requirements' | 'design' | 'tasks'>(initialDoc);
   const [viewMode, setViewMode] = useState<ViewMode>(initialMode);
   const [documents, setDocuments] = useState<Record<string, { content: string; lastModified: string } | null>>({});
@@ -23,15 +26,30 @@ function Content() {
     if (!spec) return;
     let active = true;
     setLoading(true);
-    getAllSpecDocuments(spec)
+    (archived ? getAllArchivedSpecDocuments(spec) : getAllSpecDocuments(spec))
       .then((docs) => active && setDocuments(docs))
       .finally(() => active && setLoading(false));
     return () => { active = false; };
-  }, [spec, getAllSpecDocuments]);
+  }, [spec, archived, getAllSpecDocuments, getAllArchivedSpecDocuments]);
+
+  // Follow links to a document opened on another line, e.g. from search
+  useEffect(() => {
+    setActiveDoc(initialDoc);
+    if (targetLine) setViewMode('source');
+  }, [initialDoc, targetLine]);
 
   const current = documents?.[activeDoc];
 
+  useEffect(() => {
+    if (targetLine && current && viewMode === 'source') {
+      targetLineRef.current?.scrollIntoView({ block: 'center' });
+    }
+  }, [targetLine, current, viewMode]);
+
   const renderSourceView = (content: string) => {
+    if (targetLine && activeDoc === initialDoc) {
+      return renderSourceLines(content);
+    }
     const highlighted = hljs.highlight(content, { language: 'markdown' }).value;
     return (
       <div className="bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 p-4 max-h-[80vh] overflow-auto">
@@ -45,6 +63,27 @@ function Content() {
     );
   };
 
+  // Line by line, so the linked line can be marked and scrolled to
+  const renderSourceLines = (content: string) => (
+    <div className="bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700 p-4 max-h-[80vh] overflow-auto">
+      <pre className="text-sm leading-relaxed font-mono">
+        {content.split('\n').map((line, index) => (
+          <div
+            key={index}
+            ref={index + 1 === targetLine ? targetLineRef : undefined}
+            className={`flex ${index + 1 === targetLine ? 'bg-yellow-100 dark:bg-yellow-900/40' : ''}`}
+          >
+            <span className="select-none w-12 shrink-0 pr-3 text-right text-gray-400">{index + 1}</span>
+            <code
+              className="language-markdown hljs whitespace-pre-wrap break-words flex-1 !bg-transparent !p-0"
+              dangerouslySetInnerHTML={{ __html: hljs.highlight(line, { language: 'markdown' }).value }}
+            />
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+
   return (
     <div className="grid gap-4">
       <div className="panel p-4 flex items-center justify-between">
@@ -1,6 +1,8 @@
 import React, { useEffect, useMemo, useState, useCallback } from 'react';
-import { useApi } from '../api/api';
+import { useApi, SpecDriftReport } from '../api/api';
 import { Markdown } from '../markdown/Markdown';
+import { DiffViewer } from '../diff/DiffViewer';
+import { DiffStats } from '../diff/DiffStats';
 import { MarkdownEditor } from '../editor/MarkdownEditor';
 import { ConfirmationModal } from '../modals/ConfirmationModal';
 import { SortDropdown } from '../components/SortDropdown';
@@ -16,6 +18,157 @@ function formatDate(dateStr?: string, t?: (k: string, o?: any) => string) {
   });
 }
 
+function getDriftedDocuments(spec: any): string[] {
+  const phases = spec?.phases || {};
+  return ['requirements', 'design', 'tasks'].filter(doc => phases[doc]?.changedSinceApproval);
+}
+
+function DriftBadge({ spec, onOpenDrift }: { spec: any; onOpenDrift: (spec: any) => void }) {
+  const { t } = useTranslation();
+  const drifted = getDriftedDocuments(spec);
+
+  if (drifted.length === 0) return null;
+
+  const documents = drifted.map(doc => t(`specsPage.documents.${doc}`)).join(', ');
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onOpenDrift(spec);
+      }}
+      className="inline-flex items-center px-2 py-0.5 text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-400 rounded-full hover:bg-amber-200 dark:hover:bg-amber-900/40 transition-colors"
+      title={t('specsPage.drift.badgeTooltip', { documents })}
+    >
+      <svg className="w-3 h-3 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+      </svg>
+      {t('specsPage.drift.badge')}
+    </button>
+  );
+}
+
+function SpecDriftModal({ spec, isOpen, onClose }: { spec: any; isOpen: boolean; onClose: () => void }) {
+  const { getSpecDrift } = useApi();
+  const { t } = useTranslation();
+  const [report, setReport] = useState<SpecDriftReport | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    if (!isOpen || !spec) {
+      setReport(null);
+      setError('');
+      return;
+    }
+
+    let active = true;
+    setLoading(true);
+
+    getSpecDrift(spec.name)
+      .then((result) => {
+        if (active) setReport(result);
+      })
+      .catch(() => {
+        if (active) setError(t('specsPage.drift.loadError'));
+      })
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => { active = false; };
+  }, [isOpen, spec, getSpecDrift, t]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown);
+    }
+
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen || !spec) return null;
+
+  const drifted = report?.documents.filter(doc => doc.status === 'drifted' && doc.diff) || [];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-2 sm:p-4 md:p-6" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-6xl flex flex-col max-h-[95vh] overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 sm:p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex-1 min-w-0">
+            <h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-white truncate">
+              {t('specsPage.drift.modalTitle', { name: spec.displayName })}
+            </h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+              {t('specsPage.drift.modalDescription')}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors p-2 -m-2 ml-4"
+            aria-label={t('specsPage.modal.closeAria')}
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4 sm:p-6 overflow-auto min-h-0 space-y-6">
+          {loading && (
+            <div className="flex items-center justify-center py-12">
+              <svg className="animate-spin h-6 w-6 text-gray-500" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              <span className="ml-2 text-gray-600 dark:text-gray-400">{t('specsPage.drift.loading')}</span>
+            </div>
+          )}
+
+          {!loading && error && (
+            <div className="text-center py-12 text-red-600 dark:text-red-400">{error}</div>
+          )}
+
+          {!loading && !error && report && drifted.length === 0 && (
+            <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+              {t('specsPage.drift.noDrift')}
+            </div>
+          )}
+
+          {!loading && !error && drifted.map(doc => (
+            <div key={doc.document}>
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-3">
+                <div>
+                  <h3 className="text-base font-medium text-gray-900 dark:text-white">
+                    {t(`specsPage.documents.${doc.document}`)}
+                  </h3>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {t('specsPage.drift.approvedAt', { date: formatDate(doc.approvedAt, t) })}
+                  </p>
+                </div>
+                <DiffStats diff={doc.diff!} />
+              </div>
+              <DiffViewer diff={doc.diff!} viewMode="unified" showLineNumbers={true} />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 function SpecModal({ spec, isOpen, onClose, isArchived }: { spec: any; isOpen: boolean; onClose: () => void; isArchived?: boolean }) {
   const { getAllSpecDocuments, getAllArchivedSpecDocuments, saveSpecDocument, saveArchivedSpecDocument } = useApi();
   const { t } = useTranslation();
@@ -345,7 +498,7 @@ function SpecModal({ spec, isOpen, onClose, isArchived }: { spec: any; isOpen: b
   );
 }
 
-function SpecCard({ spec, onOpenModal, isArchived }: { spec: any; onOpenModal: (spec: any) => void; isArchived: boolean }) {
+function SpecCard({ spec, onOpenModal, onOpenDrift, isArchived }: { spec: any; onOpenModal: (spec: any) => void; onOpenDrift: (spec: any) => void; isArchived: boolean }) {
   const { archiveSpec, unarchiveSpec } = useApi();
   const { t } = useTranslation();
   const [isArchiving, setIsArchiving] = useState(false);
@@ -387,6 +540,11 @@ function SpecCard({ spec, onOpenModal, isArchived }: { spec: any; onOpenModal: (
             }`}>
               {spec.displayName}
             </h3>
+            {!isArchived && (
+              <div className="mb-2">
+                <DriftBadge spec={spec} onOpenDrift={onOpenDrift} />
+              </div>
+            )}
             <div className={`flex items-center space-x-4 text-sm ${
               spec.status === 'completed' 
                 ? 'text-gray-400 dark:text-gray-500' 
@@ -462,7 +620,7 @@ function SpecCard({ spec, onOpenModal, isArchived }: { spec: any; onOpenModal: (
   );
 }
 
-function SpecTableRow({ spec, onOpenModal, isArchived }: { spec: any; onOpenModal: (spec: any) => void; isArchived: boolean }) {
+function SpecTableRow({ spec, onOpenModal, onOpenDrift, isArchived }: { spec: any; onOpenModal: (spec: any) => void; onOpenDrift: (spec: any) => void; isArchived: boolean }) {
   const { archiveSpec, unarchiveSpec } = useApi();
   const { t } = useTranslation();
   const [isArchiving, setIsArchiving] = useState(false);
@@ -511,6 +669,11 @@ function SpecTableRow({ spec, onOpenModal, isArchived }: { spec: any; onOpenModa
             <div className="text-sm text-gray-500 dark:text-gray-400">
               {spec.name}
             </div>
+            {!isArchived && (
+              <div className="mt-1">
+                <DriftBadge spec={spec} onOpenDrift={onOpenDrift} />
+              </div>
+            )}
           </div>
         </div>
       </td>
@@ -579,6 +742,7 @@ function Content() {
   const { specs, archivedSpecs, reloadAll } = useApi();
   const [query, setQuery] = useState('');
   const [selectedSpec, setSelectedSpec] = useState<any | null>(null);
+  const [driftSpec, setDriftSpec] = useState<any | null>(null);
   const [activeTab, setActiveTab] = useState<'active' | 'archived'>('active');
   const [sortBy, setSortBy] = useState('default');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
@@ -769,6 +933,7 @@ function Content() {
                   key={spec.name}
                   spec={spec}
                   onOpenModal={setSelectedSpec}
+                  onOpenDrift={setDriftSpec}
                   isArchived={activeTab === 'archived'}
                 />
               ))}
@@ -783,6 +948,7 @@ function Content() {
               key={spec.name}
               spec={spec}
               onOpenModal={setSelectedSpec}
+              onOpenDrift={setDriftSpec}
               isArchived={activeTab === 'archived'}
             />
           ))}
@@ -810,6 +976,12 @@ function Content() {
         onClose={() => setSelectedSpec(null)} 
         isArchived={activeTab === 'archived'}
       />
+
+      <SpecDriftModal
+        spec={driftSpec}
+        isOpen={!!driftSpec}
+        onClose={() => setDriftSpec(null)}
+      />
     </div>
   );
 }
@@ -1,9 +1,11 @@
 import React, { useEffect, useMemo, useState, useCallback } from 'react';
 import { useApi } from '../api/api';
+import { useSearchParams } from 'react-router-dom';
 import { Markdown } from '../markdown/Markdown';
 import { MarkdownEditor } from '../editor/MarkdownEditor';
 import { ConfirmationModal } from '../modals/ConfirmationModal';
 import { useTranslation } from 'react-i18next';
+import { useAuth } from '../auth/AuthProvider';
 
 function formatDate(dateStr?: string, t?: (k: string, o?: any) => string) {
   if (!dateStr) return t ? t('common.never') : 'Never';
@@ -25,7 +27,9 @@ type SteeringDocument = {
 
 function SteeringModal({ document, isOpen, onClose }: { document: SteeringDocument | null; isOpen: boolean; onClose: () => void }) {
   const { getSteeringDocument, saveSteeringDocument } = useApi();
+  const { can } = useAuth();
   const { t } = useTranslation();
+  const canEdit = can('editor');
   const [viewMode, setViewMode] = useState<'rendered' | 'source' | 'editor'>('rendered');
   const [content, setContent] = useState<string>('');
   const [editContent, setEditContent] = useState<string>('');
@@ -255,7 +259,9 @@ function SteeringModal({ document, isOpen, onClose }: { document: SteeringDocume
             </button>
             <button
               onClick={() => setViewMode('editor')}
-              className={`px-2 sm:px-3 py-1.5 text-sm rounded-r-lg transition-colors flex items-center gap-1 ${
+              disabled={!canEdit}
+              title={canEdit ? undefined : t('steeringPage.editRequiresRole')}
+              className={`px-2 sm:px-3 py-1.5 text-sm rounded-r-lg transition-colors flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed ${
                 viewMode === 'editor'
                   ? 'bg-blue-600 text-white'
                   : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
@@ -339,6 +345,7 @@ function SteeringDocumentRow({ document, onOpenModal }: { document: SteeringDocu
 function Content() {
   const { steeringDocuments, reloadAll } = useApi();
   const [selectedDocument, setSelectedDocument] = useState<SteeringDocument | null>(null);
+  const [params] = useSearchParams();
   const { t } = useTranslation();
 
   useEffect(() => { reloadAll(); }, [reloadAll]);
@@ -364,6 +371,16 @@ function Content() {
     }
   ];
 
+  // Open the document named in the URL, e.g. when following a search result
+  const linkedDocument = params.get('doc');
+  const linkedExists = !!linkedDocument && !!steeringDocuments?.documents?.[linkedDocument];
+  useEffect(() => {
+    if (linkedExists) {
+      setSelectedDocument(documents.find(doc => doc.name === linkedDocument) || null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [linkedDocument, linkedExists]);
+
   return (
     <div className="grid gap-4">
       <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-4 sm:p-6">
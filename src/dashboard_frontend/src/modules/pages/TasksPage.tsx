@@ -6,6 +6,8 @@ import { useNotifications } from '../notifications/NotificationProvider';
 import { AlertModal } from '../modals/AlertModal';
 import { useTranslation } from 'react-i18next';
 import { KanbanBoard } from '../components/KanbanBoard';
+import { TaskCommitList } from '../components/TaskCommitList';
+import { SpecCommitLinks } from '../../types';
 
 function formatDate(dateStr?: string, t?: (k: string, o?: any) => string) {
   if (!dateStr) return t ? t('common.never') : 'Never';
@@ -447,10 +449,11 @@ function SpecCard({ spec, onSelect, isSelected }: { spec: any; onSelect: (spec:
 
 function TaskList({ specName }: { specName: string }) {
   const { t } = useTranslation();
-  const { getSpecTasksProgress, updateTaskStatus } = useApiActions();
+  const { getSpecTasksProgress, updateTaskStatus, getSpecCommits } = useApiActions();
   const { subscribe, unsubscribe } = useWs();
   const [loading, setLoading] = useState(true);
   const [data, setData] = useState<any | null>(null);
+  const [commitLinks, setCommitLinks] = useState<SpecCommitLinks | null>(null);
   const [showFloatingButton, setShowFloatingButton] = useState(false);
   const [showScrollToTop, setShowScrollToTop] = useState(false);
   const [copiedTaskId, setCopiedTaskId] = useState<string | null>(null);
@@ -579,6 +582,26 @@ function TaskList({ specName }: { specName: string }) {
     };
   }, [specName, subscribe, unsubscribe]);
 
+  // Commits linked to each task, reloaded with task updates since commits landing on the main branch can complete tasks
+  useEffect(() => {
+    let active = true;
+    const loadCommits = () => {
+      getSpecCommits(specName)
+        .then((links) => active && setCommitLinks(links))
+        .catch(() => active && setCommitLinks(null));
+    };
+    const handleTaskStatusUpdate = (event: any) => {
+      if (event.specName === specName) loadCommits();
+    };
+
+    loadCommits();
+    subscribe('task-status-update', handleTaskStatusUpdate);
+    return () => {
+      active = false;
+      unsubscribe('task-status-update', handleTaskStatusUpdate);
+    };
+  }, [getSpecCommits, specName, subscribe, unsubscribe]);
+
   // Helper functions
   const filterTasksByStatus = useCallback((tasks: any[]) => {
     if (statusFilter === 'all') return tasks;
@@ -970,9 +993,13 @@ function TaskList({ specName }: { specName: string }) {
 
                   // Call the API to update the task status
                   updateTaskStatus(specName, taskId, newStatus)
-                    .then(() => {
+                    .then((result) => {
                       // Remove from pending updates on success
                       pendingStatusUpdatesRef.current.delete(taskId);
+                      // Revert if the server refused the change (e.g. blocked by dependencies)
+                      if (!result.ok) {
+                        getSpecTasksProgress(specName).then(setData);
+                      }
                     })
                     .catch(() => {
                       // Remove from pending updates on error
@@ -990,6 +1017,8 @@ function TaskList({ specName }: { specName: string }) {
               }}
               copiedTaskId={copiedTaskId}
               data={data}
+              commitsByTask={commitLinks?.tasks}
+              mainBranch={commitLinks?.mainBranch}
             />
           )
         ) : filteredAndSortedTasks.length === 0 ? (
@@ -1199,6 +1228,12 @@ function TaskList({ specName }: { specName: string }) {
                       </div>
                     )}
 
+                    {/* Linked commits */}
+                    <TaskCommitList
+                      commits={commitLinks?.tasks[task.id] ?? []}
+                      mainBranch={commitLinks?.mainBranch ?? null}
+                    />
+
                     {/* Additional task information */}
                     {task.requirements && task.requirements.length > 0 && (
                       <div className="text-xs sm:text-sm text-gray-500 dark:text-gray-400 mt-3 flex items-start gap-1">
@@ -1209,6 +1244,22 @@ function TaskList({ specName }: { specName: string }) {
                       </div>
                     )}
 
+                    {task.dependencies && task.dependencies.length > 0 && (
+                      <div className={`text-xs sm:text-sm mt-2 flex items-start gap-1 ${
+                        task.blocked ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+                      }`}>
+                        <svg className="w-3 h-3 sm:w-4 sm:h-4 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                        </svg>
+                        <span className="break-words">
+                          <strong>{t('tasksPage.dependencies.label')}</strong> {task.dependencies.join(', ')}
+                          {task.blocked && task.blockedBy && (
+                            <> ({t('tasksPage.dependencies.blockedBy', { tasks: task.blockedBy.join(', ') })})</>
+                          )}
+                        </span>
+                      </div>
+                    )}
+
                     {task.leverage && (
                       <div className="text-xs sm:text-sm text-blue-600 dark:text-blue-400 mt-2 flex items-start gap-1">
                         <svg className="w-3 h-3 sm:w-4 sm:h-4 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
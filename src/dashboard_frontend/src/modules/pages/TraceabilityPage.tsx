@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { useApi, TraceabilityReport, TraceStatus } from '../api/api';
+import { useWs } from '../ws/WebSocketProvider';
+
+const STATUS_CLASSES: Record<TraceStatus, string> = {
+  'uncovered': 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  'planned': 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300',
+  'in-progress': 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300',
+  'implemented': 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+};
+
+function StatusBadge({ status }: { status: TraceStatus }) {
+  const { t } = useTranslation();
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${STATUS_CLASSES[status]}`}>
+      {t(`traceabilityPage.status.${status}`)}
+    </span>
+  );
+}
+
+function SummaryCards({ report }: { report: TraceabilityReport }) {
+  const { t } = useTranslation();
+  const { summary } = report;
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+      <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-3">
+        <div className="text-xs text-gray-600 dark:text-gray-400 font-medium">{t('traceabilityPage.summary.coverage')}</div>
+        <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">{summary.coveragePercent}%</div>
+      </div>
+      <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-3">
+        <div className="text-xs text-gray-600 dark:text-gray-400 font-medium">{t('traceabilityPage.summary.implemented')}</div>
+        <div className="text-2xl font-bold text-green-600 dark:text-green-400">
+          {summary.implementedRequirements}/{summary.totalRequirements}
+        </div>
+      </div>
+      <div className="bg-purple-50 dark:bg-purple-900/20 rounded-lg p-3">
+        <div className="text-xs text-gray-600 dark:text-gray-400 font-medium">{t('traceabilityPage.summary.criteria')}</div>
+        <div className="text-2xl font-bold text-purple-600 dark:text-purple-400">
+          {summary.coveredCriteria}/{summary.totalCriteria}
+        </div>
+      </div>
+      <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-3">
+        <div className="text-xs text-gray-600 dark:text-gray-400 font-medium">{t('traceabilityPage.summary.uncovered')}</div>
+        <div className="text-2xl font-bold text-red-600 dark:text-red-400">{report.uncoveredRequirements.length}</div>
+      </div>
+    </div>
+  );
+}
+
+function MatrixTable({ report }: { report: TraceabilityReport }) {
+  const { t } = useTranslation();
+
+  if (report.requirements.length === 0) {
+    return (
+      <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+        {t('traceabilityPage.empty.noRequirements')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+      <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+        <thead className="bg-gray-50 dark:bg-gray-900">
+          <tr>
+            <th className="px-4 py-2 text-left font-medium text-gray-600 dark:text-gray-400">{t('traceabilityPage.table.requirement')}</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-600 dark:text-gray-400">{t('traceabilityPage.table.description')}</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-600 dark:text-gray-400">{t('traceabilityPage.table.tasks')}</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-600 dark:text-gray-400">{t('traceabilityPage.table.logged')}</th>
+            <th className="px-4 py-2 text-left font-medium text-gray-600 dark:text-gray-400">{t('traceabilityPage.table.status')}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+          {report.requirements.map((requirement) => (
+            <tr key={requirement.id} className={requirement.parentId ? '' : 'bg-gray-50/50 dark:bg-gray-900/30'}>
+              <td className={`px-4 py-2 font-mono whitespace-nowrap text-gray-900 dark:text-white ${requirement.parentId ? 'pl-8' : 'font-semibold'}`}>
+                {requirement.id}
+              </td>
+              <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{requirement.title}</td>
+              <td className="px-4 py-2 font-mono text-gray-700 dark:text-gray-300">
+                {requirement.tasks.length > 0 ? requirement.tasks.join(', ') : '—'}
+              </td>
+              <td className="px-4 py-2 font-mono text-gray-700 dark:text-gray-300">
+                {requirement.loggedTasks.length > 0 ? requirement.loggedTasks.join(', ') : '—'}
+              </td>
+              <td className="px-4 py-2">
+                <StatusBadge status={requirement.status} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function TraceabilityPage() {
+  const api = useApi();
+  const { subscribe, unsubscribe } = useWs();
+  const { t } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [selectedSpec, setSelectedSpec] = useState<string>(searchParams.get('spec') || '');
+  const [report, setReport] = useState<TraceabilityReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const specs = api.specs;
+
+  // Load the matrix when the spec changes or its documents, tasks or logs update
+  useEffect(() => {
+    if (!selectedSpec) {
+      setReport(null);
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+
+    api.getSpecTraceability(selectedSpec).then(result => {
+      setReport(result);
+    }).catch(err => {
+      setError(t('traceabilityPage.loadError'));
+      console.error(err);
+    }).finally(() => {
+      setLoading(false);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedSpec, refreshKey]);
+
+  useEffect(() => {
+    if (!selectedSpec) return;
+
+    const handleUpdate = (data: any) => {
+      if (!data?.specName || data.specName === selectedSpec) {
+        setRefreshKey(k => k + 1);
+      }
+    };
+
+    subscribe('spec-update', handleUpdate);
+    subscribe('task-status-update', handleUpdate);
+    subscribe('implementation-log-update', handleUpdate);
+
+    return () => {
+      unsubscribe('spec-update', handleUpdate);
+      unsubscribe('task-status-update', handleUpdate);
+      unsubscribe('implementation-log-update', handleUpdate);
+    };
+  }, [selectedSpec, subscribe, unsubscribe]);
+
+  // Sync URL parameters
+  useEffect(() => {
+    setSearchParams(selectedSpec ? { spec: selectedSpec } : {});
+  }, [selectedSpec, setSearchParams]);
+
+  return (
+    <div className="w-full h-full flex flex-col bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 p-4 md:p-6">
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{t('traceabilityPage.header.title')}</h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">{t('traceabilityPage.header.subtitle')}</p>
+
+        <select
+          value={selectedSpec}
+          onChange={(e) => setSelectedSpec(e.target.value)}
+          className="w-full sm:w-auto min-w-[240px] px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">{t('traceabilityPage.selectSpec')}</option>
+          {specs.map(spec => (
+            <option key={spec.name} value={spec.name}>{spec.displayName}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 md:p-6">
+        {!selectedSpec ? (
+          <div className="flex items-center justify-center h-full">
+            <p className="text-gray-500 dark:text-gray-400">{t('traceabilityPage.empty.selectSpec')}</p>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+            <p className="text-red-700 dark:text-red-300">{error}</p>
+          </div>
+        ) : loading && !report ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-gray-500 dark:text-gray-400">{t('traceabilityPage.loading')}</div>
+          </div>
+        ) : report ? (
+          <div className="space-y-6">
+            <SummaryCards report={report} />
+
+            {report.unknownReferences.length > 0 && (
+              <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
+                <h3 className="text-sm font-semibold text-yellow-800 dark:text-yellow-300 mb-2">
+                  {t('traceabilityPage.unknownReferences.title')}
+                </h3>
+                <ul className="text-sm text-yellow-700 dark:text-yellow-300 space-y-1">
+                  {report.unknownReferences.map(ref => (
+                    <li key={`${ref.taskId}-${ref.requirementId}`}>
+                      {t('traceabilityPage.unknownReferences.item', { taskId: ref.taskId, requirementId: ref.requirementId })}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <MatrixTable report={report} />
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ConfirmationModal } from '../modals/ConfirmationModal';
+import { USER_ROLES, UserRole, useAuth } from '../auth/AuthProvider';
+
+interface DashboardUser {
+  username: string;
+  role: UserRole;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+const inputClass = 'px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const body = await response.json();
+    return body.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Admin-only list of dashboard user accounts with their roles
+ */
+export function UserManagement() {
+  const { t } = useTranslation();
+  const { username: currentUser } = useAuth();
+  const [users, setUsers] = useState<DashboardUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newUsername, setNewUsername] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [newRole, setNewRole] = useState<UserRole>('viewer');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [resettingUser, setResettingUser] = useState<string | null>(null);
+  const [resetPassword, setResetPassword] = useState('');
+  const [userToDelete, setUserToDelete] = useState<string | null>(null);
+
+  const roleLabel = (role: UserRole) => t(`settings.users.roles.${role}`, role);
+
+  const loadUsers = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/users');
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load users'));
+      }
+      const data = await response.json();
+      setUsers(data.users);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newUsername.trim() || !newPassword) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: newUsername.trim(), password: newPassword, role: newRole })
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to create user'));
+      }
+      setNewUsername('');
+      setNewPassword('');
+      setNewRole('viewer');
+      setError(null);
+      await loadUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create user');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const updateUser = async (username: string, updates: { role?: UserRole; password?: string }) => {
+    try {
+      const response = await fetch(`/api/users/${encodeURIComponent(username)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates)
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to update user'));
+      }
+      setError(null);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update user');
+      return false;
+    }
+  };
+
+  const handleRoleChange = async (username: string, role: UserRole) => {
+    if (await updateUser(username, { role })) {
+      setUsers(users.map(u => u.username === username ? { ...u, role } : u));
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resettingUser || !resetPassword) return;
+    if (await updateUser(resettingUser, { password: resetPassword })) {
+      setResettingUser(null);
+      setResetPassword('');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!userToDelete) return;
+    try {
+      const response = await fetch(`/api/users/${encodeURIComponent(userToDelete)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to delete user'));
+      }
+      setUsers(users.filter(u => u.username !== userToDelete));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete user');
+    } finally {
+      setUserToDelete(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          {t('settings.users.title', 'Users and Roles')}
+        </h2>
+        <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+          {t('settings.users.description', 'Viewers can read everything, editors can edit documents and tasks, approvers can also review approvals, and admins can also manage jobs and users.')}
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+          <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">{t('settings.users.loading', 'Loading users...')}</p>
+      ) : users.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {t('settings.users.empty', 'No users yet. Until you add one, the dashboard is only reachable with the access token.')}
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+          {users.map(user => (
+            <div key={user.username} className="p-3 space-y-2">
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="flex-1 min-w-0 text-sm font-medium text-gray-900 dark:text-white truncate">
+                  {user.username}
+                  {user.username === currentUser && (
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{t('settings.users.you', '(you)')}</span>
+                  )}
+                </span>
+                <select
+                  value={user.role}
+                  onChange={(e) => handleRoleChange(user.username, e.target.value as UserRole)}
+                  aria-label={t('settings.users.roleLabel', 'Role')}
+                  className={inputClass}
+                >
+                  {USER_ROLES.map(role => (
+                    <option key={role} value={role}>{roleLabel(role)}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setResettingUser(resettingUser === user.username ? null : user.username);
+                    setResetPassword('');
+                  }}
+                  className="px-3 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 text-sm font-medium rounded transition-colors"
+                >
+                  {t('settings.users.resetPassword', 'Reset Password')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setUserToDelete(user.username)}
+                  className="px-3 py-2 bg-red-100 hover:bg-red-200 dark:bg-red-900/30 dark:hover:bg-red-900/50 text-red-700 dark:text-red-400 text-sm font-medium rounded transition-colors"
+                >
+                  {t('settings.delete', 'Delete')}
+                </button>
+              </div>
+
+              {resettingUser === user.username && (
+                <form onSubmit={handleResetPassword} className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="password"
+                    autoComplete="new-password"
+                    value={resetPassword}
+                    onChange={(e) => setResetPassword(e.target.value)}
+                    placeholder={t('settings.users.newPassword', 'New password')}
+                    className={`${inputClass} flex-1 min-w-[12rem]`}
+                  />
+                  <button
+                    type="submit"
+                    disabled={!resetPassword}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {t('settings.users.savePassword', 'Save Password')}
+                  </button>
+                </form>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Add User */}
+      <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-2">
+        <div className="flex-1 min-w-[10rem]">
+          <label htmlFor="new-user-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            {t('settings.users.usernameLabel', 'Username')}
+          </label>
+          <input
+            id="new-user-name"
+            type="text"
+            autoComplete="off"
+            value={newUsername}
+            onChange={(e) => setNewUsername(e.target.value)}
+            className={`${inputClass} w-full`}
+          />
+        </div>
+        <div className="flex-1 min-w-[10rem]">
+          <label htmlFor="new-user-password" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            {t('settings.users.passwordLabel', 'Password')}
+          </label>
+          <input
+            id="new-user-password"
+            type="password"
+            autoComplete="new-password"
+            value={newPassword}
+            onChange={(e) => setNewPassword(e.target.value)}
+            className={`${inputClass} w-full`}
+          />
+        </div>
+        <div>
+          <label htmlFor="new-user-role" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            {t('settings.users.roleLabel', 'Role')}
+          </label>
+          <select
+            id="new-user-role"
+            value={newRole}
+            onChange={(e) => setNewRole(e.target.value as UserRole)}
+            className={inputClass}
+          >
+            {USER_ROLES.map(role => (
+              <option key={role} value={role}>{roleLabel(role)}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={isSubmitting || !newUsername.trim() || !newPassword}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+        >
+          {t('settings.users.add', 'Add User')}
+        </button>
+      </form>
+
+      <ConfirmationModal
+        isOpen={!!userToDelete}
+        onClose={() => setUserToDelete(null)}
+        onConfirm={handleDelete}
+        title={t('settings.users.deleteTitle', 'Delete User')}
+        message={t('settings.users.deleteConfirm', 'Delete {{username}}? They will be signed out immediately.', { username: userToDelete })}
+        confirmText={t('settings.delete', 'Delete')}
+        variant="danger"
+      />
+    </div>
+  );
+}
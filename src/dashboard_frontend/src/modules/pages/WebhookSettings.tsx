@@ -0,0 +1,451 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ConfirmationModal } from '../modals/ConfirmationModal';
+import { useProjects } from '../projects/ProjectProvider';
+
+type WebhookEventType = 'approval-update' | 'task-status-update' | 'spec-update' | 'implementation-log-update';
+
+const EVENT_TYPES: WebhookEventType[] = ['approval-update', 'task-status-update', 'spec-update', 'implementation-log-update'];
+
+const EVENT_LABEL_KEYS: Record<WebhookEventType, string> = {
+  'approval-update': 'settings.webhooks.events.approvalUpdate',
+  'task-status-update': 'settings.webhooks.events.taskStatusUpdate',
+  'spec-update': 'settings.webhooks.events.specUpdate',
+  'implementation-log-update': 'settings.webhooks.events.implementationLogUpdate'
+};
+
+interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  events: WebhookEventType[];
+  projectIds?: string[];
+  hasSecret: boolean;
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  webhookName: string;
+  event: WebhookEventType | 'test';
+  url: string;
+  deliveredAt: string;
+  success: boolean;
+  attempts: number;
+  statusCode?: number;
+  error?: string;
+  duration: number;
+}
+
+interface WebhookForm {
+  name: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  projectIds: string[];
+}
+
+const EMPTY_FORM: WebhookForm = { name: '', url: '', secret: '', events: [], projectIds: [] };
+
+const inputClass = 'w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  try {
+    const body = await response.json();
+    return body.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+}
+
+/**
+ * Admin-only management of outbound webhooks and their recent deliveries
+ */
+export function WebhookSettings() {
+  const { t } = useTranslation();
+  const { projects } = useProjects();
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // null = form closed, '' = new webhook, otherwise the ID being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<WebhookForm>(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [testing, setTesting] = useState<Record<string, boolean>>({});
+  const [testResults, setTestResults] = useState<Record<string, WebhookDelivery>>({});
+  const [webhookToDelete, setWebhookToDelete] = useState<string | null>(null);
+
+  const loadWebhooks = async () => {
+    try {
+      setLoading(true);
+      const [webhooksRes, deliveriesRes] = await Promise.all([
+        fetch('/api/webhooks'),
+        fetch('/api/webhooks/deliveries?limit=20')
+      ]);
+      if (!webhooksRes.ok) {
+        throw new Error(await readError(webhooksRes, 'Failed to load webhooks'));
+      }
+      setWebhooks(await webhooksRes.json());
+      if (deliveriesRes.ok) {
+        setDeliveries(await deliveriesRes.json());
+      }
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load webhooks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadWebhooks();
+  }, []);
+
+  const openForm = (webhook?: Webhook) => {
+    setEditingId(webhook ? webhook.id : '');
+    setForm(webhook
+      ? { name: webhook.name, url: webhook.url, secret: '', events: webhook.events, projectIds: webhook.projectIds || [] }
+      : EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim() || !form.url.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      const isNew = editingId === '';
+      const body: Record<string, unknown> = {
+        name: form.name,
+        url: form.url.trim(),
+        events: form.events,
+        projectIds: form.projectIds
+      };
+      // Leaving the secret blank while editing keeps the current one
+      if (isNew || form.secret) {
+        body.secret = form.secret;
+      }
+      const response = await fetch(isNew ? '/api/webhooks' : `/api/webhooks/${editingId}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to save webhook'));
+      }
+      setEditingId(null);
+      await loadWebhooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save webhook');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggle = async (webhook: Webhook) => {
+    try {
+      const response = await fetch(`/api/webhooks/${webhook.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !webhook.enabled })
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to update webhook'));
+      }
+      setWebhooks(webhooks.map(w => w.id === webhook.id ? { ...w, enabled: !w.enabled } : w));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update webhook');
+    }
+  };
+
+  const handleTest = async (webhookId: string) => {
+    setTesting({ ...testing, [webhookId]: true });
+    try {
+      const response = await fetch(`/api/webhooks/${webhookId}/test`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to send test event'));
+      }
+      const delivery = await response.json() as WebhookDelivery;
+      setTestResults(results => ({ ...results, [webhookId]: delivery }));
+      setDeliveries(current => [delivery, ...current].slice(0, 20));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send test event');
+    } finally {
+      setTesting(current => ({ ...current, [webhookId]: false }));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!webhookToDelete) return;
+    try {
+      const response = await fetch(`/api/webhooks/${webhookToDelete}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to delete webhook'));
+      }
+      setWebhooks(webhooks.filter(w => w.id !== webhookToDelete));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete webhook');
+    } finally {
+      setWebhookToDelete(null);
+    }
+  };
+
+  const describeDelivery = (delivery: WebhookDelivery) => {
+    const status = delivery.statusCode ? `HTTP ${delivery.statusCode}` : delivery.error || '';
+    return delivery.success
+      ? t('settings.webhooks.deliverySucceeded', 'Delivered ({{status}})', { status })
+      : t('settings.webhooks.deliveryFailed', 'Failed: {{error}} (attempts: {{attempts}})', { attempts: delivery.attempts, error: delivery.error || status });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="flex-1 min-w-0">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {t('settings.webhooks.title', 'Webhooks')}
+          </h2>
+          <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
+            {t('settings.webhooks.description', 'Send approval, task, spec and implementation log events to other services. Payloads are JSON and, when a secret is set, signed with HMAC-SHA256 in the X-Spec-Workflow-Signature header. Failed deliveries are retried with backoff.')}
+          </p>
+        </div>
+        {editingId === null && (
+          <button
+            onClick={() => openForm()}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {t('settings.webhooks.add', 'Add Webhook')}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
+          <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {/* Add/Edit Form */}
+      {editingId !== null && (
+        <form onSubmit={handleSubmit} className="space-y-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600 p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="webhook-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {t('settings.webhooks.nameLabel', 'Name')}
+              </label>
+              <input
+                id="webhook-name"
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="webhook-url" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {t('settings.webhooks.urlLabel', 'Payload URL')}
+              </label>
+              <input
+                id="webhook-url"
+                type="url"
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                placeholder="https://example.com/hooks/spec-workflow"
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="webhook-secret" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              {t('settings.webhooks.secretLabel', 'Secret')}
+            </label>
+            <input
+              id="webhook-secret"
+              type="password"
+              autoComplete="new-password"
+              value={form.secret}
+              onChange={(e) => setForm({ ...form, secret: e.target.value })}
+              placeholder={editingId && webhooks.find(w => w.id === editingId)?.hasSecret
+                ? t('settings.webhooks.secretUnchanged', 'Leave blank to keep the current secret')
+                : t('settings.webhooks.secretOptional', 'Optional')}
+              className={inputClass}
+            />
+          </div>
+
+          <fieldset>
+            <legend className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              {t('settings.webhooks.eventsLabel', 'Events (none selected means all)')}
+            </legend>
+            <div className="flex flex-wrap gap-x-4 gap-y-2">
+              {EVENT_TYPES.map(event => (
+                <label key={event} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={form.events.includes(event)}
+                    onChange={() => setForm({ ...form, events: toggle(form.events, event) })}
+                    className="rounded"
+                  />
+                  {t(EVENT_LABEL_KEYS[event])}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {projects.length > 0 && (
+            <fieldset>
+              <legend className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {t('settings.webhooks.projectsLabel', 'Projects (none selected means all)')}
+              </legend>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {projects.map(project => (
+                  <label key={project.projectId} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={form.projectIds.includes(project.projectId)}
+                      onChange={() => setForm({ ...form, projectIds: toggle(form.projectIds, project.projectId) })}
+                      className="rounded"
+                    />
+                    {project.projectName}
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="px-4 py-2 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 text-sm rounded-lg transition-colors"
+            >
+              {t('settings.cancel', 'Cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || !form.name.trim() || !form.url.trim()}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+            >
+              {t('settings.webhooks.save', 'Save Webhook')}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Webhook List */}
+      {loading ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">{t('settings.webhooks.loading', 'Loading webhooks...')}</p>
+      ) : webhooks.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">{t('settings.webhooks.empty', 'No webhooks configured')}</p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+          {webhooks.map(webhook => (
+            <div key={webhook.id} className="p-4 space-y-2">
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">{webhook.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 font-mono truncate">{webhook.url}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {webhook.events.length === 0
+                      ? t('settings.webhooks.allEvents', 'All events')
+                      : webhook.events.map(event => t(EVENT_LABEL_KEYS[event])).join(', ')}
+                    {webhook.hasSecret && ` · ${t('settings.webhooks.signed', 'Signed')}`}
+                  </p>
+                </div>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={webhook.enabled}
+                    onChange={() => handleToggle(webhook)}
+                    className="w-5 h-5 rounded"
+                  />
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    {webhook.enabled ? t('settings.webhooks.enabled', 'Enabled') : t('settings.webhooks.disabled', 'Disabled')}
+                  </span>
+                </label>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => handleTest(webhook.id)}
+                  disabled={testing[webhook.id]}
+                  className="px-3 py-1.5 bg-green-100 hover:bg-green-200 dark:bg-green-900/30 dark:hover:bg-green-900/50 text-green-700 dark:text-green-400 text-sm font-medium rounded transition-colors disabled:opacity-50"
+                >
+                  {testing[webhook.id] ? t('settings.webhooks.sending', 'Sending...') : t('settings.webhooks.sendTest', 'Send Test Event')}
+                </button>
+                <button
+                  onClick={() => openForm(webhook)}
+                  className="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 text-sm font-medium rounded transition-colors"
+                >
+                  {t('settings.edit', 'Edit')}
+                </button>
+                <button
+                  onClick={() => setWebhookToDelete(webhook.id)}
+                  className="px-3 py-1.5 bg-red-100 hover:bg-red-200 dark:bg-red-900/30 dark:hover:bg-red-900/50 text-red-700 dark:text-red-400 text-sm font-medium rounded transition-colors"
+                >
+                  {t('settings.delete', 'Delete')}
+                </button>
+              </div>
+
+              {testResults[webhook.id] && (
+                <p className={`text-xs ${testResults[webhook.id].success ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}`}>
+                  {describeDelivery(testResults[webhook.id])}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Recent Deliveries */}
+      {deliveries.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
+            {t('settings.webhooks.recentDeliveries', 'Recent Deliveries')}
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-500 dark:text-gray-400">
+                  <th className="py-1 pr-4 font-medium">{t('settings.webhooks.columns.time', 'Time')}</th>
+                  <th className="py-1 pr-4 font-medium">{t('settings.webhooks.columns.webhook', 'Webhook')}</th>
+                  <th className="py-1 pr-4 font-medium">{t('settings.webhooks.columns.event', 'Event')}</th>
+                  <th className="py-1 font-medium">{t('settings.webhooks.columns.result', 'Result')}</th>
+                </tr>
+              </thead>
+              <tbody className="text-gray-700 dark:text-gray-300">
+                {deliveries.map(delivery => (
+                  <tr key={`${delivery.id}-${delivery.webhookId}`} className="border-t border-gray-100 dark:border-gray-700">
+                    <td className="py-1 pr-4 whitespace-nowrap">{new Date(delivery.deliveredAt).toLocaleString()}</td>
+                    <td className="py-1 pr-4">{delivery.webhookName}</td>
+                    <td className="py-1 pr-4 font-mono">{delivery.event}</td>
+                    <td className={`py-1 ${delivery.success ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}`}>
+                      {describeDelivery(delivery)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <ConfirmationModal
+        isOpen={!!webhookToDelete}
+        onClose={() => setWebhookToDelete(null)}
+        onConfirm={handleDelete}
+        title={t('settings.webhooks.deleteTitle', 'Delete Webhook')}
+        message={t('settings.webhooks.deleteConfirm', 'Stop sending events to this webhook and delete it?')}
+        confirmText={t('settings.delete', 'Delete')}
+        variant="danger"
+      />
+    </div>
+  );
+}
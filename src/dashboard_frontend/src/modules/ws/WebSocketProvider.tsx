@@ -2,9 +2,17 @@ import React, { createContext, useContext, useEffect, useMemo, useRef, useState,
 
 type InitialPayload = {
   specs: any[];
+  archivedSpecs: any[];
   approvals: any[];
 };
 
+// Position in the server's event stream for the current project
+type StreamPosition = {
+  projectId: string;
+  streamId: string;
+  seq: number;
+};
+
 type WsContextType = {
   connected: boolean;
   initial?: InitialPayload;
@@ -19,21 +27,79 @@ interface WebSocketProviderProps {
   projectId: string | null;
 }
 
+// Consecutive WebSocket connections that must fail to open before switching to Server-Sent Events
+const WS_FAILURES_BEFORE_SSE = 2;
+
 export function WebSocketProvider({ children, projectId }: WebSocketProviderProps) {
   const [connected, setConnected] = useState(false);
   const [initial, setInitial] = useState<InitialPayload | undefined>(undefined);
   const wsRef = useRef<WebSocket | null>(null);
+  const eventSourceRef = useRef<EventSource | null>(null);
   const eventHandlersRef = useRef<Map<string, Set<(data: any) => void>>>(new Map());
   const retryTimerRef = useRef<any>(null);
   const currentProjectIdRef = useRef<string | null>(null);
+  const streamRef = useRef<StreamPosition | null>(null);
+  const resumingRef = useRef(false);
+  const transportRef = useRef<'websocket' | 'sse'>('websocket');
+  const wsFailuresRef = useRef(0);
 
-  const connectToWebSocket = useCallback((targetProjectId: string | null) => {
-    // Close existing connection if any
+  const closeConnection = useCallback(() => {
     if (wsRef.current) {
       wsRef.current.onclose = null; // Prevent reconnection
       wsRef.current.close();
       wsRef.current = null;
     }
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close();
+      eventSourceRef.current = null;
+    }
+  }, []);
+
+  // Messages are the same over both transports
+  const handleMessage = useCallback((msg: any, targetProjectId: string | null, requestResume: () => void) => {
+    // Handle initial message (a full snapshot)
+    if (msg.type === 'initial' && msg.projectId === targetProjectId) {
+      streamRef.current = { projectId: msg.projectId, streamId: msg.streamId, seq: msg.seq ?? 0 };
+      resumingRef.current = false;
+      setInitial({
+        specs: msg.data?.specs || [],
+        archivedSpecs: msg.data?.archivedSpecs || [],
+        approvals: msg.data?.approvals || []
+      });
+    }
+    // Missed events have been replayed
+    else if (msg.type === 'resumed' && msg.projectId === targetProjectId) {
+      resumingRef.current = false;
+    }
+    // Handle projects-update (global message)
+    else if (msg.type === 'projects-update') {
+      const handlers = eventHandlersRef.current.get('projects-update');
+      if (handlers) {
+        handlers.forEach(handler => handler(msg.data));
+      }
+    }
+    // Handle project-scoped messages, in sequence order
+    else if (msg.projectId === targetProjectId) {
+      const position = streamRef.current;
+      if (position && typeof msg.seq === 'number') {
+        if (msg.seq <= position.seq) return; // Already applied, e.g. replayed twice
+        if (msg.seq > position.seq + 1) {
+          // An event went missing; the replay will include this one
+          requestResume();
+          return;
+        }
+        position.seq = msg.seq;
+      }
+      const handlers = eventHandlersRef.current.get(msg.type);
+      if (handlers) {
+        handlers.forEach(handler => handler(msg.data));
+      }
+    }
+  }, []);
+
+  const connectToWebSocket = useCallback((targetProjectId: string | null) => {
+    // Close existing connection if any
+    closeConnection();
 
     // Clear any pending retry
     if (retryTimerRef.current) {
@@ -41,26 +107,60 @@ export function WebSocketProvider({ children, projectId }: WebSocketProviderProp
       retryTimerRef.current = null;
     }
 
-    // Build WebSocket URL with projectId query parameter
+    // After a reconnect, ask for the events missed since the last one seen instead of a full snapshot
+    const stream = streamRef.current;
+    const resume = !!targetProjectId && stream?.projectId === targetProjectId;
+    if (!resume) {
+      streamRef.current = null;
+    }
+    currentProjectIdRef.current = targetProjectId;
+
+    if (transportRef.current === 'sse' && targetProjectId) {
+      connectToEventSource(targetProjectId, resume);
+      return;
+    }
+
+    // Build WebSocket URL with projectId query parameter (which requests a snapshot)
     const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const wsUrl = targetProjectId
+    const wsUrl = targetProjectId && !resume
       ? `${protocol}//${location.host}/ws?projectId=${encodeURIComponent(targetProjectId)}`
       : `${protocol}//${location.host}/ws`;
 
     const ws = new WebSocket(wsUrl);
     wsRef.current = ws;
-    currentProjectIdRef.current = targetProjectId;
+    let opened = false;
 
-    ws.onopen = () => setConnected(true);
+    const requestResume = () => {
+      const position = streamRef.current;
+      if (!position || resumingRef.current) return;
+      resumingRef.current = true;
+      ws.send(JSON.stringify({ type: 'resume', projectId: position.projectId, streamId: position.streamId, seq: position.seq }));
+    };
+
+    ws.onopen = () => {
+      opened = true;
+      wsFailuresRef.current = 0;
+      setConnected(true);
+      resumingRef.current = false;
+      if (resume) {
+        requestResume();
+      }
+    };
 
     ws.onclose = () => {
       setConnected(false);
       // Only retry if we're still on the same project
-      if (currentProjectIdRef.current === targetProjectId) {
-        retryTimerRef.current = setTimeout(() => {
-          connectToWebSocket(targetProjectId);
-        }, 2000);
+      if (currentProjectIdRef.current !== targetProjectId) return;
+
+      // Sockets that never open are usually blocked by a proxy; switch to Server-Sent Events
+      if (!opened && targetProjectId && ++wsFailuresRef.current >= WS_FAILURES_BEFORE_SSE) {
+        transportRef.current = 'sse';
+        connectToWebSocket(targetProjectId);
+        return;
       }
+      retryTimerRef.current = setTimeout(() => {
+        connectToWebSocket(targetProjectId);
+      }, 2000);
     };
 
     ws.onerror = () => {
@@ -69,31 +169,48 @@ export function WebSocketProvider({ children, projectId }: WebSocketProviderProp
 
     ws.onmessage = (ev) => {
       try {
-        const msg = JSON.parse(ev.data);
-
-        // Handle initial message
-        if (msg.type === 'initial' && msg.projectId === targetProjectId) {
-          setInitial({ specs: msg.data?.specs || [], approvals: msg.data?.approvals || [] });
-        }
-        // Handle projects-update (global message)
-        else if (msg.type === 'projects-update') {
-          const handlers = eventHandlersRef.current.get('projects-update');
-          if (handlers) {
-            handlers.forEach(handler => handler(msg.data));
-          }
-        }
-        // Handle project-scoped messages
-        else if (msg.projectId === targetProjectId) {
-          const handlers = eventHandlersRef.current.get(msg.type);
-          if (handlers) {
-            handlers.forEach(handler => handler(msg.data));
-          }
-        }
+        handleMessage(JSON.parse(ev.data), targetProjectId, requestResume);
       } catch {
         // ignore
       }
     };
-  }, []);
+
+    function connectToEventSource(sseProjectId: string, resumeStream: boolean) {
+      const position = streamRef.current;
+      const query = resumeStream && position
+        ? `?lastEventId=${encodeURIComponent(`${position.streamId}:${position.seq}`)}`
+        : '';
+      const eventSource = new EventSource(`/api/projects/${encodeURIComponent(sseProjectId)}/events${query}`);
+      eventSourceRef.current = eventSource;
+
+      // The stream is one-way, so resume by reconnecting from the last applied event
+      const requestSseResume = () => {
+        if (resumingRef.current) return;
+        resumingRef.current = true;
+        connectToWebSocket(sseProjectId);
+      };
+
+      eventSource.onopen = () => setConnected(true);
+
+      eventSource.onerror = () => {
+        setConnected(false);
+        // The browser reconnects by itself (sending Last-Event-ID) unless the server refused the stream
+        if (eventSource.readyState === EventSource.CLOSED && currentProjectIdRef.current === sseProjectId) {
+          retryTimerRef.current = setTimeout(() => {
+            connectToWebSocket(sseProjectId);
+          }, 2000);
+        }
+      };
+
+      eventSource.onmessage = (ev) => {
+        try {
+          handleMessage(JSON.parse(ev.data), sseProjectId, requestSseResume);
+        } catch {
+          // ignore
+        }
+      };
+    }
+  }, [closeConnection, handleMessage]);
 
   // Connect/reconnect when projectId changes
   useEffect(() => {
@@ -107,12 +224,9 @@ export function WebSocketProvider({ children, projectId }: WebSocketProviderProp
       if (retryTimerRef.current) {
         clearTimeout(retryTimerRef.current);
       }
-      if (wsRef.current) {
-        wsRef.current.onclose = null;
-        wsRef.current.close();
-      }
+      closeConnection();
     };
-  }, [projectId, connectToWebSocket]);
+  }, [projectId, connectToWebSocket, closeConnection]);
 
   const subscribe = useCallback((eventType: string, handler: (data: any) => void) => {
     if (!eventHandlersRef.current.has(eventType)) {
@@ -1,7 +1,7 @@
 export interface AutomationJob {
   id: string;
   name: string;
-  type: 'cleanup-approvals' | 'cleanup-specs' | 'cleanup-archived-specs';
+  type: 'cleanup-approvals' | 'cleanup-specs' | 'cleanup-archived-specs' | 'verify-artifacts';
   enabled: boolean;
   config: {
     daysOld: number;
@@ -24,6 +24,8 @@ export interface ImplementationLogEntry {
     linesRemoved: number;
     filesChanged: number;
   };
+  statisticsSource?: 'git' | 'reported';
+  commits?: string[];
   artifacts: {
     apiEndpoints?: Array<{
       method: string;
@@ -63,3 +65,35 @@ export interface ImplementationLogEntry {
     }>;
   };
 }
+
+export type ArtifactStatus = 'verified' | 'moved' | 'stale' | 'unverifiable';
+
+export interface ArtifactVerification {
+  status: ArtifactStatus;
+  location?: string;
+  reason?: string;
+  checkedAt: string;
+}
+
+export interface ArtifactVerificationReport {
+  verifiedAt: string;
+  artifacts: Record<string, ArtifactVerification>; // Keyed by `${logId}:${collection}:${index}`
+}
+
+export interface TaskCommit {
+  sha: string;
+  shortSha: string;
+  subject: string;
+  author: string;
+  date: string;
+  committedAt: string;
+  branches: string[];      // Local branches containing the commit
+  onMainBranch: boolean;
+  logEntryIds: string[];   // Implementation log entries that recorded the commit
+}
+
+export interface SpecCommitLinks {
+  available: boolean;      // false when the project is not a git repository
+  mainBranch: string | null;
+  tasks: Record<string, TaskCommit[]>;
+}
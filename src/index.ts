@@ -1,17 +1,21 @@
 #!/usr/bin/env node
 
-import { SpecWorkflowMCPServer } from './server.js';
-import { MultiProjectDashboardServer } from './dashboard/multi-server.js';
-import { DashboardSessionManager } from './core/dashboard-session.js';
+import { SpecWorkflowMCPServer, SpecWorkflowHttpServer } from './server.js';
+import { MultiProjectDashboardServer, DEFAULT_DASHBOARD_HOST } from './dashboard/multi-server.js';
+import { DashboardSessionManager, buildDashboardLoginUrl } from './core/dashboard-session.js';
+import { loadConfigFile } from './config.js';
 import { homedir } from 'os';
 import { WorkspaceInitializer } from './core/workspace-initializer.js';
 import { readFileSync } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
 
 // Default dashboard port
 const DEFAULT_DASHBOARD_PORT = 5000;
 
+// Default port for the MCP server with --transport http
+const DEFAULT_HTTP_PORT = 3000;
+
 function showHelp() {
   console.error(`
 Spec Workflow MCP Server - A Model Context Protocol server for spec-driven development
@@ -29,13 +33,24 @@ OPTIONS:
   --port <number>         Specify dashboard port (1024-65535)
                          Default: 5000
                          Only use if port 5000 is unavailable
+  --host <address>        Address the dashboard listens on
+                         Default: 127.0.0.1 (this machine only)
+                         Use 0.0.0.0 to accept connections from other machines
   --no-open               Don't automatically open browser when starting dashboard
                          Useful in restricted environments where browser launch is blocked
+  --transport <type>      How MCP clients connect: stdio (default) or http
+                         http serves the Streamable HTTP transport at /mcp so several
+                         clients can share one server; --port (default 3000) and
+                         --host apply to it
 
 IMPORTANT:
   Only ONE dashboard instance runs at a time. All MCP servers connect to the
   same dashboard. The dashboard runs on port 5000 by default.
 
+  The dashboard requires an access token, generated at startup and printed with
+  the login URL. It is also stored in ~/.spec-workflow-mcp/activeSession.json,
+  where MCP servers and the VS Code extension pick it up.
+
 MODES OF OPERATION:
 
 1. MCP Server Only (default):
@@ -44,7 +59,16 @@ MODES OF OPERATION:
 
    Starts MCP server without dashboard. Dashboard can be started separately.
 
-2. Dashboard Only Mode:
+2. Shared HTTP Server:
+   spec-workflow-mcp ~/my-project --transport http
+   spec-workflow-mcp --transport http --port 3100 --host 0.0.0.0
+
+   Serves MCP over HTTP at http://<host>:<port>/mcp until stopped with Ctrl+C.
+   Each client chooses a registered project with ?project=<path or project ID> in
+   the URL, or gets the project path given on the command line. Clients send the
+   running dashboard's access token in an Authorization: Bearer header.
+
+3. Dashboard Only Mode:
    spec-workflow-mcp --dashboard
    spec-workflow-mcp --dashboard --port 8080
    spec-workflow-mcp --dashboard --no-open
@@ -67,6 +91,12 @@ EXAMPLES:
   # Run dashboard on custom port (if 5000 is unavailable)
   spec-workflow-mcp --dashboard --port 8080
 
+  # Share one MCP server between several agents
+  spec-workflow-mcp ~/projects/my-app --transport http
+
+  # Share the dashboard on your network (teammates log in with the access token)
+  spec-workflow-mcp --dashboard --host 0.0.0.0
+
 TYPICAL WORKFLOW:
   1. Start the dashboard once:
      spec-workflow-mcp --dashboard
@@ -81,6 +111,10 @@ TYPICAL WORKFLOW:
 PARAMETER FORMATS:
   --port 3456             Space-separated format
   --port=3456             Equals format
+  --host 0.0.0.0          Space-separated format
+  --host=0.0.0.0          Equals format
+  --transport http        Space-separated format
+  --transport=http        Equals format
 
 For more information, visit: https://github.com/Pimzino/spec-workflow-mcp
 `);
@@ -97,15 +131,19 @@ function parseArguments(args: string[]): {
   projectPath: string;
   isDashboardMode: boolean;
   port?: number;
+  host?: string;
   lang?: string;
   noOpen?: boolean;
+  transport: 'stdio' | 'http';
 } {
   const isDashboardMode = args.includes('--dashboard');
   const noOpen = args.includes('--no-open');
   let customPort: number | undefined;
+  let customHost: string | undefined;
+  let transport: 'stdio' | 'http' = 'stdio';
 
   // Check for invalid flags
-  const validFlags = ['--dashboard', '--port', '--help', '-h', '--no-open'];
+  const validFlags = ['--dashboard', '--port', '--host', '--help', '-h', '--no-open', '--transport'];
   for (const arg of args) {
     if (arg.startsWith('--') && !arg.includes('=')) {
       if (!validFlags.includes(arg)) {
@@ -155,14 +193,63 @@ function parseArguments(args: string[]): {
     }
   }
 
+  // Parse --host parameter (supports --host 0.0.0.0 and --host=0.0.0.0 formats)
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg.startsWith('--host=')) {
+      customHost = arg.slice('--host='.length).trim();
+      if (!customHost) {
+        throw new Error('--host parameter requires a value (e.g., --host=0.0.0.0)');
+      }
+    } else if (arg === '--host' && i + 1 < args.length && !args[i + 1].startsWith('--')) {
+      customHost = args[i + 1].trim();
+      i++; // Skip the next argument as it's the host value
+    } else if (arg === '--host') {
+      throw new Error('--host parameter requires a value (e.g., --host 0.0.0.0)');
+    }
+  }
+
+  // Parse --transport parameter (supports --transport http and --transport=http formats)
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    let value: string | undefined;
+
+    if (arg.startsWith('--transport=')) {
+      value = arg.slice('--transport='.length).trim();
+    } else if (arg === '--transport' && i + 1 < args.length && !args[i + 1].startsWith('--')) {
+      value = args[i + 1].trim();
+      i++; // Skip the next argument as it's the transport value
+    } else if (arg === '--transport') {
+      throw new Error('--transport parameter requires a value (e.g., --transport http)');
+    } else {
+      continue;
+    }
+
+    if (value !== 'stdio' && value !== 'http') {
+      throw new Error(`Invalid transport: ${value}. Use stdio or http.`);
+    }
+    transport = value;
+  }
+
+  if (transport === 'http' && isDashboardMode) {
+    throw new Error('--transport applies to the MCP server and cannot be combined with --dashboard');
+  }
+
   // Get project path (filter out flags and their values)
   const filteredArgs = args.filter((arg, index) => {
     if (arg === '--dashboard') return false;
     if (arg.startsWith('--port=')) return false;
     if (arg === '--port') return false;
+    if (arg.startsWith('--host=')) return false;
+    if (arg === '--host') return false;
     if (arg === '--no-open') return false;
+    if (arg.startsWith('--transport=')) return false;
+    if (arg === '--transport') return false;
     // Check if this arg is a value following --port
     if (index > 0 && args[index - 1] === '--port') return false;
+    if (index > 0 && args[index - 1] === '--host') return false;
+    if (index > 0 && args[index - 1] === '--transport') return false;
     return true;
   });
 
@@ -176,7 +263,7 @@ function parseArguments(args: string[]): {
     console.warn('Consider specifying an explicit path for better clarity.');
   }
 
-  return { projectPath, isDashboardMode, port: customPort, lang: undefined, noOpen };
+  return { projectPath, isDashboardMode, port: customPort, host: customHost, lang: undefined, noOpen, transport };
 }
 
 async function main() {
@@ -218,6 +305,13 @@ async function main() {
       // Use specified port or default
       const dashboardPort = port || DEFAULT_DASHBOARD_PORT;
 
+      // --host overrides the host key in .spec-workflow/config.toml
+      const { config: fileConfig, error: configError } = loadConfigFile(projectPath);
+      if (configError) {
+        console.error(`Warning: ${configError}`);
+      }
+      const dashboardHost = cliArgs.host || fileConfig?.host || DEFAULT_DASHBOARD_HOST;
+
       // Dashboard only mode - use new multi-project dashboard
       console.error(`Starting Unified Multi-Project Dashboard`);
       if (port) {
@@ -225,18 +319,24 @@ async function main() {
       } else {
         console.error(`Using default port: ${DEFAULT_DASHBOARD_PORT}`);
       }
+      if (dashboardHost !== DEFAULT_DASHBOARD_HOST) {
+        console.error(`Listening on host: ${dashboardHost}`);
+      }
       if (noOpen) {
         console.error(`Browser auto-open disabled (--no-open)`);
       }
 
       const dashboardServer = new MultiProjectDashboardServer({
         autoOpen: !noOpen,
-        port: dashboardPort
+        port: dashboardPort,
+        host: dashboardHost
       });
 
       try {
         const dashboardUrl = await dashboardServer.start();
         console.error(`Dashboard started at: ${dashboardUrl}`);
+        console.error(`Access token: ${dashboardServer.getAccessToken()}`);
+        console.error(`Log in at: ${buildDashboardLoginUrl(dashboardUrl, dashboardServer.getAccessToken())}`);
         console.error('Projects will automatically appear as MCP servers register.');
         console.error('Press Ctrl+C to stop the dashboard');
       } catch (error: any) {
@@ -257,6 +357,36 @@ async function main() {
       // Keep the process running
       process.stdin.resume();
 
+    } else if (cliArgs.transport === 'http') {
+      // Shared MCP server over Streamable HTTP
+      const httpServer = new SpecWorkflowHttpServer({
+        port: port || DEFAULT_HTTP_PORT,
+        host: cliArgs.host || DEFAULT_DASHBOARD_HOST,
+        defaultProjectPath: resolve(projectPath),
+        lang
+      });
+
+      try {
+        const mcpUrl = await httpServer.start();
+        console.error(`MCP server listening at: ${mcpUrl}`);
+        console.error(`Default project: ${resolve(projectPath)}`);
+        console.error('Clients can select another registered project with ?project=<path or project ID>');
+        console.error("Clients authenticate with the dashboard's access token: Authorization: Bearer <token>");
+      } catch (error: any) {
+        console.error(`Failed to start MCP HTTP server: ${error.message}`);
+        process.exit(1);
+      }
+
+      // Handle graceful shutdown
+      const shutdown = async () => {
+        console.error('\nShutting down MCP server...');
+        await httpServer.stop();
+        process.exit(0);
+      };
+
+      process.on('SIGINT', shutdown);
+      process.on('SIGTERM', shutdown);
+
     } else {
       // MCP server mode
       console.error(`Starting Spec Workflow MCP Server for project: ${projectPath}`);
@@ -44,13 +44,14 @@ ${context.dashboardUrl ? `- Dashboard: ${context.dashboardUrl}` : ''}
 
 1. **Check Current Status:**
    - Use the spec-status tool with specName "${specName}" to see overall progress
-   - Read .spec-workflow/specs/${specName}/tasks.md to see all tasks
-   - Identify ${taskId ? `task ${taskId}` : 'the next pending task marked with [ ]'}
+   - Use the tasks tool with action "list" to see all tasks
+   - Identify ${taskId ? `task ${taskId}` : 'the next ready task (tasks action "next")'}
+   - Check the task's _Depends field - every listed task must already be marked [x] before you start
 
 2. **Start the Task:**
-   - Edit .spec-workflow/specs/${specName}/tasks.md directly
-   - Change the task marker from [ ] to [-] for the task you're starting
-   - Only one task should be in-progress at a time
+   - Use the tasks tool with action "start"${taskId ? ` and taskId "${taskId}"` : ''} to mark it [-]
+   - Only one task can be in-progress at a time - the tool refuses to start a second one
+   - The response includes the task's _Prompt
 
 3. **Read Task Guidance:**
    - Look for the _Prompt field in the task - it contains structured guidance:
@@ -103,12 +104,12 @@ ${context.dashboardUrl ? `- Dashboard: ${context.dashboardUrl}` : ''}
    - Write clean, well-commented code
    - Follow existing patterns in the codebase
    - Test your implementation thoroughly
+   - If you commit, reference the task in the commit message with the trailers "Spec: ${specName}" and "Task: ${taskId || '<task ID>'}" so the dashboard links the commit to the task
 
 6. **Complete the Task:**
    - Verify all success criteria from the _Prompt are met
    - Run any relevant tests to ensure nothing is broken
-   - Edit .spec-workflow/specs/${specName}/tasks.md directly
-   - Change the task marker from [-] to [x] for the completed task
+   - Use the tasks tool with action "complete"${taskId ? ` and taskId "${taskId}"` : ''} to mark it [x]
    - Only mark complete when fully implemented and tested
 
 7. **Log Implementation (CRITICAL - ARTIFACTS REQUIRED):**
@@ -124,9 +125,8 @@ ${context.dashboardUrl ? `- Dashboard: ${context.dashboardUrl}` : ''}
      - specName: "${specName}"
      - taskId: ${taskId ? `"${taskId}"` : 'the task ID you just completed'}
      - summary: Clear description of what was implemented (1-2 sentences)
-     - filesModified: List of files you edited
-     - filesCreated: List of files you created
-     - statistics: {linesAdded: number, linesRemoved: number}
+     - commitRange: The commits you made for this task (e.g. "a1b2c3d..HEAD"), if you committed; uncommitted changes are picked up from git automatically
+     - filesModified, filesCreated and statistics ({linesAdded: number, linesRemoved: number}): only needed if the project is not a git repository
      - artifacts: {apiEndpoints: [...], components: [...], functions: [...], classes: [...], integrations: [...]}
    - Example artifacts for an API endpoint:
      \`\`\`json
@@ -154,7 +154,7 @@ ${context.dashboardUrl ? `- Dashboard: ${context.dashboardUrl}` : ''}
 - Bash (grep/ripgrep): CRITICAL - Search existing implementations before coding (step 4)
 - Read: Examine markdown implementation log files directly (step 4)
 - log-implementation: Record implementation details with artifacts after task completion (step 7)
-- Edit: Directly update task markers in tasks.md file
+- tasks: Start and complete tasks (never edit tasks.md markers by hand)
 - Read/Write/Edit: Implement the actual code changes
 - Bash: Run tests and verify implementation
 
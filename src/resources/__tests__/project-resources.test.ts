@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  ProjectResourceWatcher,
+  listProjectResources,
+  parseProjectResourceUri,
+  readProjectResource
+} from '../project-resources.js';
+import { ApprovalStorage } from '../../dashboard/approval-storage.js';
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+}
+
+describe('project resources', () => {
+  let projectDir: string;
+  let specDir: string;
+
+  beforeEach(async () => {
+    projectDir = join(tmpdir(), `spec-workflow-resources-test-${Date.now()}`);
+    specDir = join(projectDir, '.spec-workflow', 'specs', 'login');
+    await fs.mkdir(specDir, { recursive: true });
+    await fs.mkdir(join(projectDir, '.spec-workflow', 'steering'), { recursive: true });
+    await fs.writeFile(join(specDir, 'requirements.md'), '# Login requirements\n');
+    await fs.writeFile(join(specDir, 'tasks.md'), '- [ ] 1. Build form\n');
+    await fs.writeFile(join(projectDir, '.spec-workflow', 'steering', 'product.md'), '# Product\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('should list and read spec documents, steering documents and approvals', async () => {
+    const id = await new ApprovalStorage(projectDir).createApproval(
+      'Login requirements', '.spec-workflow/specs/login/requirements.md', 'spec', 'login'
+    );
+
+    const uris = (await listProjectResources(projectDir)).map(resource => resource.uri);
+    expect(uris).toEqual([
+      'spec-workflow://specs/login/requirements',
+      'spec-workflow://specs/login/tasks',
+      'spec-workflow://steering/product',
+      `spec-workflow://approvals/${id}`
+    ]);
+
+    const tasks = await readProjectResource(projectDir, 'spec-workflow://specs/login/tasks');
+    expect(tasks).toEqual({ uri: 'spec-workflow://specs/login/tasks', mimeType: 'text/markdown', text: '- [ ] 1. Build form\n' });
+
+    const approval = await readProjectResource(projectDir, `spec-workflow://approvals/${id}`);
+    expect(approval?.mimeType).toBe('application/json');
+    expect(JSON.parse(approval!.text)).toMatchObject({ id, status: 'pending', categoryName: 'login' });
+
+    await expect(readProjectResource(projectDir, 'spec-workflow://specs/login/design')).rejects.toThrow('Document not found');
+    expect(await readProjectResource(projectDir, 'spec-workflow://guide')).toBeNull();
+  });
+
+  it('should reject URIs that escape the project', () => {
+    expect(parseProjectResourceUri('spec-workflow://specs/..%2F..%2Fetc/requirements')).toBeNull();
+    expect(parseProjectResourceUri('spec-workflow://specs/../requirements')).toBeNull();
+    expect(parseProjectResourceUri('spec-workflow://specs/login/notes')).toBeNull();
+    expect(parseProjectResourceUri('spec-workflow://steering/secrets')).toBeNull();
+    expect(parseProjectResourceUri('spec-workflow://specs/my%20spec/design')).toEqual({ kind: 'spec', name: 'my spec', document: 'design' });
+  });
+
+  it('should notify subscribers of changes and the list of new documents', async () => {
+    const updated: string[] = [];
+    let listChanges = 0;
+    const watcher = new ProjectResourceWatcher(projectDir, {
+      updated: uri => updated.push(uri),
+      listChanged: () => { listChanges++; }
+    });
+    await watcher.start();
+
+    try {
+      watcher.subscribe('spec-workflow://specs/login/tasks');
+      await fs.writeFile(join(specDir, 'requirements.md'), '# Changed, not subscribed\n');
+      await fs.writeFile(join(specDir, 'tasks.md'), '- [x] 1. Build form\n');
+      await waitFor(() => updated.length > 0);
+      expect(updated).toEqual(['spec-workflow://specs/login/tasks']);
+
+      await fs.writeFile(join(specDir, 'design.md'), '# Design\n');
+      await waitFor(() => listChanges > 0);
+
+      watcher.unsubscribe('spec-workflow://specs/login/tasks');
+      await fs.writeFile(join(specDir, 'tasks.md'), '- [ ] 1. Build form\n');
+      await new Promise(resolve => setTimeout(resolve, 300));
+      expect(updated).toHaveLength(1);
+    } finally {
+      await watcher.stop();
+    }
+  });
+});
@@ -1,27 +1,64 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import {
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   Resource,
   ResourceContents
 } from '@modelcontextprotocol/sdk/types.js';
 import { readFile } from 'fs/promises';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import {
+  PROJECT_RESOURCE_TEMPLATES,
+  ProjectResourceWatcher,
+  listProjectResources,
+  readProjectResource
+} from './project-resources.js';
 
 /**
- * Register MCP resource handlers with the server
+ * Register MCP resource handlers with the server.
+ * Returns the watcher behind resource subscriptions; start it once the server is connected.
  */
-export function registerResourceHandlers(server: Server): void {
-  server.setRequestHandler(ListResourcesRequestSchema, handleListResources);
-  server.setRequestHandler(ReadResourceRequestSchema, handleReadResource);
+export function registerResourceHandlers(server: Server, projectPath: string): ProjectResourceWatcher {
+  const watcher = new ProjectResourceWatcher(projectPath, {
+    updated: (uri) => {
+      server.sendResourceUpdated({ uri }).catch(() => {
+        // Client went away; nothing to notify
+      });
+    },
+    listChanged: () => {
+      server.sendResourceListChanged().catch(() => {
+        // Client went away; nothing to notify
+      });
+    }
+  });
+
+  // Read the project from the watcher, which follows the session when it switches projects
+  server.setRequestHandler(ListResourcesRequestSchema, () => handleListResources(watcher.getProjectPath()));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: PROJECT_RESOURCE_TEMPLATES
+  }));
+  server.setRequestHandler(ReadResourceRequestSchema, (request) => handleReadResource(request, watcher.getProjectPath()));
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    watcher.subscribe(request.params.uri);
+    return {};
+  });
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    watcher.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  return watcher;
 }
 
 /**
  * Handle resources/list request
- * Returns all available workflow documentation resources
+ * Returns the workflow documentation followed by the project's specs, steering docs and approvals
  */
-async function handleListResources(): Promise<{ resources: Resource[] }> {
+async function handleListResources(projectPath: string): Promise<{ resources: Resource[] }> {
   return {
     resources: [
       {
@@ -39,23 +76,28 @@ async function handleListResources(): Promise<{ resources: Resource[] }> {
       {
         uri: 'spec-workflow://approval-workflow',
         name: 'Approval Workflow Pattern',
-        description: 'Standard approval sequence: request → poll status → delete',
+        description: 'Standard approval sequence: request → wait for decision → delete',
         mimeType: 'text/markdown'
-      }
+      },
+      ...await listProjectResources(projectPath)
     ]
   };
 }
 
 /**
  * Handle resources/read request
- * Returns markdown content for the requested resource URI
+ * Returns the content for the requested resource URI
  */
-async function handleReadResource(request: { params: { uri: string } }): Promise<{ contents: ResourceContents[] }> {
+async function handleReadResource(request: { params: { uri: string } }, projectPath: string): Promise<{ contents: ResourceContents[] }> {
   const { uri } = request.params;
 
   let content: string;
 
   try {
+    const projectResource = await readProjectResource(projectPath, uri);
+    if (projectResource) {
+      return { contents: [projectResource] };
+    }
     content = await readResourceContent(uri);
   } catch (error: any) {
     // Return error as resource content for graceful handling
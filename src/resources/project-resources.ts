@@ -0,0 +1,274 @@
+import { Resource, ResourceTemplate, TextResourceContents } from '@modelcontextprotocol/sdk/types.js';
+import { promises as fs } from 'fs';
+import { basename, join, relative, sep } from 'path';
+import chokidar from 'chokidar';
+import { PathUtils } from '../core/path-utils.js';
+import { ApprovalStorage } from '../dashboard/approval-storage.js';
+
+export const SPEC_DOCUMENTS = ['requirements', 'design', 'tasks'] as const;
+export const STEERING_DOCUMENTS = ['product', 'tech', 'structure'] as const;
+
+export const PROJECT_RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'spec-workflow://specs/{name}/{document}',
+    name: 'Spec document',
+    description: `A spec's ${SPEC_DOCUMENTS.join(', ')} document`,
+    mimeType: 'text/markdown'
+  },
+  {
+    uriTemplate: 'spec-workflow://steering/{document}',
+    name: 'Steering document',
+    description: `A project steering document: ${STEERING_DOCUMENTS.join(', ')}`,
+    mimeType: 'text/markdown'
+  },
+  {
+    uriTemplate: 'spec-workflow://approvals/{id}',
+    name: 'Approval request',
+    description: 'An approval request with its status, reviewer decisions and comments',
+    mimeType: 'application/json'
+  }
+];
+
+type ProjectResourceTarget =
+  | { kind: 'spec'; name: string; document: string }
+  | { kind: 'steering'; document: string }
+  | { kind: 'approval'; id: string };
+
+// Names come from URIs, so keep them to a single path segment
+function isSafeSegment(value: string): boolean {
+  return value.length > 0 && value !== '.' && value !== '..' && !/[\/\\]/.test(value);
+}
+
+/**
+ * Parse a project resource URI. Returns null for URIs that are not project resources.
+ */
+export function parseProjectResourceUri(uri: string): ProjectResourceTarget | null {
+  const match = uri.match(/^spec-workflow:\/\/(specs|steering|approvals)\/(.+)$/);
+  if (!match) return null;
+
+  let segments: string[];
+  try {
+    segments = match[2].split('/').map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+  if (!segments.every(isSafeSegment)) return null;
+
+  if (match[1] === 'specs' && segments.length === 2 && (SPEC_DOCUMENTS as readonly string[]).includes(segments[1])) {
+    return { kind: 'spec', name: segments[0], document: segments[1] };
+  }
+  if (match[1] === 'steering' && segments.length === 1 && (STEERING_DOCUMENTS as readonly string[]).includes(segments[0])) {
+    return { kind: 'steering', document: segments[0] };
+  }
+  if (match[1] === 'approvals' && segments.length === 1) {
+    return { kind: 'approval', id: segments[0] };
+  }
+  return null;
+}
+
+/**
+ * Map a file under .spec-workflow to the resource URI it is exposed as, if any
+ */
+export function resourceUriForFile(projectPath: string, filePath: string): string | null {
+  const parts = relative(PathUtils.getWorkflowRoot(projectPath), filePath).split(sep);
+
+  if (parts.length === 3 && parts[0] === 'specs' && parts[2].endsWith('.md')) {
+    const document = parts[2].slice(0, -3);
+    if ((SPEC_DOCUMENTS as readonly string[]).includes(document)) {
+      return `spec-workflow://specs/${encodeURIComponent(parts[1])}/${document}`;
+    }
+  }
+  if (parts.length === 2 && parts[0] === 'steering' && parts[1].endsWith('.md')) {
+    const document = parts[1].slice(0, -3);
+    if ((STEERING_DOCUMENTS as readonly string[]).includes(document)) {
+      return `spec-workflow://steering/${document}`;
+    }
+  }
+  if (parts.length === 3 && parts[0] === 'approvals' && parts[2].endsWith('.json')) {
+    return `spec-workflow://approvals/${encodeURIComponent(basename(parts[2], '.json'))}`;
+  }
+  return null;
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await fs.access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Every spec document, steering document and approval request in the project
+ */
+export async function listProjectResources(projectPath: string): Promise<Resource[]> {
+  const resources: Resource[] = [];
+
+  const specsPath = PathUtils.getSpecPath(projectPath, '');
+  let specNames: string[] = [];
+  try {
+    const entries = await fs.readdir(specsPath, { withFileTypes: true });
+    specNames = entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+  } catch {
+    // No specs yet
+  }
+  for (const name of specNames) {
+    for (const document of SPEC_DOCUMENTS) {
+      if (await fileExists(join(specsPath, name, `${document}.md`))) {
+        resources.push({
+          uri: `spec-workflow://specs/${encodeURIComponent(name)}/${document}`,
+          name: `${name}/${document}.md`,
+          description: `${document.charAt(0).toUpperCase()}${document.slice(1)} document of spec ${name}`,
+          mimeType: 'text/markdown'
+        });
+      }
+    }
+  }
+
+  const steeringPath = PathUtils.getSteeringPath(projectPath);
+  for (const document of STEERING_DOCUMENTS) {
+    if (await fileExists(join(steeringPath, `${document}.md`))) {
+      resources.push({
+        uri: `spec-workflow://steering/${document}`,
+        name: `steering/${document}.md`,
+        description: `Steering document: ${document}`,
+        mimeType: 'text/markdown'
+      });
+    }
+  }
+
+  const approvals = await new ApprovalStorage(projectPath).getAllApprovals();
+  for (const approval of approvals) {
+    resources.push({
+      uri: `spec-workflow://approvals/${encodeURIComponent(approval.id)}`,
+      name: `Approval: ${approval.title}`,
+      description: `${approval.status} approval request for ${approval.filePath}`,
+      mimeType: 'application/json'
+    });
+  }
+
+  return resources;
+}
+
+/**
+ * Read a project resource. Returns null when the URI is not a project resource;
+ * throws when it is one but the document or approval does not exist.
+ */
+export async function readProjectResource(projectPath: string, uri: string): Promise<TextResourceContents | null> {
+  const target = parseProjectResourceUri(uri);
+  if (!target) return null;
+
+  if (target.kind === 'approval') {
+    const approval = await new ApprovalStorage(projectPath).getApproval(target.id);
+    if (!approval) {
+      throw new Error(`Approval request not found: ${target.id}`);
+    }
+    return { uri, mimeType: 'application/json', text: JSON.stringify(approval, null, 2) };
+  }
+
+  const filePath = target.kind === 'spec'
+    ? join(PathUtils.getSpecPath(projectPath, target.name), `${target.document}.md`)
+    : join(PathUtils.getSteeringPath(projectPath), `${target.document}.md`);
+  try {
+    return { uri, mimeType: 'text/markdown', text: await fs.readFile(filePath, 'utf-8') };
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new Error(`Document not found: ${relative(projectPath, filePath)}`);
+    }
+    throw error;
+  }
+}
+
+export interface ResourceChangeListener {
+  updated(uri: string): void;
+  listChanged(): void;
+}
+
+/**
+ * Watches the project's documents and approvals, reporting changes to subscribed
+ * resources and to the set of resources that exist
+ */
+export class ProjectResourceWatcher {
+  private projectPath: string;
+  private listener: ResourceChangeListener;
+  private subscriptions: Set<string> = new Set();
+  private watcher?: chokidar.FSWatcher;
+
+  constructor(projectPath: string, listener: ResourceChangeListener) {
+    this.projectPath = projectPath;
+    this.listener = listener;
+  }
+
+  async start(): Promise<void> {
+    // Watch the workflow root rather than globs per directory: chokidar drops glob watches whose
+    // base directory doesn't exist yet, and projects often have no steering docs or approvals.
+    // Depth 2 reaches specs/<name>/*.md and approvals/<category>/*.json but not approval snapshots.
+    this.watcher = chokidar.watch(PathUtils.getWorkflowRoot(this.projectPath), {
+      ignoreInitial: true,
+      persistent: true,
+      ignorePermissionErrors: true,
+      depth: 2
+    });
+
+    this.watcher.on('add', (filePath) => this.handleFileChange(filePath, true));
+    this.watcher.on('change', (filePath) => this.handleFileChange(filePath, false));
+    this.watcher.on('unlink', (filePath) => this.handleFileChange(filePath, true));
+
+    // Add error handler to prevent watcher crashes
+    this.watcher.on('error', (error) => {
+      console.error('Resource watcher error:', error);
+    });
+
+    await new Promise<void>(resolve => this.watcher!.once('ready', () => resolve()));
+  }
+
+  async stop(): Promise<void> {
+    await this.closeWatcher();
+    this.subscriptions.clear();
+  }
+
+  /**
+   * Follow another project. Subscriptions carry over: the same URIs now name its documents.
+   */
+  async setProjectPath(projectPath: string): Promise<void> {
+    const running = !!this.watcher;
+    await this.closeWatcher();
+    this.projectPath = projectPath;
+    if (running) {
+      await this.start();
+    }
+  }
+
+  getProjectPath(): string {
+    return this.projectPath;
+  }
+
+  subscribe(uri: string): void {
+    this.subscriptions.add(uri);
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+  }
+
+  private async closeWatcher(): Promise<void> {
+    if (this.watcher) {
+      this.watcher.removeAllListeners();
+      await this.watcher.close();
+      this.watcher = undefined;
+    }
+  }
+
+  private handleFileChange(filePath: string, existenceChanged: boolean): void {
+    const uri = resourceUriForFile(this.projectPath, filePath);
+    if (!uri) return;
+
+    if (this.subscriptions.has(uri)) {
+      this.listener.updated(uri);
+    }
+    if (existenceChanged) {
+      this.listener.listChanged();
+    }
+  }
+}
@@ -1,39 +1,113 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  SetLevelRequestSchema,
+  LoggingLevel,
   McpError,
   ErrorCode
 } from '@modelcontextprotocol/sdk/types.js';
 import { registerTools, handleToolCall } from './tools/index.js';
-import { registerPrompts, handlePromptList, handlePromptGet } from './prompts/index.js';
+import { handlePromptList, handlePromptGet } from './prompts/index.js';
 import { registerResourceHandlers } from './resources/index.js';
-import { validateProjectPath } from './core/path-utils.js';
-import { WorkspaceInitializer } from './core/workspace-initializer.js';
+import { ProjectResourceWatcher } from './resources/project-resources.js';
+import { PathUtils } from './core/path-utils.js';
 import { ProjectRegistry } from './core/project-registry.js';
-import { DashboardSessionManager } from './core/dashboard-session.js';
+import { ProjectWorkspaces } from './core/project-workspaces.js';
+import { DashboardSessionManager, DashboardSessionEntry } from './core/dashboard-session.js';
+import { tokensMatch } from './dashboard/auth.js';
+import { ToolContext, ToolNotifier, toMCPResponse } from './types.js';
+import {
+  StreamableHttpServerTransport,
+  SESSION_ID_HEADER,
+  isInitializeRequest,
+  readJsonRpcMessages,
+  sendJsonRpcError
+} from './streamable-http-transport.js';
+import { createServer, IncomingMessage, Server as HttpServer, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
 import { readFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 
-export class SpecWorkflowMCPServer {
-  private server: Server;
-  private projectPath!: string;
-  private projectRegistry: ProjectRegistry;
-  private lang?: string;
+const LOG_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
 
-  constructor() {
-    // Get version from package.json
-    const __dirname = dirname(fileURLToPath(import.meta.url));
-    const packageJsonPath = join(__dirname, '..', 'package.json');
-    const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
+function readPackageVersion(): string {
+  const __dirname = dirname(fileURLToPath(import.meta.url));
+  const packageJsonPath = join(__dirname, '..', 'package.json');
+  return JSON.parse(readFileSync(packageJsonPath, 'utf-8')).version;
+}
+
+/**
+ * The running dashboard's session, if any
+ */
+async function findDashboardSession(): Promise<DashboardSessionEntry | null> {
+  try {
+    return await new DashboardSessionManager().getDashboardSession();
+  } catch (error) {
+    // Dashboard not running, continue without it
+    return null;
+  }
+}
 
-    // Get all registered tools and prompts
+/**
+ * Dashboard URL for links in tool responses, if a dashboard is running. The access token is
+ * never handed to tools: it would let the agent act as an admin, e.g. approve its own requests.
+ */
+async function findDashboard(): Promise<Pick<ToolContext, 'dashboardUrl'>> {
+  const dashboardSession = await findDashboardSession();
+  return dashboardSession ? { dashboardUrl: dashboardSession.url } : {};
+}
+
+/**
+ * Check if running in Docker mode (path translation enabled)
+ * When in Docker, we can't verify host PIDs and want projects to persist
+ */
+function isDockerMode(): boolean {
+  const hostPrefix = process.env.SPEC_WORKFLOW_HOST_PATH_PREFIX;
+  const containerPrefix = process.env.SPEC_WORKFLOW_CONTAINER_PATH_PREFIX;
+  return !!(hostPrefix && containerPrefix);
+}
+
+async function unregisterProjects(projectRegistry: ProjectRegistry, projectPaths: Iterable<string>): Promise<void> {
+  // Only unregister when NOT in Docker mode
+  // In Docker, projects should persist across sessions since we can't verify host PIDs
+  if (isDockerMode()) {
+    console.error('Docker mode: skipping project unregistration (projects persist across sessions)');
+    return;
+  }
+  for (const projectPath of projectPaths) {
+    try {
+      await projectRegistry.unregisterProject(projectPath);
+      console.error('Project unregistered from global registry');
+    } catch (error) {
+      // Ignore errors during cleanup
+    }
+  }
+}
+
+/**
+ * An MCP server with the spec workflow tools, prompts and resources. Each connection gets its
+ * own: the SDK server talks to exactly one transport. A session starts on one project and can
+ * switch to any other with the projects tool.
+ */
+class SpecWorkflowSession {
+  readonly server: Server;
+  private context: ToolContext;
+  private workspaces: ProjectWorkspaces;
+  private logLevel: LoggingLevel = 'info';
+  private resourceWatcher: ProjectResourceWatcher;
+
+  constructor(context: ToolContext, workspaces: ProjectWorkspaces) {
+    this.context = context;
+    this.workspaces = workspaces;
+
+    // Get all registered tools
     const tools = registerTools();
-    const prompts = registerPrompts();
 
     // Create tools capability object with each tool name
     const toolsCapability = tools.reduce((acc, tool) => {
@@ -43,104 +117,110 @@ export class SpecWorkflowMCPServer {
 
     this.server = new Server({
       name: 'spec-workflow-mcp',
-      version: packageJson.version
+      version: readPackageVersion()
     }, {
       capabilities: {
         tools: toolsCapability,
         prompts: {
           listChanged: true
         },
-        resources: {}
+        resources: {
+          subscribe: true,
+          listChanged: true
+        },
+        logging: {}
       }
     });
 
-    this.projectRegistry = new ProjectRegistry();
+    this.resourceWatcher = this.setupHandlers();
   }
 
-  async initialize(projectPath: string, lang?: string) {
-    this.projectPath = projectPath;
-    this.lang = lang;
+  async connect(transport: Transport): Promise<void> {
+    await this.server.connect(transport);
 
-    try {
-      // Validate project path
-      await validateProjectPath(this.projectPath);
-
-      // Initialize workspace
-      const __dirname = dirname(fileURLToPath(import.meta.url));
-      const packageJsonPath = join(__dirname, '..', 'package.json');
-      const packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
-      const workspaceInitializer = new WorkspaceInitializer(this.projectPath, packageJson.version);
-      await workspaceInitializer.initializeWorkspace();
-
-      // Register this project in the global registry
-      const projectId = await this.projectRegistry.registerProject(this.projectPath, process.pid);
-      console.error(`Project registered: ${projectId}`);
-
-      // Try to get the dashboard URL from session manager
-      let dashboardUrl: string | undefined = undefined;
-      try {
-        const sessionManager = new DashboardSessionManager();
-        const dashboardSession = await sessionManager.getDashboardSession();
-        if (dashboardSession) {
-          dashboardUrl = dashboardSession.url;
-        }
-      } catch (error) {
-        // Dashboard not running, continue without it
-      }
-
-      // Create context for tools
-      const context = {
-        projectPath: this.projectPath,
-        dashboardUrl: dashboardUrl,
-        lang: this.lang
-      };
-
-      // Register handlers
-      this.setupHandlers(context);
-
-      // Connect to stdio transport
-      const transport = new StdioServerTransport();
-
-      // Handle client disconnection - exit gracefully when transport closes
-      transport.onclose = async () => {
-        await this.stop();
-        process.exit(0);
-      };
-
-      await this.server.connect(transport);
-
-      // Monitor stdin for client disconnection (additional safety net)
-      process.stdin.on('end', async () => {
-        await this.stop();
-        process.exit(0);
-      });
+    // Notifications for resource subscriptions need a connected client
+    await this.resourceWatcher.start();
+  }
 
-      // Handle stdin errors
-      process.stdin.on('error', async (error) => {
-        console.error('stdin error:', error);
-        await this.stop();
-        process.exit(1);
-      });
+  async close(): Promise<void> {
+    await this.resourceWatcher.stop();
+    await this.server.close();
+  }
 
-      // MCP server initialized successfully
+  /**
+   * Make another (already prepared) project the one tools, prompts and resources use by default
+   */
+  private async switchProject(projectPath: string): Promise<void> {
+    if (projectPath === this.context.projectPath) return;
+    this.context = { ...this.context, projectPath };
+    await this.resourceWatcher.setProjectPath(PathUtils.translatePath(projectPath));
+    try {
+      await this.server.sendResourceListChanged();
+    } catch {
+      // The client may have disconnected
+    }
+  }
 
-    } catch (error) {
-      throw error;
+  /**
+   * Context for one tool call, on the project named by its `project` argument if it has one
+   */
+  private async getToolContext(name: string, args: Record<string, unknown>): Promise<ToolContext> {
+    let projectPath = this.context.projectPath;
+    // The projects tool's arguments name the project to act on, not the one to run in
+    const selectsProject = name !== 'projects';
+    if (selectsProject && typeof args.project === 'string' && args.project) {
+      if (args.projectPath) {
+        throw new Error('Provide either project or projectPath, not both');
+      }
+      projectPath = await this.workspaces.resolve(args.project);
+    } else if (selectsProject && typeof args.projectPath === 'string' && args.projectPath) {
+      // Agents pass host paths; in Docker the tools translate them, so prepare the translated path too
+      projectPath = await this.workspaces.prepare(PathUtils.translatePath(args.projectPath));
+    } else {
+      await this.workspaces.prepare(projectPath);
     }
+
+    return {
+      ...this.context,
+      projectPath,
+      workspaces: this.workspaces,
+      switchProject: (path) => this.switchProject(path)
+    };
   }
 
-  private setupHandlers(context: any) {
+  private setupHandlers(): ProjectResourceWatcher {
     // Resource handlers
-    registerResourceHandlers(this.server);
+    const resourceWatcher = registerResourceHandlers(this.server, PathUtils.translatePath(this.context.projectPath));
+
+    // Logging level requested by the client for notifications/message
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.logLevel = request.params.level;
+      return {};
+    });
 
     // Tool handlers
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: registerTools()
     }));
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name } = request.params;
+      const args = request.params.arguments || {};
+
+      let toolContext: ToolContext;
+      try {
+        toolContext = await this.getToolContext(name, args);
+      } catch (error: any) {
+        // An unknown or unusable project is the caller's mistake; report it like a failed tool call
+        return toMCPResponse({ success: false, message: error.message }, true);
+      }
+
       try {
-        return await handleToolCall(request.params.name, request.params.arguments || {}, context);
+        return await handleToolCall(name, args, {
+          ...toolContext,
+          notifier: this.createToolNotifier(request.params._meta?.progressToken),
+          signal: extra.signal
+        });
       } catch (error: any) {
         throw new McpError(ErrorCode.InternalError, error.message);
       }
@@ -160,44 +240,353 @@ export class SpecWorkflowMCPServer {
         return await handlePromptGet(
           request.params.name,
           request.params.arguments || {},
-          context
+          this.context
         );
       } catch (error: any) {
         throw new McpError(ErrorCode.InternalError, error.message);
       }
     });
+
+    return resourceWatcher;
   }
 
   /**
-   * Check if running in Docker mode (path translation enabled)
-   * When in Docker, we can't verify host PIDs and want projects to persist
+   * Notifications for one tool call. Progress is only sent when the client supplied a
+   * progress token; log messages respect the level set with logging/setLevel.
    */
-  private isDockerMode(): boolean {
-    const hostPrefix = process.env.SPEC_WORKFLOW_HOST_PATH_PREFIX;
-    const containerPrefix = process.env.SPEC_WORKFLOW_CONTAINER_PATH_PREFIX;
-    return !!(hostPrefix && containerPrefix);
+  private createToolNotifier(progressToken?: string | number): ToolNotifier {
+    return {
+      progress: async (progress, total, message) => {
+        if (progressToken === undefined) return;
+        try {
+          await this.server.notification({
+            method: 'notifications/progress',
+            params: { progressToken, progress, ...(total !== undefined && { total }), ...(message && { message }) }
+          });
+        } catch {
+          // The client may have disconnected
+        }
+      },
+      log: async (level, message, data) => {
+        if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.logLevel)) return;
+        try {
+          await this.server.sendLoggingMessage({ level, logger: 'spec-workflow', data: { message, ...data } });
+        } catch {
+          // The client may have disconnected
+        }
+      }
+    };
+  }
+}
+
+/**
+ * MCP server for a single project over stdio, exiting when the client disconnects
+ */
+export class SpecWorkflowMCPServer {
+  private session?: SpecWorkflowSession;
+  private projectRegistry: ProjectRegistry;
+  private workspaces: ProjectWorkspaces;
+
+  constructor() {
+    this.projectRegistry = new ProjectRegistry();
+    this.workspaces = new ProjectWorkspaces(this.projectRegistry, readPackageVersion());
+  }
+
+  async initialize(projectPath: string, lang?: string) {
+    const context: ToolContext = {
+      projectPath: await this.workspaces.prepare(projectPath),
+      ...await findDashboard(),
+      lang
+    };
+    this.session = new SpecWorkflowSession(context, this.workspaces);
+
+    // Connect to stdio transport
+    const transport = new StdioServerTransport();
+
+    // Handle client disconnection - exit gracefully when transport closes
+    transport.onclose = async () => {
+      await this.stop();
+      process.exit(0);
+    };
+
+    await this.session.connect(transport);
+
+    // Monitor stdin for client disconnection (additional safety net)
+    process.stdin.on('end', async () => {
+      await this.stop();
+      process.exit(0);
+    });
+
+    // Handle stdin errors
+    process.stdin.on('error', async (error) => {
+      console.error('stdin error:', error);
+      await this.stop();
+      process.exit(1);
+    });
   }
 
   async stop() {
     try {
-      // Only unregister when NOT in Docker mode
-      // In Docker, projects should persist across sessions since we can't verify host PIDs
-      if (!this.isDockerMode()) {
-        try {
-          await this.projectRegistry.unregisterProject(this.projectPath);
-          console.error('Project unregistered from global registry');
-        } catch (error) {
-          // Ignore errors during cleanup
-        }
-      } else {
-        console.error('Docker mode: skipping project unregistration (projects persist across sessions)');
-      }
+      await unregisterProjects(this.projectRegistry, await this.workspaces.getRegisteredPaths());
 
       // Stop MCP server
-      await this.server.close();
+      await this.session?.close();
     } catch (error) {
       console.error('Error during shutdown:', error);
       // Continue with shutdown even if there are errors
     }
   }
-}
\ No newline at end of file
+}
+
+export const DEFAULT_HTTP_PATH = '/mcp';
+
+// Sessions with no requests or open streams for this long are closed
+const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface SpecWorkflowHttpServerOptions {
+  port: number;
+  host: string;
+  // Project for sessions that don't select one with ?project=
+  defaultProjectPath?: string;
+  lang?: string;
+  path?: string;
+}
+
+// Browsers send an Origin header; only pages served from this machine may call the server,
+// which keeps DNS rebinding attacks out. Clients outside a browser send no Origin.
+const LOOPBACK_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+function isAllowedOrigin(origin: string | undefined): boolean {
+  if (origin === undefined) {
+    return true;
+  }
+  try {
+    return LOOPBACK_HOSTNAMES.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+interface HttpSession {
+  transport: StreamableHttpServerTransport;
+  session: SpecWorkflowSession;
+}
+
+/**
+ * MCP server over the Streamable HTTP transport, shared by any number of clients.
+ *
+ * Each client session picks its starting project when it initializes, with a `project` query
+ * parameter holding the ID, name or path of a project in the global registry; without one it gets
+ * the default project. Requests need the dashboard's access token and, from browsers, a local Origin. Sessions run the same tools, prompts and resources as the stdio server.
+ */
+export class SpecWorkflowHttpServer {
+  private options: SpecWorkflowHttpServerOptions;
+  private projectRegistry: ProjectRegistry;
+  private httpServer?: HttpServer;
+  private workspaces: ProjectWorkspaces;
+  private sessions: Map<string, HttpSession> = new Map();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(options: SpecWorkflowHttpServerOptions) {
+    this.options = options;
+    this.projectRegistry = new ProjectRegistry();
+    this.workspaces = new ProjectWorkspaces(this.projectRegistry, readPackageVersion());
+  }
+
+  /**
+   * Start listening; resolves with the MCP endpoint URL
+   */
+  async start(): Promise<string> {
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        console.error('MCP HTTP request failed:', error);
+        sendJsonRpcError(res, 500, ErrorCode.InternalError, 'Internal server error');
+      });
+    });
+    this.httpServer = httpServer;
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => resolve());
+    });
+
+    this.sweepTimer = setInterval(() => this.closeIdleSessions(), SESSION_SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+
+    const address = httpServer.address() as AddressInfo;
+    const host = this.options.host.includes(':') ? `[${this.options.host}]` : this.options.host;
+    return `http://${host}:${address.port}${this.options.path ?? DEFAULT_HTTP_PATH}`;
+  }
+
+  async stop(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+
+    for (const { transport } of [...this.sessions.values()]) {
+      await transport.close();
+    }
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = undefined;
+      const closed = new Promise<void>(resolve => httpServer.close(() => resolve()));
+      // Event streams and keep-alive sockets would otherwise hold the server open
+      httpServer.closeAllConnections();
+      await closed;
+    }
+
+    await unregisterProjects(this.projectRegistry, await this.workspaces.getRegisteredPaths());
+  }
+
+  /**
+   * Handle a request to the MCP endpoint. Exposed so the endpoint can be mounted on another HTTP server.
+   */
+  async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== (this.options.path ?? DEFAULT_HTTP_PATH)) {
+      sendJsonRpcError(res, 404, -32000, 'Not found');
+      return;
+    }
+
+    if (!isAllowedOrigin(req.headers.origin)) {
+      sendJsonRpcError(res, 403, -32000, 'Origin not allowed');
+      return;
+    }
+
+    const authError = await this.checkAuthorization(req);
+    if (authError) {
+      sendJsonRpcError(res, 401, -32000, authError);
+      return;
+    }
+
+    const sessionId = req.headers[SESSION_ID_HEADER];
+
+    if (req.method === 'POST') {
+      const messages = await readJsonRpcMessages(req, res);
+      if (!messages) return;
+
+      if (messages.some(isInitializeRequest)) {
+        if (messages.length > 1) {
+          sendJsonRpcError(res, 400, ErrorCode.InvalidRequest, 'initialize must be sent on its own');
+          return;
+        }
+        const httpSession = await this.createSession(url.searchParams.get('project'), res);
+        if (httpSession) {
+          await httpSession.transport.handlePost(res, messages);
+        }
+        return;
+      }
+
+      const httpSession = this.getSession(sessionId, res);
+      if (httpSession) {
+        await httpSession.transport.handlePost(res, messages);
+      }
+      return;
+    }
+
+    if (req.method === 'GET') {
+      if (!(req.headers.accept || '').includes('text/event-stream')) {
+        sendJsonRpcError(res, 406, -32000, 'Accept must include text/event-stream');
+        return;
+      }
+      this.getSession(sessionId, res)?.transport.handleGet(res);
+      return;
+    }
+
+    if (req.method === 'DELETE') {
+      const httpSession = this.getSession(sessionId, res);
+      if (httpSession) {
+        await httpSession.transport.close();
+        res.writeHead(200).end();
+      }
+      return;
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Requests must carry the running dashboard's access token as a Bearer token. The token is read
+   * on every request, so a restarted dashboard's new token takes effect immediately.
+   */
+  private async checkAuthorization(req: IncomingMessage): Promise<string | undefined> {
+    const dashboardToken = (await findDashboardSession())?.token;
+    if (!dashboardToken) {
+      return 'No dashboard is running: start it with --dashboard, then send its access token as a Bearer token';
+    }
+    const header = req.headers.authorization;
+    const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : undefined;
+    return tokensMatch(dashboardToken, token) ? undefined : 'Missing or invalid access token';
+  }
+
+  private getSession(sessionId: string | string[] | undefined, res: ServerResponse): HttpSession | undefined {
+    if (typeof sessionId !== 'string') {
+      sendJsonRpcError(res, 400, -32000, 'Missing Mcp-Session-Id header; send initialize first');
+      return undefined;
+    }
+    const httpSession = this.sessions.get(sessionId);
+    if (!httpSession) {
+      // Tells the client to start a new session
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+    }
+    return httpSession;
+  }
+
+  private async createSession(project: string | null, res: ServerResponse): Promise<HttpSession | undefined> {
+    let projectPath: string;
+    try {
+      projectPath = await this.resolveProject(project);
+    } catch (error: any) {
+      sendJsonRpcError(res, 400, ErrorCode.InvalidParams, error.message);
+      return undefined;
+    }
+
+    const context: ToolContext = { projectPath, ...await findDashboard(), lang: this.options.lang };
+    const transport = new StreamableHttpServerTransport();
+    const session = new SpecWorkflowSession(context, this.workspaces);
+    const httpSession = { transport, session };
+    this.sessions.set(transport.sessionId, httpSession);
+
+    await session.connect(transport);
+
+    // Set after connecting: the SDK server installs its own onclose on the transport
+    const serverOnClose = transport.onclose;
+    transport.onclose = () => {
+      serverOnClose?.();
+      this.sessions.delete(transport.sessionId);
+      session.close().catch(error => console.error('Error closing MCP session:', error));
+    };
+
+    return httpSession;
+  }
+
+  /**
+   * Find the project for a new session: the ID, name or path of a registered project, or the default
+   */
+  private async resolveProject(project: string | null): Promise<string> {
+    if (project) {
+      return this.workspaces.resolve(project, { registeredOnly: true });
+    }
+    if (!this.options.defaultProjectPath) {
+      throw new Error('No project selected: add ?project=<path or project ID> to the MCP URL');
+    }
+    return this.workspaces.prepare(this.options.defaultProjectPath);
+  }
+
+  private closeIdleSessions(): void {
+    for (const { transport } of [...this.sessions.values()]) {
+      if (transport.isIdle(SESSION_IDLE_TIMEOUT_MS)) {
+        transport.close().catch(() => {
+          // Already closed
+        });
+      }
+    }
+  }
+}
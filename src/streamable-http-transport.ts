@@ -0,0 +1,212 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+
+export const SESSION_ID_HEADER = 'mcp-session-id';
+
+const MAXIMUM_MESSAGE_SIZE = 4 * 1024 * 1024;
+
+// An SSE response that carries the answers to one POST's requests
+interface RequestStream {
+  res: ServerResponse;
+  pending: Set<string | number>;
+}
+
+/**
+ * Write a JSON-RPC error as a plain HTTP response. Used for failures before a message reaches the server.
+ */
+export function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+/**
+ * Read and validate the JSON-RPC message(s) in a POST body. Writes the error response and
+ * returns null when the body is unusable.
+ */
+export async function readJsonRpcMessages(req: IncomingMessage, res: ServerResponse): Promise<JSONRPCMessage[] | null> {
+  const contentType = req.headers['content-type'] || '';
+  if (!contentType.includes('application/json')) {
+    sendJsonRpcError(res, 415, -32000, 'Content-Type must be application/json');
+    return null;
+  }
+
+  let body = '';
+  try {
+    for await (const chunk of req) {
+      body += chunk;
+      if (body.length > MAXIMUM_MESSAGE_SIZE) {
+        sendJsonRpcError(res, 413, -32000, 'Message too large');
+        return null;
+      }
+    }
+  } catch {
+    sendJsonRpcError(res, 400, -32000, 'Could not read request body');
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    sendJsonRpcError(res, 400, -32700, 'Parse error');
+    return null;
+  }
+
+  const messages: JSONRPCMessage[] = [];
+  for (const item of Array.isArray(parsed) ? parsed : [parsed]) {
+    const result = JSONRPCMessageSchema.safeParse(item);
+    if (!result.success) {
+      sendJsonRpcError(res, 400, -32600, 'Invalid JSON-RPC message');
+      return null;
+    }
+    messages.push(result.data);
+  }
+  return messages;
+}
+
+function isRequest(message: JSONRPCMessage): message is JSONRPCMessage & { id: string | number; method: string } {
+  return 'method' in message && 'id' in message;
+}
+
+function isResponse(message: JSONRPCMessage): message is JSONRPCMessage & { id: string | number } {
+  return !('method' in message) && 'id' in message;
+}
+
+export function isInitializeRequest(message: JSONRPCMessage): boolean {
+  return 'method' in message && message.method === 'initialize';
+}
+
+/**
+ * Server side of the MCP Streamable HTTP transport for one session.
+ *
+ * Clients POST JSON-RPC messages. A POST that contains requests is answered with an SSE
+ * stream that carries the responses, and closes once they have all been sent. Notifications
+ * sent while a request is running (progress, log messages) go out on that request's stream;
+ * anything else goes on the optional stream the client opens with GET.
+ */
+export class StreamableHttpServerTransport implements Transport {
+  readonly sessionId: string = randomUUID();
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private requestStreams: RequestStream[] = [];
+  private standaloneStream?: ServerResponse;
+  private closed = false;
+  private lastActivity = Date.now();
+
+  async start(): Promise<void> {
+    // Nothing to do until the first request arrives
+  }
+
+  /**
+   * Handle a POST whose body has already been parsed
+   */
+  async handlePost(res: ServerResponse, messages: JSONRPCMessage[]): Promise<void> {
+    this.lastActivity = Date.now();
+    const requests = messages.filter(isRequest);
+
+    if (requests.length === 0) {
+      res.writeHead(202, { 'Mcp-Session-Id': this.sessionId }).end();
+    } else {
+      const stream: RequestStream = { res, pending: new Set(requests.map(request => request.id)) };
+      this.requestStreams.push(stream);
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'Mcp-Session-Id': this.sessionId
+      });
+      res.flushHeaders();
+      res.on('close', () => this.removeRequestStream(stream));
+    }
+
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+  }
+
+  /**
+   * Handle a GET that opens the stream for server-initiated messages
+   */
+  handleGet(res: ServerResponse): void {
+    this.lastActivity = Date.now();
+    if (this.standaloneStream) {
+      sendJsonRpcError(res, 409, -32000, 'An event stream is already open for this session');
+      return;
+    }
+
+    this.standaloneStream = res;
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'Mcp-Session-Id': this.sessionId
+    });
+    // Let the client see the stream is open before the first message
+    res.flushHeaders();
+    res.on('close', () => {
+      if (this.standaloneStream === res) {
+        this.standaloneStream = undefined;
+      }
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error('Not connected');
+    }
+
+    if (isResponse(message)) {
+      const stream = this.requestStreams.find(s => s.pending.has(message.id));
+      if (!stream) return; // The client went away before the answer was ready
+      this.write(stream.res, message);
+      stream.pending.delete(message.id);
+      if (stream.pending.size === 0) {
+        this.removeRequestStream(stream);
+        stream.res.end();
+      }
+      return;
+    }
+
+    // Prefer the stream of the most recent request still running; it is the one most likely waiting on this
+    const target = this.requestStreams[this.requestStreams.length - 1]?.res ?? this.standaloneStream;
+    if (target) {
+      this.write(target, message);
+    }
+    // Without an open stream there is nowhere to deliver the message; the client will re-read state when it reconnects
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    for (const stream of this.requestStreams) {
+      stream.res.end();
+    }
+    this.requestStreams = [];
+    this.standaloneStream?.end();
+    this.standaloneStream = undefined;
+
+    this.onclose?.();
+  }
+
+  /**
+   * Whether the session has had no requests and no open streams for the given time
+   */
+  isIdle(idleMs: number, now: number = Date.now()): boolean {
+    return this.requestStreams.length === 0 && !this.standaloneStream && now - this.lastActivity >= idleMs;
+  }
+
+  private write(res: ServerResponse, message: JSONRPCMessage): void {
+    res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  private removeRequestStream(stream: RequestStream): void {
+    this.requestStreams = this.requestStreams.filter(s => s !== stream);
+    this.lastActivity = Date.now();
+  }
+}
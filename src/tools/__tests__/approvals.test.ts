@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { approvalsHandler, approvalsTool } from '../approvals.js';
+import { ApprovalStorage } from '../../dashboard/approval-storage.js';
+import { ToolContext, ToolNotifier } from '../../types.js';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const PRODUCT_CONTENT = `# Product Overview
+
+## Product Purpose
+Track team expenses.
+
+## Target Users
+Small finance teams.
+
+## Key Features
+1. **Receipts**: Upload and categorize receipts
+
+## Business Objectives
+- Reduce month-end close time
+
+## Success Metrics
+- Close time: under 2 days
+
+## Product Principles
+1. **Simple**: Fewer fields beat more fields
+
+## Future Vision
+Multi-currency support.
+`;
+
+describe('approvals tool', () => {
+  let testDir: string;
+  let context: ToolContext;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-approvals-test-${Date.now()}`);
+    await fs.mkdir(join(testDir, '.spec-workflow', 'steering'), { recursive: true });
+    context = { projectPath: testDir };
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  function requestProductApproval() {
+    return approvalsHandler({
+      action: 'request',
+      title: 'Product steering',
+      filePath: '.spec-workflow/steering/product.md',
+      type: 'document',
+      category: 'steering',
+      categoryName: 'steering'
+    }, context);
+  }
+
+  it('should create an approval request for a complete document', async () => {
+    await fs.writeFile(join(testDir, '.spec-workflow', 'steering', 'product.md'), PRODUCT_CONTENT);
+
+    const result = await requestProductApproval();
+    expect(result.success).toBe(true);
+    expect(result.data.approvalId).toBeDefined();
+  });
+
+  it('should reject documents with missing sections or template placeholders', async () => {
+    const incomplete = PRODUCT_CONTENT
+      .replace('## Success Metrics\n- Close time: under 2 days\n\n', '')
+      .replace('Small finance teams.', '[Who are the primary users of this product? What are their needs and pain points?]');
+    await fs.writeFile(join(testDir, '.spec-workflow', 'steering', 'product.md'), incomplete);
+
+    const result = await requestProductApproval();
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Product document has format errors that must be fixed before approval');
+    expect(result.data.errorCount).toBe(2);
+    expect(result.nextSteps).toContain('  Line 1 (Section Success Metrics): Missing required section "Success Metrics"');
+
+    const approvalsDir = join(testDir, '.spec-workflow', 'approvals', 'steering');
+    await expect(fs.readdir(approvalsDir)).rejects.toThrow();
+  });
+
+  describe('wait action', () => {
+    let logs: string[];
+
+    beforeEach(async () => {
+      logs = [];
+      const notifier: ToolNotifier = {
+        progress: async () => undefined,
+        log: async (level, message) => { logs.push(`${level}: ${message}`); }
+      };
+      context = { projectPath: testDir, notifier };
+      await fs.writeFile(join(testDir, '.spec-workflow', 'steering', 'product.md'), PRODUCT_CONTENT);
+    });
+
+    it('should return as soon as the approval is decided', async () => {
+      const { data } = await requestProductApproval();
+
+      const waiting = approvalsHandler({ action: 'wait', approvalId: data.approvalId, timeoutSeconds: 30 }, context);
+      setTimeout(() => {
+        new ApprovalStorage(testDir).updateApproval(data.approvalId, 'approved', 'Looks good', undefined, undefined, 'alice');
+      }, 300);
+
+      const result = await waiting;
+      expect(result.success).toBe(true);
+      expect(result.data.status).toBe('approved');
+      expect(result.data.canProceed).toBe(true);
+      expect(logs).toEqual([
+        'info: Waiting for a decision on "Product steering"',
+        'notice: Approval "Product steering" is approved'
+      ]);
+
+      // Already decided: no waiting at all
+      const again = await approvalsHandler({ action: 'wait', approvalId: data.approvalId }, context);
+      expect(again.data.status).toBe('approved');
+    });
+
+    it('should report a pending status when the timeout passes', async () => {
+      const { data } = await requestProductApproval();
+
+      const result = await approvalsHandler({ action: 'wait', approvalId: data.approvalId, timeoutSeconds: 1 }, context);
+      expect(result.success).toBe(true);
+      expect(result.data.status).toBe('pending');
+      expect(result.data.timedOut).toBe(true);
+      expect(result.message).toContain('Still pending after 1s, call wait again');
+    });
+
+    it('should keep each wait below common client request timeouts', () => {
+      const timeout = (approvalsTool.inputSchema.properties as any).timeoutSeconds;
+      expect(timeout.description).toContain('default 50, max 55');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { queryLogsHandler } from '../query-logs.js';
+import { ToolContext } from '../../types.js';
+import { ImplementationLogManager } from '../../dashboard/implementation-log-manager.js';
+import { PathUtils } from '../../core/path-utils.js';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('query-logs tool', () => {
+  let testDir: string;
+  let context: ToolContext;
+
+  async function addLog(specPath: string, taskId: string, timestamp: string, summary: string, artifacts: any) {
+    const manager = new ImplementationLogManager(specPath);
+    await manager.addLogEntry({
+      taskId,
+      timestamp,
+      summary,
+      filesModified: [],
+      filesCreated: [],
+      statistics: { linesAdded: 10, linesRemoved: 0, filesChanged: 1 },
+      artifacts
+    });
+  }
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-query-logs-test-${Date.now()}`);
+    context = { projectPath: testDir };
+
+    const auth = PathUtils.getSpecPath(testDir, 'auth');
+    await addLog(auth, '1', '2025-01-10T10:00:00.000Z', 'Added JWT issuing', {
+      classes: [{ name: 'JwtService', purpose: 'Issues and verifies signed JWTs for logged-in users', location: 'src/auth/jwt_service.ts', methods: ['issue', 'verify'], isExported: true }]
+    });
+    await addLog(auth, '2', '2025-02-10T10:00:00.000Z', 'Password hashing', {
+      functions: [{ name: 'hashPassword', purpose: 'Hash a password with bcrypt', location: 'src/auth/password.ts:12', signature: '(plain: string) => Promise<string>', isExported: true }]
+    });
+
+    const billing = PathUtils.getArchiveSpecPath(testDir, 'billing');
+    await addLog(billing, '1', '2024-12-01T10:00:00.000Z', 'Invoice endpoint', {
+      apiEndpoints: [{ method: 'GET', path: '/api/invoices/:id', purpose: 'Fetch one invoice for the signed-in user', location: 'src/billing/routes.ts:40' }]
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should find artifacts through related terms, word parts and typos, ranked', async () => {
+    const auth = await queryLogsHandler({ searchTerm: 'auth token' }, context);
+    expect(auth.success).toBe(true);
+    expect(auth.data.matches[0].artifact.data.name).toBe('JwtService');
+    expect(auth.data.matches[0].matchedTerms).toContain('jwts');
+
+    const parts = await queryLogsHandler({ searchTerm: 'hash_password' }, context);
+    expect(parts.data.matches[0].artifact.data.name).toBe('hashPassword');
+
+    const typo = await queryLogsHandler({ searchTerm: 'invoce' }, context);
+    expect(typo.data.matches.map((m: any) => m.artifact.type)).toEqual(['apiEndpoint']);
+
+    const scores = (await queryLogsHandler({ searchTerm: 'user' }, context)).data.matches.map((m: any) => m.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it('should filter by type, date and archive state', async () => {
+    const functions = await queryLogsHandler({ searchTerm: 'auth', artifactType: 'functions' }, context);
+    expect(functions.data.matches.map((m: any) => m.artifact.data.name)).toEqual(['hashPassword']);
+
+    const recent = await queryLogsHandler({ searchTerm: 'user', since: '2025-01-01' }, context);
+    expect(recent.data.matches.every((m: any) => m.specName === 'auth')).toBe(true);
+
+    const archived = await queryLogsHandler({ searchTerm: 'user', archived: 'only' }, context);
+    expect(archived.data.matches.map((m: any) => m.specName)).toEqual(['billing']);
+    expect(archived.data.matches[0].isArchived).toBe(true);
+
+    const invalid = await queryLogsHandler({ searchTerm: 'user', until: 'next week' }, context);
+    expect(invalid.success).toBe(false);
+  });
+
+  it('should paginate ranked matches', async () => {
+    const first = await queryLogsHandler({ searchTerm: 'user password invoice', limit: 2 }, context);
+    expect(first.data).toMatchObject({ total: 3, offset: 0, limit: 2, hasMore: true });
+    expect(first.data.matches).toHaveLength(2);
+
+    const second = await queryLogsHandler({ searchTerm: 'user password invoice', limit: 2, offset: 2 }, context);
+    expect(second.data.matches).toHaveLength(1);
+    expect(second.data.hasMore).toBe(false);
+    const seen = [...first.data.matches, ...second.data.matches].map((m: any) => `${m.specName}/${m.taskId}`);
+    expect(new Set(seen).size).toBe(3);
+  });
+
+  it('should verify matching artifacts against the code and report them in later searches', async () => {
+    await fs.mkdir(join(testDir, 'src', 'auth'), { recursive: true });
+    await fs.writeFile(join(testDir, 'src', 'auth', 'jwt_service.ts'), 'export class JwtService {\n  issue() {}\n}\n');
+
+    expect((await queryLogsHandler({ mode: 'search' }, context)).success).toBe(false);
+
+    const verified = await queryLogsHandler({ mode: 'verify', archived: 'exclude' }, context);
+    expect(verified.success).toBe(true);
+    expect(verified.data.verification).toEqual({ verified: 1, moved: 0, stale: 1, unverifiable: 0 });
+    const byName = Object.fromEntries(verified.data.matches.map((m: any) => [m.artifact.data.name, m.verification]));
+    expect(byName.JwtService).toMatchObject({ status: 'verified', location: 'src/auth/jwt_service.ts:1' });
+    expect(byName.hashPassword.status).toBe('stale');
+
+    const search = await queryLogsHandler({ searchTerm: 'hashPassword' }, context);
+    expect(search.data.matches[0].verification.status).toBe('stale');
+  });
+});
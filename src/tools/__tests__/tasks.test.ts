@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { tasksHandler } from '../tasks.js';
+import { ToolContext } from '../../types.js';
+import { ApprovalStorage } from '../../dashboard/approval-storage.js';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+const TASKS_CONTENT = `# Tasks Document
+
+- [ ] 1. Create interfaces
+  - File: src/types.ts
+  - _Prompt: Role: TypeScript Developer | Task: Create interfaces | Restrictions: None | Success: Compiles_
+
+- [ ] 2. Create model
+  - File: src/model.ts
+  - _Depends: 1_
+
+- [ ] 3. Write docs
+  - File: README.md
+`;
+
+describe('tasks tool', () => {
+  let testDir: string;
+  let tasksFile: string;
+  let context: ToolContext;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `spec-workflow-tasks-test-${Date.now()}`);
+    const specDir = join(testDir, '.spec-workflow', 'specs', 'test-spec');
+    await fs.mkdir(specDir, { recursive: true });
+    tasksFile = join(specDir, 'tasks.md');
+    await fs.writeFile(tasksFile, TASKS_CONTENT);
+    context = { projectPath: testDir };
+    await approveTasks();
+  });
+
+  async function approveTasks() {
+    const storage = new ApprovalStorage(testDir);
+    const approvalId = await storage.createApproval(
+      'Tasks', '.spec-workflow/specs/test-spec/tasks.md', 'spec', 'test-spec'
+    );
+    await storage.updateApproval(approvalId, 'approved', 'Looks good');
+  }
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should list tasks with dependency state', async () => {
+    const result = await tasksHandler({ action: 'list', specName: 'test-spec' }, context);
+    expect(result.success).toBe(true);
+    expect(result.data.tasks).toHaveLength(3);
+    expect(result.data.tasks[1].blockedBy).toEqual(['1']);
+    expect(result.data.summary.ready).toBe(2);
+  });
+
+  it('should start the next ready task and return its structured prompt', async () => {
+    const result = await tasksHandler({ action: 'start', specName: 'test-spec' }, context);
+    expect(result.success).toBe(true);
+    expect(result.data.task.id).toBe('1');
+    expect(result.data.task.promptStructured).toContainEqual({ key: 'Role', value: 'TypeScript Developer' });
+
+    const content = await fs.readFile(tasksFile, 'utf-8');
+    expect(content).toContain('- [-] 1. Create interfaces');
+  });
+
+  it('should refuse to start a second task while one is in progress', async () => {
+    await tasksHandler({ action: 'start', specName: 'test-spec', taskId: '1' }, context);
+    const result = await tasksHandler({ action: 'start', specName: 'test-spec', taskId: '3' }, context);
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('Task 1 is already in progress');
+
+    const content = await fs.readFile(tasksFile, 'utf-8');
+    expect(content).toContain('- [ ] 3. Write docs');
+  });
+
+  it('should refuse to start a blocked task', async () => {
+    const result = await tasksHandler({ action: 'start', specName: 'test-spec', taskId: '2' }, context);
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('blocked by unfinished dependencies: 1');
+  });
+
+  it('should complete the in-progress task and suggest the next ready task', async () => {
+    await tasksHandler({ action: 'start', specName: 'test-spec', taskId: '1' }, context);
+    const result = await tasksHandler({ action: 'complete', specName: 'test-spec' }, context);
+    expect(result.success).toBe(true);
+    expect(result.data.taskId).toBe('1');
+    expect(result.data.nextTask.id).toBe('2');
+
+    const content = await fs.readFile(tasksFile, 'utf-8');
+    expect(content).toContain('- [x] 1. Create interfaces');
+  });
+
+  it('should reset a task to pending', async () => {
+    await tasksHandler({ action: 'start', specName: 'test-spec', taskId: '3' }, context);
+    const result = await tasksHandler({ action: 'reset', specName: 'test-spec', taskId: '3' }, context);
+    expect(result.success).toBe(true);
+    expect(result.data.previousStatus).toBe('in-progress');
+
+    const content = await fs.readFile(tasksFile, 'utf-8');
+    expect(content).toBe(TASKS_CONTENT);
+  });
+
+  describe('approval gate', () => {
+    it('should refuse status changes when tasks.md was never approved', async () => {
+      await fs.rm(join(testDir, '.spec-workflow', 'approvals'), { recursive: true, force: true });
+
+      const result = await tasksHandler({ action: 'start', specName: 'test-spec', taskId: '1' }, context);
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('have not been approved');
+
+      const list = await tasksHandler({ action: 'list', specName: 'test-spec' }, context);
+      expect(list.success).toBe(true);
+    });
+
+    it('should refuse status changes when tasks.md changed since approval', async () => {
+      await fs.appendFile(tasksFile, '\n- [ ] 4. Unapproved extra task\n  - File: src/extra.ts\n');
+
+      const result = await tasksHandler({ action: 'start', specName: 'test-spec', taskId: '1' }, context);
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('changed since it was approved');
+    });
+
+    it('should not treat checkbox progress as a change to the approved plan', async () => {
+      await tasksHandler({ action: 'start', specName: 'test-spec', taskId: '1' }, context);
+      await tasksHandler({ action: 'complete', specName: 'test-spec', taskId: '1' }, context);
+
+      const result = await tasksHandler({ action: 'start', specName: 'test-spec', taskId: '2' }, context);
+      expect(result.success).toBe(true);
+    });
+  });
+
+  it('should fail for unknown task IDs and missing tasks.md', async () => {
+    const unknown = await tasksHandler({ action: 'reset', specName: 'test-spec', taskId: '9' }, context);
+    expect(unknown.success).toBe(false);
+    expect(unknown.message).toContain("Task '9' not found");
+
+    const missing = await tasksHandler({ action: 'list', specName: 'other-spec' }, context);
+    expect(missing.success).toBe(false);
+    expect(missing.message).toContain('No tasks.md found');
+  });
+});
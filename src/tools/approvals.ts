@@ -1,37 +1,58 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { ToolContext, ToolResponse } from '../types.js';
-import { ApprovalStorage } from '../dashboard/approval-storage.js';
+import { ApprovalStorage, ApprovalRequest, loadApprovalPolicy, getApprovalProgress } from '../dashboard/approval-storage.js';
 import { join } from 'path';
 import { validateProjectPath, PathUtils } from '../core/path-utils.js';
 import { readFile } from 'fs/promises';
-import { validateTasksMarkdown, formatValidationErrors } from '../core/task-validator.js';
+import { buildDashboardLink } from '../core/dashboard-session.js';
+import {
+  getDocumentType,
+  validateProjectDocument,
+  formatDocumentValidationIssues
+} from '../core/document-validator.js';
+
+// Below the ~60s request timeout of common MCP clients; longer waits are a loop of wait calls
+const DEFAULT_WAIT_SECONDS = 50;
+const MAX_WAIT_SECONDS = 55;
+const WAIT_PROGRESS_INTERVAL_MS = 15000;
 
 export const approvalsTool: Tool = {
   name: 'approvals',
   description: `Manage approval requests through the dashboard interface.
 
 # Instructions
-Use this tool to request, check status, or delete approval requests. The action parameter determines the operation:
+Use this tool to request, wait for, check status, or delete approval requests. The action parameter determines the operation:
 - 'request': Create a new approval request after creating each document
-- 'status': Check the current status of an approval request
+- 'wait': Block until the approval is decided or timeoutSeconds pass, then return the same result as 'status'. While the result is still pending with timedOut true, call 'wait' again; use this instead of calling 'status' in a loop
+- 'status': Check the current status of an approval request, including each reviewer's decision and the reviewers still outstanding when the project requires several approvals
 - 'delete': Clean up completed, rejected, or needs-revision approval requests (cannot delete pending requests)
 
+Spec and steering documents are validated before a request is created: missing template sections, leftover template placeholders, and format errors in requirements.md and tasks.md reject the request with line-numbered errors to fix.
+
 CRITICAL: Only provide filePath parameter for requests - the dashboard reads files directly. Never include document content. Wait for user to review and approve before continuing.`,
   inputSchema: {
     type: 'object',
     properties: {
       action: {
         type: 'string',
-        enum: ['request', 'status', 'delete'],
-        description: 'The action to perform: request, status, or delete'
+        enum: ['request', 'wait', 'status', 'delete'],
+        description: 'The action to perform: request, wait, status, or delete'
       },
       projectPath: {
         type: 'string',
         description: 'Absolute path to the project root (optional - uses server context path if not provided)'
       },
+      project: {
+        type: 'string',
+        description: 'Project ID or name from the projects tool (optional - uses the active project if not provided)'
+      },
       approvalId: {
         type: 'string',
-        description: 'The ID of the approval request (required for status and delete actions)'
+        description: 'The ID of the approval request (required for wait, status and delete actions)'
+      },
+      timeoutSeconds: {
+        type: 'number',
+        description: `How long the wait action blocks before returning a pending status (default ${DEFAULT_WAIT_SECONDS}, max ${MAX_WAIT_SECONDS})`
       },
       title: {
         type: 'string',
@@ -77,19 +98,30 @@ type StatusApprovalArgs = {
   approvalId: string;
 };
 
+type WaitApprovalArgs = {
+  action: 'wait';
+  projectPath?: string;
+  approvalId: string;
+  timeoutSeconds?: number;
+};
+
 type DeleteApprovalArgs = {
   action: 'delete';
   projectPath?: string;
   approvalId: string;
 };
 
-type ApprovalArgs = RequestApprovalArgs | StatusApprovalArgs | DeleteApprovalArgs;
+type ApprovalArgs = RequestApprovalArgs | WaitApprovalArgs | StatusApprovalArgs | DeleteApprovalArgs;
 
 // Type guard functions
 function isRequestApproval(args: ApprovalArgs): args is RequestApprovalArgs {
   return args.action === 'request';
 }
 
+function isWaitApproval(args: ApprovalArgs): args is WaitApprovalArgs {
+  return args.action === 'wait';
+}
+
 function isStatusApproval(args: ApprovalArgs): args is StatusApprovalArgs {
   return args.action === 'status';
 }
@@ -100,9 +132,10 @@ function isDeleteApproval(args: ApprovalArgs): args is DeleteApprovalArgs {
 
 export async function approvalsHandler(
   args: {
-    action: 'request' | 'status' | 'delete';
+    action: 'request' | 'wait' | 'status' | 'delete';
     projectPath?: string;
     approvalId?: string;
+    timeoutSeconds?: number;
     title?: string;
     filePath?: string;
     type?: 'document' | 'action';
@@ -127,6 +160,18 @@ export async function approvalsHandler(
         return handleRequestApproval(typedArgs, context);
       }
       break;
+    case 'wait':
+      if (isWaitApproval(typedArgs)) {
+        // Validate required fields for wait
+        if (!args.approvalId) {
+          return {
+            success: false,
+            message: 'Missing required field for wait action. Required: approvalId'
+          };
+        }
+        return handleWaitForApproval(typedArgs, context);
+      }
+      break;
     case 'status':
       if (isStatusApproval(typedArgs)) {
         // Validate required fields for status
@@ -154,7 +199,7 @@ export async function approvalsHandler(
     default:
       return {
         success: false,
-        message: `Unknown action: ${(args as any).action}. Use 'request', 'status', or 'delete'.`
+        message: `Unknown action: ${(args as any).action}. Use 'request', 'wait', 'status', or 'delete'.`
       };
   }
 
@@ -188,79 +233,99 @@ async function handleRequestApproval(
     const approvalStorage = new ApprovalStorage(translatedPath, validatedProjectPath);
     await approvalStorage.start();
 
-    // Validate tasks.md format before allowing approval request
-    if (args.filePath.endsWith('tasks.md')) {
+    // Validate spec and steering documents before allowing approval request
+    let validationWarnings: string[] = [];
+    const documentType = getDocumentType(args.filePath);
+    if (documentType) {
       try {
         const fullPath = join(validatedProjectPath, args.filePath);
         const content = await readFile(fullPath, 'utf-8');
-        const validationResult = validateTasksMarkdown(content);
+        const validationResult = await validateProjectDocument(translatedPath, documentType, content);
 
         if (!validationResult.valid) {
           await approvalStorage.stop();
 
-          const errorMessages = formatValidationErrors(validationResult);
+          const errorMessages = formatDocumentValidationIssues(validationResult);
+          const documentLabel = documentType.charAt(0).toUpperCase() + documentType.slice(1);
 
           return {
             success: false,
-            message: 'Tasks document has format errors that must be fixed before approval',
+            message: `${documentLabel} document has format errors that must be fixed before approval`,
             data: {
+              documentType,
               errorCount: validationResult.errors.length,
               warningCount: validationResult.warnings.length,
               summary: validationResult.summary
             },
             nextSteps: [
               'Fix the format errors listed below',
-              'Ensure each task has: checkbox (- [ ]), numeric ID (1.1), description',
-              'Ensure metadata uses underscores: _Requirements: ..._',
-              'Ensure _Prompt ends with underscore',
+              ...validationResult.guidance,
               'Re-request approval after fixing',
               ...errorMessages
             ]
           };
         }
 
-        // If there are warnings, include them but allow approval to proceed
+        // Warnings don't block approval, but are reported so they can be fixed during review
         if (validationResult.warnings.length > 0) {
-          // Warnings don't block approval, but will be included in the response
-          // This allows the user to see potential issues while still proceeding
+          validationWarnings = formatDocumentValidationIssues(validationResult);
         }
       } catch (fileError) {
         await approvalStorage.stop();
         const errorMessage = fileError instanceof Error ? fileError.message : String(fileError);
         return {
           success: false,
-          message: `Failed to read tasks file for validation: ${errorMessage}`
+          message: `Failed to read ${documentType} file for validation: ${errorMessage}`
         };
       }
     }
 
+    const { policy, error: policyError } = loadApprovalPolicy(translatedPath);
+    if (policyError) {
+      await approvalStorage.stop();
+      return {
+        success: false,
+        message: `Failed to load approval policy from .spec-workflow/config.toml: ${policyError}`
+      };
+    }
+
     const approvalId = await approvalStorage.createApproval(
       args.title,
       args.filePath,
       args.category,
       args.categoryName,
-      args.type
+      args.type,
+      undefined,
+      policy
     );
 
     await approvalStorage.stop();
 
+    const reviewUrl = context.dashboardUrl
+      ? buildDashboardLink(context.dashboardUrl, '/approvals')
+      : undefined;
+
     return {
       success: true,
-      message: `Approval request created successfully. Please review in dashboard: ${context.dashboardUrl || 'Start with: spec-workflow-mcp --dashboard'}`,
+      message: `Approval request created successfully. Please review in dashboard: ${reviewUrl || 'Start with: spec-workflow-mcp --dashboard'}`,
       data: {
         approvalId,
         title: args.title,
         filePath: args.filePath,
         type: args.type,
         status: 'pending',
+        requiredApprovals: policy.requiredApprovals,
+        reviewers: policy.reviewers,
         dashboardUrl: context.dashboardUrl
       },
       nextSteps: [
         'BLOCKING - Dashboard approval required',
         'VERBAL APPROVAL NOT ACCEPTED',
         'Do not proceed on verbal confirmation',
-        context.dashboardUrl ? `Use dashboard: ${context.dashboardUrl}` : 'Start the dashboard with: spec-workflow-mcp --dashboard',
-        `Poll status with: approvals action:"status" approvalId:"${approvalId}"`
+        ...(policy.requiredApprovals > 1 ? [`Requires ${policy.requiredApprovals} reviewer approvals; any rejection blocks`] : []),
+        reviewUrl ? `Use dashboard: ${reviewUrl}` : 'Start the dashboard with: spec-workflow-mcp --dashboard',
+        `Wait for the decision with: approvals action:"wait" approvalId:"${approvalId}" (repeat while it returns pending)`,
+        ...validationWarnings
       ],
       projectContext: {
         projectPath: validatedProjectPath,
@@ -278,6 +343,129 @@ async function handleRequestApproval(
   }
 }
 
+async function handleWaitForApproval(
+  args: WaitApprovalArgs,
+  context: ToolContext
+): Promise<ToolResponse> {
+  const statusArgs: StatusApprovalArgs = { action: 'status', projectPath: args.projectPath, approvalId: args.approvalId };
+  const timeoutSeconds = Math.min(Math.max(Math.round(args.timeoutSeconds ?? DEFAULT_WAIT_SECONDS), 1), MAX_WAIT_SECONDS);
+  let outcome: WaitOutcome = 'decided';
+
+  try {
+    // Use provided projectPath or fall back to context
+    const projectPath = args.projectPath || context.projectPath;
+    if (!projectPath) {
+      return {
+        success: false,
+        message: 'Project path is required. Please provide projectPath parameter.'
+      };
+    }
+
+    const validatedProjectPath = await validateProjectPath(projectPath);
+    const translatedPath = PathUtils.translatePath(validatedProjectPath);
+    const approvalStorage = new ApprovalStorage(translatedPath, validatedProjectPath);
+
+    const approval = await approvalStorage.getApproval(args.approvalId);
+    if (approval?.status === 'pending') {
+      await context.notifier?.log('info', `Waiting for a decision on "${approval.title}"`, { approvalId: approval.id });
+      await approvalStorage.start();
+      try {
+        outcome = await waitForDecision(approvalStorage, approval, timeoutSeconds * 1000, context);
+      } finally {
+        await approvalStorage.stop();
+      }
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      message: `Failed to wait for approval: ${errorMessage}`
+    };
+  }
+
+  // Report the outcome exactly like the status action
+  const response = await handleGetApprovalStatus(statusArgs, context);
+  if (response.success && response.data?.status === 'pending') {
+    const reason = outcome === 'cancelled' ? 'Wait was cancelled' : `Still pending after ${timeoutSeconds}s, call wait again`;
+    response.message = `BLOCKED: ${reason}. Verbal approval is NOT accepted. Use dashboard or VS Code extension only.`;
+    response.data.timedOut = outcome === 'timeout';
+  } else if (response.success) {
+    await context.notifier?.log('notice', `Approval "${response.data.title}" is ${response.data.status}`, {
+      approvalId: args.approvalId,
+      status: response.data.status
+    });
+  }
+  return response;
+}
+
+type WaitOutcome = 'decided' | 'timeout' | 'cancelled';
+
+/**
+ * Resolve once the approval leaves the pending state (or is deleted), the timeout passes,
+ * or the client cancels the call. Progress is reported while waiting so clients that
+ * reset their request timeout on progress keep the call open.
+ */
+function waitForDecision(
+  storage: ApprovalStorage,
+  approval: ApprovalRequest,
+  timeoutMs: number,
+  context: ToolContext
+): Promise<WaitOutcome> {
+  const startedAt = Date.now();
+  const totalSeconds = Math.round(timeoutMs / 1000);
+
+  return new Promise(resolve => {
+    let settled = false;
+    let lastApprovalCount = getApprovalProgress(approval).approvals;
+
+    const finish = (outcome: WaitOutcome) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      clearInterval(heartbeat);
+      storage.off('approval-change', onApprovalChange);
+      context.signal?.removeEventListener('abort', onAbort);
+      resolve(outcome);
+    };
+
+    const onChange = async () => {
+      const current = await storage.getApproval(approval.id);
+      if (!current || current.status !== 'pending') {
+        finish('decided');
+        return;
+      }
+      // Partial progress on multi-reviewer approvals
+      const progress = getApprovalProgress(current);
+      if (progress.approvals !== lastApprovalCount) {
+        lastApprovalCount = progress.approvals;
+        await context.notifier?.log('info', `"${current.title}" has ${progress.approvals} of ${progress.requiredApprovals} approvals`, {
+          approvalId: current.id
+        });
+      }
+    };
+
+    const onApprovalChange = () => {
+      onChange().catch(() => undefined);
+    };
+    const onAbort = () => finish('cancelled');
+
+    const timer = setTimeout(() => finish('timeout'), timeoutMs);
+    const heartbeat = setInterval(() => {
+      const elapsed = Math.round((Date.now() - startedAt) / 1000);
+      context.notifier?.progress(elapsed, totalSeconds, `Waiting for review of "${approval.title}"`).catch(() => undefined);
+    }, WAIT_PROGRESS_INTERVAL_MS);
+
+    storage.on('approval-change', onApprovalChange);
+    context.signal?.addEventListener('abort', onAbort);
+    if (context.signal?.aborted) {
+      finish('cancelled');
+      return;
+    }
+    // The decision may have landed before the watcher started
+    onApprovalChange();
+  });
+}
+
 async function handleGetApprovalStatus(
   args: StatusApprovalArgs,
   context: ToolContext
@@ -314,6 +502,7 @@ async function handleGetApprovalStatus(
 
     await approvalStorage.stop();
 
+    const progress = getApprovalProgress(approval);
     const isCompleted = approval.status === 'approved' || approval.status === 'rejected';
     const canProceed = approval.status === 'approved';
     const mustWait = approval.status !== 'approved';
@@ -323,7 +512,13 @@ async function handleGetApprovalStatus(
       nextSteps.push('BLOCKED - Do not proceed');
       nextSteps.push('VERBAL APPROVAL NOT ACCEPTED - Use dashboard or VS Code extension only');
       nextSteps.push('Approval must be done via dashboard or VS Code extension');
-      nextSteps.push('Continue polling with approvals action:"status"');
+      if (progress.requiredApprovals > 1 || progress.approvals > 0) {
+        nextSteps.push(`Approvals: ${progress.approvals} of ${progress.requiredApprovals} required`);
+      }
+      if (progress.outstandingReviewers.length > 0) {
+        nextSteps.push(`Waiting on: ${progress.outstandingReviewers.join(', ')}`);
+      }
+      nextSteps.push('Wait for a decision with approvals action:"wait"');
     } else if (approval.status === 'approved') {
       nextSteps.push('APPROVED - Can proceed');
       nextSteps.push('Run approvals action:"delete" before continuing');
@@ -363,6 +558,14 @@ async function handleGetApprovalStatus(
       }
     }
 
+    const reviews = approval.reviews || [];
+    if (reviews.length > 0 && progress.requiredApprovals > 1) {
+      nextSteps.push('Reviewer decisions:');
+      reviews.forEach(review => {
+        nextSteps.push(`  ${review.reviewer}: ${review.decision}${review.response ? ` - ${review.response}` : ''}`);
+      });
+    }
+
     return {
       success: true,
       message: approval.status === 'pending'
@@ -378,6 +581,11 @@ async function handleGetApprovalStatus(
         response: approval.response,
         annotations: approval.annotations,
         comments: approval.comments,
+        reviews,
+        requiredApprovals: progress.requiredApprovals,
+        approvalCount: progress.approvals,
+        approvalsRemaining: progress.approvalsRemaining,
+        outstandingReviewers: progress.outstandingReviewers,
         isCompleted,
         canProceed,
         mustWait,
@@ -454,7 +662,7 @@ async function handleDeleteApproval(
         nextSteps: [
           'STOP - Cannot delete pending approval',
           'Wait for approval or rejection',
-          'Poll with approvals action:"status"',
+          'Wait with approvals action:"wait"',
           'Delete only after status changes to approved, rejected, or needs-revision'
         ]
       };
@@ -5,6 +5,8 @@ import { steeringGuideTool, steeringGuideHandler } from './steering-guide.js';
 import { approvalsTool, approvalsHandler } from './approvals.js';
 import { logImplementationTool, logImplementationHandler } from './log-implementation.js';
 import { queryLogsTool, queryLogsHandler } from './query-logs.js';
+import { tasksTool, tasksHandler } from './tasks.js';
+import { projectsTool, projectsHandler } from './projects.js';
 import { ToolContext, ToolResponse, MCPToolResponse, toMCPResponse } from '../types.js';
 
 export function registerTools(): Tool[] {
@@ -13,8 +15,10 @@ export function registerTools(): Tool[] {
     steeringGuideTool,
     specStatusTool,
     approvalsTool,
+    tasksTool,
     logImplementationTool,
-    queryLogsTool
+    queryLogsTool,
+    projectsTool
   ];
 }
 
@@ -36,12 +40,18 @@ export async function handleToolCall(name: string, args: any, context: ToolConte
       case 'approvals':
         response = await approvalsHandler(args, context);
         break;
+      case 'tasks':
+        response = await tasksHandler(args, context);
+        break;
       case 'log-implementation':
         response = await logImplementationHandler(args, context);
         break;
       case 'query-logs':
         response = await queryLogsHandler(args, context);
         break;
+      case 'projects':
+        response = await projectsHandler(args, context);
+        break;
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -3,6 +3,9 @@ import { ToolContext, ToolResponse, ImplementationLogEntry } from '../types.js';
 import { PathUtils } from '../core/path-utils.js';
 import { ImplementationLogManager } from '../dashboard/implementation-log-manager.js';
 import { parseTasksFromMarkdown } from '../core/task-parser.js';
+import { checkTasksApprovalGate } from '../core/approval-gate.js';
+import { buildDashboardLink } from '../core/dashboard-session.js';
+import { resolveImplementationChanges } from '../core/git-diff-stats.js';
 
 export const logImplementationTool: Tool = {
   name: 'log-implementation',
@@ -46,6 +49,13 @@ For frontend-backend connections:
 
 Example: \`{ "description": "User list page fetches from API", "frontendComponent": "UserList", "backendEndpoint": "GET /api/users", "dataFlow": "Mount → API fetch → Display" }\`
 
+# Files and statistics
+
+In a git repository, filesModified, filesCreated and statistics are computed from git and the
+commits are recorded: by default from uncommitted and untracked changes; pass commitRange for
+work already committed, or baseRef to include commits since that ref. Reported values are used
+only when the project is not a git repository or git finds no uncommitted changes.
+
 # Good vs Bad
 
 ✅ GOOD: \`{ "artifacts": { "apiEndpoints": [...], "components": [...] }, "filesModified": [...] }\`
@@ -59,6 +69,10 @@ Be thorough - future agents depend on this data quality.`,
         type: 'string',
         description: 'Absolute path to the project root (optional - uses server context path if not provided)'
       },
+      project: {
+        type: 'string',
+        description: 'Project ID or name from the projects tool (optional - uses the active project if not provided)'
+      },
       specName: {
         type: 'string',
         description: 'Name of the specification'
@@ -74,12 +88,20 @@ Be thorough - future agents depend on this data quality.`,
       filesModified: {
         type: 'array',
         items: { type: 'string' },
-        description: 'List of files that were modified'
+        description: 'List of files that were modified (computed from git when available)'
       },
       filesCreated: {
         type: 'array',
         items: { type: 'string' },
-        description: 'List of files that were created'
+        description: 'List of files that were created (computed from git when available)'
+      },
+      baseRef: {
+        type: 'string',
+        description: 'Git ref to compare the working tree with, e.g. "main" or a SHA (optional - default: HEAD, i.e. uncommitted changes)'
+      },
+      commitRange: {
+        type: 'string',
+        description: 'Git commits the task was implemented in instead of the working tree, e.g. "a1b2c3d..HEAD" or one SHA (optional)'
       },
       statistics: {
         type: 'object',
@@ -94,7 +116,7 @@ Be thorough - future agents depend on this data quality.`,
           }
         },
         required: ['linesAdded', 'linesRemoved'],
-        description: 'Code statistics for the implementation'
+        description: 'Code statistics for the implementation (computed from git when available; required otherwise)'
       },
       artifacts: {
         type: 'object',
@@ -128,7 +150,7 @@ Be thorough - future agents depend on this data quality.`,
         }
       }
     },
-    required: ['specName', 'taskId', 'summary', 'filesModified', 'filesCreated', 'statistics', 'artifacts']
+    required: ['specName', 'taskId', 'summary', 'artifacts']
   }
 };
 
@@ -140,9 +162,11 @@ export async function logImplementationHandler(
     specName,
     taskId,
     summary,
-    filesModified = [],
-    filesCreated = [],
+    filesModified,
+    filesCreated,
     statistics,
+    baseRef,
+    commitRange,
     artifacts
   } = args;
   
@@ -204,6 +228,36 @@ export async function logImplementationHandler(
       };
     }
 
+    // Refuse to log work against an unapproved or modified task plan
+    const gate = await checkTasksApprovalGate(projectPath, specName);
+    if (!gate.allowed) {
+      return {
+        success: false,
+        message: gate.message,
+        nextSteps: gate.nextSteps
+      };
+    }
+
+    // Prefer what git says changed over what was reported
+    let changes;
+    try {
+      changes = await resolveImplementationChanges(
+        projectPath,
+        { filesModified, filesCreated, statistics },
+        { baseRef, commitRange }
+      );
+    } catch (gitError) {
+      return {
+        success: false,
+        message: `Could not determine the changes: ${gitError instanceof Error ? gitError.message : String(gitError)}`,
+        nextSteps: [
+          'Pass commitRange (e.g. "a1b2c3d..HEAD") if the work is already committed',
+          'Check that baseRef and commitRange name existing commits',
+          'Provide statistics, filesModified and filesCreated if the project is not a git repository'
+        ]
+      };
+    }
+
     // Create log entry
     const logManager = new ImplementationLogManager(specTasksPath);
 
@@ -211,13 +265,7 @@ export async function logImplementationHandler(
       taskId,
       timestamp: new Date().toISOString(),
       summary,
-      filesModified: filesModified || [],
-      filesCreated: filesCreated || [],
-      statistics: {
-        linesAdded: statistics.linesAdded || 0,
-        linesRemoved: statistics.linesRemoved || 0,
-        filesChanged: (filesModified?.length || 0) + (filesCreated?.length || 0)
-      },
+      ...changes,
       artifacts
     };
 
@@ -228,15 +276,19 @@ export async function logImplementationHandler(
 
     return {
       success: true,
-      message: `Implementation logged for task '${taskId}'`,
+      message: changes.statisticsSource === 'git'
+        ? `Implementation logged for task '${taskId}' with changes computed from git`
+        : `Implementation logged for task '${taskId}'`,
       data: {
         entryId: createdEntry.id,
         entry: createdEntry,
         taskStats,
-        dashboardUrl: `${context.dashboardUrl}/logs?spec=${encodeURIComponent(specName)}&task=${taskId}`
+        dashboardUrl: context.dashboardUrl
+          ? buildDashboardLink(context.dashboardUrl, `/logs?spec=${encodeURIComponent(specName)}&task=${taskId}`)
+          : undefined
       },
       nextSteps: [
-        'Mark task as completed in tasks.md by changing [-] to [x]',
+        `Mark task as completed with tasks action:"complete" taskId:"${taskId}"`,
         'View implementation log in dashboard under Logs tab',
         'Continue with next pending task'
       ],
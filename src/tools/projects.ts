@@ -0,0 +1,116 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { isAbsolute, resolve } from 'path';
+import { ToolContext, ToolResponse } from '../types.js';
+import { PathUtils } from '../core/path-utils.js';
+
+export const projectsTool: Tool = {
+  name: 'projects',
+  description: `List, switch between and register the projects this server works on.
+
+# Instructions
+One server can work on several project roots. Every project-scoped tool accepts a project argument (a project ID or name from this tool) for a single call; switch changes the default for the rest of the session.
+- 'list': Show registered projects and which one is active
+- 'switch': Make a project the active one, by project ID, name or absolute path
+- 'register': Add a project by absolute path, creating its .spec-workflow directory, without switching to it`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['list', 'switch', 'register'],
+        description: 'The action to perform: list, switch, or register'
+      },
+      project: {
+        type: 'string',
+        description: 'Project ID, name or absolute path (required for switch)'
+      },
+      projectPath: {
+        type: 'string',
+        description: 'Absolute path to the project root (required for register)'
+      }
+    },
+    required: ['action']
+  }
+};
+
+export async function projectsHandler(args: any, context: ToolContext): Promise<ToolResponse> {
+  const { workspaces } = context;
+  if (!workspaces) {
+    return {
+      success: false,
+      message: 'Managing projects is only available through the MCP server'
+    };
+  }
+
+  try {
+    switch (args.action) {
+      case 'list': {
+        const activePath = resolve(context.projectPath);
+        const projects = (await workspaces.list()).map(project => ({
+          projectId: project.projectId,
+          projectName: project.projectName,
+          projectPath: project.projectPath,
+          active: project.projectPath === activePath
+        }));
+        return {
+          success: true,
+          message: `${projects.length} project${projects.length === 1 ? '' : 's'} registered`,
+          data: { projects },
+          nextSteps: [
+            'Switch projects with action: "switch" and a project ID or name',
+            'Or pass project to any other tool to use a project for one call'
+          ]
+        };
+      }
+
+      case 'switch': {
+        if (!args.project) {
+          return { success: false, message: 'project is required for the switch action' };
+        }
+        const projectPath = await workspaces.resolve(args.project);
+        await context.switchProject?.(projectPath);
+        return {
+          success: true,
+          message: `Switched to project ${projectPath}`,
+          data: { projectPath },
+          nextSteps: ['Tools now use this project unless given another one'],
+          projectContext: {
+            projectPath,
+            workflowRoot: PathUtils.getWorkflowRoot(projectPath),
+            dashboardUrl: context.dashboardUrl
+          }
+        };
+      }
+
+      case 'register': {
+        if (!args.projectPath) {
+          return { success: false, message: 'projectPath is required for the register action' };
+        }
+        // Translated like projectPath arguments of other tools, so Docker registers container paths
+        const translatedPath = PathUtils.translatePath(args.projectPath);
+        if (!isAbsolute(translatedPath)) {
+          return { success: false, message: `projectPath must be absolute: ${args.projectPath}` };
+        }
+        const projectPath = await workspaces.prepare(translatedPath);
+        const project = (await workspaces.list()).find(entry => entry.projectPath === projectPath);
+        return {
+          success: true,
+          message: `Registered project ${projectPath}`,
+          data: { projectId: project?.projectId, projectName: project?.projectName, projectPath },
+          nextSteps: [`Use it with project: "${project?.projectId ?? projectPath}", or switch to it`]
+        };
+      }
+
+      default:
+        return {
+          success: false,
+          message: `Unknown action: ${args.action}. Use list, switch, or register.`
+        };
+    }
+  } catch (error: any) {
+    return {
+      success: false,
+      message: error.message
+    };
+  }
+}
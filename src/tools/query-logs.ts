@@ -2,6 +2,18 @@ import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { ToolContext, ToolResponse, ImplementationLogEntry } from '../types.js';
 import { PathUtils } from '../core/path-utils.js';
 import { ImplementationLogManager } from '../dashboard/implementation-log-manager.js';
+import { SearchIndex } from '../core/search-index.js';
+import {
+  ArtifactCollection,
+  ArtifactStatus,
+  ArtifactVerification,
+  ArtifactVerificationReport,
+  ArtifactVerifier,
+  artifactKey,
+  loadVerificationReport,
+  saveVerificationResults,
+  summarizeVerification
+} from '../core/artifact-verifier.js';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 
@@ -15,6 +27,9 @@ export interface LogQueryMatch {
     type: 'apiEndpoint' | 'component' | 'function' | 'class' | 'integration';
     data: any; // Actual artifact object
   };
+  score: number;          // Relevance, higher is better; only comparable within one query
+  matchedTerms: string[]; // Indexed words that matched, including prefix, related and misspelled matches
+  verification?: ArtifactVerification; // Whether the artifact still exists in the code, as last verified
   context: {
     summary: string; // Task summary
     filesModified: string[];
@@ -24,11 +39,67 @@ export interface LogQueryMatch {
 
 export interface QueryLogsResponse {
   matches: LogQueryMatch[];
-  searchTerm: string;
+  mode: 'search' | 'verify';
+  searchTerm?: string;
+  total: number;       // Matches before pagination
+  offset: number;
+  limit: number;
+  hasMore: boolean;
   specsSearched: number;
   logsSearched: number;
+  verification?: Record<ArtifactStatus, number>; // Verify mode: results over all matches, not just this page
 }
 
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+type ArtifactType = LogQueryMatch['artifact']['type'];
+type IndexedArtifact = Omit<LogQueryMatch, 'score' | 'matchedTerms' | 'verification'>;
+
+// Artifact collections in a log entry, and the type each match reports
+const ARTIFACT_COLLECTIONS: Array<{ filter: ArtifactCollection; type: ArtifactType }> = [
+  { filter: 'apiEndpoints', type: 'apiEndpoint' },
+  { filter: 'components', type: 'component' },
+  { filter: 'functions', type: 'function' },
+  { filter: 'classes', type: 'class' },
+  { filter: 'integrations', type: 'integration' }
+];
+
+/**
+ * Words that describe the same code in different terms, so a search for one finds
+ * artifacts named with another. Looked up in both directions.
+ */
+const RELATED_TERMS: string[][] = [
+  ['auth', 'authentication', 'authorization', 'login', 'jwt', 'session', 'credential'],
+  ['token', 'jwt', 'bearer'],
+  ['user', 'account', 'member', 'profile'],
+  ['password', 'credential', 'hash'],
+  ['delete', 'remove', 'destroy'],
+  ['create', 'add', 'insert', 'new'],
+  ['update', 'edit', 'modify', 'patch'],
+  ['get', 'fetch', 'load', 'read', 'retrieve'],
+  ['list', 'all', 'index'],
+  ['validate', 'check', 'verify'],
+  ['config', 'configuration', 'settings', 'options'],
+  ['db', 'database', 'repository', 'store', 'storage'],
+  ['email', 'mail'],
+  ['notify', 'notification', 'alert'],
+  ['error', 'exception', 'failure']
+];
+
+function buildSynonyms(): Record<string, string[]> {
+  const synonyms: Record<string, Set<string>> = {};
+  for (const group of RELATED_TERMS) {
+    for (const term of group) {
+      synonyms[term] ??= new Set();
+      group.filter(other => other !== term).forEach(other => synonyms[term].add(other));
+    }
+  }
+  return Object.fromEntries(Object.entries(synonyms).map(([term, related]) => [term, [...related]]));
+}
+
+const SYNONYMS = buildSynonyms();
+
 export const queryLogsTool: Tool = {
   name: 'query-logs',
   description: `Search implementation logs for existing code artifacts.
@@ -41,7 +112,16 @@ Query before implementing to find:
 
 Prevents duplicate code by discovering what's already built.
 
-Searches artifact names, locations, and task summaries. Case-insensitive substring matching.`,
+Searches artifact names, purposes, signatures, locations and task summaries. Words are matched
+by their parts (camelCase, snake_case and paths are split), by prefix, with typos tolerated and
+with common related terms (e.g. "auth" also finds "jwt" and "login"). Results are ranked by
+relevance, best first, and paginated with limit and offset.
+
+Matches carry the result of the last verification of the artifact against the code, if any.
+Use mode "verify" to check again that matching artifacts still exist where their logs say:
+each is marked verified, moved (with its new location), stale (no longer in the code) or
+unverifiable. Stale artifacts should not be reused. In verify mode the search term is optional;
+without it every artifact within the other filters is verified.`,
 
   inputSchema: {
     type: 'object',
@@ -50,9 +130,18 @@ Searches artifact names, locations, and task summaries. Case-insensitive substri
         type: 'string',
         description: 'Absolute path to project root (optional - uses context)'
       },
+      project: {
+        type: 'string',
+        description: 'Project ID or name from the projects tool (optional - uses the active project if not provided)'
+      },
       searchTerm: {
         type: 'string',
-        description: 'Search keyword (e.g., "UserService", "/api/users", "hashPassword")'
+        description: 'Search words (e.g., "UserService", "/api/users", "hash password", "auth token"). Required unless mode is verify'
+      },
+      mode: {
+        type: 'string',
+        enum: ['search', 'verify'],
+        description: 'search finds artifacts; verify also checks them against the source code and records the result (default: search)'
       },
       specName: {
         type: 'string',
@@ -62,9 +151,29 @@ Searches artifact names, locations, and task summaries. Case-insensitive substri
         type: 'string',
         enum: ['apiEndpoints', 'components', 'functions', 'classes', 'integrations', 'all'],
         description: 'Filter by artifact type (optional)'
+      },
+      since: {
+        type: 'string',
+        description: 'Only logs recorded at or after this ISO date or timestamp (optional)'
+      },
+      until: {
+        type: 'string',
+        description: 'Only logs recorded at or before this ISO date or timestamp (optional)'
+      },
+      archived: {
+        type: 'string',
+        enum: ['include', 'exclude', 'only'],
+        description: 'Whether to search archived specs too (default: include)'
+      },
+      limit: {
+        type: 'number',
+        description: `Maximum matches to return (default: ${DEFAULT_LIMIT}, max: ${MAX_LIMIT})`
+      },
+      offset: {
+        type: 'number',
+        description: 'Number of matches to skip, for the next page (default: 0)'
       }
-    },
-    required: ['searchTerm']
+    }
   }
 };
 
@@ -111,92 +220,96 @@ async function getAllSpecNames(projectPath: string, includeArchived: boolean): P
   return specs;
 }
 
+
 /**
- * Search artifacts in a log entry for matches
+ * The searchable text of an artifact, one field per line, with how much each field counts.
+ * Names count most, then purposes and signatures; the task summary is context only.
  */
-function searchArtifacts(
-  entry: ImplementationLogEntry,
-  searchTerm: string,
-  artifactTypeFilter?: string
-): Array<{ type: string; data: any }> {
-  const matches: Array<{ type: string; data: any }> = [];
-  const lowerSearchTerm = searchTerm.toLowerCase();
-
-  if (!entry.artifacts) return matches;
-
-  // Helper function to check if a value matches the search term
-  const matchesSearch = (value: any): boolean => {
-    if (typeof value === 'string') {
-      return value.toLowerCase().includes(lowerSearchTerm);
-    }
-    if (Array.isArray(value)) {
-      return value.some(v => matchesSearch(v));
-    }
-    return false;
-  };
-
-  // Helper function to check if an artifact matches
-  const artifactMatches = (artifact: any): boolean => {
-    return Object.values(artifact).some(value => matchesSearch(value));
-  };
-
-  // Search API endpoints
-  if ((!artifactTypeFilter || artifactTypeFilter === 'all' || artifactTypeFilter === 'apiEndpoints') && entry.artifacts.apiEndpoints) {
-    for (const endpoint of entry.artifacts.apiEndpoints) {
-      if (artifactMatches(endpoint)) {
-        matches.push({ type: 'apiEndpoint', data: endpoint });
-      }
-    }
-  }
-
-  // Search components
-  if ((!artifactTypeFilter || artifactTypeFilter === 'all' || artifactTypeFilter === 'components') && entry.artifacts.components) {
-    for (const component of entry.artifacts.components) {
-      if (artifactMatches(component)) {
-        matches.push({ type: 'component', data: component });
-      }
-    }
-  }
-
-  // Search functions
-  if ((!artifactTypeFilter || artifactTypeFilter === 'all' || artifactTypeFilter === 'functions') && entry.artifacts.functions) {
-    for (const func of entry.artifacts.functions) {
-      if (artifactMatches(func)) {
-        matches.push({ type: 'function', data: func });
-      }
+function artifactFields(type: ArtifactType, artifact: any, summary: string): { lines: string[]; weights: number[] } {
+  const fields: Array<[unknown, number]> = (() => {
+    switch (type) {
+      case 'apiEndpoint':
+        return [[`${artifact.method ?? ''} ${artifact.path ?? ''}`, 3], [artifact.purpose, 1.5], [artifact.requestFormat, 1], [artifact.responseFormat, 1], [artifact.location, 1]];
+      case 'component':
+        return [[artifact.name, 3], [artifact.purpose, 1.5], [artifact.props, 1], [artifact.exports, 1], [artifact.type, 0.5], [artifact.location, 1]];
+      case 'function':
+        return [[artifact.name, 3], [artifact.purpose, 1.5], [artifact.signature, 1.5], [artifact.location, 1]];
+      case 'class':
+        return [[artifact.name, 3], [artifact.purpose, 1.5], [artifact.methods, 1.5], [artifact.location, 1]];
+      case 'integration':
+        return [[`${artifact.frontendComponent ?? ''} ${artifact.backendEndpoint ?? ''}`, 2], [artifact.description, 1.5], [artifact.dataFlow, 1]];
     }
+  })();
+  fields.push([summary, 0.5]);
+
+  const lines: string[] = [];
+  const weights: number[] = [];
+  for (const [value, weight] of fields) {
+    const text = Array.isArray(value) ? value.join(' ') : typeof value === 'string' ? value : '';
+    lines.push(text);
+    weights.push(weight);
   }
+  return { lines, weights };
+}
 
-  // Search classes
-  if ((!artifactTypeFilter || artifactTypeFilter === 'all' || artifactTypeFilter === 'classes') && entry.artifacts.classes) {
-    for (const cls of entry.artifacts.classes) {
-      if (artifactMatches(cls)) {
-        matches.push({ type: 'class', data: cls });
-      }
-    }
+function parseDateFilter(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const time = new Date(String(value)).getTime();
+  if (isNaN(time)) {
+    throw new Error(`${name} must be an ISO date or timestamp, got: ${value}`);
   }
+  return time;
+}
 
-  // Search integrations
-  if ((!artifactTypeFilter || artifactTypeFilter === 'all' || artifactTypeFilter === 'integrations') && entry.artifacts.integrations) {
-    for (const integration of entry.artifacts.integrations) {
-      if (artifactMatches(integration)) {
-        matches.push({ type: 'integration', data: integration });
-      }
-    }
+function parseCount(value: unknown, name: string, fallback: number, min: number): number {
+  if (value === undefined || value === null || value === '') return fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < min) {
+    throw new Error(`${name} must be an integer of at least ${min}, got: ${value}`);
   }
-
-  return matches;
+  return count;
 }
 
 export async function queryLogsHandler(args: any, context: ToolContext): Promise<ToolResponse> {
   const projectPath = args.projectPath || context.projectPath;
-  const { searchTerm, specName, artifactType } = args;
+  const { specName, artifactType } = args;
+  const mode: 'search' | 'verify' = args.mode || 'search';
+  const archived: 'include' | 'exclude' | 'only' = args.archived || 'include';
+  const searchTerm: string | undefined = typeof args.searchTerm === 'string' && args.searchTerm.trim().length > 0
+    ? args.searchTerm
+    : undefined;
+
+  if (mode !== 'search' && mode !== 'verify') {
+    return {
+      success: false,
+      message: `mode must be search or verify, got: ${mode}`
+    };
+  }
 
-  if (!searchTerm || typeof searchTerm !== 'string' || searchTerm.trim().length === 0) {
+  if (!searchTerm && mode === 'search') {
     return {
       success: false,
       message: 'Search term is required and must be non-empty',
-      nextSteps: ['Provide a search term (e.g., "UserService", "/api/auth", "validateToken")']
+      nextSteps: ['Provide a search term (e.g., "UserService", "/api/auth", "validateToken")', 'Use mode: verify without a search term to verify all artifacts']
+    };
+  }
+
+  let since: number | undefined;
+  let until: number | undefined;
+  let limit: number;
+  let offset: number;
+  try {
+    since = parseDateFilter(args.since, 'since');
+    until = parseDateFilter(args.until, 'until');
+    limit = Math.min(parseCount(args.limit, 'limit', DEFAULT_LIMIT, 1), MAX_LIMIT);
+    offset = parseCount(args.offset, 'offset', 0, 0);
+    if (!['include', 'exclude', 'only'].includes(archived)) {
+      throw new Error(`archived must be include, exclude or only, got: ${archived}`);
+    }
+  } catch (error: any) {
+    return {
+      success: false,
+      message: error.message
     };
   }
 
@@ -211,7 +324,6 @@ export async function queryLogsHandler(args: any, context: ToolContext): Promise
       const archivedSpecPath = PathUtils.getArchiveSpecPath(projectPath, specName);
 
       let isArchived = false;
-      let specPath = activeSpecPath;
 
       try {
         await fs.access(activeSpecPath);
@@ -220,7 +332,6 @@ export async function queryLogsHandler(args: any, context: ToolContext): Promise
         try {
           await fs.access(archivedSpecPath);
           isArchived = true;
-          specPath = archivedSpecPath;
         } catch {
           return {
             success: false,
@@ -233,12 +344,23 @@ export async function queryLogsHandler(args: any, context: ToolContext): Promise
       specsToSearch = [{ name: specName, isArchived }];
     } else {
       // Search all specs (active + archived)
-      specsToSearch = await getAllSpecNames(projectPath, true);
+      specsToSearch = await getAllSpecNames(projectPath, archived !== 'exclude');
+    }
+    if (archived === 'only') {
+      specsToSearch = specsToSearch.filter(spec => spec.isArchived);
+    } else if (archived === 'exclude') {
+      specsToSearch = specsToSearch.filter(spec => !spec.isArchived);
     }
 
-    const allMatches: LogQueryMatch[] = [];
+    const typeFilter = artifactType && artifactType !== 'all' ? artifactType : undefined;
+    const index = new SearchIndex<IndexedArtifact>();
     let logsSearchedCount = 0;
 
+    // Where each indexed artifact is recorded, to look up and save its verification
+    const artifactRefs: Map<string, { specPath: string; logsDir: string; key: string; collection: ArtifactCollection; meta: IndexedArtifact }> = new Map();
+    const reports: Map<string, ArtifactVerificationReport | null> = new Map();
+    const logIdsBySpec: Map<string, string[]> = new Map();
+
     for (const spec of specsToSearch) {
       const specPath = spec.isArchived
         ? PathUtils.getArchiveSpecPath(projectPath, spec.name)
@@ -246,81 +368,143 @@ export async function queryLogsHandler(args: any, context: ToolContext): Promise
 
       const logManager = new ImplementationLogManager(specPath);
 
+      let logs: ImplementationLogEntry[];
       try {
-        const logs = await logManager.getAllLogs();
-        logsSearchedCount += logs.length;
-
-        for (const log of logs) {
-          // Search in task summary first
-          const summaryMatch = log.summary.toLowerCase().includes(searchTerm.toLowerCase());
-
-          // Search in artifacts
-          const artifactMatches = searchArtifacts(log, searchTerm, artifactType);
-
-          // If either summary or artifacts match, include results
-          if (summaryMatch || artifactMatches.length > 0) {
-            // For summary matches, we still want to show relevant artifacts if any
-            if (artifactMatches.length > 0) {
-              for (const artifact of artifactMatches) {
-                allMatches.push({
-                  specName: spec.name,
-                  taskId: log.taskId,
-                  timestamp: log.timestamp,
-                  isArchived: spec.isArchived,
-                  artifact: artifact as any,
-                  context: {
-                    summary: log.summary,
-                    filesModified: log.filesModified,
-                    filesCreated: log.filesCreated
-                  }
-                });
-              }
-            } else if (summaryMatch) {
-              // Summary matches but no artifacts - create a match without artifact details
-              allMatches.push({
-                specName: spec.name,
-                taskId: log.taskId,
-                timestamp: log.timestamp,
-                isArchived: spec.isArchived,
-                artifact: {
-                  type: 'function' as any, // Placeholder
-                  data: { summary: log.summary }
-                },
-                context: {
-                  summary: log.summary,
-                  filesModified: log.filesModified,
-                  filesCreated: log.filesCreated
-                }
-              });
-            }
-          }
-        }
+        logs = await logManager.getAllLogs();
       } catch (error) {
         // Skip specs where we can't read logs
         continue;
       }
+      reports.set(specPath, await loadVerificationReport(logManager.getLogsDir()));
+      logIdsBySpec.set(specPath, logs.map(log => log.id));
+
+      for (const log of logs) {
+        const time = new Date(log.timestamp).getTime();
+        if ((since !== undefined && time < since) || (until !== undefined && time > until)) continue;
+        logsSearchedCount++;
+
+        const matchContext = {
+          specName: spec.name,
+          taskId: log.taskId,
+          timestamp: log.timestamp,
+          isArchived: spec.isArchived,
+          context: {
+            summary: log.summary,
+            filesModified: log.filesModified,
+            filesCreated: log.filesCreated
+          }
+        };
+        const documentId = `${spec.isArchived ? 'archive' : 'specs'}/${spec.name}/${log.id}`;
+
+        let artifactCount = 0;
+        for (const { filter, type } of ARTIFACT_COLLECTIONS) {
+          const artifacts: any[] = log.artifacts?.[filter] ?? [];
+          artifactCount += artifacts.length;
+          if (typeFilter && typeFilter !== filter) continue;
+
+          artifacts.forEach((artifact, position) => {
+            const { lines, weights } = artifactFields(type, artifact, log.summary);
+            const id = `${documentId}/${filter}/${position}`;
+            const meta = { ...matchContext, artifact: { type, data: artifact } };
+            index.add(id, lines, meta, weights);
+            artifactRefs.set(id, { specPath, logsDir: logManager.getLogsDir(), key: artifactKey(log.id, filter, position), collection: filter, meta });
+          });
+        }
+
+        // Logs without artifacts can still be found by what the task did
+        if (artifactCount === 0 && !typeFilter) {
+          index.add(
+            `${documentId}/summary`,
+            [log.summary, ...log.filesModified, ...log.filesCreated],
+            {
+              ...matchContext,
+              artifact: {
+                type: 'function' as any, // Placeholder
+                data: { summary: log.summary }
+              }
+            },
+            [1.5, ...[...log.filesModified, ...log.filesCreated].map(() => 0.5)]
+          );
+        }
+      }
     }
 
-    // Limit to 100 matches
-    const limitedMatches = allMatches.slice(0, 100);
+    // Without a search term (verify mode only) every artifact matches, newest first
+    const hits = searchTerm
+      ? index.search(searchTerm, { matchAll: false, prefix: 'all', fuzzy: true, synonyms: SYNONYMS })
+      : [...artifactRefs].map(([id, { meta }]) => ({ id, meta, score: 0, terms: [] as string[] }))
+        .sort((a, b) => b.meta.timestamp.localeCompare(a.meta.timestamp) || a.id.localeCompare(b.id));
+
+    const verifications: Map<string, ArtifactVerification | undefined> = new Map();
+    if (mode === 'verify') {
+      const verifier = new ArtifactVerifier(projectPath);
+      const resultsBySpec: Map<string, { logsDir: string; results: Record<string, ArtifactVerification> }> = new Map();
+      for (const hit of hits) {
+        const ref = artifactRefs.get(hit.id);
+        if (!ref) continue;
+        const verification = await verifier.verifyArtifact(ref.collection, hit.meta.artifact.data);
+        verifications.set(hit.id, verification);
+        if (!resultsBySpec.has(ref.specPath)) {
+          resultsBySpec.set(ref.specPath, { logsDir: ref.logsDir, results: {} });
+        }
+        resultsBySpec.get(ref.specPath)!.results[ref.key] = verification;
+      }
+      for (const [specPath, { logsDir, results }] of resultsBySpec) {
+        await saveVerificationResults(logsDir, results, logIdsBySpec.get(specPath) ?? []);
+      }
+    } else {
+      for (const hit of hits) {
+        const ref = artifactRefs.get(hit.id);
+        if (ref) verifications.set(hit.id, reports.get(ref.specPath)?.artifacts[ref.key]);
+      }
+    }
+
+    const matches: LogQueryMatch[] = hits.slice(offset, offset + limit).map(hit => {
+      const verification = verifications.get(hit.id);
+      return {
+        ...hit.meta,
+        score: Math.round(hit.score * 1000) / 1000,
+        matchedTerms: hit.terms,
+        ...(verification && { verification })
+      };
+    });
 
     const response: QueryLogsResponse = {
-      matches: limitedMatches,
-      searchTerm,
+      matches,
+      mode,
+      ...(searchTerm && { searchTerm }),
+      total: hits.length,
+      offset,
+      limit,
+      hasMore: offset + matches.length < hits.length,
       specsSearched: specsToSearch.length,
       logsSearched: logsSearchedCount
     };
 
-    const message = limitedMatches.length === 0
-      ? `No matches found for "${searchTerm}"`
-      : limitedMatches.length < allMatches.length
-        ? `Found ${limitedMatches.length} match(es) (limited from ${allMatches.length} total)`
-        : `Found ${limitedMatches.length} match(es)`;
+    let message = hits.length === 0
+      ? searchTerm ? `No matches found for "${searchTerm}"` : 'No artifacts found'
+      : matches.length < hits.length
+        ? `Found ${hits.length} match(es), showing ${matches.length} from ${offset + 1}`
+        : `Found ${hits.length} match(es)`;
+
+    const nextSteps: string[] = [];
+    if (mode === 'verify') {
+      const summary = summarizeVerification([...verifications.values()].filter((v): v is ArtifactVerification => !!v));
+      response.verification = summary;
+      message += `. Verified: ${summary.verified}, moved: ${summary.moved}, stale: ${summary.stale}, unverifiable: ${summary.unverifiable}`;
+      if (summary.stale > 0) {
+        nextSteps.push('Do not reuse stale artifacts; they are no longer in the code');
+      }
+    }
+    if (response.hasMore) {
+      nextSteps.push(`Get the next page with offset: ${offset + matches.length}`);
+    }
 
     return {
       success: true,
       message,
-      data: response
+      data: response,
+      ...(nextSteps.length > 0 && { nextSteps })
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
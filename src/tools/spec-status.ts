@@ -1,14 +1,16 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { ToolContext, ToolResponse } from '../types.js';
+import { ToolContext, ToolResponse, PhaseStatus } from '../types.js';
 import { PathUtils } from '../core/path-utils.js';
 import { SpecParser } from '../core/parser.js';
+import { detectSpecDrift } from '../core/drift-detector.js';
+import { getSpecTraceability } from '../core/traceability.js';
 
 export const specStatusTool: Tool = {
   name: 'spec-status',
   description: `Display comprehensive specification progress overview.
 
 # Instructions
-Call when resuming work on a spec or checking overall completion status. Shows which phases are complete and task implementation progress. After viewing status, read tasks.md directly to see all tasks and their status markers ([ ] pending, [-] in-progress, [x] completed).`,
+Call when resuming work on a spec or checking overall completion status. Shows which phases are complete and task implementation progress. After viewing status, use the tasks tool to list tasks and update their status instead of editing tasks.md markers by hand.`,
   inputSchema: {
     type: 'object',
     properties: {
@@ -16,6 +18,10 @@ Call when resuming work on a spec or checking overall completion status. Shows w
         type: 'string',
         description: 'Absolute path to the project root (optional - uses server context path if not provided)'
       },
+      project: {
+        type: 'string',
+        description: 'Project ID or name from the projects tool (optional - uses the active project if not provided)'
+      },
       specName: { 
         type: 'string',
         description: 'Name of the specification'
@@ -84,17 +90,17 @@ export async function specStatusHandler(args: any, context: ToolContext): Promis
     const phaseDetails = [
       {
         name: 'Requirements',
-        status: spec.phases.requirements.exists ? (spec.phases.requirements.approved ? 'approved' : 'created') : 'missing',
+        status: getPhaseLabel(spec.phases.requirements),
         lastModified: spec.phases.requirements.lastModified
       },
       {
         name: 'Design',
-        status: spec.phases.design.exists ? (spec.phases.design.approved ? 'approved' : 'created') : 'missing',
+        status: getPhaseLabel(spec.phases.design),
         lastModified: spec.phases.design.lastModified
       },
       {
         name: 'Tasks',
-        status: spec.phases.tasks.exists ? (spec.phases.tasks.approved ? 'approved' : 'created') : 'missing',
+        status: getPhaseLabel(spec.phases.tasks),
         lastModified: spec.phases.tasks.lastModified
       },
       {
@@ -104,8 +110,26 @@ export async function specStatusHandler(args: any, context: ToolContext): Promis
       }
     ];
 
+    // Documents edited after their latest approval
+    const drift = await detectSpecDrift(translatedPath, specName);
+    const driftedDocuments = drift.documents.filter(d => d.status === 'drifted');
+
+    // Requirement coverage by tasks and implementation logs
+    const traceability = await getSpecTraceability(translatedPath, specName);
+
     // Next steps based on current phase
     const nextSteps = [];
+    for (const doc of driftedDocuments) {
+      nextSteps.push(`WARNING: ${doc.fileName} was modified since approval (${doc.approvedAt}) - review the changes and request approval again`);
+    }
+    if (traceability && spec.phases.tasks.exists) {
+      if (traceability.uncoveredRequirements.length > 0) {
+        nextSteps.push(`WARNING: Requirements not covered by any task: ${traceability.uncoveredRequirements.join(', ')}`);
+      }
+      for (const ref of traceability.unknownReferences) {
+        nextSteps.push(`WARNING: Task ${ref.taskId} references unknown requirement ${ref.requirementId}`);
+      }
+    }
     switch (currentPhase) {
       case 'requirements':
         nextSteps.push('Read template: .spec-workflow/templates/requirements-template-v*.md');
@@ -124,13 +148,13 @@ export async function specStatusHandler(args: any, context: ToolContext): Promis
         break;
       case 'implementation':
         if (spec.taskProgress && spec.taskProgress.pending > 0) {
-          nextSteps.push(`Read tasks: .spec-workflow/specs/${specName}/tasks.md`);
-          nextSteps.push('Edit tasks.md: Change [ ] to [-] for task you start');
+          nextSteps.push(`Get next task: tasks action:"next" specName:"${specName}"`);
+          nextSteps.push('Mark it in-progress: tasks action:"start"');
           nextSteps.push('Implement the task code');
-          nextSteps.push('Edit tasks.md: Change [-] to [x] when completed');
+          nextSteps.push('Mark it completed: tasks action:"complete"');
         } else {
-          nextSteps.push(`Read tasks: .spec-workflow/specs/${specName}/tasks.md`);
-          nextSteps.push('Begin implementation by marking first task [-]');
+          nextSteps.push(`List tasks: tasks action:"list" specName:"${specName}"`);
+          nextSteps.push('Begin implementation with tasks action:"start"');
         }
         break;
       case 'completed':
@@ -150,6 +174,21 @@ export async function specStatusHandler(args: any, context: ToolContext): Promis
         createdAt: spec.createdAt,
         lastModified: spec.lastModified,
         phases: phaseDetails,
+        drift: {
+          hasDrift: drift.hasDrift,
+          documents: driftedDocuments.map(d => ({
+            document: d.fileName,
+            approvedAt: d.approvedAt,
+            ...d.stats
+          }))
+        },
+        ...(traceability && {
+          traceability: {
+            ...traceability.summary,
+            uncoveredRequirements: traceability.uncoveredRequirements,
+            unknownReferences: traceability.unknownReferences
+          }
+        }),
         taskProgress: spec.taskProgress || {
           total: 0,
           completed: 0,
@@ -177,4 +216,14 @@ export async function specStatusHandler(args: any, context: ToolContext): Promis
       ]
     };
   }
-}
\ No newline at end of file
+}
+
+function getPhaseLabel(phase: PhaseStatus): string {
+  if (!phase.exists) {
+    return 'missing';
+  }
+  if (!phase.approved) {
+    return 'created';
+  }
+  return phase.changedSinceApproval ? 'modified-since-approval' : 'approved';
+}
@@ -1,5 +1,6 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { ToolContext, ToolResponse } from '../types.js';
+import { buildDashboardLink } from '../core/dashboard-session.js';
 
 export const specWorkflowGuideTool: Tool = {
   name: 'spec-workflow-guide',
@@ -13,7 +14,7 @@ export const specWorkflowGuideTool: Tool = {
 
 export async function specWorkflowGuideHandler(args: any, context: ToolContext): Promise<ToolResponse> {
   const dashboardMessage = context.dashboardUrl ?
-    `Monitor progress on dashboard: ${context.dashboardUrl}` :
+    `Monitor progress on dashboard: ${buildDashboardLink(context.dashboardUrl)}` :
     'Please start the dashboard with: spec-workflow-mcp --dashboard';
 
   return {
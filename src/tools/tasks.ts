@@ -0,0 +1,412 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ToolContext, ToolResponse } from '../types.js';
+import { PathUtils } from '../core/path-utils.js';
+import { checkTasksApprovalGate } from '../core/approval-gate.js';
+import { AuditLog } from '../dashboard/audit-log.js';
+import { join } from 'path';
+import { readFile, writeFile } from 'fs/promises';
+import {
+  parseTasksFromMarkdown,
+  updateTaskStatus,
+  findNextPendingTask,
+  getTaskById,
+  ParsedTask
+} from '../core/task-parser.js';
+
+export const tasksTool: Tool = {
+  name: 'tasks',
+  description: `Read and update task status in a spec's tasks.md without editing the file by hand.
+
+# Instructions
+Use this tool instead of editing checkbox markers in tasks.md. The action parameter determines the operation:
+- 'list': Show all tasks with status, dependency state, and progress summary
+- 'next': Show the current in-progress task, or the next ready task if none is in progress
+- 'start': Mark a task in-progress ([-]). Defaults to the next ready task. Only one task may be in progress at a time
+- 'complete': Mark a task completed ([x]). Defaults to the current in-progress task. Log the implementation with log-implementation first
+- 'reset': Mark a task pending ([ ]) again
+
+Status changes require an approved tasks.md that has not been edited since approval.
+
+'next' and 'start' return the task's _Prompt (structured into Role/Task/Restrictions/Success sections when available). Follow it to implement the task.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['list', 'next', 'start', 'complete', 'reset'],
+        description: 'The action to perform: list, next, start, complete, or reset'
+      },
+      projectPath: {
+        type: 'string',
+        description: 'Absolute path to the project root (optional - uses server context path if not provided)'
+      },
+      project: {
+        type: 'string',
+        description: 'Project ID or name from the projects tool (optional - uses the active project if not provided)'
+      },
+      specName: {
+        type: 'string',
+        description: 'Name of the specification'
+      },
+      taskId: {
+        type: 'string',
+        description: 'Task ID (e.g., "1", "1.2"). Optional for start and complete, required for reset'
+      }
+    },
+    required: ['action', 'specName']
+  }
+};
+
+type TasksAction = 'list' | 'next' | 'start' | 'complete' | 'reset';
+
+interface TasksArgs {
+  action: TasksAction;
+  projectPath?: string;
+  specName: string;
+  taskId?: string;
+}
+
+interface TasksFile {
+  projectPath: string;                 // Translated project path
+  path: string;
+  content: string;
+  tasks: ParsedTask[];
+}
+
+export async function tasksHandler(args: TasksArgs, context: ToolContext): Promise<ToolResponse> {
+  const { action, specName } = args;
+
+  // Use context projectPath as default, allow override via args
+  const projectPath = args.projectPath || context.projectPath;
+
+  if (!projectPath) {
+    return {
+      success: false,
+      message: 'Project path is required but not provided in context or arguments'
+    };
+  }
+
+  if (!specName) {
+    return {
+      success: false,
+      message: 'Missing required field: specName'
+    };
+  }
+
+  try {
+    // Translate path at tool entry point (components expect pre-translated paths)
+    const translatedPath = PathUtils.translatePath(projectPath);
+    const tasksPath = join(PathUtils.getSpecPath(translatedPath, specName), 'tasks.md');
+
+    let content: string;
+    try {
+      content = await readFile(tasksPath, 'utf-8');
+    } catch {
+      return {
+        success: false,
+        message: `No tasks.md found for specification '${specName}'`,
+        nextSteps: [
+          'Check the spec name',
+          `Create .spec-workflow/specs/${specName}/tasks.md and request approval first`
+        ]
+      };
+    }
+
+    const file: TasksFile = { projectPath: translatedPath, path: tasksPath, content, tasks: parseTasksFromMarkdown(content).tasks };
+    const projectContext = {
+      projectPath,
+      workflowRoot: PathUtils.getWorkflowRoot(projectPath),
+      specName,
+      dashboardUrl: context.dashboardUrl
+    };
+
+    // Status changes are only allowed on an approved, unmodified task plan
+    if (action === 'start' || action === 'complete' || action === 'reset') {
+      const gate = await checkTasksApprovalGate(translatedPath, specName);
+      if (!gate.allowed) {
+        return {
+          success: false,
+          message: gate.message,
+          nextSteps: gate.nextSteps,
+          projectContext
+        };
+      }
+    }
+
+    let response: ToolResponse;
+    switch (action) {
+      case 'list':
+        response = handleList(file, specName);
+        break;
+      case 'next':
+        response = handleNext(file, specName);
+        break;
+      case 'start':
+        response = await handleStart(file, specName, args.taskId);
+        break;
+      case 'complete':
+        response = await handleComplete(file, specName, args.taskId);
+        break;
+      case 'reset':
+        response = await handleReset(file, specName, args.taskId);
+        break;
+      default:
+        return {
+          success: false,
+          message: `Unknown action: ${action}. Use 'list', 'next', 'start', 'complete', or 'reset'.`
+        };
+    }
+
+    return { ...response, projectContext };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      message: `Failed to ${action} tasks: ${errorMessage}`,
+      nextSteps: [
+        'Check that the specification exists',
+        'Verify the project path',
+        'Use spec-status to diagnose issues'
+      ]
+    };
+  }
+}
+
+function handleList(file: TasksFile, specName: string): ToolResponse {
+  const { summary, inProgressTask } = parseTasksFromMarkdown(file.content);
+  const next = findNextPendingTask(file.tasks);
+
+  return {
+    success: true,
+    message: `${summary.completed}/${summary.total} tasks completed in '${specName}'`,
+    data: {
+      specName,
+      summary,
+      inProgressTask,
+      tasks: file.tasks.map(toTaskSummary)
+    },
+    nextSteps: inProgressTask
+      ? [`Task ${inProgressTask} is in progress - finish it with tasks action:"complete"`]
+      : next
+        ? [`Start the next ready task with tasks action:"start" taskId:"${next.id}"`]
+        : ['No ready tasks - all tasks are completed or blocked by dependencies']
+  };
+}
+
+function handleNext(file: TasksFile, specName: string): ToolResponse {
+  const current = file.tasks.find(t => t.status === 'in-progress' && !t.isHeader);
+  if (current) {
+    return {
+      success: true,
+      message: `Task ${current.id} is in progress`,
+      data: { specName, task: toTaskDetails(current), inProgress: true },
+      nextSteps: [
+        'Continue implementing this task following its _Prompt',
+        'Log the implementation with log-implementation',
+        `Then mark it done with tasks action:"complete" taskId:"${current.id}"`
+      ]
+    };
+  }
+
+  const next = findNextPendingTask(file.tasks);
+  if (!next) {
+    return noReadyTask(file.tasks, specName);
+  }
+
+  return {
+    success: true,
+    message: `Next ready task: ${next.id}`,
+    data: { specName, task: toTaskDetails(next), inProgress: false },
+    nextSteps: [`Start it with tasks action:"start" taskId:"${next.id}"`]
+  };
+}
+
+async function handleStart(file: TasksFile, specName: string, taskId?: string): Promise<ToolResponse> {
+  const task = taskId ? getTaskById(file.tasks, taskId) : findNextPendingTask(file.tasks);
+  if (!task) {
+    return taskId ? taskNotFound(taskId, specName) : noReadyTask(file.tasks, specName);
+  }
+
+  // Enforce a single in-progress task
+  const current = file.tasks.find(t => t.status === 'in-progress' && !t.isHeader && t.id !== task.id);
+  if (current) {
+    return {
+      success: false,
+      message: `Task ${current.id} is already in progress. Only one task may be in progress at a time.`,
+      data: { inProgressTask: current.id },
+      nextSteps: [
+        `Finish it with tasks action:"complete" taskId:"${current.id}"`,
+        `Or put it back with tasks action:"reset" taskId:"${current.id}"`
+      ]
+    };
+  }
+
+  if (task.isHeader) {
+    return {
+      success: false,
+      message: `Task ${task.id} is a header task with no implementation details. Start one of its subtasks instead.`
+    };
+  }
+
+  if (task.status === 'completed') {
+    return {
+      success: false,
+      message: `Task ${task.id} is already completed`,
+      nextSteps: [`Use tasks action:"reset" taskId:"${task.id}" to reopen it`]
+    };
+  }
+
+  if (task.blocked) {
+    return {
+      success: false,
+      message: `Task ${task.id} is blocked by unfinished dependencies: ${(task.blockedBy || []).join(', ')}`,
+      nextSteps: ['Complete the blocking tasks first', 'Use tasks action:"next" to find a ready task']
+    };
+  }
+
+  if (task.status !== 'in-progress') {
+    await writeFile(file.path, updateTaskStatus(file.content, task.id, 'in-progress'), 'utf-8');
+    await recordStatusChange(file, specName, task, 'in-progress');
+  }
+
+  return {
+    success: true,
+    message: `Task ${task.id} marked as in-progress`,
+    data: { specName, task: { ...toTaskDetails(task), status: 'in-progress' } },
+    nextSteps: [
+      'Implement the task following its _Prompt',
+      'Log the implementation with log-implementation',
+      `Then mark it done with tasks action:"complete" taskId:"${task.id}"`
+    ]
+  };
+}
+
+async function handleComplete(file: TasksFile, specName: string, taskId?: string): Promise<ToolResponse> {
+  const task = taskId
+    ? getTaskById(file.tasks, taskId)
+    : file.tasks.find(t => t.status === 'in-progress' && !t.isHeader);
+  if (!task) {
+    return taskId
+      ? taskNotFound(taskId, specName)
+      : {
+          success: false,
+          message: 'No task is in progress. Provide taskId to complete a specific task.'
+        };
+  }
+
+  if (task.status === 'completed') {
+    return {
+      success: false,
+      message: `Task ${task.id} is already completed`
+    };
+  }
+
+  if (task.blocked) {
+    return {
+      success: false,
+      message: `Task ${task.id} is blocked by unfinished dependencies: ${(task.blockedBy || []).join(', ')}`
+    };
+  }
+
+  const updated = updateTaskStatus(file.content, task.id, 'completed');
+  await writeFile(file.path, updated, 'utf-8');
+  await recordStatusChange(file, specName, task, 'completed');
+
+  const next = findNextPendingTask(parseTasksFromMarkdown(updated).tasks);
+  return {
+    success: true,
+    message: `Task ${task.id} marked as completed`,
+    data: {
+      specName,
+      taskId: task.id,
+      nextTask: next ? toTaskSummary(next) : null
+    },
+    nextSteps: next
+      ? [`Start the next ready task with tasks action:"start" taskId:"${next.id}"`]
+      : ['No ready tasks left - check spec-status for overall progress']
+  };
+}
+
+async function handleReset(file: TasksFile, specName: string, taskId?: string): Promise<ToolResponse> {
+  if (!taskId) {
+    return {
+      success: false,
+      message: 'Missing required field for reset action. Required: taskId'
+    };
+  }
+
+  const task = getTaskById(file.tasks, taskId);
+  if (!task) {
+    return taskNotFound(taskId, specName);
+  }
+
+  if (task.status !== 'pending') {
+    await writeFile(file.path, updateTaskStatus(file.content, task.id, 'pending'), 'utf-8');
+    await recordStatusChange(file, specName, task, 'pending');
+  }
+
+  return {
+    success: true,
+    message: `Task ${task.id} marked as pending`,
+    data: { specName, taskId: task.id, previousStatus: task.status }
+  };
+}
+
+async function recordStatusChange(file: TasksFile, specName: string, task: ParsedTask, to: ParsedTask['status']): Promise<void> {
+  try {
+    await new AuditLog(file.projectPath).record({
+      actor: 'agent',
+      source: 'mcp',
+      action: 'task.status',
+      target: `${specName} task ${task.id}`,
+      specName,
+      details: { taskId: task.id, description: task.description, from: task.status, to }
+    });
+  } catch (error) {
+    // The status change already succeeded; a missing audit entry must not fail the tool call
+    console.error('Failed to record audit entry:', error);
+  }
+}
+
+function taskNotFound(taskId: string, specName: string): ToolResponse {
+  return {
+    success: false,
+    message: `Task '${taskId}' not found in specification '${specName}'`,
+    nextSteps: [`Use tasks action:"list" specName:"${specName}" to see available task IDs`]
+  };
+}
+
+function noReadyTask(tasks: ParsedTask[], specName: string): ToolResponse {
+  const blocked = tasks.filter(t => t.blocked);
+  return {
+    success: false,
+    message: blocked.length > 0
+      ? `No ready tasks in '${specName}': ${blocked.length} task(s) blocked by unfinished dependencies`
+      : `No pending tasks in '${specName}'`,
+    data: { blocked: blocked.map(t => ({ id: t.id, blockedBy: t.blockedBy })) }
+  };
+}
+
+function toTaskSummary(task: ParsedTask) {
+  return {
+    id: task.id,
+    description: task.description,
+    status: task.status,
+    isHeader: task.isHeader,
+    ready: task.ready,
+    ...(task.blocked && { blockedBy: task.blockedBy })
+  };
+}
+
+function toTaskDetails(task: ParsedTask) {
+  return {
+    ...toTaskSummary(task),
+    requirements: task.requirements,
+    dependencies: task.dependencies,
+    leverage: task.leverage,
+    files: task.files,
+    implementationDetails: task.implementationDetails,
+    prompt: task.prompt,
+    promptStructured: task.promptStructured
+  };
+}
@@ -1,14 +1,15 @@
 // Common types for the spec workflow MCP server
 import { encode } from '@toon-format/toon';
+import type { ProjectWorkspaces } from './core/project-workspaces.js';
 
 // Automation job types
 export interface AutomationJob {
   id: string;
   name: string;
-  type: 'cleanup-approvals' | 'cleanup-specs' | 'cleanup-archived-specs';
+  type: 'cleanup-approvals' | 'cleanup-specs' | 'cleanup-archived-specs' | 'verify-artifacts';
   enabled: boolean;
   config: {
-    daysOld: number; // Number of days to keep; delete older records
+    daysOld: number; // Number of days to keep; delete older records. Unused by verify-artifacts
   };
   schedule: string; // Cron expression (e.g., "0 2 * * *" for daily at 2 AM)
   lastRun?: string; // ISO timestamp of last execution
@@ -16,12 +17,69 @@ export interface AutomationJob {
   createdAt: string; // ISO timestamp
 }
 
+// Outbound webhook types
+export type WebhookEventType =
+  | 'approval-update'
+  | 'task-status-update'
+  | 'spec-update'
+  | 'implementation-log-update';
+
+export interface WebhookConfig {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  events: WebhookEventType[]; // Empty means every event
+  projectIds?: string[]; // Empty or missing means every project
+  secret?: string; // HMAC-SHA256 signing secret
+  createdAt: string; // ISO timestamp
+}
+
+// Chat notifications for pending approvals
+export interface ChatChannelConfig {
+  id: string;
+  name: string;
+  platform: 'slack' | 'teams';
+  webhookUrl: string; // Slack incoming webhook or Teams workflow/incoming webhook URL
+  enabled: boolean;
+  projectIds?: string[]; // Empty or missing means every project
+}
+
+export interface ChatNotificationSettings {
+  channels: ChatChannelConfig[];
+  reminderAfterMinutes: number; // Remind when an approval stays pending this long, and again each interval; 0 disables
+  maxReminders: number; // Reminders after the first one are sent as escalations
+  dashboardUrl?: string; // Dashboard address for links in messages, e.g. when reviewers reach it through a proxy
+}
+
 export interface GlobalSettings {
   automationJobs: AutomationJob[];
+  webhooks?: WebhookConfig[];
+  chatNotifications?: ChatNotificationSettings;
   createdAt?: string;
   lastModified?: string;
 }
 
+export interface WebhookDelivery {
+  id: string; // Also sent as the X-Spec-Workflow-Delivery header
+  webhookId: string;
+  webhookName: string;
+  event: WebhookEventType | 'test';
+  projectId?: string;
+  url: string;
+  deliveredAt: string; // ISO timestamp of the last attempt
+  success: boolean;
+  attempts: number;
+  statusCode?: number;
+  error?: string;
+  duration: number; // in milliseconds, across all attempts
+}
+
+export interface WebhookDeliveryLog {
+  deliveries: WebhookDelivery[];
+  lastUpdated?: string;
+}
+
 export interface JobExecutionHistory {
   jobId: string;
   jobName: string;
@@ -43,6 +101,17 @@ export interface ToolContext {
   projectPath: string;
   dashboardUrl?: string; // Optional for backwards compatibility
   lang?: string; // Language code for i18n (e.g., 'en', 'ja')
+  notifier?: ToolNotifier; // Set by the MCP server for each tool call
+  signal?: AbortSignal; // Aborted when the client cancels the tool call
+  workspaces?: ProjectWorkspaces; // Projects the MCP server can work on, initialized on first use
+  switchProject?: (projectPath: string) => Promise<void>; // Changes the session's active project
+}
+
+// Pushes progress and log messages to the MCP client while a tool call is running.
+// Both are no-ops when the client did not ask for them.
+export interface ToolNotifier {
+  progress(progress: number, total?: number, message?: string): Promise<void>;
+  log(level: 'debug' | 'info' | 'notice' | 'warning' | 'error', message: string, data?: Record<string, unknown>): Promise<void>;
 }
 
 export interface SpecData {
@@ -66,6 +135,8 @@ export interface SpecData {
 export interface PhaseStatus {
   exists: boolean;
   approved?: boolean; // Optional for backwards compatibility  
+  approvedAt?: string;
+  changedSinceApproval?: boolean; // Document was edited after its latest approval
   lastModified?: string;
   content?: string;
 }
@@ -109,6 +180,8 @@ export interface ImplementationLogEntry {
     linesRemoved: number;
     filesChanged: number;
   };
+  statisticsSource?: 'git' | 'reported'; // Whether files and statistics were computed from git or reported by the agent
+  commits?: string[];                    // SHAs of the commits the work is in, oldest first
   artifacts: {
     apiEndpoints?: Array<{
       method: string;           // GET, POST, PUT, DELETE, PATCH
@@ -8,6 +8,7 @@ import { SpecWorkflowService } from './extension/services/SpecWorkflowService';
 import { FileWatcher } from './extension/services/FileWatcher';
 import { ApprovalEditorService } from './extension/services/ApprovalEditorService';
 import { ApprovalCommandService } from './extension/services/ApprovalCommandService';
+import { readDashboardSession, getDashboardLoginUrl } from './extension/utils/dashboardSession';
 
 export function activate(context: vscode.ExtensionContext) {
 	console.log(localize('extension.active', 'Spec Workflow MCP extension is now active!'));
@@ -52,6 +53,18 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand('spec-workflow.openWebDashboard', async () => {
+			// The session file carries the access token, so the browser is signed in automatically
+			const session = await readDashboardSession();
+			if (!session) {
+				vscode.window.showWarningMessage(localize('openWebDashboard.notRunning', 'The web dashboard is not running. Start it with: npx -y @pimzino/spec-workflow-mcp@latest --dashboard'));
+				return;
+			}
+			await vscode.env.openExternal(vscode.Uri.parse(getDashboardLoginUrl(session)));
+		})
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand('spec-workflow.refreshData', async () => {
 			// Trigger refresh through the sidebar provider
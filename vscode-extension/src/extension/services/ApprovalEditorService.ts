@@ -7,6 +7,7 @@ const localize = nls.loadMessageBundle();
 import { SpecWorkflowService } from './SpecWorkflowService';
 import { hexToColorObject, generateRandomColor } from '../utils/colorUtils';
 import { CommentModalService } from './CommentModalService';
+import { getApprovalProgress } from '../utils/approvalPolicy';
 
 export interface ApprovalEditorContext {
   approval: ApprovalData;
@@ -495,6 +496,22 @@ export class ApprovalEditorService {
     message.appendMarkdown(`**${localize('approvalHover.status', 'Status')}**: ${approval.status.toUpperCase()}\n\n`);
     message.appendMarkdown(`**${localize('approvalHover.created', 'Created')}**: ${new Date(approval.createdAt).toLocaleString()}\n\n`);
 
+    const progress = getApprovalProgress(approval);
+    const reviews = approval.reviews || [];
+    if (progress.requiredApprovals > 1 || reviews.length > 0) {
+      message.appendMarkdown(`**${localize('approvalHover.approvals', 'Approvals')}**: ${localize('approvalHover.approvalsCount', '{0} of {1}', progress.approvals, progress.requiredApprovals)}\n\n`);
+      reviews.forEach(review => {
+        const note = review.response ? ` — ${review.response}` : '';
+        message.appendMarkdown(`- **${review.reviewer}**: ${review.decision.toUpperCase()} (${new Date(review.timestamp).toLocaleString()})${note}\n`);
+      });
+      if (reviews.length > 0) {
+        message.appendMarkdown(`\n`);
+      }
+      if (progress.outstandingReviewers.length > 0) {
+        message.appendMarkdown(`**${localize('approvalHover.waitingOn', 'Waiting on')}**: ${progress.outstandingReviewers.join(', ')}\n\n`);
+      }
+    }
+
     if (approval.response) {
       message.appendMarkdown(`**${localize('approvalHover.response', 'Response')}**: ${approval.response}\n\n`);
     }
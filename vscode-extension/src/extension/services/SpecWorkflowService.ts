@@ -1,11 +1,15 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import * as os from 'os';
+import { execFile } from 'child_process';
 import { SpecData, TaskProgressData, TaskInfo, ApprovalData, SteeringStatus, PhaseStatus, LogsData, ImplementationLogEntry } from '../types';
 import { ApprovalEditorService } from './ApprovalEditorService';
 import { ArchiveService } from './ArchiveService';
 import { ImplementationLogService } from './ImplementationLogService';
 import { parseTasksFromMarkdown, updateTaskStatus } from '../utils/taskParser';
+import { computeApprovalStatus } from '../utils/approvalPolicy';
+import { appendAuditEntry, AuditEntryInput } from '../utils/auditLog';
 import { Logger } from '../utils/logger';
 
 export class SpecWorkflowService {
@@ -724,6 +728,14 @@ export class SpecWorkflowService {
 
       await fs.writeFile(tasksPath, updatedContent, 'utf-8');
       this.logger.log(`Successfully updated task ${taskId} to ${status} in spec ${specName}`);
+
+      const task = parseTasksFromMarkdown(content).tasks.find(t => t.id === taskId);
+      await this.recordAudit({
+        action: 'task.status',
+        target: `${specName} task ${taskId}`,
+        specName,
+        details: { taskId, description: task?.description, from: task?.status, to: status }
+      });
     } catch (error) {
       throw new Error(`Failed to update task status: ${error}`);
     }
@@ -745,8 +757,22 @@ export class SpecWorkflowService {
       // Ensure the spec directory exists
       const specDir = path.dirname(docPath);
       await fs.mkdir(specDir, { recursive: true });
-      
+
+      const previous = await fs.readFile(docPath, 'utf-8').catch(() => null);
       await fs.writeFile(docPath, content, 'utf-8');
+
+      await this.recordAudit({
+        action: 'document.edit',
+        target: `${specName}/${docType}.md`,
+        specName,
+        details: {
+          category: 'spec',
+          document: docType,
+          created: previous === null,
+          linesBefore: previous === null ? 0 : previous.split('\n').length,
+          linesAfter: content.split('\n').length
+        }
+      });
     } catch (error) {
       throw new Error(`Failed to save document: ${error}`);
     }
@@ -1054,6 +1080,51 @@ export class SpecWorkflowService {
     return null;
   }
 
+  /**
+   * Reviewer identity: the specWorkflow.reviewerName setting, then the workspace's
+   * git user.name, then the OS user name
+   */
+  private async getReviewerName(): Promise<string> {
+    const configured = vscode.workspace.getConfiguration('specWorkflow').get<string>('reviewerName', '').trim();
+    if (configured) {
+      return configured;
+    }
+
+    const gitUser = await this.getGitUserName();
+    if (gitUser) {
+      return gitUser;
+    }
+
+    try {
+      return os.userInfo().username || 'vscode';
+    } catch {
+      return 'vscode';
+    }
+  }
+
+  private getGitUserName(): Promise<string | null> {
+    return new Promise(resolve => {
+      execFile('git', ['config', 'user.name'], { cwd: this.workspaceRoot || undefined, timeout: 5000 }, (error, stdout) => {
+        resolve(error ? null : stdout.trim() || null);
+      });
+    });
+  }
+
+  /**
+   * Append an entry to the project's audit log. Failures are logged rather than thrown
+   * so a read-only audit directory never blocks the change itself.
+   */
+  private async recordAudit(entry: Omit<AuditEntryInput, 'actor'>): Promise<void> {
+    if (!this.specWorkflowRoot) {
+      return;
+    }
+    try {
+      await appendAuditEntry(this.specWorkflowRoot, { ...entry, actor: await this.getReviewerName() });
+    } catch (error: any) {
+      this.logger.warn('Failed to write audit log entry:', error.message);
+    }
+  }
+
   private async updateApprovalStatus(
     id: string,
     status: 'approved' | 'rejected' | 'needs-revision',
@@ -1071,13 +1142,30 @@ export class SpecWorkflowService {
       throw new Error(`Approval ${id} not found`);
     }
 
+    const content = await fs.readFile(approvalPath, 'utf-8');
+    const approval = JSON.parse(content) as ApprovalData;
+    if (approval.status !== 'pending') {
+      throw new Error(`Approval ${id} is already ${approval.status}`);
+    }
+
     try {
-      const content = await fs.readFile(approvalPath, 'utf-8');
-      const approval = JSON.parse(content);
+      // Record this reviewer's decision (replacing any earlier vote) and recompute the aggregate status
+      const reviewer = await this.getReviewerName();
+      const timestamp = new Date().toISOString();
+      const reviews = (approval.reviews || []).filter(review => review.reviewer.toLowerCase() !== reviewer.toLowerCase());
+      reviews.push({
+        reviewer,
+        decision: status,
+        timestamp,
+        response,
+        ...(annotations && { annotations }),
+        ...(comments && { comments })
+      });
 
-      approval.status = status;
+      approval.reviews = reviews;
+      approval.status = computeApprovalStatus(reviews, approval.policy);
       approval.response = response;
-      approval.respondedAt = new Date().toISOString();
+      approval.respondedAt = timestamp;
 
       if (annotations) {
         approval.annotations = annotations;
@@ -1088,6 +1176,20 @@ export class SpecWorkflowService {
       }
 
       await fs.writeFile(approvalPath, JSON.stringify(approval, null, 2), 'utf-8');
+
+      await this.recordAudit({
+        action: status === 'approved' ? 'approval.approve' : status === 'rejected' ? 'approval.reject' : 'approval.needs-revision',
+        target: approval.filePath || approval.title,
+        specName: approval.category === 'spec' ? approval.categoryName : undefined,
+        details: {
+          approvalId: id,
+          title: approval.title,
+          decision: status,
+          resultingStatus: approval.status,
+          ...(response && { response }),
+          ...(comments && comments.length > 0 && { commentCount: comments.length })
+        }
+      });
     } catch (error) {
       throw new Error(`Failed to update approval status: ${error}`);
     }
@@ -1371,6 +1473,7 @@ export class SpecWorkflowService {
     // Archive the spec using the archive service
     await this.archiveService.archiveSpec(specName);
     this.logger.log(`SpecWorkflowService: Successfully archived spec '${specName}'`);
+    await this.recordAudit({ action: 'spec.archive', target: specName, specName });
 
     // Trigger UI updates
     if (this.onSpecsChangedCallback) {
@@ -1386,6 +1489,7 @@ export class SpecWorkflowService {
 
     await this.archiveService.unarchiveSpec(specName);
     this.logger.log(`SpecWorkflowService: Successfully unarchived spec '${specName}'`);
+    await this.recordAudit({ action: 'spec.unarchive', target: specName, specName });
 
     // Trigger UI updates
     if (this.onSpecsChangedCallback) {
@@ -83,6 +83,20 @@ export interface ApprovalComment {
   resolved?: boolean;
 }
 
+export interface ApprovalReview {
+  reviewer: string;
+  decision: 'approved' | 'rejected' | 'needs-revision';
+  timestamp: string;
+  response?: string;
+  annotations?: string;
+  comments?: any[];
+}
+
+export interface ApprovalPolicy {
+  requiredApprovals: number;
+  reviewers?: string[];
+}
+
 export interface ApprovalData {
   id: string;
   title: string;
@@ -104,6 +118,8 @@ export interface ApprovalData {
   metadata?: Record<string, any>;
   category: 'spec' | 'steering';
   categoryName: string; // spec or steering document name
+  policy?: ApprovalPolicy;
+  reviews?: ApprovalReview[];
 }
 
 export interface SteeringStatus {
@@ -0,0 +1,43 @@
+/**
+ * Approval Policy Module
+ * Aggregates per-reviewer decisions into an approval status.
+ * Mirrors computeApprovalStatus/getApprovalProgress in the MCP server's approval storage.
+ */
+
+import { ApprovalData, ApprovalPolicy, ApprovalReview } from '../types';
+
+const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = { requiredApprovals: 1 };
+
+/**
+ * Any rejection or revision request blocks the approval; otherwise the request is
+ * approved once it has the policy's required number of approvals.
+ */
+export function computeApprovalStatus(
+  reviews: ApprovalReview[],
+  policy: ApprovalPolicy = DEFAULT_APPROVAL_POLICY
+): ApprovalData['status'] {
+  if (reviews.some(review => review.decision === 'rejected')) {
+    return 'rejected';
+  }
+  if (reviews.some(review => review.decision === 'needs-revision')) {
+    return 'needs-revision';
+  }
+  const approvals = reviews.filter(review => review.decision === 'approved').length;
+  return approvals >= Math.max(1, policy.requiredApprovals) ? 'approved' : 'pending';
+}
+
+export function getApprovalProgress(approval: ApprovalData): {
+  requiredApprovals: number;
+  approvals: number;
+  outstandingReviewers: string[];
+} {
+  const policy = approval.policy || DEFAULT_APPROVAL_POLICY;
+  const reviews = approval.reviews || [];
+  const voted = new Set(reviews.map(review => review.reviewer.toLowerCase()));
+
+  return {
+    requiredApprovals: policy.requiredApprovals,
+    approvals: reviews.filter(review => review.decision === 'approved').length,
+    outstandingReviewers: (policy.reviewers || []).filter(reviewer => !voted.has(reviewer.toLowerCase()))
+  };
+}
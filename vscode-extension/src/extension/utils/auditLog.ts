@@ -0,0 +1,45 @@
+/**
+ * Audit Log Module
+ * Appends entries to the project's audit trail in .spec-workflow/audit/audit-log.jsonl.
+ * Mirrors the entry format written by the MCP server's AuditLog so the dashboard's
+ * Audit page shows changes made from VS Code alongside its own.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+export type AuditAction =
+  | 'approval.approve'
+  | 'approval.reject'
+  | 'approval.needs-revision'
+  | 'task.status'
+  | 'document.edit'
+  | 'spec.archive'
+  | 'spec.unarchive';
+
+export interface AuditEntryInput {
+  actor: string;
+  action: AuditAction;
+  target: string;
+  specName?: string;
+  details?: Record<string, any>;
+}
+
+export function getAuditLogPath(specWorkflowRoot: string): string {
+  return path.join(specWorkflowRoot, 'audit', 'audit-log.jsonl');
+}
+
+export async function appendAuditEntry(specWorkflowRoot: string, entry: AuditEntryInput): Promise<void> {
+  const logPath = getAuditLogPath(specWorkflowRoot);
+  const line = JSON.stringify({
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...entry,
+    actor: entry.actor.trim() || 'anonymous',
+    source: 'vscode'
+  });
+
+  await fs.mkdir(path.dirname(logPath), { recursive: true });
+  await fs.appendFile(logPath, line + '\n', 'utf-8');
+}
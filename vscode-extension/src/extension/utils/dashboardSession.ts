@@ -0,0 +1,58 @@
+/**
+ * Dashboard Session Module
+ * Reads the web dashboard's connection info and access token from the global
+ * activeSession.json written by the MCP server's DashboardSessionManager.
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface DashboardSession {
+  url: string;
+  port: number;
+  pid: number;
+  startedAt: string;
+  token?: string;
+}
+
+/**
+ * Mirrors getGlobalDir() in the MCP server: SPEC_WORKFLOW_HOME, or ~/.spec-workflow-mcp
+ */
+function getGlobalDir(): string {
+  const override = process.env.SPEC_WORKFLOW_HOME;
+  if (override) {
+    return path.isAbsolute(override) ? override : path.resolve(process.cwd(), override);
+  }
+  return path.join(os.homedir(), '.spec-workflow-mcp');
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The running dashboard's session, or null when no dashboard is running
+ */
+export async function readDashboardSession(): Promise<DashboardSession | null> {
+  try {
+    const content = await fs.readFile(path.join(getGlobalDir(), 'activeSession.json'), 'utf-8');
+    const session = JSON.parse(content) as DashboardSession;
+    return session.url && isProcessAlive(session.pid) ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * URL that signs the browser in; the dashboard exchanges the token for a session
+ * cookie and removes it from the address bar
+ */
+export function getDashboardLoginUrl(session: DashboardSession): string {
+  return session.token ? `${session.url}/?token=${encodeURIComponent(session.token)}` : `${session.url}/`;
+}